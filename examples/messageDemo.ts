@@ -213,8 +213,7 @@ async function startClient() {
             if (authMethod === '1') {
                 try {
                     const phoneNumber = await question('Introdu numărul tău de telefon (format internațional, ex: +40722123456): ');
-                    // Vom implementa autentificarea cu număr de telefon în curând
-                    await client.authenticateWithPairingCode();
+                    await client.authenticateWithPairingCode(phoneNumber);
                 } catch (error) {
                     console.error('Eroare la autentificarea cu cod de asociere:', error);
                 }
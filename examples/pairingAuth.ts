@@ -79,11 +79,13 @@ client.on('auth_method_required', async () => {
     
     rl.question('Enter option (1/2): ', async (answer) => {
         if (answer === '1') {
-            try {
-                await client.authenticateWithPairingCode();
-            } catch (error) {
-                console.error('Failed to authenticate with pairing code:', error);
-            }
+            rl.question('Enter your phone number (international format, e.g. +40722123456): ', async (phoneNumber) => {
+                try {
+                    await client.authenticateWithPairingCode(phoneNumber);
+                } catch (error) {
+                    console.error('Failed to authenticate with pairing code:', error);
+                }
+            });
         } else {
             try {
                 await client.authenticateWithQR();
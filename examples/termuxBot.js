@@ -7,16 +7,19 @@
  */
 
 // Importăm biblioteca Focksup
-const { FocksupClient } = require('focksup-library');
+const { FocksupClient, formatCredentialsForStorage, parseCredentialsFromStorage } = require('focksup-library');
 const fs = require('fs');
 const path = require('path');
 
 // Setăm calea pentru fișierul de sesiune
 const SESSION_FILE_PATH = path.join(__dirname, 'session.json');
 
+// Dacă este setată, sesiunea este criptată pe disc cu această parolă
+const SESSION_PASSPHRASE = process.env.FOCKSUP_SESSION_PASSPHRASE;
+
 // Funcții pentru salvarea și încărcarea sesiunii
 const saveSession = (session) => {
-    fs.writeFileSync(SESSION_FILE_PATH, JSON.stringify(session), 'utf8');
+    fs.writeFileSync(SESSION_FILE_PATH, formatCredentialsForStorage(session, SESSION_PASSPHRASE), { encoding: 'utf8', mode: 0o600 });
     console.log('Sesiune salvată în', SESSION_FILE_PATH);
 };
 
@@ -24,7 +27,7 @@ const loadSession = () => {
     if (fs.existsSync(SESSION_FILE_PATH)) {
         const sessionData = fs.readFileSync(SESSION_FILE_PATH, 'utf8');
         console.log('Sesiune găsită. Se încearcă reconectarea...');
-        return JSON.parse(sessionData);
+        return parseCredentialsFromStorage(sessionData, SESSION_PASSPHRASE);
     }
     console.log('Nu s-a găsit nicio sesiune salvată.');
     return null;
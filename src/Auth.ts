@@ -4,7 +4,10 @@
 
 import qrcode from 'qrcode';
 import { QRCodeOptions } from './Types';
+import { encryptWithPassphrase, decryptWithPassphrase } from './Crypto';
 import { createLogger } from './Utils';
+import { AuthError, toFocksupError } from './Errors';
+import { ERROR_CODES } from './Constants';
 
 const logger = createLogger('Auth');
 
@@ -37,7 +40,7 @@ export async function generateQRCode(qrData: string, options: Partial<QRCodeOpti
         return qrCodeImage;
     } catch (error) {
         logger.error('Failed to generate QR code:', error);
-        throw error;
+        throw toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
     }
 }
 
@@ -47,13 +50,11 @@ export async function generateQRCode(qrData: string, options: Partial<QRCodeOpti
  */
 export async function generatePairingCode(pairingData: string): Promise<string> {
     try {
-        // In a real implementation, we would format the pairing code according to WhatsApp's format
-        // This is a simplified version for demonstration
-        
-        // Format the code to be 8 digits separated by dashes
+        // Format the code the way the phone shows it: 8 characters separated by a dash
         const code = pairingData
-            .replace(/[^0-9]/g, '') // Keep only numbers
-            .substring(0, 8) // Take first 8 digits
+            .toUpperCase()
+            .replace(/[^0-9A-Z]/g, '') // Keep only letters and numbers
+            .substring(0, 8) // Take first 8 characters
             .match(/.{1,4}/g)! // Group by 4
             .join('-'); // Join with dashes
             
@@ -62,7 +63,7 @@ export async function generatePairingCode(pairingData: string): Promise<string>
         return code;
     } catch (error) {
         logger.error('Failed to generate pairing code:', error);
-        throw error;
+        throw toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
     }
 }
 
@@ -74,7 +75,7 @@ export function validateCredentials(credentials: any): boolean {
     if (!credentials) return false;
     
     // Check for required fields
-    const requiredFields = ['publicKey', 'privateKey', 'serverPublicKey'];
+    const requiredFields = ['noiseKey', 'signedIdentityKey', 'me'];
     
     for (const field of requiredFields) {
         if (!credentials[field]) {
@@ -89,25 +90,47 @@ export function validateCredentials(credentials: any): boolean {
 /**
  * Format authentication credentials for storage
  * @param credentials Raw credentials
+ * @param passphrase Optional passphrase to encrypt the credentials with
  */
-export function formatCredentialsForStorage(credentials: any): string {
+export function formatCredentialsForStorage(credentials: any, passphrase?: string): string {
     try {
-        return JSON.stringify(credentials);
+        const json = JSON.stringify(credentials);
+        if (!passphrase) {
+            return json;
+        }
+        
+        return JSON.stringify({
+            encrypted: encryptWithPassphrase(Buffer.from(json), passphrase).toString('base64')
+        });
     } catch (error) {
         logger.error('Failed to format credentials for storage:', error);
-        throw error;
+        throw toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
     }
 }
 
 /**
  * Parse authentication credentials from storage
  * @param storedCredentials Stored credentials string
+ * @param passphrase Passphrase the credentials were encrypted with, if any
  */
-export function parseCredentialsFromStorage(storedCredentials: string): any {
+export function parseCredentialsFromStorage(storedCredentials: string, passphrase?: string): any {
     try {
-        return JSON.parse(storedCredentials);
+        const parsed = JSON.parse(storedCredentials);
+        if (typeof parsed?.encrypted !== 'string') {
+            if (passphrase) {
+                logger.warn('Stored credentials are not encrypted');
+            }
+            return parsed;
+        }
+        
+        if (!passphrase) {
+            throw new AuthError('Stored credentials are encrypted, a passphrase is required');
+        }
+        
+        const decrypted = decryptWithPassphrase(Buffer.from(parsed.encrypted, 'base64'), passphrase);
+        return JSON.parse(decrypted.toString('utf8'));
     } catch (error) {
         logger.error('Failed to parse credentials from storage:', error);
-        throw error;
+        throw toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
     }
 }
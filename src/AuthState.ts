@@ -0,0 +1,265 @@
+/**
+ * Built-in stores for credentials and end-to-end encryption keys
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AuthStateStore, AuthStateCategory, AuthenticationCredentials } from './Types';
+import { deriveKeyFromPassphrase, aesEncryptGCM, aesDecryptGCM, hmacSha256, SCRYPT_PARAMS } from './Crypto';
+import { createLogger, writeFileAtomic } from './Utils';
+import { AuthError } from './Errors';
+
+// Credentials are a single value in the 'creds' category
+const CREDS_ID = 'creds';
+
+// Salt and passphrase check for an encrypted store directory
+const KEY_FILE = 'encryption.json';
+const KEY_CHECK_LABEL = 'focksup auth state';
+
+/**
+ * JSON replacer/reviver pair that keeps Buffers intact as base64
+ */
+export const BufferJSON = {
+    replacer: (key: string, value: any): any => {
+        // Buffer.toJSON() has already run by the time the replacer sees the value
+        if (value && value.type === 'Buffer' && Array.isArray(value.data)) {
+            return { type: 'Buffer', data: Buffer.from(value.data).toString('base64') };
+        }
+        return value;
+    },
+    reviver: (key: string, value: any): any => {
+        if (value && value.type === 'Buffer' && typeof value.data === 'string') {
+            return Buffer.from(value.data, 'base64');
+        }
+        return value;
+    }
+};
+
+/**
+ * Keeps everything in memory; state is lost when the process exits
+ */
+export class MemoryAuthStateStore implements AuthStateStore {
+    private values: Map<string, string> = new Map();
+    
+    async get<T = any>(category: AuthStateCategory, id: string): Promise<T | undefined> {
+        const value = this.values.get(`${category}/${id}`);
+        return typeof value === 'undefined' ? undefined : JSON.parse(value, BufferJSON.reviver);
+    }
+    
+    async set(category: AuthStateCategory, id: string, value: any): Promise<void> {
+        // Stored serialized so callers can't mutate the saved state by accident
+        this.values.set(`${category}/${id}`, JSON.stringify(value, BufferJSON.replacer));
+    }
+    
+    async delete(category: AuthStateCategory, id: string): Promise<void> {
+        this.values.delete(`${category}/${id}`);
+    }
+}
+
+/**
+ * Keeps one JSON file per value inside a directory
+ * With a passphrase, every file is encrypted with AES-256-GCM under a scrypt-derived key
+ */
+export class FileAuthStateStore implements AuthStateStore {
+    private directory: string;
+    private passphrase?: string;
+    private encryptionKey?: Promise<Buffer>;
+    private logger: ReturnType<typeof createLogger>;
+    
+    constructor(directory: string, options: { passphrase?: string, logLevel?: string } = {}) {
+        this.directory = directory;
+        this.passphrase = options.passphrase;
+        this.logger = createLogger('FileAuthStateStore', options.logLevel);
+    }
+    
+    async get<T = any>(category: AuthStateCategory, id: string): Promise<T | undefined> {
+        const data = await this.readFile(category, id, this.getFilePath(category, id));
+        if (!data) {
+            return this.migrateValue<T>(category, id);
+        }
+        
+        const json = this.passphrase ? await this.decryptValue(category, id, data) : data.toString('utf8');
+        return JSON.parse(json, BufferJSON.reviver);
+    }
+    
+    async set(category: AuthStateCategory, id: string, value: any): Promise<void> {
+        try {
+            const json = JSON.stringify(value, BufferJSON.replacer);
+            const data = this.passphrase ? await this.encryptValue(category, id, json) : json;
+            
+            await writeFileAtomic(this.getFilePath(category, id), data);
+        } catch (error) {
+            this.logger.error(`Failed to write ${category} ${id}:`, error);
+            throw error;
+        }
+    }
+    
+    async delete(category: AuthStateCategory, id: string): Promise<void> {
+        // A copy in the other format would otherwise come back on the next read
+        for (const encrypted of [true, false]) {
+            try {
+                await fs.promises.unlink(this.getFilePath(category, id, encrypted));
+            } catch (error: any) {
+                if (error?.code !== 'ENOENT') {
+                    this.logger.error(`Failed to delete ${category} ${id}:`, error);
+                    throw error;
+                }
+            }
+        }
+    }
+    
+    /**
+     * Get the file a value is kept in
+     * @param category Value category
+     * @param id Value ID
+     * @param encrypted Whether to name the encrypted or the plain file; defaults to this store's format
+     */
+    private getFilePath(category: AuthStateCategory, id: string, encrypted: boolean = !!this.passphrase): string {
+        const extension = encrypted ? 'enc' : 'json';
+        return path.join(this.directory, `${category}-${encodeURIComponent(id)}.${extension}`);
+    }
+    
+    /**
+     * Read a value's file
+     * @param category Value category
+     * @param id Value ID
+     * @param filePath File to read
+     * @returns The file contents, or undefined if the file does not exist
+     */
+    private async readFile(category: AuthStateCategory, id: string, filePath: string): Promise<Buffer | undefined> {
+        try {
+            return await fs.promises.readFile(filePath);
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                return undefined;
+            }
+            this.logger.error(`Failed to read ${category} ${id}:`, error);
+            throw error;
+        }
+    }
+    
+    /**
+     * Pick up a value saved before the passphrase was turned on or off
+     * A plain value is encrypted in place; an encrypted one can't be read without the passphrase,
+     * so that fails instead of looking like an empty store and logging the user out
+     * @param category Value category
+     * @param id Value ID
+     */
+    private async migrateValue<T>(category: AuthStateCategory, id: string): Promise<T | undefined> {
+        const otherPath = this.getFilePath(category, id, !this.passphrase);
+        const data = await this.readFile(category, id, otherPath);
+        if (!data) {
+            return undefined;
+        }
+        
+        if (!this.passphrase) {
+            throw new AuthError(`Auth state ${category} ${id} in ${this.directory} is encrypted, a passphrase is required`);
+        }
+        
+        const value = JSON.parse(data.toString('utf8'), BufferJSON.reviver);
+        await this.set(category, id, value);
+        await fs.promises.unlink(otherPath);
+        
+        this.logger.info(`Encrypted ${category} ${id} in ${this.directory}`);
+        
+        return value;
+    }
+    
+    /**
+     * Encrypt a serialized value; the file name is authenticated so files can't be swapped
+     * @param category Value category
+     * @param id Value ID
+     * @param json Serialized value
+     */
+    private async encryptValue(category: AuthStateCategory, id: string, json: string): Promise<Buffer> {
+        const key = await this.getEncryptionKey();
+        const iv = crypto.randomBytes(12);
+        
+        return Buffer.concat([iv, aesEncryptGCM(Buffer.from(json), key, iv, Buffer.from(`${category}/${id}`))]);
+    }
+    
+    /**
+     * Decrypt a value written by encryptValue
+     * @param category Value category
+     * @param id Value ID
+     * @param data File contents
+     */
+    private async decryptValue(category: AuthStateCategory, id: string, data: Buffer): Promise<string> {
+        const key = await this.getEncryptionKey();
+        
+        try {
+            return aesDecryptGCM(data.subarray(12), key, data.subarray(0, 12), Buffer.from(`${category}/${id}`)).toString('utf8');
+        } catch (error) {
+            throw new AuthError(`Auth state ${category} ${id} in ${this.directory} is corrupt or has been tampered with`);
+        }
+    }
+    
+    /**
+     * Derive the store key from the passphrase, creating the key file on first use
+     */
+    private getEncryptionKey(): Promise<Buffer> {
+        if (!this.encryptionKey) {
+            this.encryptionKey = this.loadEncryptionKey();
+            // Allow a retry, e.g. with the directory fixed, after a failure
+            this.encryptionKey.catch(() => {
+                this.encryptionKey = undefined;
+            });
+        }
+        return this.encryptionKey;
+    }
+    
+    private async loadEncryptionKey(): Promise<Buffer> {
+        const keyFilePath = path.join(this.directory, KEY_FILE);
+        
+        let keyFile: { salt: string, logN: number, r: number, p: number, check: string } | undefined;
+        try {
+            keyFile = JSON.parse(await fs.promises.readFile(keyFilePath, 'utf8'));
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                throw new AuthError(`Unreadable key file ${keyFilePath}: ${error?.message || error}`);
+            }
+        }
+        
+        if (keyFile) {
+            const key = deriveKeyFromPassphrase(this.passphrase!, Buffer.from(keyFile.salt, 'base64'), keyFile);
+            const check = hmacSha256(key, Buffer.from(KEY_CHECK_LABEL));
+            const expected = Buffer.from(keyFile.check, 'base64');
+            if (expected.length !== check.length || !crypto.timingSafeEqual(check, expected)) {
+                throw new AuthError(`Wrong passphrase for the auth state in ${this.directory}`);
+            }
+            return key;
+        }
+        
+        const salt = crypto.randomBytes(16);
+        const key = deriveKeyFromPassphrase(this.passphrase!, salt);
+        
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.writeFile(keyFilePath, JSON.stringify({
+            ...SCRYPT_PARAMS,
+            salt: salt.toString('base64'),
+            check: hmacSha256(key, Buffer.from(KEY_CHECK_LABEL)).toString('base64')
+        }), { mode: 0o600, flag: 'wx' });
+        
+        this.logger.info(`Created encryption key file in ${this.directory}`);
+        
+        return key;
+    }
+}
+
+/**
+ * Load the saved credentials from a store
+ * @param store Auth state store
+ */
+export async function loadCredentials(store: AuthStateStore): Promise<AuthenticationCredentials | undefined> {
+    return store.get<AuthenticationCredentials>('creds', CREDS_ID);
+}
+
+/**
+ * Save credentials to a store
+ * @param store Auth state store
+ * @param credentials Credentials to save
+ */
+export async function saveCredentials(store: AuthStateStore, credentials: AuthenticationCredentials): Promise<void> {
+    await store.set('creds', CREDS_ID, credentials);
+}
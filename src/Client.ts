@@ -2,11 +2,17 @@
  * Main client class for Focksup Library
  */
 
-import EventEmitter from 'events';
+import EventEmitter, { on } from 'events';
+import { Readable } from 'stream';
 import { WAConnection } from './WAConnection';
 import { MessageHandler } from './MessageHandler';
 import { GroupHandler } from './GroupHandler';
 import { MediaHandler } from './MediaHandler';
+import { MediaCache } from './MediaCache';
+import { SendQueue } from './SendQueue';
+import { SignalRepository } from './SignalProtocol';
+import { SenderKeyRepository } from './SenderKeys';
+import { MemoryAuthStateStore, loadCredentials, saveCredentials } from './AuthState';
 import { generateQRCode, generatePairingCode } from './Auth';
 import PuppeteerAuth from './PuppeteerAuth';
 import FallbackAuth from './FallbackAuth';
@@ -14,19 +20,40 @@ import {
     ClientOptions, 
     ConnectionState, 
     AuthenticationCredentials,
+    AuthStateStore,
     MessageType,
-    Message 
+    Message,
+    MessageSendOptions,
+    SendStatus,
+    DisconnectReason,
+    MediaTransferOptions,
+    MediaSendOptions,
+    MediaInput,
+    StickerSendOptions,
+    FocksupClientEvents,
+    FocksupEventPayload,
+    Jid
 } from './Types';
 import { delay, createLogger } from './Utils';
+import { FocksupError, ConnectionError, AuthError, toFocksupError } from './Errors';
+import { getCallingCode } from './PhoneNumber';
+import { shouldReconnect, getReconnectDelay } from './Reconnection';
+import { ERROR_CODES } from './Constants';
 
-export class FocksupClient extends EventEmitter {
+export class FocksupClient extends EventEmitter<FocksupClientEvents> {
     private connection: WAConnection;
     private messageHandler: MessageHandler;
     private groupHandler: GroupHandler;
     private mediaHandler: MediaHandler;
+    private signalRepository: SignalRepository;
+    private senderKeys: SenderKeyRepository;
+    private sendQueue: SendQueue;
+    private authStore: AuthStateStore;
+    private pendingSave: Promise<void> = Promise.resolve();
     private options: ClientOptions;
     private credentials?: AuthenticationCredentials;
     private state: ConnectionState = 'disconnected';
+    private reconnecting = false;
     private logger: ReturnType<typeof createLogger>;
     
     constructor(options: Partial<ClientOptions> = {}) {
@@ -36,21 +63,50 @@ export class FocksupClient extends EventEmitter {
             restartOnConnectionLost: true,
             maxReconnectAttempts: 5,
             reconnectInterval: 3000,
+            maxReconnectDelay: 60000,
+            reconnectJitter: 0.2,
             logLevel: 'info',
             ...options
         };
         
+        if (this.options.defaultRegion && !getCallingCode(this.options.defaultRegion)) {
+            throw new FocksupError(`Unsupported default region ${this.options.defaultRegion}`, { code: ERROR_CODES.UNSUPPORTED_REGION });
+        }
+        
         this.logger = createLogger('FocksupClient', this.options.logLevel);
         this.connection = new WAConnection(this.options);
-        this.messageHandler = new MessageHandler(this.connection);
-        this.groupHandler = new GroupHandler(this.connection);
-        this.mediaHandler = new MediaHandler(this.connection);
+        this.authStore = this.options.authStore || new MemoryAuthStateStore();
+        this.signalRepository = new SignalRepository(this.connection, this.authStore, this.options.logLevel);
+        this.senderKeys = new SenderKeyRepository(this.authStore, this.options.logLevel);
+        this.sendQueue = new SendQueue(
+            message => this.messageHandler.deliverMessage(message),
+            () => this.connection.isConnected(),
+            this.options.sendQueue,
+            this.options.logLevel
+        );
+        this.messageHandler = new MessageHandler(
+            this.connection,
+            this.signalRepository,
+            this.senderKeys,
+            this.options.defaultRegion,
+            this.sendQueue,
+            this.options.logLevel
+        );
+        this.groupHandler = new GroupHandler(this.connection, this.messageHandler, this.senderKeys, this.options.defaultRegion);
+        this.mediaHandler = new MediaHandler(
+            this.connection,
+            this.messageHandler,
+            this.options.mediaCache && new MediaCache(this.options.mediaCache, this.options.mediaCacheTtl),
+            this.options.mediaFetch
+        );
+        this.messageHandler.setGroupHandler(this.groupHandler);
         
         this.setupEventListeners();
     }
     
     /**
      * Connect to WhatsApp Web
+     * Without credentials, a session saved in the auth store is resumed if there is one
      * @param credentials Optional credentials for reconnection
      */
     async connect(credentials?: AuthenticationCredentials): Promise<void> {
@@ -59,6 +115,10 @@ export class FocksupClient extends EventEmitter {
             this.state = 'connecting';
             this.emit('connecting');
             
+            if (!credentials) {
+                credentials = await this.loadStoredCredentials();
+            }
+            
             if (credentials) {
                 this.credentials = credentials;
                 await this.connection.connectWithCredentials(credentials);
@@ -72,8 +132,9 @@ export class FocksupClient extends EventEmitter {
         } catch (error) {
             this.logger.error('Connection failed:', error);
             this.state = 'disconnected';
-            this.emit('connection_failed', error);
-            throw error;
+            const failure = toFocksupError(error, ERROR_CODES.CONNECTION_REFUSED, ConnectionError);
+            this.emit('connection_failed', failure);
+            throw failure;
         }
     }
     
@@ -96,17 +157,21 @@ export class FocksupClient extends EventEmitter {
             this.state = 'connected';
             this.emit('authenticated');
             this.emit('ready');
+            
+            this.uploadPreKeys();
         } catch (error) {
             this.logger.error('QR authentication failed:', error);
-            this.emit('auth_failure', error);
-            throw error;
+            const failure = toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
+            this.emit('auth_failure', failure);
+            throw failure;
         }
     }
     
     /**
      * Authenticate using Pairing Code
+     * @param phoneNumber Phone number of the account to link to; only optional with useFallbackAuth
      */
-    async authenticateWithPairingCode(): Promise<string> {
+    async authenticateWithPairingCode(phoneNumber?: string): Promise<string> {
         // Verificăm dacă useFallbackAuth este setat pentru a sări peste autentificarea reală
         if (this.options.useFallbackAuth) {
             this.logger.info('Folosesc metoda de autentificare de rezervă pentru cod de asociere (forțat prin opțiuni)!');
@@ -135,7 +200,11 @@ export class FocksupClient extends EventEmitter {
         
         // Implementare normală pentru sisteme care suportă conexiunea reală
         try {
-            const pairingCodeData = await this.connection.requestPairingCode();
+            if (!phoneNumber) {
+                throw new AuthError('A phone number is needed to request a pairing code', { code: ERROR_CODES.AUTHENTICATION_FAILURE });
+            }
+            
+            const pairingCodeData = await this.connection.requestPairingCode(phoneNumber);
             const pairingCode = await generatePairingCode(pairingCodeData);
             
             this.logger.info('Generated pairing code for authentication');
@@ -150,6 +219,8 @@ export class FocksupClient extends EventEmitter {
             this.emit('authenticated');
             this.emit('ready');
             
+            this.uploadPreKeys();
+            
             return pairingCode;
         } catch (error) {
             this.logger.error('Pairing code authentication failed:', error);
@@ -161,8 +232,9 @@ export class FocksupClient extends EventEmitter {
                 return "123-456"; // Cod demo
             }
             
-            this.emit('auth_failure', error);
-            throw error;
+            const failure = toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
+            this.emit('auth_failure', failure);
+            throw failure;
         }
     }
     
@@ -224,8 +296,9 @@ export class FocksupClient extends EventEmitter {
         } catch (error) {
             this.logger.error('Autentificare cu Puppeteer eșuată:', error);
             this.state = 'disconnected';
-            this.emit('auth_failure', error);
-            throw error;
+            const failure = toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
+            this.emit('auth_failure', failure);
+            throw failure;
         }
     }
     
@@ -262,7 +335,7 @@ export class FocksupClient extends EventEmitter {
             this.logger.info('Autentificare de rezervă completă (doar demo)!');
         } catch (error) {
             this.logger.error('Autentificare de rezervă eșuată:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
         }
     }
     
@@ -272,46 +345,133 @@ export class FocksupClient extends EventEmitter {
     async disconnect(): Promise<void> {
         try {
             this.logger.info('Disconnecting from WhatsApp Web...');
+            this.reconnecting = false;
             await this.connection.disconnect();
             this.state = 'disconnected';
             this.emit('disconnected');
         } catch (error) {
             this.logger.error('Disconnect failed:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.CONNECTION_CLOSED, ConnectionError);
         }
     }
     
     /**
      * Send a text message
-     * @param to Recipient's phone number
+     * @param to Recipient's phone number or JID
      * @param text Message text
+     * @param options Send options
      */
-    async sendTextMessage(to: string, text: string): Promise<Message> {
-        this.assertConnected();
-        return await this.messageHandler.sendText(to, text);
+    async sendTextMessage(to: string | Jid, text: string, options?: MessageSendOptions): Promise<Message> {
+        return await this.messageHandler.sendText(to, text, options);
     }
     
     /**
      * Send an image message
-     * @param to Recipient's phone number
-     * @param image Image buffer or URL
+     * @param to Recipient's phone number or JID
+     * @param image Image bytes, stream, URL or file path
      * @param caption Optional caption
+     * @param options Mimetype, thumbnail, progress callback and abort signal
      */
-    async sendImageMessage(to: string, image: Buffer | string, caption?: string): Promise<Message> {
+    async sendImageMessage(to: string | Jid, image: MediaInput, caption?: string, options?: MediaSendOptions): Promise<Message> {
         this.assertConnected();
-        return await this.mediaHandler.sendImage(to, image, caption);
+        return await this.mediaHandler.sendImage(to, image, caption, options);
     }
     
     /**
      * Send a document
-     * @param to Recipient's phone number
-     * @param document Document buffer or URL
+     * @param to Recipient's phone number or JID
+     * @param document Document bytes, stream, URL or file path
      * @param filename Filename
      * @param caption Optional caption
+     * @param options Mimetype, progress callback and abort signal
+     */
+    async sendDocument(
+        to: string | Jid,
+        document: MediaInput,
+        filename: string,
+        caption?: string,
+        options?: MediaSendOptions
+    ): Promise<Message> {
+        this.assertConnected();
+        return await this.mediaHandler.sendDocument(to, document, filename, caption, options);
+    }
+    
+    /**
+     * Send a video
+     * @param to Recipient's phone number or JID
+     * @param video Video bytes, stream, URL or file path
+     * @param caption Optional caption
+     * @param options Mimetype, thumbnail, progress callback and abort signal
+     */
+    async sendVideoMessage(to: string | Jid, video: MediaInput, caption?: string, options?: MediaSendOptions): Promise<Message> {
+        this.assertConnected();
+        return await this.mediaHandler.sendVideo(to, video, caption, options);
+    }
+    
+    /**
+     * Send an audio file, or a voice note with `ptt: true`
+     * Voice notes must be OGG/Opus; their waveform and duration are computed before sending
+     * @param to Recipient's phone number or JID
+     * @param audio Audio bytes, stream, URL or file path
+     * @param options Voice note flag, mimetype, progress callback and abort signal
+     */
+    async sendAudio(to: string | Jid, audio: MediaInput, options?: { ptt?: boolean } & MediaSendOptions): Promise<Message> {
+        this.assertConnected();
+        return await this.mediaHandler.sendAudio(to, audio, options);
+    }
+    
+    /**
+     * Send a sticker, converting JPEG and PNG images to 512x512 WebP
+     * @param to Recipient's phone number or JID
+     * @param sticker Image bytes, stream, URL or file path
+     * @param options Sticker pack metadata, mimetype, progress callback and abort signal
      */
-    async sendDocument(to: string, document: Buffer | string, filename: string, caption?: string): Promise<Message> {
+    async sendSticker(to: string | Jid, sticker: MediaInput, options?: StickerSendOptions): Promise<Message> {
         this.assertConnected();
-        return await this.mediaHandler.sendDocument(to, document, filename, caption);
+        return await this.mediaHandler.sendSticker(to, sticker, options);
+    }
+    
+    /**
+     * Download and decrypt the media of a message
+     * @param message Message with media
+     * @param options Progress callback and abort signal
+     */
+    async downloadMedia(message: Message, options?: MediaTransferOptions): Promise<Buffer> {
+        return await this.mediaHandler.downloadMedia(message, options);
+    }
+    
+    /**
+     * Download the media of a message as a stream, decrypting it on the fly
+     * The stream errors if verification fails at the end, in which case its output must be discarded
+     * @param message Message with media
+     * @param options Progress callback and abort signal
+     */
+    async downloadMediaStream(message: Message, options?: MediaTransferOptions): Promise<Readable> {
+        return await this.mediaHandler.downloadMediaStream(message, options);
+    }
+    
+    /**
+     * Send a text message to a group
+     * @param groupId Group ID
+     * @param text Message text
+     */
+    async sendGroupTextMessage(groupId: string | Jid, text: string): Promise<Message> {
+        return await this.groupHandler.sendText(groupId, text);
+    }
+    
+    /**
+     * Get the delivery state of a message that is queued or was sent recently
+     * @param messageId Message ID
+     */
+    getSendStatus(messageId: string): SendStatus | undefined {
+        return this.sendQueue.getStatus(messageId);
+    }
+    
+    /**
+     * Get the number of messages waiting to be sent
+     */
+    getSendQueueSize(): number {
+        return this.sendQueue.size;
     }
     
     /**
@@ -319,7 +479,7 @@ export class FocksupClient extends EventEmitter {
      * @param name Group name
      * @param participants Array of participant phone numbers
      */
-    async createGroup(name: string, participants: string[]): Promise<{ id: string, participants: string[] }> {
+    async createGroup(name: string, participants: (string | Jid)[]): Promise<{ id: string, participants: string[] }> {
         this.assertConnected();
         return await this.groupHandler.createGroup(name, participants);
     }
@@ -329,7 +489,7 @@ export class FocksupClient extends EventEmitter {
      * @param groupId Group ID
      * @param participants Array of participant phone numbers
      */
-    async addGroupParticipants(groupId: string, participants: string[]): Promise<{ added: string[], failed: string[] }> {
+    async addGroupParticipants(groupId: string | Jid, participants: (string | Jid)[]): Promise<{ added: string[], failed: string[] }> {
         this.assertConnected();
         return await this.groupHandler.addParticipants(groupId, participants);
     }
@@ -339,7 +499,7 @@ export class FocksupClient extends EventEmitter {
      * @param groupId Group ID
      * @param participants Array of participant phone numbers
      */
-    async removeGroupParticipants(groupId: string, participants: string[]): Promise<{ removed: string[], failed: string[] }> {
+    async removeGroupParticipants(groupId: string | Jid, participants: (string | Jid)[]): Promise<{ removed: string[], failed: string[] }> {
         this.assertConnected();
         return await this.groupHandler.removeParticipants(groupId, participants);
     }
@@ -358,12 +518,40 @@ export class FocksupClient extends EventEmitter {
         return this.credentials;
     }
     
+    /**
+     * Iterate over occurrences of an event, e.g. `for await (const message of client.events('message'))`
+     * Events are buffered from the moment this is called until they are read. Events with a
+     * single argument yield it, others yield their arguments as a tuple
+     * @param event Event name
+     * @param options Abort signal that ends the iteration
+     */
+    events<E extends keyof FocksupClientEvents>(
+        event: E,
+        options: { signal?: AbortSignal } = {}
+    ): AsyncIterableIterator<FocksupEventPayload<E>> {
+        // Listen right away rather than on the first read, so no event is missed in between
+        const iterator: AsyncIterableIterator<any[]> = on(this as EventEmitter, event, { signal: options.signal });
+        
+        return (async function* () {
+            try {
+                for await (const args of iterator) {
+                    yield (args.length === 1 ? args[0] : args.length === 0 ? undefined : args) as FocksupEventPayload<E>;
+                }
+            } catch (error) {
+                // Aborting is how the caller stops listening, not a failure
+                if (!options.signal?.aborted) {
+                    throw error;
+                }
+            }
+        })();
+    }
+    
     /**
      * Assert that client is connected
      */
     private assertConnected(): void {
         if (this.state !== 'connected') {
-            throw new Error('Client is not connected to WhatsApp');
+            throw new ConnectionError('Client is not connected to WhatsApp', { code: ERROR_CODES.NOT_CONNECTED });
         }
     }
     
@@ -374,15 +562,26 @@ export class FocksupClient extends EventEmitter {
         this.connection.on('open', () => {
             this.state = 'connected';
             this.emit('ready');
+            this.flushSendQueue();
         });
         
-        this.connection.on('close', async (reason) => {
+        this.connection.on('close', async (info) => {
+            const wasConnected = this.state === 'connected';
             this.state = 'disconnected';
-            this.emit('disconnected', reason);
+            this.emit('disconnected', info);
             
-            // Try to reconnect if enabled
-            if (this.options.restartOnConnectionLost) {
-                await this.handleReconnection();
+            // A close during a reconnection attempt is handled by the running attempt
+            if (this.options.restartOnConnectionLost && wasConnected && !this.reconnecting) {
+                await this.handleReconnection(info.disconnectReason);
+            }
+        });
+        
+        // Each QR code expires after a while and is replaced by the next one
+        this.connection.on('qr_update', async (qrData: string) => {
+            try {
+                this.emit('qr', await generateQRCode(qrData), qrData);
+            } catch (error) {
+                this.logger.warn('Failed to generate the next QR code:', error);
             }
         });
         
@@ -390,6 +589,18 @@ export class FocksupClient extends EventEmitter {
             this.emit('message', message);
         });
         
+        this.connection.on('encrypted_message', async (data) => {
+            try {
+                this.emit('message', await this.messageHandler.decryptMessage(data));
+            } catch (error) {
+                this.emit('decryption_failed', { id: data.id, from: data.from, error });
+            }
+        });
+        
+        this.connection.on('prekey_low', () => {
+            this.uploadPreKeys();
+        });
+        
         this.connection.on('message_create', (message) => {
             this.emit('message_create', message);
         });
@@ -399,43 +610,157 @@ export class FocksupClient extends EventEmitter {
         });
         
         this.connection.on('group_update', (update) => {
+            this.groupHandler.handleGroupUpdate(update).catch(error => {
+                this.logger.warn(`Failed to update sender keys for group ${update.id}:`, error);
+            });
             this.emit('group_update', update);
         });
         
         this.connection.on('presence_update', (update) => {
             this.emit('presence_update', update);
         });
+        
+        this.mediaHandler.on('progress', (progress) => {
+            this.emit('media_progress', progress);
+        });
+        
+        this.sendQueue.on('status', (update) => {
+            this.emit('send_status', update);
+        });
+        
+        // Keep the auth store in sync with the session
+        this.on('authenticated', () => {
+            this.persistCredentials();
+        });
+        
+        this.connection.on('creds_update', (update) => {
+            if (this.credentials) {
+                this.credentials = { ...this.credentials, ...update };
+                this.persistCredentials();
+            }
+        });
+    }
+    
+    /**
+     * Load credentials saved in the auth store, if they can resume a session
+     */
+    private async loadStoredCredentials(): Promise<AuthenticationCredentials | undefined> {
+        const stored = await loadCredentials(this.authStore);
+        if (!stored) {
+            return undefined;
+        }
+        
+        const hasKeys = !!(stored.me && stored.noiseKey);
+        const hasBrowserSession = !!(stored.cookies && stored.localStorage);
+        if (!hasKeys && !hasBrowserSession) {
+            this.logger.debug('Ignoring incomplete stored credentials');
+            return undefined;
+        }
+        
+        this.logger.info('Resuming session from the auth store');
+        return stored;
     }
     
     /**
-     * Handle reconnection logic
+     * Save the current credentials to the auth store in the background
      */
-    private async handleReconnection(): Promise<void> {
+    private persistCredentials(): void {
+        if (!this.credentials) {
+            return;
+        }
+        
+        // Saves run in order so an older snapshot never overwrites a newer one
+        const credentials = this.credentials;
+        this.pendingSave = this.pendingSave
+            .then(() => saveCredentials(this.authStore, credentials))
+            .catch(error => {
+                this.logger.warn('Failed to save credentials:', error);
+            });
+    }
+    
+    /**
+     * Send messages queued while offline in the background
+     */
+    private flushSendQueue(): void {
+        this.messageHandler.flushSendQueue().catch(error => {
+            this.logger.warn('Failed to send queued messages:', error);
+        });
+    }
+    
+    /**
+     * Upload pre-keys in the background so others can start sessions with us
+     */
+    private uploadPreKeys(): void {
+        this.messageHandler.uploadPreKeys().catch(error => {
+            this.logger.warn('Pre-key upload failed:', error);
+        });
+    }
+    
+    /**
+     * Reconnect after the connection closed, backing off exponentially between attempts
+     * A lost network or restarting server is retried until it is back: after maxReconnectAttempts
+     * the attempts go on every maxReconnectDelay. Stops for good only when the close reason or a
+     * failed attempt shows reconnecting cannot help
+     * @param disconnectReason Why the connection closed
+     */
+    private async handleReconnection(disconnectReason: DisconnectReason): Promise<void> {
+        if (!shouldReconnect(disconnectReason)) {
+            this.logger.warn(`Not reconnecting: ${disconnectReason === 'logged_out'
+                ? 'the session was logged out and must be authenticated again'
+                : 'the session was opened somewhere else'}`);
+            return;
+        }
+        
         if (!this.credentials) {
             this.logger.warn('Cannot reconnect: No credentials available');
             return;
         }
         
+        this.reconnecting = true;
         let attempts = 0;
         
-        while (attempts < this.options.maxReconnectAttempts) {
-            try {
+        try {
+            while (true) {
                 attempts++;
-                this.logger.info(`Reconnection attempt ${attempts}/${this.options.maxReconnectAttempts}`);
-                this.emit('reconnecting', attempts);
                 
-                await delay(this.options.reconnectInterval);
-                await this.connect(this.credentials);
+                // A restarting server is usually back at once, so the first attempt does not wait;
+                // past the attempt limit the backoff is held at its maximum
+                const backingOff = attempts <= this.options.maxReconnectAttempts;
+                const wait = attempts === 1 && disconnectReason === 'server_restart'
+                    ? 0
+                    : backingOff
+                        ? getReconnectDelay(attempts, this.options)
+                        : getReconnectDelay(1, { ...this.options, reconnectInterval: this.options.maxReconnectDelay });
+                this.logger.info(backingOff
+                    ? `Reconnection attempt ${attempts}/${this.options.maxReconnectAttempts} in ${wait} ms`
+                    : `Reconnection attempt ${attempts} in ${wait} ms, still retrying until the connection is back`);
+                this.emit('reconnecting', attempts, wait);
                 
-                this.logger.info('Reconnected successfully');
-                this.emit('reconnected');
-                return;
-            } catch (error) {
-                this.logger.error(`Reconnection attempt ${attempts} failed:`, error);
+                await delay(wait);
+                if (!this.reconnecting) {
+                    this.logger.info('Reconnection cancelled');
+                    return;
+                }
+                
+                try {
+                    await this.connect(this.credentials);
+                    
+                    this.logger.info('Reconnected successfully');
+                    this.emit('reconnected');
+                    return;
+                } catch (error) {
+                    this.logger.error(`Reconnection attempt ${attempts} failed:`, error);
+                    
+                    // Credentials the server refuses will not work on the next attempt either
+                    if (error instanceof FocksupError && error.code === ERROR_CODES.AUTHENTICATION_FAILURE && !error.retryable) {
+                        this.logger.error('Stopping reconnection: the credentials were rejected');
+                        this.emit('reconnect_failed');
+                        return;
+                    }
+                }
             }
+        } finally {
+            this.reconnecting = false;
         }
-        
-        this.logger.error('Maximum reconnection attempts reached');
-        this.emit('reconnect_failed');
     }
 }
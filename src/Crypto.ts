@@ -3,6 +3,12 @@
  */
 
 import crypto from 'crypto';
+import * as curve25519 from 'curve25519-js';
+import { MediaKeyType, MediaKeys } from './Types';
+import { ERROR_CODES, MEDIA_HKDF_KEY_MAPPING, PAIRING_CODE_KEY_ITERATIONS } from './Constants';
+import { AuthError, MediaError, ProtocolError } from './Errors';
+
+const HASH_LENGTH = 32;
 
 /**
  * Generate a keypair for authentication
@@ -120,19 +126,353 @@ export function generateRandomKey(length: number = 32): Buffer {
 }
 
 /**
- * Derive keys from a master key
+ * Derive an encryption key and a MAC key from a master key with HKDF
  * @param masterKey Master key
  * @param info Additional info for key derivation
  */
 export function deriveKeys(masterKey: Buffer, info: string): { encKey: Buffer, macKey: Buffer } {
-    // HKDF key derivation
-    const encKey = crypto.createHmac('sha256', masterKey)
-        .update(Buffer.from(`${info}encKey`))
-        .digest();
-        
-    const macKey = crypto.createHmac('sha256', masterKey)
-        .update(Buffer.from(`${info}macKey`))
-        .digest();
-        
-    return { encKey, macKey };
+    const derived = hkdf(masterKey, 2 * HASH_LENGTH, { info });
+    
+    return {
+        encKey: derived.subarray(0, HASH_LENGTH),
+        macKey: derived.subarray(HASH_LENGTH)
+    };
+}
+
+/**
+ * Expand a media key into the keys used to encrypt that media
+ * @param mediaKey 32-byte media key
+ * @param mediaType Media type, which selects the HKDF info
+ */
+export function getMediaKeys(mediaKey: Buffer, mediaType: MediaKeyType): MediaKeys {
+    const info = MEDIA_HKDF_KEY_MAPPING[mediaType];
+    if (!info) {
+        throw new MediaError(`Unknown media type: ${mediaType}`, { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    const expanded = hkdf(mediaKey, 112, { info: `WhatsApp ${info} Keys` });
+    
+    return {
+        iv: expanded.subarray(0, 16),
+        cipherKey: expanded.subarray(16, 48),
+        macKey: expanded.subarray(48, 80),
+        refKey: expanded.subarray(80, 112)
+    };
+}
+
+// DER prefixes wrapping raw 32-byte X25519 keys
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+
+/**
+ * Generate a Curve25519 keypair with raw 32-byte keys
+ */
+export function generateCurveKeyPair(): { public: Buffer, private: Buffer } {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('x25519');
+    
+    return {
+        public: publicKey.export({ type: 'spki', format: 'der' }).subarray(X25519_SPKI_PREFIX.length),
+        private: privateKey.export({ type: 'pkcs8', format: 'der' }).subarray(X25519_PKCS8_PREFIX.length)
+    };
+}
+
+/**
+ * Compute a Curve25519 shared secret
+ * @param privateKey Raw 32-byte private key
+ * @param publicKey Raw 32-byte public key
+ */
+export function sharedCurveKey(privateKey: Buffer, publicKey: Buffer): Buffer {
+    return crypto.diffieHellman({
+        privateKey: crypto.createPrivateKey({
+            key: Buffer.concat([X25519_PKCS8_PREFIX, privateKey]),
+            format: 'der',
+            type: 'pkcs8'
+        }),
+        publicKey: crypto.createPublicKey({
+            key: Buffer.concat([X25519_SPKI_PREFIX, publicKey]),
+            format: 'der',
+            type: 'spki'
+        })
+    });
+}
+
+/**
+ * HKDF-SHA256 key derivation (RFC 5869)
+ * @param ikm Input key material
+ * @param length Output length in bytes
+ * @param options Optional salt and info
+ */
+export function hkdf(ikm: Buffer, length: number, options: { salt?: Buffer, info?: string | Buffer } = {}): Buffer {
+    const info = typeof options.info === 'string' ? Buffer.from(options.info) : options.info;
+    return hkdfExpand(hkdfExtract(ikm, options.salt), length, info);
+}
+
+/**
+ * HKDF extract step: concentrate the input key material into a pseudorandom key
+ * @param ikm Input key material
+ * @param salt Optional salt; defaults to a block of zeros
+ */
+export function hkdfExtract(ikm: Buffer, salt?: Buffer): Buffer {
+    return hmacSha256(salt && salt.length ? salt : Buffer.alloc(HASH_LENGTH), ikm);
+}
+
+/**
+ * HKDF expand step: stretch a pseudorandom key to the requested length
+ * @param prk Pseudorandom key, at least 32 bytes
+ * @param length Output length, at most 255 * 32 bytes
+ * @param info Optional context
+ */
+export function hkdfExpand(prk: Buffer, length: number, info: Buffer = Buffer.alloc(0)): Buffer {
+    if (length < 0 || length > 255 * HASH_LENGTH) {
+        throw new ProtocolError(`Invalid HKDF output length: ${length}`);
+    }
+    
+    if (prk.length < HASH_LENGTH) {
+        throw new ProtocolError('HKDF pseudorandom key is too short');
+    }
+    
+    // T(i) = HMAC(PRK, T(i - 1) | info | i)
+    const blocks: Buffer[] = [];
+    let previous: Buffer = Buffer.alloc(0);
+    for (let i = 1; blocks.length * HASH_LENGTH < length; i++) {
+        previous = hmacSha256(prk, Buffer.concat([previous, info, Buffer.from([i])]));
+        blocks.push(previous);
+    }
+    
+    return Buffer.concat(blocks).subarray(0, length);
+}
+
+/**
+ * SHA-256 digest
+ * @param data Data to hash
+ */
+export function sha256(data: Buffer): Buffer {
+    return crypto.createHash('sha256').update(data).digest();
+}
+
+/**
+ * Encrypt with AES-256-GCM, appending the 16-byte auth tag
+ * @param plaintext Data to encrypt
+ * @param key 32-byte key
+ * @param iv 12-byte IV
+ * @param additionalData Authenticated but unencrypted data
+ */
+export function aesEncryptGCM(plaintext: Buffer, key: Buffer, iv: Buffer, additionalData: Buffer): Buffer {
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(additionalData);
+    return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+/**
+ * Decrypt AES-256-GCM data produced by aesEncryptGCM
+ * @param ciphertext Encrypted data followed by the auth tag
+ * @param key 32-byte key
+ * @param iv 12-byte IV
+ * @param additionalData Authenticated but unencrypted data
+ */
+export function aesDecryptGCM(ciphertext: Buffer, key: Buffer, iv: Buffer, additionalData: Buffer): Buffer {
+    const tagStart = ciphertext.length - 16;
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAAD(additionalData);
+    decipher.setAuthTag(ciphertext.subarray(tagStart));
+    return Buffer.concat([decipher.update(ciphertext.subarray(0, tagStart)), decipher.final()]);
+}
+
+/**
+ * HMAC-SHA256 over binary data
+ * @param key HMAC key
+ * @param data Data to authenticate
+ */
+export function hmacSha256(key: Buffer, data: Buffer): Buffer {
+    return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Encrypt with AES-256-CBC and PKCS#7 padding
+ * @param plaintext Data to encrypt
+ * @param key 32-byte key
+ * @param iv 16-byte IV
+ */
+export function aesEncryptCBC(plaintext: Buffer, key: Buffer, iv: Buffer): Buffer {
+    const cipher = crypto.createCipheriv('aes-256-cbc', key, iv);
+    return Buffer.concat([cipher.update(plaintext), cipher.final()]);
+}
+
+/**
+ * Decrypt AES-256-CBC data with PKCS#7 padding
+ * @param ciphertext Encrypted data
+ * @param key 32-byte key
+ * @param iv 16-byte IV
+ */
+export function aesDecryptCBC(ciphertext: Buffer, key: Buffer, iv: Buffer): Buffer {
+    const decipher = crypto.createDecipheriv('aes-256-cbc', key, iv);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Encrypt with AES-256-CTR
+ * @param plaintext Data to encrypt
+ * @param key 32-byte key
+ * @param iv 16-byte initial counter block
+ */
+export function aesEncryptCTR(plaintext: Buffer, key: Buffer, iv: Buffer): Buffer {
+    const cipher = crypto.createCipheriv('aes-256-ctr', key, iv);
+    return Buffer.concat([cipher.update(plaintext), cipher.final()]);
+}
+
+/**
+ * Decrypt AES-256-CTR data
+ * @param ciphertext Encrypted data
+ * @param key 32-byte key
+ * @param iv 16-byte initial counter block
+ */
+export function aesDecryptCTR(ciphertext: Buffer, key: Buffer, iv: Buffer): Buffer {
+    const decipher = crypto.createDecipheriv('aes-256-ctr', key, iv);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Derive the key that wraps the ephemeral keys exchanged while linking with a pairing code
+ * @param pairingCode Pairing code shown to the user
+ * @param salt Random salt sent along with the wrapped key
+ */
+export function derivePairingCodeKey(pairingCode: string, salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        crypto.pbkdf2(pairingCode, salt, PAIRING_CODE_KEY_ITERATIONS, 32, 'sha256', (error, key) => {
+            if (error) {
+                reject(error);
+            } else {
+                resolve(key);
+            }
+        });
+    });
+}
+
+// scrypt cost for passphrase-derived keys: N = 2^15, r = 8, p = 1
+export const SCRYPT_PARAMS = { logN: 15, r: 8, p: 1 };
+
+// Cost parameters are read back from untrusted files, so only the ones we write are accepted
+const SUPPORTED_SCRYPT_PARAMS = [SCRYPT_PARAMS];
+// Enough for every supported cost (scrypt needs 128 * N * r bytes), and a hard cap on the rest
+const SCRYPT_MAX_MEMORY = 64 * 1024 * 1024;
+
+// Passphrase-encrypted blob: magic, version, scrypt params, salt, IV, then ciphertext and tag
+const PASSPHRASE_MAGIC = Buffer.from('FKSE');
+const PASSPHRASE_VERSION = 1;
+const PASSPHRASE_HEADER_LENGTH = PASSPHRASE_MAGIC.length + 4 + 16 + 12;
+
+/**
+ * Derive a 32-byte key from a passphrase with scrypt
+ * @param passphrase Passphrase
+ * @param salt Random salt
+ * @param params scrypt cost parameters
+ */
+export function deriveKeyFromPassphrase(passphrase: string, salt: Buffer, params = SCRYPT_PARAMS): Buffer {
+    if (!passphrase) {
+        throw new AuthError('Passphrase must not be empty');
+    }
+    
+    if (!isSupportedScryptParams(params)) {
+        throw new AuthError(`Unsupported scrypt parameters: logN=${params.logN}, r=${params.r}, p=${params.p}`);
+    }
+    
+    return crypto.scryptSync(passphrase, salt, 32, {
+        N: 2 ** params.logN,
+        r: params.r,
+        p: params.p,
+        maxmem: SCRYPT_MAX_MEMORY
+    });
+}
+
+/**
+ * Check scrypt cost parameters against the ones this library writes
+ * @param params scrypt cost parameters
+ */
+function isSupportedScryptParams(params: { logN: number, r: number, p: number }): boolean {
+    return SUPPORTED_SCRYPT_PARAMS.some(supported =>
+        supported.logN === params.logN && supported.r === params.r && supported.p === params.p
+    );
+}
+
+/**
+ * Encrypt data with a passphrase (scrypt + AES-256-GCM)
+ * The result is self-contained: it carries the salt and cost parameters
+ * @param plaintext Data to encrypt
+ * @param passphrase Passphrase
+ */
+export function encryptWithPassphrase(plaintext: Buffer, passphrase: string): Buffer {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = deriveKeyFromPassphrase(passphrase, salt);
+    
+    const header = Buffer.concat([
+        PASSPHRASE_MAGIC,
+        Buffer.from([PASSPHRASE_VERSION, SCRYPT_PARAMS.logN, SCRYPT_PARAMS.r, SCRYPT_PARAMS.p]),
+        salt,
+        iv
+    ]);
+    
+    // The header is authenticated too, so the cost parameters can't be swapped
+    return Buffer.concat([header, aesEncryptGCM(plaintext, key, iv, header)]);
+}
+
+/**
+ * Decrypt data produced by encryptWithPassphrase
+ * @param data Encrypted data
+ * @param passphrase Passphrase
+ */
+export function decryptWithPassphrase(data: Buffer, passphrase: string): Buffer {
+    if (data.length < PASSPHRASE_HEADER_LENGTH + 16 || !data.subarray(0, PASSPHRASE_MAGIC.length).equals(PASSPHRASE_MAGIC)) {
+        throw new AuthError('Data is not passphrase-encrypted');
+    }
+    
+    const version = data[4];
+    if (version !== PASSPHRASE_VERSION) {
+        throw new AuthError(`Unsupported encryption version: ${version}`);
+    }
+    
+    // The header is only authenticated after the key is derived, so its costs are checked first
+    const params = { logN: data[5], r: data[6], p: data[7] };
+    if (!isSupportedScryptParams(params)) {
+        throw new AuthError('Decryption failed: the data has been tampered with');
+    }
+    
+    const header = data.subarray(0, PASSPHRASE_HEADER_LENGTH);
+    const salt = header.subarray(8, 24);
+    const iv = header.subarray(24, 36);
+    const key = deriveKeyFromPassphrase(passphrase, salt, params);
+    
+    try {
+        return aesDecryptGCM(data.subarray(PASSPHRASE_HEADER_LENGTH), key, iv, header);
+    } catch (error) {
+        throw new AuthError('Decryption failed: wrong passphrase or the data has been tampered with');
+    }
+}
+
+/**
+ * Sign a message with a Curve25519 private key, as libsignal does
+ * curve25519-js runs in constant time, so signing leaks nothing about the identity key
+ * @param privateKey Raw 32-byte Curve25519 private key
+ * @param message Message to sign
+ */
+export function calculateSignature(privateKey: Buffer, message: Buffer): Buffer {
+    return Buffer.from(curve25519.sign(privateKey, message, undefined));
+}
+
+/**
+ * Verify a Curve25519 signature (XEdDSA, or the legacy sign-bit-in-signature variant)
+ * @param publicKey Curve25519 public key, optionally with the 0x05 type prefix
+ * @param message Signed message
+ * @param signature 64-byte signature
+ */
+export function verifySignature(publicKey: Buffer, message: Buffer, signature: Buffer): boolean {
+    if (publicKey.length === 33) {
+        publicKey = publicKey.subarray(1);
+    }
+    
+    if (publicKey.length !== 32 || signature.length !== 64) {
+        return false;
+    }
+    
+    return curve25519.verify(publicKey, message, signature);
 }
@@ -0,0 +1,144 @@
+/**
+ * Errors thrown by the library
+ * Every error carries one of the ERROR_CODES and whether the failed operation is worth retrying
+ */
+
+import { ERROR_CODES } from './Constants';
+
+export interface FocksupErrorOptions {
+    // One of ERROR_CODES; each error class has its own default
+    code?: string;
+    // Whether the same operation may succeed if tried again later
+    retryable?: boolean;
+    // Tag of the request that failed, when the error came from a request
+    tag?: string;
+    // Underlying error
+    cause?: unknown;
+}
+
+/**
+ * Base class of all library errors
+ */
+export class FocksupError extends Error {
+    readonly code: string;
+    readonly retryable: boolean;
+    readonly tag?: string;
+    readonly cause?: unknown;
+    
+    constructor(message: string, options: FocksupErrorOptions = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.code = options.code || ERROR_CODES.UNKNOWN;
+        this.retryable = options.retryable ?? false;
+        this.tag = options.tag;
+        this.cause = options.cause;
+    }
+}
+
+/**
+ * The connection to WhatsApp Web is missing, could not be opened or was lost
+ */
+export class ConnectionError extends FocksupError {
+    constructor(message: string, options: FocksupErrorOptions = {}) {
+        super(message, { code: ERROR_CODES.CONNECTION_CLOSED, retryable: true, ...options });
+    }
+}
+
+/**
+ * Authentication failed or the stored credentials cannot be used
+ */
+export class AuthError extends FocksupError {
+    constructor(message: string, options: FocksupErrorOptions = {}) {
+        super(message, { code: ERROR_CODES.AUTHENTICATION_FAILURE, ...options });
+    }
+}
+
+/**
+ * A request or wait did not complete in time
+ */
+export class TimeoutError extends FocksupError {
+    constructor(message: string, options: FocksupErrorOptions = {}) {
+        super(message, { code: ERROR_CODES.REQUEST_TIMEOUT, retryable: true, ...options });
+    }
+}
+
+/**
+ * The server rejected a request, or sent something that could not be understood
+ */
+export class ProtocolError extends FocksupError {
+    constructor(message: string, options: FocksupErrorOptions = {}) {
+        super(message, { code: ERROR_CODES.PROTOCOL_ERROR, ...options });
+    }
+}
+
+/**
+ * The server refused a request because too many were sent
+ */
+export class RateLimitError extends FocksupError {
+    // How long the server asked to wait before trying again, in milliseconds, when it said
+    readonly retryAfter?: number;
+    
+    constructor(message: string, options: FocksupErrorOptions & { retryAfter?: number } = {}) {
+        super(message, { code: ERROR_CODES.RATE_LIMITED, retryable: true, ...options });
+        this.retryAfter = options.retryAfter;
+    }
+}
+
+/**
+ * Media could not be processed, uploaded or downloaded
+ */
+export class MediaError extends FocksupError {
+    constructor(message: string, options: FocksupErrorOptions = {}) {
+        super(message, { code: ERROR_CODES.MEDIA_UPLOAD_FAILED, ...options });
+    }
+}
+
+/**
+ * Turn an error answer from the server into the matching error
+ * Answers are either a plain text or an object with a numeric code and text
+ * @param error Error from the server's answer
+ * @param tag Tag of the request that failed
+ */
+export function createServerError(error: any, tag?: string): FocksupError {
+    const code = Number(typeof error === 'object' ? error?.code : error) || undefined;
+    const text = typeof error === 'object' ? String(error?.text || error?.message || '') : code ? '' : String(error);
+    const message = `Request ${tag} failed: ${[code, text].filter(Boolean).join(' ')}`;
+    
+    if (code === 429 || text === 'rate-overlimit') {
+        const retryAfter = Number(error?.retryAfter) || undefined;
+        return new RateLimitError(message, { tag, retryAfter });
+    }
+    
+    if (code === 401 || code === 403 || text === 'not-authorized' || text === 'forbidden') {
+        return new AuthError(message, { tag });
+    }
+    
+    if (code === 408 || text === 'timeout') {
+        return new TimeoutError(message, { tag });
+    }
+    
+    // Server-side failures usually pass; bad requests will fail the same way again
+    const serverFailure = (code !== undefined && code >= 500) || text === 'internal-server-error' || text === 'service-unavailable';
+    return new ProtocolError(message, { tag, retryable: serverFailure });
+}
+
+/**
+ * Make sure an error thrown out of the library is a FocksupError
+ * Library errors pass through as they are, and so do aborts, which the caller asked for;
+ * anything else is wrapped, keeping it as the cause
+ * @param error Caught error
+ * @param code Code for the wrapping error
+ * @param ErrorType Class of the wrapping error
+ */
+export function toFocksupError(
+    error: unknown,
+    code: string,
+    ErrorType: new (message: string, options?: FocksupErrorOptions) => FocksupError = FocksupError
+): Error {
+    if (error instanceof FocksupError || (error instanceof Error && error.name === 'AbortError')) {
+        return error;
+    }
+    
+    const message = error instanceof Error ? error.message : String(error);
+    return new ErrorType(message, { code, cause: error });
+}
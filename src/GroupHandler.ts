@@ -3,303 +3,434 @@
  */
 
 import { WAConnection } from './WAConnection';
-import { GroupInfo, GroupParticipant, GroupUpdate } from './Types';
-import { validatePhoneNumber, generateRandomId } from './Utils';
+import { MessageHandler } from './MessageHandler';
+import { SenderKeyRepository } from './SenderKeys';
+import { BinaryNode, GroupInfo, GroupParticipant, GroupUpdate, Message, MessageType, Jid } from './Types';
+import { getBinaryNodeChild, getBinaryNodeChildren, getBinaryNodeChildBuffer } from './WAProtocol';
+import { generateRandomId } from './Utils';
+import { phoneNumberToJid } from './PhoneNumber';
+import { formatJid, isGroupJid } from './Jid';
 import { createLogger } from './Utils';
+import { FocksupError, ProtocolError, toFocksupError } from './Errors';
+import { ERROR_CODES } from './Constants';
 
 export class GroupHandler {
     private connection: WAConnection;
+    private messageHandler: MessageHandler;
+    private senderKeys: SenderKeyRepository;
+    private defaultRegion?: string;
     private logger: ReturnType<typeof createLogger>;
     
-    constructor(connection: WAConnection) {
+    constructor(connection: WAConnection, messageHandler: MessageHandler, senderKeys: SenderKeyRepository, defaultRegion?: string) {
         this.connection = connection;
+        this.messageHandler = messageHandler;
+        this.senderKeys = senderKeys;
+        this.defaultRegion = defaultRegion;
         this.logger = createLogger('GroupHandler');
     }
     
+    /**
+     * Send a text message to a group
+     * @param group Group ID
+     * @param text Message text
+     */
+    async sendText(group: string | Jid, text: string): Promise<Message> {
+        try {
+            const groupId = toGroupJid(group);
+            const messageId = generateRandomId();
+            const timestamp = Date.now();
+            
+            const status = await this.messageHandler.relayMessage(groupId, messageId, { conversation: text });
+            
+            this.logger.info(`${status === 'queued' ? 'Queued' : 'Sent'} text message to group ${groupId}: ${text.substring(0, 30)}${text.length > 30 ? '...' : ''}`);
+            
+            return {
+                id: messageId,
+                type: MessageType.TEXT,
+                from: 'me',
+                to: groupId,
+                fromMe: true,
+                body: text,
+                timestamp,
+                groupId,
+                status
+            };
+        } catch (error) {
+            this.logger.error('Failed to send group text message:', error);
+            throw toFocksupError(error, ERROR_CODES.MESSAGE_SEND_FAILED);
+        }
+    }
+    
+    /**
+     * Encrypt message content once with our sender key and send it to every participant of a group
+     * Sends right away; messages sent through MessageHandler.relayMessage go through the send queue
+     * @param group Group ID
+     * @param messageId Message ID
+     * @param content Message content, e.g. { conversation: 'text' }
+     * @param extra Additional attributes of the message stanza
+     */
+    async relayMessage(group: string | Jid, messageId: string, content: any, extra: { [key: string]: string } = {}): Promise<void> {
+        const groupId = toGroupJid(group);
+        const groupInfo = await this.getGroupInfo(groupId);
+        
+        await this.messageHandler.relaySenderKeyMessage(
+            groupId,
+            groupInfo.participants.map(participant => participant.id),
+            messageId,
+            content,
+            extra
+        );
+    }
+    
+    /**
+     * Keep sender keys in sync with membership changes
+     * @param update Group update notification
+     */
+    async handleGroupUpdate(update: GroupUpdate): Promise<void> {
+        if (update.type !== 'remove' && update.type !== 'leave') {
+            return;
+        }
+        
+        // Members that left must not be able to read anything sent from now on
+        await this.senderKeys.rotate(update.id);
+        for (const participant of update.participants || []) {
+            await this.senderKeys.removeSenderKey(update.id, participant);
+        }
+    }
+    
     /**
      * Create a new group
      * @param name Group name
      * @param participants Array of participant phone numbers
      */
-    async createGroup(name: string, participants: string[]): Promise<{ id: string, participants: string[] }> {
+    async createGroup(name: string, participants: (string | Jid)[]): Promise<{ id: string, participants: string[] }> {
         try {
             // Validate and format participant numbers
-            const validParticipants = participants.map(validatePhoneNumber);
+            const validParticipants = participants.map(participant => phoneNumberToJid(participant, this.defaultRegion));
             
-            const response = await this.connection.sendRequest({
-                type: 'group_create',
-                data: {
-                    name,
-                    participants: validParticipants
-                }
-            });
+            const response = await this.groupQuery('@g.us', 'set', [{
+                tag: 'create',
+                attrs: { subject: name, key: generateRandomId() },
+                content: validParticipants.map(jid => ({ tag: 'participant', attrs: { jid } }))
+            }]);
+            const groupInfo = parseGroupInfo(response);
             
             this.logger.info(`Created group "${name}" with ${validParticipants.length} participants`);
             
             return {
-                id: response.groupId,
+                id: groupInfo.id,
                 participants: validParticipants
             };
         } catch (error) {
             this.logger.error('Failed to create group:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.GROUP_ACTION_FAILED);
         }
     }
     
     /**
      * Get group information
-     * @param groupId Group ID
+     * @param group Group ID
      */
-    async getGroupInfo(groupId: string): Promise<GroupInfo> {
+    async getGroupInfo(group: string | Jid): Promise<GroupInfo> {
         try {
-            const response = await this.connection.sendRequest({
-                type: 'group_info',
-                data: {
-                    groupId
-                }
-            });
+            const groupId = toGroupJid(group);
+            const response = await this.groupQuery(groupId, 'get', [{ tag: 'query', attrs: { request: 'interactive' } }]);
             
             this.logger.info(`Retrieved info for group ${groupId}`);
             
-            return response.groupInfo;
+            return parseGroupInfo(response);
         } catch (error) {
             this.logger.error('Failed to get group info:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.GROUP_ACTION_FAILED);
         }
     }
     
     /**
      * Add participants to a group
-     * @param groupId Group ID
+     * @param group Group ID
      * @param participants Array of participant phone numbers
      */
-    async addParticipants(groupId: string, participants: string[]): Promise<{ added: string[], failed: string[] }> {
+    async addParticipants(group: string | Jid, participants: (string | Jid)[]): Promise<{ added: string[], failed: string[] }> {
         try {
+            const groupId = toGroupJid(group);
             // Validate and format participant numbers
-            const validParticipants = participants.map(validatePhoneNumber);
+            const validParticipants = participants.map(participant => phoneNumberToJid(participant, this.defaultRegion));
             
-            const response = await this.connection.sendRequest({
-                type: 'group_participants',
-                data: {
-                    groupId,
-                    action: 'add',
-                    participants: validParticipants
-                }
-            });
+            const response = await this.updateParticipants(groupId, 'add', validParticipants);
             
-            this.logger.info(`Added ${response.added.length} participants to group ${groupId}`);
+            this.logger.info(`Added ${response.succeeded.length} participants to group ${groupId}`);
             
             return {
-                added: response.added,
+                added: response.succeeded,
                 failed: response.failed
             };
         } catch (error) {
             this.logger.error('Failed to add participants:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.GROUP_ACTION_FAILED);
         }
     }
     
     /**
      * Remove participants from a group
-     * @param groupId Group ID
+     * @param group Group ID
      * @param participants Array of participant phone numbers
      */
-    async removeParticipants(groupId: string, participants: string[]): Promise<{ removed: string[], failed: string[] }> {
+    async removeParticipants(group: string | Jid, participants: (string | Jid)[]): Promise<{ removed: string[], failed: string[] }> {
         try {
+            const groupId = toGroupJid(group);
             // Validate and format participant numbers
-            const validParticipants = participants.map(validatePhoneNumber);
+            const validParticipants = participants.map(participant => phoneNumberToJid(participant, this.defaultRegion));
             
-            const response = await this.connection.sendRequest({
-                type: 'group_participants',
-                data: {
-                    groupId,
-                    action: 'remove',
-                    participants: validParticipants
-                }
-            });
+            const response = await this.updateParticipants(groupId, 'remove', validParticipants);
             
-            this.logger.info(`Removed ${response.removed.length} participants from group ${groupId}`);
+            this.logger.info(`Removed ${response.succeeded.length} participants from group ${groupId}`);
+            
+            if (response.succeeded.length) {
+                await this.handleGroupUpdate({ id: groupId, type: 'remove', participants: response.succeeded });
+            }
             
             return {
-                removed: response.removed,
+                removed: response.succeeded,
                 failed: response.failed
             };
         } catch (error) {
             this.logger.error('Failed to remove participants:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.GROUP_ACTION_FAILED);
         }
     }
     
     /**
      * Promote participants to admin
-     * @param groupId Group ID
+     * @param group Group ID
      * @param participants Array of participant phone numbers
      */
-    async promoteParticipants(groupId: string, participants: string[]): Promise<{ promoted: string[], failed: string[] }> {
+    async promoteParticipants(group: string | Jid, participants: (string | Jid)[]): Promise<{ promoted: string[], failed: string[] }> {
         try {
+            const groupId = toGroupJid(group);
             // Validate and format participant numbers
-            const validParticipants = participants.map(validatePhoneNumber);
+            const validParticipants = participants.map(participant => phoneNumberToJid(participant, this.defaultRegion));
             
-            const response = await this.connection.sendRequest({
-                type: 'group_participants',
-                data: {
-                    groupId,
-                    action: 'promote',
-                    participants: validParticipants
-                }
-            });
+            const response = await this.updateParticipants(groupId, 'promote', validParticipants);
             
-            this.logger.info(`Promoted ${response.promoted.length} participants to admin in group ${groupId}`);
+            this.logger.info(`Promoted ${response.succeeded.length} participants to admin in group ${groupId}`);
             
             return {
-                promoted: response.promoted,
+                promoted: response.succeeded,
                 failed: response.failed
             };
         } catch (error) {
             this.logger.error('Failed to promote participants:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.GROUP_ACTION_FAILED);
         }
     }
     
     /**
      * Demote participants from admin
-     * @param groupId Group ID
+     * @param group Group ID
      * @param participants Array of participant phone numbers
      */
-    async demoteParticipants(groupId: string, participants: string[]): Promise<{ demoted: string[], failed: string[] }> {
+    async demoteParticipants(group: string | Jid, participants: (string | Jid)[]): Promise<{ demoted: string[], failed: string[] }> {
         try {
+            const groupId = toGroupJid(group);
             // Validate and format participant numbers
-            const validParticipants = participants.map(validatePhoneNumber);
+            const validParticipants = participants.map(participant => phoneNumberToJid(participant, this.defaultRegion));
             
-            const response = await this.connection.sendRequest({
-                type: 'group_participants',
-                data: {
-                    groupId,
-                    action: 'demote',
-                    participants: validParticipants
-                }
-            });
+            const response = await this.updateParticipants(groupId, 'demote', validParticipants);
             
-            this.logger.info(`Demoted ${response.demoted.length} participants from admin in group ${groupId}`);
+            this.logger.info(`Demoted ${response.succeeded.length} participants from admin in group ${groupId}`);
             
             return {
-                demoted: response.demoted,
+                demoted: response.succeeded,
                 failed: response.failed
             };
         } catch (error) {
             this.logger.error('Failed to demote participants:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.GROUP_ACTION_FAILED);
         }
     }
     
     /**
      * Leave a group
-     * @param groupId Group ID
+     * @param group Group ID
      */
-    async leaveGroup(groupId: string): Promise<void> {
+    async leaveGroup(group: string | Jid): Promise<void> {
         try {
-            await this.connection.sendRequest({
-                type: 'group_leave',
-                data: {
-                    groupId
-                }
-            });
+            const groupId = toGroupJid(group);
+            await this.groupQuery('@g.us', 'set', [{
+                tag: 'leave',
+                attrs: {},
+                content: [{ tag: 'group', attrs: { id: groupId } }]
+            }]);
+            
+            await this.senderKeys.clearGroup(groupId);
             
             this.logger.info(`Left group ${groupId}`);
         } catch (error) {
             this.logger.error('Failed to leave group:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.GROUP_ACTION_FAILED);
         }
     }
     
     /**
      * Update group subject (name)
-     * @param groupId Group ID
+     * @param group Group ID
      * @param subject New group subject
      */
-    async updateGroupSubject(groupId: string, subject: string): Promise<void> {
+    async updateGroupSubject(group: string | Jid, subject: string): Promise<void> {
         try {
-            await this.connection.sendRequest({
-                type: 'group_update',
-                data: {
-                    groupId,
-                    updateType: 'subject',
-                    subject
-                }
-            });
+            const groupId = toGroupJid(group);
+            await this.groupQuery(groupId, 'set', [{ tag: 'subject', attrs: {}, content: Buffer.from(subject, 'utf-8') }]);
             
             this.logger.info(`Updated subject of group ${groupId} to "${subject}"`);
         } catch (error) {
             this.logger.error('Failed to update group subject:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.GROUP_ACTION_FAILED);
         }
     }
     
     /**
      * Update group description
-     * @param groupId Group ID
+     * @param group Group ID
      * @param description New group description
      */
-    async updateGroupDescription(groupId: string, description: string): Promise<void> {
+    async updateGroupDescription(group: string | Jid, description: string): Promise<void> {
         try {
-            await this.connection.sendRequest({
-                type: 'group_update',
-                data: {
-                    groupId,
-                    updateType: 'description',
-                    description
-                }
-            });
+            const groupId = toGroupJid(group);
+            // The server only accepts a change to the description it currently has
+            const current = await this.groupQuery(groupId, 'get', [{ tag: 'query', attrs: { request: 'interactive' } }]);
+            const previousId = getBinaryNodeChild(getBinaryNodeChild(current, 'group'), 'description')?.attrs.id;
+            
+            await this.groupQuery(groupId, 'set', [{
+                tag: 'description',
+                attrs: {
+                    ...(description ? { id: generateRandomId() } : { delete: 'true' }),
+                    ...(previousId ? { prev: previousId } : {})
+                },
+                content: description ? [{ tag: 'body', attrs: {}, content: Buffer.from(description, 'utf-8') }] : undefined
+            }]);
             
             this.logger.info(`Updated description of group ${groupId}`);
         } catch (error) {
             this.logger.error('Failed to update group description:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.GROUP_ACTION_FAILED);
         }
     }
     
     /**
      * Update group settings
-     * @param groupId Group ID
+     * @param group Group ID
      * @param settings Settings to update
      */
-    async updateGroupSettings(groupId: string, settings: { onlyAdminsMessage?: boolean, onlyAdminsEditInfo?: boolean }): Promise<void> {
+    async updateGroupSettings(group: string | Jid, settings: { onlyAdminsMessage?: boolean, onlyAdminsEditInfo?: boolean }): Promise<void> {
         try {
-            await this.connection.sendRequest({
-                type: 'group_update',
-                data: {
-                    groupId,
-                    updateType: 'settings',
-                    settings
-                }
-            });
+            const groupId = toGroupJid(group);
+            if (settings.onlyAdminsMessage !== undefined) {
+                await this.groupQuery(groupId, 'set', [{ tag: settings.onlyAdminsMessage ? 'announcement' : 'not_announcement', attrs: {} }]);
+            }
+            if (settings.onlyAdminsEditInfo !== undefined) {
+                await this.groupQuery(groupId, 'set', [{ tag: settings.onlyAdminsEditInfo ? 'locked' : 'unlocked', attrs: {} }]);
+            }
             
             this.logger.info(`Updated settings of group ${groupId}`);
         } catch (error) {
             this.logger.error('Failed to update group settings:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.GROUP_ACTION_FAILED);
         }
     }
     
     /**
      * Get invite link for a group
-     * @param groupId Group ID
+     * @param group Group ID
      */
-    async getGroupInviteLink(groupId: string): Promise<string> {
+    async getGroupInviteLink(group: string | Jid): Promise<string> {
         try {
-            const response = await this.connection.sendRequest({
-                type: 'group_invite_link',
-                data: {
-                    groupId
-                }
-            });
+            const groupId = toGroupJid(group);
+            const response = await this.groupQuery(groupId, 'get', [{ tag: 'invite', attrs: {} }]);
+            const code = getBinaryNodeChild(response, 'invite')?.attrs.code;
+            if (!code) {
+                throw new ProtocolError(`No invite code in the answer for group ${groupId}`);
+            }
             
             this.logger.info(`Retrieved invite link for group ${groupId}`);
             
-            return response.inviteLink;
+            return `https://chat.whatsapp.com/${code}`;
         } catch (error) {
             this.logger.error('Failed to get group invite link:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.GROUP_ACTION_FAILED);
         }
     }
+    
+    /**
+     * Send a w:g2 query about a group, or about groups in general when sent to @g.us
+     * @param jid Group JID or @g.us
+     * @param type Query type
+     * @param content Query content
+     */
+    private async groupQuery(jid: string, type: 'get' | 'set', content: BinaryNode[]): Promise<BinaryNode> {
+        return await this.connection.query({
+            tag: 'iq',
+            attrs: { type, xmlns: 'w:g2', to: jid },
+            content
+        });
+    }
+    
+    /**
+     * Add, remove, promote or demote participants, splitting them by whether the server applied the change
+     * @param groupId Group JID
+     * @param action Change to make
+     * @param participants Participant JIDs
+     */
+    private async updateParticipants(
+        groupId: string,
+        action: 'add' | 'remove' | 'promote' | 'demote',
+        participants: string[]
+    ): Promise<{ succeeded: string[], failed: string[] }> {
+        const response = await this.groupQuery(groupId, 'set', [{
+            tag: action,
+            attrs: {},
+            content: participants.map(jid => ({ tag: 'participant', attrs: { jid } }))
+        }]);
+        
+        const results = getBinaryNodeChildren(getBinaryNodeChild(response, action), 'participant');
+        return {
+            succeeded: results.filter(result => !result.attrs.error).map(result => result.attrs.jid),
+            failed: results.filter(result => result.attrs.error).map(result => result.attrs.jid)
+        };
+    }
+}
+
+/**
+ * Read group information out of the answer to a group query
+ * @param response Answer with a group node
+ */
+function parseGroupInfo(response: BinaryNode): GroupInfo {
+    const group = getBinaryNodeChild(response, 'group');
+    if (!group?.attrs.id) {
+        throw new ProtocolError('Missing group in the answer to a group query');
+    }
+    
+    return {
+        id: group.attrs.id.includes('@') ? group.attrs.id : `${group.attrs.id}@g.us`,
+        subject: group.attrs.subject || '',
+        description: getBinaryNodeChildBuffer(getBinaryNodeChild(group, 'description'), 'body')?.toString('utf-8'),
+        owner: group.attrs.creator || '',
+        creation: (parseInt(group.attrs.creation, 10) || 0) * 1000,
+        participants: getBinaryNodeChildren(group, 'participant').map(participant => ({
+            id: participant.attrs.jid,
+            isAdmin: participant.attrs.type === 'admin' || participant.attrs.type === 'superadmin',
+            isSuperAdmin: participant.attrs.type === 'superadmin'
+        }))
+    };
+}
+
+/**
+ * Format a group given as a string or Jid, failing for anything that is not a group
+ * @param group Group ID
+ */
+function toGroupJid(group: string | Jid): string {
+    const jid = formatJid(group);
+    if (!isGroupJid(jid)) {
+        throw new FocksupError(`Not a group JID: ${jid}`, { code: ERROR_CODES.INVALID_JID });
+    }
+    return jid;
 }
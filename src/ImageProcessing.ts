@@ -0,0 +1,153 @@
+/**
+ * Image decoding, resizing and thumbnail generation without native modules
+ */
+
+import { RawImage } from './Types';
+import { decodeJpeg, encodeJpeg } from './JpegCodec';
+import { decodePng } from './PngCodec';
+import { detectMimetype } from './MimeType';
+import { MediaError } from './Errors';
+import { ERROR_CODES, MEDIA_THUMBNAIL_SIZE, MEDIA_THUMBNAIL_QUALITY } from './Constants';
+
+/**
+ * Decode a JPEG or PNG image to RGBA pixels
+ * @param data Image file contents
+ * @param minSize If given, large JPEGs may be decoded at reduced scale, keeping the longest side at least this size
+ */
+export function decodeImage(data: Buffer, minSize?: number): RawImage {
+    const mimetype = detectMimetype(data);
+    
+    switch (mimetype) {
+        case 'image/jpeg':
+            return decodeJpeg(data, minSize);
+        case 'image/png':
+            return decodePng(data);
+        default:
+            throw new MediaError(`Cannot decode ${mimetype || 'unknown'} images`, { code: ERROR_CODES.INVALID_MEDIA });
+    }
+}
+
+/**
+ * Resize an image, averaging the source pixels that fall into each target pixel
+ * Colors are weighted by alpha so transparent pixels do not bleed into their neighbours
+ * @param image Source image
+ * @param width Target width
+ * @param height Target height
+ */
+export function resizeImage(image: RawImage, width: number, height: number): RawImage {
+    const output = Buffer.alloc(width * height * 4);
+    const scaleX = image.width / width;
+    const scaleY = image.height / height;
+    
+    for (let y = 0; y < height; y++) {
+        const top = y * scaleY;
+        const bottom = Math.min((y + 1) * scaleY, image.height);
+        
+        for (let x = 0; x < width; x++) {
+            const left = x * scaleX;
+            const right = Math.min((x + 1) * scaleX, image.width);
+            let r = 0;
+            let g = 0;
+            let b = 0;
+            let a = 0;
+            let area = 0;
+            
+            for (let sy = Math.floor(top); sy < bottom; sy++) {
+                const coverY = Math.min(sy + 1, bottom) - Math.max(sy, top);
+                
+                for (let sx = Math.floor(left); sx < right; sx++) {
+                    const weight = coverY * (Math.min(sx + 1, right) - Math.max(sx, left));
+                    const p = (sy * image.width + sx) * 4;
+                    const alpha = image.data[p + 3] * weight;
+                    
+                    r += image.data[p] * alpha;
+                    g += image.data[p + 1] * alpha;
+                    b += image.data[p + 2] * alpha;
+                    a += alpha;
+                    area += weight;
+                }
+            }
+            
+            const target = (y * width + x) * 4;
+            if (a > 0) {
+                output[target] = Math.round(r / a);
+                output[target + 1] = Math.round(g / a);
+                output[target + 2] = Math.round(b / a);
+            }
+            output[target + 3] = Math.round(a / area);
+        }
+    }
+    
+    return { width, height, data: output };
+}
+
+/**
+ * Scale dimensions down to fit within a square, keeping the aspect ratio
+ * Images that already fit are left at their size
+ * @param width Source width
+ * @param height Source height
+ * @param size Side of the bounding square
+ */
+export function fitDimensions(width: number, height: number, size: number): { width: number, height: number } {
+    const scale = Math.min(size / width, size / height, 1);
+    
+    return {
+        width: Math.max(Math.round(width * scale), 1),
+        height: Math.max(Math.round(height * scale), 1)
+    };
+}
+
+/**
+ * Scale an image to fit a square canvas and center it, leaving the margins transparent
+ * Unlike fitDimensions, small images are scaled up
+ * @param image Source image
+ * @param size Side of the canvas
+ */
+export function containImage(image: RawImage, size: number): RawImage {
+    const scale = Math.min(size / image.width, size / image.height);
+    const width = Math.max(Math.round(image.width * scale), 1);
+    const height = Math.max(Math.round(image.height * scale), 1);
+    const resized = width === image.width && height === image.height ? image : resizeImage(image, width, height);
+    
+    const output = Buffer.alloc(size * size * 4);
+    const left = (size - width) >> 1;
+    const top = (size - height) >> 1;
+    
+    for (let y = 0; y < height; y++) {
+        resized.data.copy(output, ((top + y) * size + left) * 4, y * width * 4, (y + 1) * width * 4);
+    }
+    
+    return { width: size, height: size, data: output };
+}
+
+/**
+ * Composite an image over a solid background, making it fully opaque
+ * @param image Image with alpha
+ * @param background Background color as [r, g, b]
+ */
+export function flattenImage(image: RawImage, background: [number, number, number] = [255, 255, 255]): RawImage {
+    const output = Buffer.alloc(image.data.length);
+    
+    for (let p = 0; p < image.data.length; p += 4) {
+        const alpha = image.data[p + 3] / 255;
+        for (let c = 0; c < 3; c++) {
+            output[p + c] = Math.round(image.data[p + c] * alpha + background[c] * (1 - alpha));
+        }
+        output[p + 3] = 255;
+    }
+    
+    return { width: image.width, height: image.height, data: output };
+}
+
+/**
+ * Generate the small JPEG preview WhatsApp shows before media is downloaded
+ * @param data JPEG or PNG file contents
+ * @param size Longest side of the thumbnail in pixels
+ */
+export function generateThumbnail(data: Buffer, size: number = MEDIA_THUMBNAIL_SIZE): Buffer {
+    // Decoding at a reduced scale is fine as long as there are a few source pixels per thumbnail pixel
+    const image = decodeImage(data, size * 2);
+    const { width, height } = fitDimensions(image.width, image.height, size);
+    
+    return encodeJpeg(flattenImage(resizeImage(image, width, height)), MEDIA_THUMBNAIL_QUALITY);
+}
@@ -0,0 +1,175 @@
+/**
+ * JID parsing and formatting
+ * A JID is user@server, with user:device@server addressing one linked device of a user.
+ * The legacy c.us server is read as s.whatsapp.net, so the same account always formats the same
+ */
+
+import { Jid, JidServer, JidType } from './Types';
+import { FocksupError } from './Errors';
+import { ERROR_CODES } from './Constants';
+
+// What the user part looks like on each server
+const JID_USER_PATTERNS: { [server in JidServer]: RegExp } = {
+    's.whatsapp.net': /^\d+$/,
+    'c.us': /^\d+$/,
+    'lid': /^\d+$/,
+    // Older groups are named after their creator and creation time
+    'g.us': /^\d+(-\d+)?$/,
+    'broadcast': /^(\d+|status)$/,
+    'newsletter': /^\d+$/
+};
+
+/**
+ * Parse a JID
+ * @param jid JID string, or a Jid to validate and normalize
+ */
+export function parseJid(jid: string | Jid): Jid {
+    const text = typeof jid === 'string' ? jid : `${jid.user}${jid.device !== undefined ? `:${jid.device}` : ''}@${jid.server}`;
+    const separator = text.indexOf('@');
+    if (separator === -1 || separator !== text.lastIndexOf('@')) {
+        throw invalidJid(text);
+    }
+    
+    const server = text.substring(separator + 1) as JidServer;
+    const [user, device, ...rest] = text.substring(0, separator).split(':');
+    if (!Object.prototype.hasOwnProperty.call(JID_USER_PATTERNS, server) || !JID_USER_PATTERNS[server].test(user) || rest.length > 0) {
+        throw invalidJid(text);
+    }
+    
+    if (device === undefined) {
+        return { user, server: server === 'c.us' ? 's.whatsapp.net' : server };
+    }
+    
+    // Only user accounts have linked devices
+    if ((server !== 's.whatsapp.net' && server !== 'c.us' && server !== 'lid') || !/^\d+$/.test(device)) {
+        throw invalidJid(text);
+    }
+    
+    return { user, server: server === 'c.us' ? 's.whatsapp.net' : server, device: parseInt(device, 10) };
+}
+
+/**
+ * Format a JID, normalizing legacy c.us JIDs to s.whatsapp.net
+ * @param jid JID string or Jid
+ */
+export function formatJid(jid: string | Jid): string {
+    const { user, server, device } = parseJid(jid);
+    return `${user}${device !== undefined ? `:${device}` : ''}@${server}`;
+}
+
+/**
+ * Format a JID without its device, addressing the user instead of one of their devices
+ * @param jid JID string or Jid
+ */
+export function toBareJid(jid: string | Jid): string {
+    const { user, server } = parseJid(jid);
+    return `${user}@${server}`;
+}
+
+/**
+ * Get what kind of chat or account a JID addresses
+ * @param jid JID string or Jid
+ */
+export function getJidType(jid: string | Jid): JidType {
+    const { user, server } = parseJid(jid);
+    
+    switch (server) {
+        case 'g.us':
+            return 'group';
+        case 'broadcast':
+            return user === 'status' ? 'status' : 'broadcast';
+        case 'newsletter':
+            return 'newsletter';
+        case 'lid':
+            return 'lid';
+        default:
+            return 'user';
+    }
+}
+
+/**
+ * Check whether two JIDs address the same account, ignoring devices and the legacy server name
+ * @param a First JID
+ * @param b Second JID
+ */
+export function areJidsSameUser(a: string | Jid, b: string | Jid): boolean {
+    const first = tryParseJid(a);
+    const second = tryParseJid(b);
+    return !!first && !!second && first.user === second.user && first.server === second.server;
+}
+
+/**
+ * Check if a JID is a user on a phone number
+ * @param jid JID string or Jid
+ */
+export function isUserJid(jid: string | Jid): boolean {
+    return tryGetJidType(jid) === 'user';
+}
+
+/**
+ * Check if a JID is a user on a LID (an identity that hides the phone number)
+ * @param jid JID string or Jid
+ */
+export function isLidJid(jid: string | Jid): boolean {
+    return tryGetJidType(jid) === 'lid';
+}
+
+/**
+ * Check if a JID is a group
+ * @param jid JID string or Jid
+ */
+export function isGroupJid(jid: string | Jid): boolean {
+    return tryGetJidType(jid) === 'group';
+}
+
+/**
+ * Check if a JID is a broadcast list
+ * @param jid JID string or Jid
+ */
+export function isBroadcastJid(jid: string | Jid): boolean {
+    return tryGetJidType(jid) === 'broadcast';
+}
+
+/**
+ * Check if a JID is the status broadcast
+ * @param jid JID string or Jid
+ */
+export function isStatusJid(jid: string | Jid): boolean {
+    return tryGetJidType(jid) === 'status';
+}
+
+/**
+ * Check if a JID is a channel (newsletter)
+ * @param jid JID string or Jid
+ */
+export function isNewsletterJid(jid: string | Jid): boolean {
+    return tryGetJidType(jid) === 'newsletter';
+}
+
+/**
+ * Parse a JID, returning undefined instead of failing
+ * @param jid JID string or Jid
+ */
+function tryParseJid(jid: string | Jid): Jid | undefined {
+    try {
+        return parseJid(jid);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Get the type of a JID, returning undefined for invalid JIDs
+ * @param jid JID string or Jid
+ */
+function tryGetJidType(jid: string | Jid): JidType | undefined {
+    return tryParseJid(jid) && getJidType(jid);
+}
+
+/**
+ * Create the error for a string that is not a valid JID
+ * @param jid Text as given
+ */
+function invalidJid(jid: string): FocksupError {
+    return new FocksupError(`Not a valid JID: ${jid}`, { code: ERROR_CODES.INVALID_JID });
+}
@@ -0,0 +1,1061 @@
+/**
+ * Baseline and progressive JPEG decoding, and baseline JPEG encoding
+ * Written in plain TypeScript so image processing works without native modules
+ */
+
+import { RawImage } from './Types';
+import { ERROR_CODES } from './Constants';
+import { MediaError } from './Errors';
+
+// Natural (row-major) index of each coefficient in zigzag order
+const ZIGZAG = new Int32Array([
+    0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+    12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+    35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+    58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63
+]);
+
+// DCT basis: COSINES[x * 8 + u] = C(u) / 2 * cos((2x + 1) * u * PI / 16)
+const COSINES = new Float64Array(64);
+for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+        COSINES[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos((2 * x + 1) * u * Math.PI / 16);
+    }
+}
+
+// Huffman table as a binary tree; leaves hold the decoded symbol
+type HuffmanNode = number | HuffmanNode[];
+
+interface JpegComponent {
+    id: number;
+    h: number;
+    v: number;
+    quantizationId: number;
+    blocksPerLine: number;
+    blocksPerColumn: number;
+    // Blocks per line including the padding needed to complete the last MCU
+    blocksPerLineForMcu: number;
+    blockData: Int16Array;
+    huffmanTableDC?: HuffmanNode[];
+    huffmanTableAC?: HuffmanNode[];
+    pred: number;
+}
+
+interface JpegFrame {
+    progressive: boolean;
+    width: number;
+    height: number;
+    maxH: number;
+    maxV: number;
+    mcusPerLine: number;
+    mcusPerColumn: number;
+    components: JpegComponent[];
+}
+
+/**
+ * Decode a JPEG image to RGBA pixels
+ * Supports baseline and progressive Huffman-coded images with any sampling factors,
+ * in grayscale, YCbCr, RGB, CMYK or YCCK
+ * @param data JPEG file contents
+ * @param minSize If given, decode at 1/8 scale (much faster) when the longest side would still be at least this many pixels
+ */
+export function decodeJpeg(data: Buffer, minSize?: number): RawImage {
+    if (data[0] !== 0xFF || data[1] !== 0xD8) {
+        throw new MediaError('Not a JPEG image', { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    const quantizationTables: Int32Array[] = [];
+    const huffmanTablesDC: HuffmanNode[][] = [];
+    const huffmanTablesAC: HuffmanNode[][] = [];
+    let frame: JpegFrame | undefined;
+    let resetInterval = 0;
+    let adobeTransform: number | undefined;
+    let offset = 2;
+    
+    while (offset < data.length) {
+        if (data[offset] !== 0xFF) {
+            offset++;
+            continue;
+        }
+        
+        const marker = data[offset + 1];
+        offset += 2;
+        
+        // Fill bytes and standalone markers carry no length
+        if (marker === 0xFF) {
+            offset--;
+            continue;
+        }
+        if (marker === 0xD8 || marker === 0x01 || (marker >= 0xD0 && marker <= 0xD7)) {
+            continue;
+        }
+        if (marker === 0xD9) {
+            break;
+        }
+        
+        const length = data.readUInt16BE(offset);
+        const segment = data.subarray(offset + 2, offset + length);
+        offset += length;
+        
+        switch (marker) {
+            case 0xDB: // DQT
+                readQuantizationTables(segment, quantizationTables);
+                break;
+            case 0xC4: // DHT
+                readHuffmanTables(segment, huffmanTablesDC, huffmanTablesAC);
+                break;
+            case 0xDD: // DRI
+                resetInterval = segment.readUInt16BE(0);
+                break;
+            case 0xEE: // APP14, written by Adobe to describe the color transform
+                if (segment.toString('latin1', 0, 5) === 'Adobe') {
+                    adobeTransform = segment[11];
+                }
+                break;
+            case 0xC0: // SOF0, baseline
+            case 0xC1: // SOF1, extended sequential
+            case 0xC2: // SOF2, progressive
+                if (frame) {
+                    throw new MediaError('JPEG has more than one frame', { code: ERROR_CODES.INVALID_MEDIA });
+                }
+                frame = readFrame(segment, marker === 0xC2);
+                break;
+            case 0xDA: { // SOS
+                if (!frame) {
+                    throw new MediaError('JPEG scan before frame header', { code: ERROR_CODES.INVALID_MEDIA });
+                }
+                
+                const count = segment[0];
+                const components: JpegComponent[] = [];
+                for (let i = 0; i < count; i++) {
+                    const component = frame.components.find(c => c.id === segment[1 + i * 2]);
+                    if (!component) {
+                        throw new MediaError('JPEG scan references an unknown component', { code: ERROR_CODES.INVALID_MEDIA });
+                    }
+                    
+                    const tables = segment[2 + i * 2];
+                    component.huffmanTableDC = huffmanTablesDC[tables >> 4];
+                    component.huffmanTableAC = huffmanTablesAC[tables & 15];
+                    components.push(component);
+                }
+                
+                const spectralStart = segment[1 + count * 2];
+                const spectralEnd = segment[2 + count * 2];
+                const approximation = segment[3 + count * 2];
+                
+                offset += decodeScan(
+                    data, offset, frame, components, resetInterval,
+                    spectralStart, spectralEnd, approximation >> 4, approximation & 15
+                );
+                break;
+            }
+            default:
+                if (marker >= 0xC3 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+                    throw new MediaError('Unsupported JPEG coding (lossless or arithmetic)', { code: ERROR_CODES.INVALID_MEDIA });
+                }
+                // Other application and comment segments are skipped
+                break;
+        }
+    }
+    
+    if (!frame) {
+        throw new MediaError('JPEG has no frame header', { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    const reduced = minSize !== undefined && Math.max(frame.width, frame.height) / 8 >= minSize;
+    return buildImage(frame, quantizationTables, adobeTransform, reduced);
+}
+
+/**
+ * Encode RGBA pixels as a baseline JPEG, ignoring alpha
+ * @param image Image to encode
+ * @param quality Quality from 1 to 100
+ */
+export function encodeJpeg(image: RawImage, quality: number = 75): Buffer {
+    const { width, height, data } = image;
+    const lumaTable = scaleQuantizationTable(STANDARD_LUMA_QUANTIZATION, quality);
+    const chromaTable = scaleQuantizationTable(STANDARD_CHROMA_QUANTIZATION, quality);
+    
+    const lumaDC = buildHuffmanCodes(STANDARD_DC_LUMA_BITS, STANDARD_DC_VALUES);
+    const lumaAC = buildHuffmanCodes(STANDARD_AC_LUMA_BITS, STANDARD_AC_LUMA_VALUES);
+    const chromaDC = buildHuffmanCodes(STANDARD_DC_CHROMA_BITS, STANDARD_DC_VALUES);
+    const chromaAC = buildHuffmanCodes(STANDARD_AC_CHROMA_BITS, STANDARD_AC_CHROMA_VALUES);
+    
+    const writer = new BitWriter();
+    const y = new Float64Array(64);
+    const cb = new Float64Array(64);
+    const cr = new Float64Array(64);
+    let predY = 0;
+    let predCb = 0;
+    let predCr = 0;
+    
+    for (let blockY = 0; blockY < height; blockY += 8) {
+        for (let blockX = 0; blockX < width; blockX += 8) {
+            // Edge blocks repeat the last row and column of pixels
+            for (let i = 0; i < 64; i++) {
+                const px = Math.min(blockX + (i & 7), width - 1);
+                const py = Math.min(blockY + (i >> 3), height - 1);
+                const p = (py * width + px) * 4;
+                const r = data[p];
+                const g = data[p + 1];
+                const b = data[p + 2];
+                
+                y[i] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+                cb[i] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+                cr[i] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+            }
+            
+            predY = encodeBlock(writer, y, lumaTable, lumaDC, lumaAC, predY);
+            predCb = encodeBlock(writer, cb, chromaTable, chromaDC, chromaAC, predCb);
+            predCr = encodeBlock(writer, cr, chromaTable, chromaDC, chromaAC, predCr);
+        }
+    }
+    
+    const scan = writer.finish();
+    
+    const segments: Buffer[] = [
+        Buffer.from([0xFF, 0xD8]),
+        // JFIF 1.01, no density
+        markerSegment(0xE0, Buffer.from([0x4A, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00])),
+        markerSegment(0xDB, Buffer.concat([
+            Buffer.from([0x00]), zigzagTable(lumaTable),
+            Buffer.from([0x01]), zigzagTable(chromaTable)
+        ])),
+        markerSegment(0xC0, Buffer.from([
+            8, height >> 8, height & 0xFF, width >> 8, width & 0xFF, 3,
+            1, 0x11, 0,
+            2, 0x11, 1,
+            3, 0x11, 1
+        ])),
+        markerSegment(0xC4, Buffer.concat([
+            huffmanTableSegment(0x00, STANDARD_DC_LUMA_BITS, STANDARD_DC_VALUES),
+            huffmanTableSegment(0x10, STANDARD_AC_LUMA_BITS, STANDARD_AC_LUMA_VALUES),
+            huffmanTableSegment(0x01, STANDARD_DC_CHROMA_BITS, STANDARD_DC_VALUES),
+            huffmanTableSegment(0x11, STANDARD_AC_CHROMA_BITS, STANDARD_AC_CHROMA_VALUES)
+        ])),
+        markerSegment(0xDA, Buffer.from([3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0])),
+        scan,
+        Buffer.from([0xFF, 0xD9])
+    ];
+    
+    return Buffer.concat(segments);
+}
+
+/**
+ * Read DQT tables into natural coefficient order
+ * @param segment DQT segment
+ * @param tables Tables by id
+ */
+function readQuantizationTables(segment: Buffer, tables: Int32Array[]): void {
+    let offset = 0;
+    
+    while (offset < segment.length) {
+        const precision = segment[offset] >> 4;
+        const id = segment[offset] & 15;
+        offset++;
+        
+        const table = new Int32Array(64);
+        for (let k = 0; k < 64; k++) {
+            if (precision) {
+                table[ZIGZAG[k]] = segment.readUInt16BE(offset);
+                offset += 2;
+            } else {
+                table[ZIGZAG[k]] = segment[offset++];
+            }
+        }
+        tables[id] = table;
+    }
+}
+
+/**
+ * Read DHT tables into Huffman trees
+ * @param segment DHT segment
+ * @param dcTables DC tables by id
+ * @param acTables AC tables by id
+ */
+function readHuffmanTables(segment: Buffer, dcTables: HuffmanNode[][], acTables: HuffmanNode[][]): void {
+    let offset = 0;
+    
+    while (offset < segment.length) {
+        const tableClass = segment[offset] >> 4;
+        const id = segment[offset] & 15;
+        const lengths = segment.subarray(offset + 1, offset + 17);
+        const total = lengths.reduce((sum, count) => sum + count, 0);
+        const symbols = segment.subarray(offset + 17, offset + 17 + total);
+        offset += 17 + total;
+        
+        const tree = buildHuffmanTree(lengths, symbols);
+        if (tableClass === 0) {
+            dcTables[id] = tree;
+        } else {
+            acTables[id] = tree;
+        }
+    }
+}
+
+/**
+ * Build a Huffman tree from code length counts, assigning canonical codes in order
+ * @param lengths Number of codes of each length from 1 to 16
+ * @param symbols Symbols in code order
+ */
+function buildHuffmanTree(lengths: Uint8Array, symbols: Uint8Array): HuffmanNode[] {
+    const root: HuffmanNode[] = [];
+    let code = 0;
+    let k = 0;
+    
+    for (let length = 1; length <= 16; length++) {
+        for (let i = 0; i < lengths[length - 1]; i++) {
+            let node = root;
+            for (let bit = length - 1; bit > 0; bit--) {
+                const direction = (code >> bit) & 1;
+                if (node[direction] === undefined) {
+                    node[direction] = [];
+                }
+                node = node[direction] as HuffmanNode[];
+            }
+            node[code & 1] = symbols[k++];
+            code++;
+        }
+        code <<= 1;
+    }
+    
+    return root;
+}
+
+/**
+ * Read a frame header and lay out coefficient storage for each component
+ * @param segment SOF segment
+ * @param progressive Whether the image is progressive
+ */
+function readFrame(segment: Buffer, progressive: boolean): JpegFrame {
+    if (segment[0] !== 8) {
+        throw new MediaError(`Unsupported JPEG precision: ${segment[0]} bits`, { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    const height = segment.readUInt16BE(1);
+    const width = segment.readUInt16BE(3);
+    const count = segment[5];
+    if (!width || !height) {
+        throw new MediaError('JPEG has no dimensions', { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    const components: JpegComponent[] = [];
+    for (let i = 0; i < count; i++) {
+        const sampling = segment[7 + i * 3];
+        components.push({
+            id: segment[6 + i * 3],
+            h: Math.max(sampling >> 4, 1),
+            v: Math.max(sampling & 15, 1),
+            quantizationId: segment[8 + i * 3],
+            blocksPerLine: 0,
+            blocksPerColumn: 0,
+            blocksPerLineForMcu: 0,
+            blockData: new Int16Array(0),
+            pred: 0
+        });
+    }
+    
+    const maxH = Math.max(...components.map(c => c.h));
+    const maxV = Math.max(...components.map(c => c.v));
+    const mcusPerLine = Math.ceil(width / 8 / maxH);
+    const mcusPerColumn = Math.ceil(height / 8 / maxV);
+    
+    for (const component of components) {
+        component.blocksPerLine = Math.ceil(Math.ceil(width * component.h / maxH) / 8);
+        component.blocksPerColumn = Math.ceil(Math.ceil(height * component.v / maxV) / 8);
+        component.blocksPerLineForMcu = mcusPerLine * component.h;
+        component.blockData = new Int16Array(64 * component.blocksPerLineForMcu * mcusPerColumn * component.v);
+    }
+    
+    return { progressive, width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+}
+
+/**
+ * Decode the entropy-coded data of one scan into the components' coefficients
+ * Returns the number of bytes consumed
+ */
+function decodeScan(
+    data: Buffer,
+    startOffset: number,
+    frame: JpegFrame,
+    components: JpegComponent[],
+    resetInterval: number,
+    spectralStart: number,
+    spectralEnd: number,
+    successivePrev: number,
+    successive: number
+): number {
+    let offset = startOffset;
+    let bitsData = 0;
+    let bitsCount = 0;
+    let eobrun = 0;
+    let successiveACState = 0;
+    let successiveACNextValue = 0;
+    
+    const readBit = (): number => {
+        if (bitsCount > 0) {
+            bitsCount--;
+            return (bitsData >> bitsCount) & 1;
+        }
+        
+        if (offset >= data.length) {
+            throw new MediaError('JPEG data is truncated', { code: ERROR_CODES.INVALID_MEDIA });
+        }
+        
+        bitsData = data[offset++];
+        if (bitsData === 0xFF) {
+            if (data[offset] !== 0x00) {
+                throw new MediaError('Unexpected marker in JPEG scan', { code: ERROR_CODES.INVALID_MEDIA });
+            }
+            offset++;
+        }
+        
+        bitsCount = 7;
+        return bitsData >> 7;
+    };
+    
+    const decodeHuffman = (tree: HuffmanNode[] | undefined): number => {
+        let node: HuffmanNode | undefined = tree;
+        while (typeof node === 'object') {
+            node = node[readBit()];
+        }
+        
+        if (node === undefined) {
+            throw new MediaError('Invalid JPEG Huffman code', { code: ERROR_CODES.INVALID_MEDIA });
+        }
+        return node;
+    };
+    
+    const receive = (length: number): number => {
+        let n = 0;
+        while (length-- > 0) {
+            n = (n << 1) | readBit();
+        }
+        return n;
+    };
+    
+    const receiveAndExtend = (length: number): number => {
+        if (length === 1) {
+            return readBit() ? 1 : -1;
+        }
+        
+        const n = receive(length);
+        return n >= 1 << (length - 1) ? n : n + (-1 << length) + 1;
+    };
+    
+    const decodeBaseline = (component: JpegComponent, blockOffset: number): void => {
+        const t = decodeHuffman(component.huffmanTableDC);
+        const diff = t === 0 ? 0 : receiveAndExtend(t);
+        component.pred += diff;
+        component.blockData[blockOffset] = component.pred;
+        
+        let k = 1;
+        while (k < 64) {
+            const rs = decodeHuffman(component.huffmanTableAC);
+            const s = rs & 15;
+            const r = rs >> 4;
+            
+            if (s === 0) {
+                if (r < 15) {
+                    break;
+                }
+                k += 16;
+                continue;
+            }
+            
+            k += r;
+            if (k > 63) {
+                break;
+            }
+            component.blockData[blockOffset + ZIGZAG[k]] = receiveAndExtend(s);
+            k++;
+        }
+    };
+    
+    const decodeDCFirst = (component: JpegComponent, blockOffset: number): void => {
+        const t = decodeHuffman(component.huffmanTableDC);
+        const diff = t === 0 ? 0 : receiveAndExtend(t) * (1 << successive);
+        component.pred += diff;
+        component.blockData[blockOffset] = component.pred;
+    };
+    
+    const decodeDCSuccessive = (component: JpegComponent, blockOffset: number): void => {
+        if (readBit()) {
+            component.blockData[blockOffset] |= 1 << successive;
+        }
+    };
+    
+    const decodeACFirst = (component: JpegComponent, blockOffset: number): void => {
+        if (eobrun > 0) {
+            eobrun--;
+            return;
+        }
+        
+        let k = spectralStart;
+        while (k <= spectralEnd) {
+            const rs = decodeHuffman(component.huffmanTableAC);
+            const s = rs & 15;
+            const r = rs >> 4;
+            
+            if (s === 0) {
+                if (r < 15) {
+                    eobrun = receive(r) + (1 << r) - 1;
+                    break;
+                }
+                k += 16;
+                continue;
+            }
+            
+            k += r;
+            if (k > 63) {
+                break;
+            }
+            component.blockData[blockOffset + ZIGZAG[k]] = receiveAndExtend(s) * (1 << successive);
+            k++;
+        }
+    };
+    
+    // Refinement of AC coefficients, driven by a small state machine:
+    // 0 reads the next code, 1 and 2 skip zero coefficients, 3 places a new value, 4 is an end-of-band run
+    const decodeACSuccessive = (component: JpegComponent, blockOffset: number): void => {
+        let k = spectralStart;
+        let r = 0;
+        
+        while (k <= spectralEnd) {
+            const z = blockOffset + ZIGZAG[k];
+            const coefficient = component.blockData[z];
+            const sign = coefficient < 0 ? -1 : 1;
+            
+            switch (successiveACState) {
+                case 0: {
+                    const rs = decodeHuffman(component.huffmanTableAC);
+                    const s = rs & 15;
+                    r = rs >> 4;
+                    
+                    if (s === 0) {
+                        if (r < 15) {
+                            eobrun = receive(r) + (1 << r);
+                            successiveACState = 4;
+                        } else {
+                            r = 16;
+                            successiveACState = 1;
+                        }
+                    } else {
+                        if (s !== 1) {
+                            throw new MediaError('Invalid JPEG AC refinement', { code: ERROR_CODES.INVALID_MEDIA });
+                        }
+                        successiveACNextValue = receiveAndExtend(s);
+                        successiveACState = r ? 2 : 3;
+                    }
+                    continue;
+                }
+                case 1:
+                case 2:
+                    if (coefficient) {
+                        component.blockData[z] += sign * (readBit() << successive);
+                    } else {
+                        r--;
+                        if (r === 0) {
+                            successiveACState = successiveACState === 2 ? 3 : 0;
+                        }
+                    }
+                    break;
+                case 3:
+                    if (coefficient) {
+                        component.blockData[z] += sign * (readBit() << successive);
+                    } else {
+                        component.blockData[z] = successiveACNextValue << successive;
+                        successiveACState = 0;
+                    }
+                    break;
+                case 4:
+                    if (coefficient) {
+                        component.blockData[z] += sign * (readBit() << successive);
+                    }
+                    break;
+            }
+            k++;
+        }
+        
+        if (successiveACState === 4) {
+            eobrun--;
+            if (eobrun === 0) {
+                successiveACState = 0;
+            }
+        }
+    };
+    
+    let decode: (component: JpegComponent, blockOffset: number) => void;
+    if (!frame.progressive) {
+        decode = decodeBaseline;
+    } else if (spectralStart === 0) {
+        decode = successivePrev === 0 ? decodeDCFirst : decodeDCSuccessive;
+    } else {
+        decode = successivePrev === 0 ? decodeACFirst : decodeACSuccessive;
+    }
+    
+    // A scan of a single component is not interleaved and covers only that component's blocks
+    const single = components.length === 1 ? components[0] : undefined;
+    const mcuExpected = single
+        ? single.blocksPerLine * single.blocksPerColumn
+        : frame.mcusPerLine * frame.mcusPerColumn;
+    let mcu = 0;
+    
+    while (mcu < mcuExpected) {
+        const mcuToRead = resetInterval ? Math.min(mcuExpected - mcu, resetInterval) : mcuExpected;
+        for (const component of components) {
+            component.pred = 0;
+        }
+        eobrun = 0;
+        successiveACState = 0;
+        
+        for (let n = 0; n < mcuToRead; n++, mcu++) {
+            if (single) {
+                const row = Math.floor(mcu / single.blocksPerLine);
+                const col = mcu % single.blocksPerLine;
+                decode(single, 64 * (row * single.blocksPerLineForMcu + col));
+                continue;
+            }
+            
+            const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+            const mcuCol = mcu % frame.mcusPerLine;
+            for (const component of components) {
+                for (let v = 0; v < component.v; v++) {
+                    for (let h = 0; h < component.h; h++) {
+                        const row = mcuRow * component.v + v;
+                        const col = mcuCol * component.h + h;
+                        decode(component, 64 * (row * component.blocksPerLineForMcu + col));
+                    }
+                }
+            }
+        }
+        
+        // Skip to the restart marker that ends this interval, if any
+        bitsCount = 0;
+        while (offset < data.length - 1 && !(data[offset] === 0xFF && data[offset + 1] !== 0x00 && data[offset + 1] !== 0xFF)) {
+            offset++;
+        }
+        if (mcu < mcuExpected && data[offset + 1] >= 0xD0 && data[offset + 1] <= 0xD7) {
+            offset += 2;
+        } else {
+            break;
+        }
+    }
+    
+    return offset - startOffset;
+}
+
+/**
+ * Convert decoded coefficients to RGBA pixels
+ * When reduced, each block is represented by its DC coefficient alone, giving an image at 1/8 scale
+ * @param frame Frame with decoded coefficients
+ * @param quantizationTables Quantization tables by id
+ * @param adobeTransform Color transform from the Adobe marker, if present
+ * @param reduced Whether to build the 1/8 scale image
+ */
+function buildImage(frame: JpegFrame, quantizationTables: Int32Array[], adobeTransform: number | undefined, reduced: boolean): RawImage {
+    const { maxH, maxV, components } = frame;
+    const blockSize = reduced ? 1 : 8;
+    const width = reduced ? Math.ceil(frame.width / 8) : frame.width;
+    const height = reduced ? Math.ceil(frame.height / 8) : frame.height;
+    
+    const planes = components.map(component => {
+        const table = quantizationTables[component.quantizationId];
+        if (!table) {
+            throw new MediaError('JPEG is missing a quantization table', { code: ERROR_CODES.INVALID_MEDIA });
+        }
+        
+        const lineWidth = component.blocksPerLine * blockSize;
+        const plane = new Uint8ClampedArray(lineWidth * component.blocksPerColumn * blockSize);
+        const block = new Float64Array(64);
+        const temp = new Float64Array(64);
+        
+        for (let row = 0; row < component.blocksPerColumn; row++) {
+            for (let col = 0; col < component.blocksPerLine; col++) {
+                const blockOffset = 64 * (row * component.blocksPerLineForMcu + col);
+                
+                if (reduced) {
+                    // The DC coefficient is eight times the block average
+                    plane[row * lineWidth + col] = component.blockData[blockOffset] * table[0] / 8 + 128;
+                    continue;
+                }
+                
+                for (let i = 0; i < 64; i++) {
+                    block[i] = component.blockData[blockOffset + i] * table[i];
+                }
+                
+                inverseDct(block, temp);
+                
+                for (let y = 0; y < 8; y++) {
+                    const lineOffset = (row * 8 + y) * lineWidth + col * 8;
+                    for (let x = 0; x < 8; x++) {
+                        plane[lineOffset + x] = block[y * 8 + x] + 128;
+                    }
+                }
+            }
+        }
+        
+        // Source column of every output column, for nearest-neighbour upsampling of subsampled components
+        const columns = new Int32Array(width);
+        for (let x = 0; x < width; x++) {
+            columns[x] = Math.floor(x * component.h / maxH);
+        }
+        
+        return { plane, lineWidth, columns, scaleY: component.v / maxV };
+    });
+    
+    // Adobe images mark RGB with transform 0; otherwise three components are YCbCr
+    const isRgb = components.length === 3 && (adobeTransform === 0 ||
+        (components[0].id === 0x52 && components[1].id === 0x47 && components[2].id === 0x42));
+    const isYcck = components.length === 4 && adobeTransform === 2;
+    // Adobe writes CMYK inverted
+    const invertedCmyk = components.length === 4 && adobeTransform !== undefined;
+    
+    const output = Buffer.alloc(width * height * 4);
+    const samples = new Float64Array(components.length);
+    const rows = new Int32Array(planes.length);
+    
+    for (let y = 0; y < height; y++) {
+        for (let c = 0; c < planes.length; c++) {
+            rows[c] = Math.floor(y * planes[c].scaleY) * planes[c].lineWidth;
+        }
+        
+        for (let x = 0; x < width; x++) {
+            for (let c = 0; c < planes.length; c++) {
+                samples[c] = planes[c].plane[rows[c] + planes[c].columns[x]];
+            }
+            
+            const p = (y * width + x) * 4;
+            
+            if (components.length === 1) {
+                output[p] = output[p + 1] = output[p + 2] = samples[0];
+            } else if (components.length === 3) {
+                if (isRgb) {
+                    output[p] = samples[0];
+                    output[p + 1] = samples[1];
+                    output[p + 2] = samples[2];
+                } else {
+                    writeYcbcr(output, p, samples[0], samples[1], samples[2]);
+                }
+            } else {
+                // YCCK holds CMY as YCbCr of the inverted values
+                if (isYcck) {
+                    writeYcbcr(output, p, samples[0], samples[1], samples[2]);
+                    for (let c = 0; c < 3; c++) {
+                        samples[c] = 255 - output[p + c];
+                    }
+                }
+                
+                const k = samples[3];
+                for (let c = 0; c < 3; c++) {
+                    output[p + c] = clamp(invertedCmyk
+                        ? samples[c] * k / 255
+                        : (255 - samples[c]) * (255 - k) / 255);
+                }
+            }
+            
+            output[p + 3] = 255;
+        }
+    }
+    
+    return { width, height, data: output };
+}
+
+/**
+ * Two-dimensional inverse DCT of a block in place
+ * @param block Dequantized coefficients in natural order, replaced by samples
+ * @param temp Scratch space of 64 values
+ */
+function inverseDct(block: Float64Array, temp: Float64Array): void {
+    for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+            let sum = 0;
+            for (let u = 0; u < 8; u++) {
+                sum += COSINES[x * 8 + u] * block[v * 8 + u];
+            }
+            temp[v * 8 + x] = sum;
+        }
+    }
+    
+    for (let x = 0; x < 8; x++) {
+        for (let y = 0; y < 8; y++) {
+            let sum = 0;
+            for (let v = 0; v < 8; v++) {
+                sum += COSINES[y * 8 + v] * temp[v * 8 + x];
+            }
+            block[y * 8 + x] = sum;
+        }
+    }
+}
+
+/**
+ * Two-dimensional forward DCT of a block in place
+ * @param block Level-shifted samples in natural order, replaced by coefficients
+ * @param temp Scratch space of 64 values
+ */
+function forwardDct(block: Float64Array, temp: Float64Array): void {
+    for (let y = 0; y < 8; y++) {
+        for (let u = 0; u < 8; u++) {
+            let sum = 0;
+            for (let x = 0; x < 8; x++) {
+                sum += COSINES[x * 8 + u] * block[y * 8 + x];
+            }
+            temp[y * 8 + u] = sum;
+        }
+    }
+    
+    for (let u = 0; u < 8; u++) {
+        for (let v = 0; v < 8; v++) {
+            let sum = 0;
+            for (let y = 0; y < 8; y++) {
+                sum += COSINES[y * 8 + v] * temp[y * 8 + u];
+            }
+            block[v * 8 + u] = sum;
+        }
+    }
+}
+
+/**
+ * Convert a YCbCr sample to RGB and write it to an RGBA buffer
+ * @param output RGBA pixels
+ * @param p Offset of the pixel
+ */
+function writeYcbcr(output: Buffer, p: number, y: number, cb: number, cr: number): void {
+    output[p] = clamp(y + 1.402 * (cr - 128));
+    output[p + 1] = clamp(y - 0.344136 * (cb - 128) - 0.714136 * (cr - 128));
+    output[p + 2] = clamp(y + 1.772 * (cb - 128));
+}
+
+/**
+ * Round and clamp a sample to a byte
+ */
+function clamp(value: number): number {
+    return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+// Example tables from Annex K of the JPEG standard, in natural order
+const STANDARD_LUMA_QUANTIZATION = [
+    16, 11, 10, 16, 24, 40, 51, 61,
+    12, 12, 14, 19, 26, 58, 60, 55,
+    14, 13, 16, 24, 40, 57, 69, 56,
+    14, 17, 22, 29, 51, 87, 80, 62,
+    18, 22, 37, 56, 68, 109, 103, 77,
+    24, 35, 55, 64, 81, 104, 113, 92,
+    49, 64, 78, 87, 103, 121, 120, 101,
+    72, 92, 95, 98, 112, 100, 103, 99
+];
+
+const STANDARD_CHROMA_QUANTIZATION = [
+    17, 18, 24, 47, 99, 99, 99, 99,
+    18, 21, 26, 66, 99, 99, 99, 99,
+    24, 26, 56, 99, 99, 99, 99, 99,
+    47, 66, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99
+];
+
+const STANDARD_DC_LUMA_BITS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const STANDARD_DC_CHROMA_BITS = [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0];
+const STANDARD_DC_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+const STANDARD_AC_LUMA_BITS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7D];
+const STANDARD_AC_LUMA_VALUES = [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+    0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xA1, 0x08, 0x23, 0x42, 0xB1, 0xC1, 0x15, 0x52, 0xD1, 0xF0,
+    0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0A, 0x16, 0x17, 0x18, 0x19, 0x1A, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2A, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3A, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+    0x4A, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+    0x6A, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7A, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8A, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9A, 0xA2, 0xA3, 0xA4, 0xA5, 0xA6, 0xA7,
+    0xA8, 0xA9, 0xAA, 0xB2, 0xB3, 0xB4, 0xB5, 0xB6, 0xB7, 0xB8, 0xB9, 0xBA, 0xC2, 0xC3, 0xC4, 0xC5,
+    0xC6, 0xC7, 0xC8, 0xC9, 0xCA, 0xD2, 0xD3, 0xD4, 0xD5, 0xD6, 0xD7, 0xD8, 0xD9, 0xDA, 0xE1, 0xE2,
+    0xE3, 0xE4, 0xE5, 0xE6, 0xE7, 0xE8, 0xE9, 0xEA, 0xF1, 0xF2, 0xF3, 0xF4, 0xF5, 0xF6, 0xF7, 0xF8,
+    0xF9, 0xFA
+];
+
+const STANDARD_AC_CHROMA_BITS = [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77];
+const STANDARD_AC_CHROMA_VALUES = [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+    0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xA1, 0xB1, 0xC1, 0x09, 0x23, 0x33, 0x52, 0xF0,
+    0x15, 0x62, 0x72, 0xD1, 0x0A, 0x16, 0x24, 0x34, 0xE1, 0x25, 0xF1, 0x17, 0x18, 0x19, 0x1A, 0x26,
+    0x27, 0x28, 0x29, 0x2A, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3A, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+    0x49, 0x4A, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5A, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+    0x69, 0x6A, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7A, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8A, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9A, 0xA2, 0xA3, 0xA4, 0xA5,
+    0xA6, 0xA7, 0xA8, 0xA9, 0xAA, 0xB2, 0xB3, 0xB4, 0xB5, 0xB6, 0xB7, 0xB8, 0xB9, 0xBA, 0xC2, 0xC3,
+    0xC4, 0xC5, 0xC6, 0xC7, 0xC8, 0xC9, 0xCA, 0xD2, 0xD3, 0xD4, 0xD5, 0xD6, 0xD7, 0xD8, 0xD9, 0xDA,
+    0xE2, 0xE3, 0xE4, 0xE5, 0xE6, 0xE7, 0xE8, 0xE9, 0xEA, 0xF2, 0xF3, 0xF4, 0xF5, 0xF6, 0xF7, 0xF8,
+    0xF9, 0xFA
+];
+
+// Huffman code for each symbol: [code, length]
+type HuffmanCodes = Array<[number, number]>;
+
+/**
+ * Scale a standard quantization table to a quality level, as libjpeg does
+ * @param table Table in natural order
+ * @param quality Quality from 1 to 100
+ */
+function scaleQuantizationTable(table: number[], quality: number): Int32Array {
+    const q = Math.min(Math.max(Math.round(quality), 1), 100);
+    const scale = q < 50 ? 5000 / q : 200 - q * 2;
+    
+    return Int32Array.from(table, value => Math.min(Math.max(Math.floor((value * scale + 50) / 100), 1), 255));
+}
+
+/**
+ * Assign canonical Huffman codes to symbols
+ * @param bits Number of codes of each length from 1 to 16
+ * @param values Symbols in code order
+ */
+function buildHuffmanCodes(bits: number[], values: number[]): HuffmanCodes {
+    const codes: HuffmanCodes = [];
+    let code = 0;
+    let k = 0;
+    
+    for (let length = 1; length <= 16; length++) {
+        for (let i = 0; i < bits[length - 1]; i++) {
+            codes[values[k++]] = [code++, length];
+        }
+        code <<= 1;
+    }
+    
+    return codes;
+}
+
+/**
+ * Transform, quantize and entropy-code one block
+ * Returns the block's DC value, the prediction for the next block of the component
+ */
+function encodeBlock(
+    writer: BitWriter,
+    block: Float64Array,
+    table: Int32Array,
+    dcCodes: HuffmanCodes,
+    acCodes: HuffmanCodes,
+    pred: number
+): number {
+    forwardDct(block, new Float64Array(64));
+    
+    const quantized = new Int32Array(64);
+    for (let k = 0; k < 64; k++) {
+        const i = ZIGZAG[k];
+        quantized[k] = Math.round(block[i] / table[i]);
+    }
+    
+    const diff = quantized[0] - pred;
+    const dcSize = bitSize(diff);
+    writer.write(...dcCodes[dcSize]);
+    writer.write(encodeValue(diff, dcSize), dcSize);
+    
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+        const value = quantized[k];
+        if (value === 0) {
+            run++;
+            continue;
+        }
+        
+        while (run > 15) {
+            writer.write(...acCodes[0xF0]);
+            run -= 16;
+        }
+        
+        const size = bitSize(value);
+        writer.write(...acCodes[(run << 4) | size]);
+        writer.write(encodeValue(value, size), size);
+        run = 0;
+    }
+    
+    if (run > 0) {
+        writer.write(...acCodes[0x00]);
+    }
+    
+    return quantized[0];
+}
+
+/**
+ * Number of bits needed for the magnitude of a value
+ */
+function bitSize(value: number): number {
+    let magnitude = Math.abs(value);
+    let size = 0;
+    while (magnitude) {
+        size++;
+        magnitude >>= 1;
+    }
+    return size;
+}
+
+/**
+ * JPEG representation of a value: negative values are stored as ones' complement
+ */
+function encodeValue(value: number, size: number): number {
+    return value < 0 ? value + (1 << size) - 1 : value;
+}
+
+/**
+ * Writes bits most significant first, stuffing a zero byte after each 0xFF
+ */
+class BitWriter {
+    private bytes: number[] = [];
+    private current = 0;
+    private count = 0;
+    
+    write(code: number, length: number): void {
+        for (let bit = length - 1; bit >= 0; bit--) {
+            this.current = (this.current << 1) | ((code >> bit) & 1);
+            this.count++;
+            
+            if (this.count === 8) {
+                this.bytes.push(this.current);
+                if (this.current === 0xFF) {
+                    this.bytes.push(0x00);
+                }
+                this.current = 0;
+                this.count = 0;
+            }
+        }
+    }
+    
+    /**
+     * Pad the last byte with ones and return the written data
+     */
+    finish(): Buffer {
+        if (this.count > 0) {
+            this.write((1 << (8 - this.count)) - 1, 8 - this.count);
+        }
+        return Buffer.from(this.bytes);
+    }
+}
+
+/**
+ * Build a marker segment with its length prefix
+ * @param marker Marker code after 0xFF
+ * @param payload Segment contents
+ */
+function markerSegment(marker: number, payload: Buffer): Buffer {
+    const header = Buffer.from([0xFF, marker, 0, 0]);
+    header.writeUInt16BE(payload.length + 2, 2);
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * Serialize a quantization table in zigzag order
+ * @param table Table in natural order
+ */
+function zigzagTable(table: Int32Array): Buffer {
+    return Buffer.from(Array.from(ZIGZAG, i => table[i]));
+}
+
+/**
+ * Serialize one Huffman table for a DHT segment
+ * @param classAndId Table class in the high nibble, id in the low nibble
+ * @param bits Number of codes of each length
+ * @param values Symbols in code order
+ */
+function huffmanTableSegment(classAndId: number, bits: number[], values: number[]): Buffer {
+    return Buffer.from([classAndId, ...bits, ...values]);
+}
@@ -0,0 +1,153 @@
+/**
+ * Cache of media uploads keyed by file hash, so identical files are uploaded only once
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { MediaCacheStore, MediaCacheEntry, MediaKeyType, MediaUploadResult } from './Types';
+import { MEDIA_CACHE_TTL } from './Constants';
+import { createLogger, writeFileAtomic } from './Utils';
+
+/**
+ * Keeps uploads in memory; the cache is lost when the process exits
+ */
+export class MemoryMediaCacheStore implements MediaCacheStore {
+    private entries: Map<string, MediaCacheEntry> = new Map();
+    
+    async get(key: string): Promise<MediaCacheEntry | undefined> {
+        const entry = this.entries.get(key);
+        return entry && { ...entry };
+    }
+    
+    async set(key: string, entry: MediaCacheEntry): Promise<void> {
+        this.entries.set(key, { ...entry });
+    }
+    
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+}
+
+/**
+ * Keeps one JSON file per upload inside a directory, so the cache survives restarts
+ * and can be shared by processes sending from the same account
+ */
+export class FileMediaCacheStore implements MediaCacheStore {
+    private directory: string;
+    private logger: ReturnType<typeof createLogger>;
+    
+    constructor(directory: string, options: { logLevel?: string } = {}) {
+        this.directory = directory;
+        this.logger = createLogger('FileMediaCacheStore', options.logLevel);
+    }
+    
+    async get(key: string): Promise<MediaCacheEntry | undefined> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.getFilePath(key), 'utf8'));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                return undefined;
+            }
+            this.logger.error(`Failed to read cached upload ${key}:`, error);
+            throw error;
+        }
+    }
+    
+    async set(key: string, entry: MediaCacheEntry): Promise<void> {
+        try {
+            await writeFileAtomic(this.getFilePath(key), JSON.stringify(entry));
+        } catch (error) {
+            this.logger.error(`Failed to write cached upload ${key}:`, error);
+            throw error;
+        }
+    }
+    
+    async delete(key: string): Promise<void> {
+        try {
+            await fs.promises.unlink(this.getFilePath(key));
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                this.logger.error(`Failed to delete cached upload ${key}:`, error);
+                throw error;
+            }
+        }
+    }
+    
+    private getFilePath(key: string): string {
+        return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+    }
+}
+
+/**
+ * Looks up and remembers uploads in a cache store, dropping them once they expire
+ * The cache only saves bandwidth, so a failing store is logged and otherwise ignored
+ */
+export class MediaCache {
+    private store: MediaCacheStore;
+    private ttl: number;
+    private logger: ReturnType<typeof createLogger>;
+    
+    /**
+     * Create a media cache
+     * @param store Where uploads are kept
+     * @param ttl How long an upload is reused, in milliseconds
+     */
+    constructor(store: MediaCacheStore = new MemoryMediaCacheStore(), ttl: number = MEDIA_CACHE_TTL) {
+        this.store = store;
+        this.ttl = ttl;
+        this.logger = createLogger('MediaCache');
+    }
+    
+    /**
+     * Find an unexpired upload of a file
+     * @param fileSha256 SHA-256 of the unencrypted file
+     * @param mediaType Media key expansion the upload was encrypted for
+     */
+    async get(fileSha256: Buffer, mediaType: MediaKeyType): Promise<MediaUploadResult | undefined> {
+        const key = getCacheKey(fileSha256, mediaType);
+        
+        try {
+            const entry = await this.store.get(key);
+            if (!entry) {
+                return undefined;
+            }
+            
+            if (entry.expiresAt <= Date.now()) {
+                await this.store.delete(key);
+                return undefined;
+            }
+            
+            const { expiresAt, ...upload } = entry;
+            return upload;
+        } catch (error) {
+            this.logger.warn(`Could not read media cache entry ${key}:`, error);
+            return undefined;
+        }
+    }
+    
+    /**
+     * Remember an upload of a file
+     * @param fileSha256 SHA-256 of the unencrypted file
+     * @param mediaType Media key expansion the upload was encrypted for
+     * @param upload Uploaded media
+     */
+    async set(fileSha256: Buffer, mediaType: MediaKeyType, upload: MediaUploadResult): Promise<void> {
+        const key = getCacheKey(fileSha256, mediaType);
+        
+        try {
+            await this.store.set(key, { ...upload, expiresAt: Date.now() + this.ttl });
+        } catch (error) {
+            this.logger.warn(`Could not write media cache entry ${key}:`, error);
+        }
+    }
+}
+
+/**
+ * Build the store key for a file
+ * The media type is part of the key because the media key is expanded differently for each type
+ * @param fileSha256 SHA-256 of the unencrypted file
+ * @param mediaType Media key expansion
+ */
+function getCacheKey(fileSha256: Buffer, mediaType: MediaKeyType): string {
+    return `${mediaType}-${fileSha256.toString('hex')}`;
+}
@@ -0,0 +1,281 @@
+/**
+ * End-to-end encryption of media files
+ * Media is encrypted with AES-256-CBC under keys expanded from a random media key,
+ * followed by a truncated HMAC-SHA256 over the IV and ciphertext
+ */
+
+import crypto from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import { MediaKeyType } from './Types';
+import {
+    getMediaKeys,
+    hkdf,
+    aesEncryptCBC,
+    aesDecryptCBC,
+    aesEncryptGCM,
+    aesDecryptGCM,
+    hmacSha256,
+    sha256
+} from './Crypto';
+import { encodeProto, decodeProto, getProtoBytes, getProtoNumber } from './Protobuf';
+import { ERROR_CODES, MEDIA_RETRY_HKDF_INFO } from './Constants';
+import { MediaError } from './Errors';
+
+export const MEDIA_MAC_LENGTH = 10;
+
+// Outcome of a media re-upload, as reported in a media retry notification
+export const MEDIA_RETRY_RESULT = {
+    GENERAL_ERROR: 0,
+    SUCCESS: 1,
+    NOT_FOUND: 2,
+    DECRYPTION_ERROR: 3
+};
+
+export interface MediaRetryNotification {
+    // ID of the message whose media was re-uploaded
+    stanzaId: string;
+    // New path of the media on the media servers, present on success
+    directPath?: string;
+    result: number;
+}
+
+export interface EncryptedMedia {
+    mediaKey: Buffer;
+    // Ciphertext followed by the MAC, as uploaded
+    encrypted: Buffer;
+    fileSha256: Buffer;
+    fileEncSha256: Buffer;
+    fileLength: number;
+}
+
+/**
+ * Encrypt media for upload with a fresh media key
+ * @param plaintext Media bytes
+ * @param mediaType Media type, which selects the key expansion
+ */
+export function encryptMedia(plaintext: Buffer, mediaType: MediaKeyType): EncryptedMedia {
+    const mediaKey = crypto.randomBytes(32);
+    const { iv, cipherKey, macKey } = getMediaKeys(mediaKey, mediaType);
+    
+    const ciphertext = aesEncryptCBC(plaintext, cipherKey, iv);
+    const mac = hmacSha256(macKey, Buffer.concat([iv, ciphertext])).subarray(0, MEDIA_MAC_LENGTH);
+    const encrypted = Buffer.concat([ciphertext, mac]);
+    
+    return {
+        mediaKey,
+        encrypted,
+        fileSha256: sha256(plaintext),
+        fileEncSha256: sha256(encrypted),
+        fileLength: plaintext.length
+    };
+}
+
+/**
+ * Verify and decrypt downloaded media
+ * @param encrypted Downloaded bytes: ciphertext followed by the MAC
+ * @param mediaKey Media key from the message
+ * @param mediaType Media type, which selects the key expansion
+ * @param expected Hashes from the message to check against, when present
+ */
+export function decryptMedia(
+    encrypted: Buffer,
+    mediaKey: Buffer,
+    mediaType: MediaKeyType,
+    expected: { fileSha256?: Buffer, fileEncSha256?: Buffer } = {}
+): Buffer {
+    if (encrypted.length <= MEDIA_MAC_LENGTH) {
+        throw new MediaError('Encrypted media is too short', { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    if (expected.fileEncSha256 && !sha256(encrypted).equals(expected.fileEncSha256)) {
+        throw new MediaError('Encrypted media hash mismatch', { code: ERROR_CODES.DECRYPTION_FAILED });
+    }
+    
+    const { iv, cipherKey, macKey } = getMediaKeys(mediaKey, mediaType);
+    const ciphertext = encrypted.subarray(0, encrypted.length - MEDIA_MAC_LENGTH);
+    const mac = encrypted.subarray(encrypted.length - MEDIA_MAC_LENGTH);
+    
+    const expectedMac = hmacSha256(macKey, Buffer.concat([iv, ciphertext])).subarray(0, MEDIA_MAC_LENGTH);
+    if (!crypto.timingSafeEqual(mac, expectedMac)) {
+        throw new MediaError('Media MAC mismatch', { code: ERROR_CODES.DECRYPTION_FAILED });
+    }
+    
+    const plaintext = aesDecryptCBC(ciphertext, cipherKey, iv);
+    
+    if (expected.fileSha256 && !sha256(plaintext).equals(expected.fileSha256)) {
+        throw new MediaError('Decrypted media hash mismatch', { code: ERROR_CODES.DECRYPTION_FAILED });
+    }
+    
+    return plaintext;
+}
+
+/**
+ * Encrypt the request asking the sender's device to upload expired media again
+ * Only holders of the media key can make or read it, so the server learns nothing of the media
+ * @param messageId ID of the message with the media
+ * @param mediaKey Media key from the message
+ */
+export function encryptMediaRetryRequest(messageId: string, mediaKey: Buffer): { ciphertext: Buffer, iv: Buffer } {
+    const iv = crypto.randomBytes(12);
+    const receipt = encodeProto({ 1: messageId });
+    
+    return {
+        ciphertext: aesEncryptGCM(receipt, getMediaRetryKey(mediaKey), iv, Buffer.from(messageId)),
+        iv
+    };
+}
+
+/**
+ * Decrypt the notification answering a media retry request
+ * @param messageId ID of the message with the media
+ * @param mediaKey Media key from the message
+ * @param ciphertext Encrypted notification
+ * @param iv Notification IV
+ */
+export function decryptMediaRetryNotification(
+    messageId: string,
+    mediaKey: Buffer,
+    ciphertext: Buffer,
+    iv: Buffer
+): MediaRetryNotification {
+    const plaintext = aesDecryptGCM(ciphertext, getMediaRetryKey(mediaKey), iv, Buffer.from(messageId));
+    const decoded = decodeProto(plaintext);
+    
+    return {
+        stanzaId: getProtoBytes(decoded, 1)?.toString('utf8') || '',
+        directPath: getProtoBytes(decoded, 2)?.toString('utf8'),
+        result: getProtoNumber(decoded, 3) ?? MEDIA_RETRY_RESULT.GENERAL_ERROR
+    };
+}
+
+/**
+ * Derive the key media retry requests and notifications are encrypted with
+ * @param mediaKey Media key from the message
+ */
+function getMediaRetryKey(mediaKey: Buffer): Buffer {
+    return hkdf(mediaKey, 32, { info: MEDIA_RETRY_HKDF_INFO });
+}
+
+/**
+ * Encrypts media as it streams through, producing ciphertext followed by the MAC
+ * Hashes and lengths are available once the stream has finished
+ */
+export class MediaEncryptStream extends Transform {
+    readonly mediaKey: Buffer;
+    fileSha256?: Buffer;
+    fileEncSha256?: Buffer;
+    fileLength = 0;
+    encryptedLength = 0;
+    private cipher: crypto.Cipher;
+    private hmac: crypto.Hmac;
+    private plainHash = crypto.createHash('sha256');
+    private encHash = crypto.createHash('sha256');
+    
+    constructor(mediaType: MediaKeyType) {
+        super();
+        this.mediaKey = crypto.randomBytes(32);
+        
+        const { iv, cipherKey, macKey } = getMediaKeys(this.mediaKey, mediaType);
+        this.cipher = crypto.createCipheriv('aes-256-cbc', cipherKey, iv);
+        this.hmac = crypto.createHmac('sha256', macKey).update(iv);
+    }
+    
+    _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+        this.fileLength += chunk.length;
+        this.plainHash.update(chunk);
+        this.pushEncrypted(this.cipher.update(chunk));
+        callback();
+    }
+    
+    _flush(callback: TransformCallback): void {
+        this.pushEncrypted(this.cipher.final());
+        
+        const mac = this.hmac.digest().subarray(0, MEDIA_MAC_LENGTH);
+        this.encHash.update(mac);
+        this.encryptedLength += mac.length;
+        this.push(mac);
+        
+        this.fileSha256 = this.plainHash.digest();
+        this.fileEncSha256 = this.encHash.digest();
+        callback();
+    }
+    
+    private pushEncrypted(data: Buffer): void {
+        if (!data.length) return;
+        
+        this.hmac.update(data);
+        this.encHash.update(data);
+        this.encryptedLength += data.length;
+        this.push(data);
+    }
+}
+
+/**
+ * Verifies and decrypts downloaded media as it streams through
+ * Plaintext is emitted before the MAC at the end has been checked, so consumers must
+ * discard the output if the stream ends with an error
+ */
+export class MediaDecryptStream extends Transform {
+    private decipher: crypto.Decipher;
+    private hmac: crypto.Hmac;
+    private plainHash = crypto.createHash('sha256');
+    private encHash = crypto.createHash('sha256');
+    private expected: { fileSha256?: Buffer, fileEncSha256?: Buffer };
+    // The last bytes seen may be the MAC, so they are held back until more data arrives
+    private tail: Buffer = Buffer.alloc(0);
+    
+    constructor(mediaKey: Buffer, mediaType: MediaKeyType, expected: { fileSha256?: Buffer, fileEncSha256?: Buffer } = {}) {
+        super();
+        this.expected = expected;
+        
+        const { iv, cipherKey, macKey } = getMediaKeys(mediaKey, mediaType);
+        this.decipher = crypto.createDecipheriv('aes-256-cbc', cipherKey, iv);
+        this.hmac = crypto.createHmac('sha256', macKey).update(iv);
+    }
+    
+    _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+        this.encHash.update(chunk);
+        
+        const data = Buffer.concat([this.tail, chunk]);
+        const ciphertext = data.subarray(0, Math.max(data.length - MEDIA_MAC_LENGTH, 0));
+        this.tail = data.subarray(ciphertext.length);
+        
+        this.hmac.update(ciphertext);
+        this.pushPlaintext(this.decipher.update(ciphertext));
+        callback();
+    }
+    
+    _flush(callback: TransformCallback): void {
+        try {
+            if (this.tail.length < MEDIA_MAC_LENGTH) {
+                throw new MediaError('Encrypted media is too short', { code: ERROR_CODES.INVALID_MEDIA });
+            }
+            
+            if (this.expected.fileEncSha256 && !this.encHash.digest().equals(this.expected.fileEncSha256)) {
+                throw new MediaError('Encrypted media hash mismatch', { code: ERROR_CODES.DECRYPTION_FAILED });
+            }
+            
+            const expectedMac = this.hmac.digest().subarray(0, MEDIA_MAC_LENGTH);
+            if (!crypto.timingSafeEqual(this.tail, expectedMac)) {
+                throw new MediaError('Media MAC mismatch', { code: ERROR_CODES.DECRYPTION_FAILED });
+            }
+            
+            this.pushPlaintext(this.decipher.final());
+            
+            if (this.expected.fileSha256 && !this.plainHash.digest().equals(this.expected.fileSha256)) {
+                throw new MediaError('Decrypted media hash mismatch', { code: ERROR_CODES.DECRYPTION_FAILED });
+            }
+            
+            callback();
+        } catch (error) {
+            callback(error as Error);
+        }
+    }
+    
+    private pushPlaintext(data: Buffer): void {
+        if (!data.length) return;
+        
+        this.plainHash.update(data);
+        this.push(data);
+    }
+}
@@ -2,59 +2,177 @@
  * Handler for WhatsApp media messages
  */
 
+import EventEmitter from 'events';
 import { WAConnection } from './WAConnection';
-import { Message, MessageType, MediaUploadOptions } from './Types';
-import { validatePhoneNumber, generateRandomId, bufferToBase64, getWhatsAppFileType } from './Utils';
+import { MessageHandler } from './MessageHandler';
+import {
+    encryptMedia,
+    encryptMediaRetryRequest,
+    decryptMediaRetryNotification,
+    MediaEncryptStream,
+    MediaDecryptStream,
+    MEDIA_RETRY_RESULT
+} from './MediaCrypto';
+import { MediaCache } from './MediaCache';
+import { sha256 } from './Crypto';
+import {
+    MIME_SNIFF_LENGTH,
+    detectMimetype,
+    getMimetypeFromFilename,
+    getExtensionForMimetype,
+    refineMimetype,
+    mimetypesMatch
+} from './MimeType';
+import { generateThumbnail } from './ImageProcessing';
+import { getMediaMetadata, MediaMetadataStream } from './MediaMetadata';
+import { StickerBuilder, validateSticker, isAnimatedSticker } from './StickerBuilder';
+import { validateVoiceNote, generateWaveform } from './VoiceNote';
+import {
+    Message,
+    MessageType,
+    MediaMessage,
+    ImageMessage,
+    VideoMessage,
+    AudioMessage,
+    StickerMessage,
+    MediaMetadata,
+    MediaUploadOptions,
+    MediaUploadResult,
+    MediaKeyType,
+    MediaProgress,
+    MediaTransferOptions,
+    MediaSendOptions,
+    MediaInput,
+    MediaFetchOptions,
+    StickerSendOptions,
+    SendStatus,
+    Jid
+} from './Types';
+import {
+    ERROR_CODES,
+    DEFAULT_ORIGIN,
+    S_WHATSAPP_NET,
+    MEDIA_HOST,
+    MEDIA_RETRY_TIMEOUT,
+    MEDIA_FETCH_MAX_SIZE,
+    MEDIA_FETCH_TIMEOUT,
+    MEDIA_FETCH_MAX_REDIRECTS,
+    STICKER_SIZE,
+    VOICE_NOTE_MIMETYPE
+} from './Constants';
+import { generateRandomId, bufferToBase64, base64ToBuffer, getWhatsAppFileType } from './Utils';
 import { createLogger } from './Utils';
+import { FocksupError, MediaError, TimeoutError, ProtocolError, toFocksupError } from './Errors';
+import { getBinaryNodeChild } from './WAProtocol';
+import { toBareJid } from './Jid';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
+import { fileURLToPath } from 'url';
+import { Readable, Transform, pipeline } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
 import fetch from 'node-fetch';
 
-export class MediaHandler {
+// Chunk size used when uploading media that is already in memory
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+// Media ready to be encrypted, with its size when known in advance
+interface MediaSource {
+    data: Buffer | Readable;
+    size?: number;
+}
+
+// Kinds of media message, each accepting its own range of content types
+type MediaKind = 'image' | 'video' | 'audio' | 'sticker' | 'document';
+
+// Type prefix the content must have for each kind, where it is restricted
+const MEDIA_KIND_PREFIXES: { [kind in MediaKind]?: string } = {
+    image: 'image/',
+    video: 'video/',
+    audio: 'audio/',
+    sticker: 'image/'
+};
+
+// Kinds as they read in error messages
+const MEDIA_KIND_NAMES: { [kind in MediaKind]: string } = {
+    image: 'an image',
+    video: 'a video',
+    audio: 'audio',
+    sticker: 'a sticker',
+    document: 'a document'
+};
+
+// Type assumed for each kind when neither the content nor the caller reveal it
+const DEFAULT_MIMETYPES: { [kind in MediaKind]: string } = {
+    image: 'image/jpeg',
+    video: 'video/mp4',
+    audio: 'audio/mpeg',
+    sticker: 'image/webp',
+    document: 'application/octet-stream'
+};
+
+export class MediaHandler extends EventEmitter {
     private connection: WAConnection;
+    private messageHandler: MessageHandler;
+    private mediaCache?: MediaCache;
+    // Uploads running right now by file, so concurrent sends of one file share an upload
+    private pendingUploads: Map<string, Promise<MediaUploadResult>> = new Map();
+    private fetchOptions: MediaFetchOptions;
     private logger: ReturnType<typeof createLogger>;
     
-    constructor(connection: WAConnection) {
+    constructor(
+        connection: WAConnection,
+        messageHandler: MessageHandler,
+        mediaCache?: MediaCache,
+        fetchOptions: MediaFetchOptions = {}
+    ) {
+        super();
         this.connection = connection;
+        this.messageHandler = messageHandler;
+        this.mediaCache = mediaCache;
+        this.fetchOptions = fetchOptions;
         this.logger = createLogger('MediaHandler');
     }
     
     /**
      * Send an image message
-     * @param to Recipient's phone number
-     * @param image Image buffer or URL
+     * @param to Recipient's phone number or JID
+     * @param image Image bytes, stream, URL or file path
      * @param caption Optional caption
+     * @param options Mimetype, thumbnail, progress callback and abort signal
      */
-    async sendImage(to: string, image: Buffer | string, caption?: string): Promise<Message> {
+    async sendImage(to: string | Jid, image: MediaInput, caption?: string, options: MediaSendOptions = {}): Promise<ImageMessage> {
         try {
-            const jid = validatePhoneNumber(to);
-            const messageId = generateRandomId();
+            const jid = this.messageHandler.resolveRecipient(to);
+            const messageId = options.messageId || generateRandomId();
             const timestamp = Date.now();
             
             // Get image data as buffer
-            const imageBuffer = await this.getMediaAsBuffer(image);
+            const imageBuffer = await this.getMediaAsBuffer(image, options.signal);
+            const mimetype = this.resolveMimetype(imageBuffer, 'image', options);
+            const { width, height } = getMediaMetadata(imageBuffer, mimetype);
+            const jpegThumbnail = this.createThumbnail(options.thumbnail || imageBuffer);
             
             // Upload the image to WhatsApp servers
-            const uploadResult = await this.uploadMedia(imageBuffer, {
-                filename: 'image.jpg',
-                mimetype: 'image/jpeg'
-            });
+            const uploadResult = await this.uploadMedia({ data: imageBuffer }, {
+                filename: `image${getExtensionForMimetype(mimetype)}`,
+                mimetype,
+                mediaType: 'image'
+            }, messageId, options);
             
             // Send the message with the uploaded media
-            await this.connection.sendRequest({
-                type: 'message',
-                data: {
-                    jid,
-                    type: 'image',
-                    content: {
-                        url: uploadResult.url,
-                        caption: caption || ''
-                    },
-                    id: messageId
+            const status = await this.relayMedia(jid, messageId, uploadResult, options, {
+                imageMessage: {
+                    ...uploadResult,
+                    mimetype,
+                    caption: caption || '',
+                    width,
+                    height,
+                    jpegThumbnail
                 }
             });
             
-            this.logger.info(`Sent image message to ${jid}${caption ? ` with caption: ${caption}` : ''}`);
+            this.logger.info(`${status === 'queued' ? 'Queued' : 'Sent'} image message to ${jid}${caption ? ` with caption: ${caption}` : ''}`);
             
             return {
                 id: messageId,
@@ -62,53 +180,66 @@ export class MediaHandler {
                 to: jid,
                 fromMe: true,
                 timestamp,
+                status,
                 type: MessageType.IMAGE,
                 caption,
-                url: uploadResult.url,
-                mimetype: 'image/jpeg'
+                ...uploadResult,
+                mimetype,
+                width,
+                height,
+                jpegThumbnail
             };
         } catch (error) {
             this.logger.error('Failed to send image message:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MEDIA_UPLOAD_FAILED, MediaError);
         }
     }
     
     /**
      * Send a video message
-     * @param to Recipient's phone number
-     * @param video Video buffer or URL
+     * @param to Recipient's phone number or JID
+     * @param video Video bytes, stream, URL or file path
      * @param caption Optional caption
+     * @param options Mimetype, thumbnail, progress callback and abort signal
      */
-    async sendVideo(to: string, video: Buffer | string, caption?: string): Promise<Message> {
+    async sendVideo(to: string | Jid, video: MediaInput, caption?: string, options: MediaSendOptions = {}): Promise<VideoMessage> {
         try {
-            const jid = validatePhoneNumber(to);
-            const messageId = generateRandomId();
+            const jid = this.messageHandler.resolveRecipient(to);
+            const messageId = options.messageId || generateRandomId();
             const timestamp = Date.now();
             
-            // Get video data as buffer
-            const videoBuffer = await this.getMediaAsBuffer(video);
+            // Videos can be large, so they are streamed rather than read into memory
+            const videoSource = await this.getMediaSource(video, options.signal);
+            const mimetype = this.resolveMimetype(await peekMediaSource(videoSource), 'video', options);
+            // Frames cannot be extracted without a video decoder, so the preview comes from the caller
+            const jpegThumbnail = options.thumbnail ? this.createThumbnail(options.thumbnail) : undefined;
+            const getMetadata = tapMediaMetadata(videoSource, mimetype);
             
             // Upload the video to WhatsApp servers
-            const uploadResult = await this.uploadMedia(videoBuffer, {
-                filename: 'video.mp4',
-                mimetype: 'video/mp4'
-            });
+            const uploadResult = await this.uploadMedia(videoSource, {
+                filename: `video${getExtensionForMimetype(mimetype)}`,
+                mimetype,
+                mediaType: 'video'
+            }, messageId, options);
+            
+            // The duration is only known once the whole video has streamed through the upload
+            const { width, height, duration } = getMetadata();
+            const seconds = toSeconds(duration);
             
             // Send the message with the uploaded media
-            await this.connection.sendRequest({
-                type: 'message',
-                data: {
-                    jid,
-                    type: 'video',
-                    content: {
-                        url: uploadResult.url,
-                        caption: caption || ''
-                    },
-                    id: messageId
+            const status = await this.relayMedia(jid, messageId, uploadResult, options, {
+                videoMessage: {
+                    ...uploadResult,
+                    mimetype,
+                    caption: caption || '',
+                    seconds,
+                    width,
+                    height,
+                    jpegThumbnail
                 }
             });
             
-            this.logger.info(`Sent video message to ${jid}${caption ? ` with caption: ${caption}` : ''}`);
+            this.logger.info(`${status === 'queued' ? 'Queued' : 'Sent'} video message to ${jid}${caption ? ` with caption: ${caption}` : ''}`);
             
             return {
                 id: messageId,
@@ -116,51 +247,67 @@ export class MediaHandler {
                 to: jid,
                 fromMe: true,
                 timestamp,
+                status,
                 type: MessageType.VIDEO,
                 caption,
-                url: uploadResult.url,
-                mimetype: 'video/mp4'
+                ...uploadResult,
+                mimetype,
+                duration: seconds,
+                width,
+                height,
+                jpegThumbnail
             };
         } catch (error) {
             this.logger.error('Failed to send video message:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MEDIA_UPLOAD_FAILED, MediaError);
         }
     }
     
     /**
      * Send an audio message
-     * @param to Recipient's phone number
-     * @param audio Audio buffer or URL
+     * The waveform of a voice note is estimated from the Opus packet sizes, not decoded audio:
+     * it follows speech for the usual variable bitrate recordings, and is flat for constant bitrate ones
+     * @param to Recipient's phone number or JID
+     * @param audio Audio bytes, stream, URL or file path; voice notes must be OGG/Opus
+     * @param options Voice note flag, mimetype, progress callback and abort signal
      */
-    async sendAudio(to: string, audio: Buffer | string, options: { ptt?: boolean } = {}): Promise<Message> {
+    async sendAudio(to: string | Jid, audio: MediaInput, options: { ptt?: boolean } & MediaSendOptions = {}): Promise<AudioMessage> {
         try {
-            const jid = validatePhoneNumber(to);
-            const messageId = generateRandomId();
+            const jid = this.messageHandler.resolveRecipient(to);
+            const messageId = options.messageId || generateRandomId();
             const timestamp = Date.now();
             
             // Get audio data as buffer
-            const audioBuffer = await this.getMediaAsBuffer(audio);
+            const audioBuffer = await this.getMediaAsBuffer(audio, options.signal);
+            
+            // Voice notes in any other format would reach the recipient unplayable
+            if (options.ptt) {
+                validateVoiceNote(audioBuffer);
+            }
+            
+            const mimetype = options.ptt ? VOICE_NOTE_MIMETYPE : this.resolveMimetype(audioBuffer, 'audio', options);
+            const seconds = toSeconds(getMediaMetadata(audioBuffer, mimetype).duration);
+            const waveform = options.ptt ? bufferToBase64(generateWaveform(audioBuffer)) : undefined;
             
             // Upload the audio to WhatsApp servers
-            const uploadResult = await this.uploadMedia(audioBuffer, {
-                filename: 'audio.mp3',
-                mimetype: 'audio/mp3'
-            });
+            const uploadResult = await this.uploadMedia({ data: audioBuffer }, {
+                filename: `audio${getExtensionForMimetype(mimetype)}`,
+                mimetype,
+                mediaType: options.ptt ? 'ptt' : 'audio'
+            }, messageId, options);
             
             // Send the message with the uploaded media
-            await this.connection.sendRequest({
-                type: 'message',
-                data: {
-                    jid,
-                    type: options.ptt ? 'ptt' : 'audio', // ptt = push to talk (voice note)
-                    content: {
-                        url: uploadResult.url
-                    },
-                    id: messageId
+            const status = await this.relayMedia(jid, messageId, uploadResult, options, {
+                audioMessage: {
+                    ...uploadResult,
+                    mimetype,
+                    seconds,
+                    ptt: !!options.ptt, // ptt = push to talk (voice note)
+                    waveform
                 }
             });
             
-            this.logger.info(`Sent ${options.ptt ? 'voice note' : 'audio message'} to ${jid}`);
+            this.logger.info(`${status === 'queued' ? 'Queued' : 'Sent'} ${options.ptt ? 'voice note' : 'audio message'} to ${jid}`);
             
             return {
                 id: messageId,
@@ -168,58 +315,62 @@ export class MediaHandler {
                 to: jid,
                 fromMe: true,
                 timestamp,
+                status,
                 type: MessageType.AUDIO,
-                url: uploadResult.url,
-                mimetype: 'audio/mp3'
+                ...uploadResult,
+                mimetype,
+                duration: seconds,
+                ptt: !!options.ptt,
+                waveform
             };
         } catch (error) {
             this.logger.error('Failed to send audio message:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MEDIA_UPLOAD_FAILED, MediaError);
         }
     }
     
     /**
      * Send a document message
-     * @param to Recipient's phone number
-     * @param document Document buffer or URL
+     * @param to Recipient's phone number or JID
+     * @param document Document bytes, stream, URL or file path
      * @param filename Filename
      * @param caption Optional caption
+     * @param options Mimetype, progress callback and abort signal
      */
-    async sendDocument(to: string, document: Buffer | string, filename: string, caption?: string): Promise<Message> {
+    async sendDocument(
+        to: string | Jid,
+        document: MediaInput,
+        filename: string,
+        caption?: string,
+        options: MediaSendOptions = {}
+    ): Promise<MediaMessage> {
         try {
-            const jid = validatePhoneNumber(to);
-            const messageId = generateRandomId();
+            const jid = this.messageHandler.resolveRecipient(to);
+            const messageId = options.messageId || generateRandomId();
             const timestamp = Date.now();
             
-            // Get document data as buffer
-            const documentBuffer = await this.getMediaAsBuffer(document);
-            
-            // Get mimetype from filename
-            const mimetype = this.getMimetypeFromFilename(filename);
+            // Documents can be large, so they are streamed rather than read into memory
+            const documentSource = await this.getMediaSource(document, options.signal);
+            const mimetype = this.resolveMimetype(await peekMediaSource(documentSource), 'document', options, filename);
             
             // Upload the document to WhatsApp servers
-            const uploadResult = await this.uploadMedia(documentBuffer, {
+            const uploadResult = await this.uploadMedia(documentSource, {
                 filename,
-                mimetype
-            });
+                mimetype,
+                mediaType: 'document'
+            }, messageId, options);
             
             // Send the message with the uploaded media
-            await this.connection.sendRequest({
-                type: 'message',
-                data: {
-                    jid,
-                    type: 'document',
-                    content: {
-                        url: uploadResult.url,
-                        filename,
-                        mimetype,
-                        caption: caption || ''
-                    },
-                    id: messageId
+            const status = await this.relayMedia(jid, messageId, uploadResult, options, {
+                documentMessage: {
+                    ...uploadResult,
+                    fileName: filename,
+                    mimetype,
+                    caption: caption || ''
                 }
             });
             
-            this.logger.info(`Sent document "${filename}" to ${jid}${caption ? ` with caption: ${caption}` : ''}`);
+            this.logger.info(`${status === 'queued' ? 'Queued' : 'Sent'} document "${filename}" to ${jid}${caption ? ` with caption: ${caption}` : ''}`);
             
             return {
                 id: messageId,
@@ -227,51 +378,71 @@ export class MediaHandler {
                 to: jid,
                 fromMe: true,
                 timestamp,
+                status,
                 type: MessageType.DOCUMENT,
                 filename,
                 caption,
-                url: uploadResult.url,
+                ...uploadResult,
                 mimetype
             };
         } catch (error) {
             this.logger.error('Failed to send document message:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MEDIA_UPLOAD_FAILED, MediaError);
         }
     }
     
     /**
      * Send a sticker message
-     * @param to Recipient's phone number
-     * @param sticker Sticker buffer or URL
+     * JPEG and PNG images are converted to 512x512 WebP stickers; WebP stickers are sent as they are
+     * unless pack metadata is given, which replaces theirs
+     * @param to Recipient's phone number or JID
+     * @param sticker Image bytes, stream, URL or file path
+     * @param options Sticker pack metadata, mimetype, progress callback and abort signal
      */
-    async sendSticker(to: string, sticker: Buffer | string): Promise<Message> {
+    async sendSticker(to: string | Jid, sticker: MediaInput, options: StickerSendOptions = {}): Promise<StickerMessage> {
         try {
-            const jid = validatePhoneNumber(to);
-            const messageId = generateRandomId();
+            const jid = this.messageHandler.resolveRecipient(to);
+            const messageId = options.messageId || generateRandomId();
             const timestamp = Date.now();
             
             // Get sticker data as buffer
-            const stickerBuffer = await this.getMediaAsBuffer(sticker);
+            const stickerBuffer = await this.getMediaAsBuffer(sticker, options.signal);
+            const sourceMimetype = this.resolveMimetype(stickerBuffer, 'sticker', options);
+            
+            const { packName, publisher, emojis, packId } = options;
+            const hasMetadata = packName !== undefined || publisher !== undefined || emojis !== undefined || packId !== undefined;
+            const isWebp = mimetypesMatch(sourceMimetype, 'image/webp');
+            
+            let webp: Buffer;
+            if (isWebp && !hasMetadata) {
+                validateSticker(stickerBuffer);
+                webp = stickerBuffer;
+            } else {
+                webp = await new StickerBuilder({ packName, publisher, emojis, packId }).buildAsync(stickerBuffer);
+            }
+            
+            const mimetype = 'image/webp';
+            const isAnimated = isAnimatedSticker(webp);
             
             // Upload the sticker to WhatsApp servers
-            const uploadResult = await this.uploadMedia(stickerBuffer, {
-                mimetype: 'image/webp'
-            });
+            const uploadResult = await this.uploadMedia({ data: webp }, {
+                filename: 'sticker.webp',
+                mimetype,
+                mediaType: 'sticker'
+            }, messageId, options);
             
             // Send the message with the uploaded media
-            await this.connection.sendRequest({
-                type: 'message',
-                data: {
-                    jid,
-                    type: 'sticker',
-                    content: {
-                        url: uploadResult.url
-                    },
-                    id: messageId
+            const status = await this.relayMedia(jid, messageId, uploadResult, options, {
+                stickerMessage: {
+                    ...uploadResult,
+                    mimetype,
+                    width: STICKER_SIZE,
+                    height: STICKER_SIZE,
+                    isAnimated
                 }
             });
             
-            this.logger.info(`Sent sticker to ${jid}`);
+            this.logger.info(`${status === 'queued' ? 'Queued' : 'Sent'} ${isAnimated ? 'animated ' : ''}sticker to ${jid}`);
             
             return {
                 id: messageId,
@@ -279,144 +450,801 @@ export class MediaHandler {
                 to: jid,
                 fromMe: true,
                 timestamp,
+                status,
                 type: MessageType.STICKER,
-                url: uploadResult.url,
-                mimetype: 'image/webp'
+                ...uploadResult,
+                mimetype,
+                width: STICKER_SIZE,
+                height: STICKER_SIZE,
+                isAnimated
             };
         } catch (error) {
             this.logger.error('Failed to send sticker message:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MEDIA_UPLOAD_FAILED, MediaError);
+        }
+    }
+    
+    /**
+     * Download media from a message, verifying and decrypting it
+     * @param message Message with media
+     * @param options Progress callback and abort signal
+     */
+    async downloadMedia(message: Message | MediaMessage, options: MediaTransferOptions = {}): Promise<Buffer> {
+        try {
+            const stream = await this.downloadMediaStream(message, options);
+            
+            const chunks: Buffer[] = [];
+            for await (const chunk of stream) {
+                chunks.push(chunk);
+            }
+            
+            return Buffer.concat(chunks);
+        } catch (error) {
+            this.logger.error('Failed to download media:', error);
+            throw toFocksupError(error, ERROR_CODES.MEDIA_DOWNLOAD_FAILED, MediaError);
         }
     }
     
     /**
-     * Download media from a message
+     * Download media from a message as a stream, verifying and decrypting it on the fly
+     * The stream errors if the media fails verification once it has been fully read,
+     * so anything already written from it must then be discarded. Media that has expired
+     * from the servers is uploaded again by the sender's device, and the message's url
+     * and directPath are updated to the new upload
      * @param message Message with media
+     * @param options Progress callback and abort signal
      */
-    async downloadMedia(message: Message): Promise<Buffer> {
+    async downloadMediaStream(message: Message | MediaMessage, options: MediaTransferOptions = {}): Promise<Readable> {
         try {
-            if (!message.url) {
-                throw new Error('Message does not contain media URL');
+            const media: Partial<MediaMessage> = message;
+            if (!media.url) {
+                throw new MediaError('Message does not contain media URL', { code: ERROR_CODES.MEDIA_DOWNLOAD_FAILED });
+            }
+            
+            if (!media.mediaKey) {
+                throw new MediaError('Message does not contain a media key', { code: ERROR_CODES.MEDIA_DOWNLOAD_FAILED });
+            }
+            
+            let response = await fetch(media.url, { signal: options.signal });
+            
+            // The servers only keep media for a while; after that the sender has to upload it again
+            if (response.status === 404 || response.status === 410) {
+                this.logger.info(`Media of message ${message.id} has expired, asking the sender to upload it again`);
+                
+                const directPath = await this.requestMediaReupload(message, base64ToBuffer(media.mediaKey), options.signal);
+                Object.assign(message, { directPath, url: `${MEDIA_HOST}${directPath}` });
+                
+                response = await fetch(media.url, { signal: options.signal });
             }
             
-            const response = await fetch(message.url);
             if (!response.ok) {
-                throw new Error(`Failed to download media: ${response.statusText}`);
+                throw new MediaError(`Failed to download media: ${response.statusText}`, {
+                    code: ERROR_CODES.MEDIA_DOWNLOAD_FAILED,
+                    retryable: response.status >= 500
+                });
             }
             
-            const buffer = await response.buffer();
-            this.logger.info(`Downloaded media from ${message.url}`);
+            const contentLength = Number(response.headers.get('content-length'));
+            const total = contentLength > 0 ? contentLength : undefined;
+            const progress = createProgressStream(bytes => {
+                this.reportProgress({ messageId: message.id, phase: 'downloading', bytes, total }, options);
+            });
+            
+            const decryptStream = new MediaDecryptStream(base64ToBuffer(media.mediaKey), getMediaKeyType(message), {
+                fileSha256: media.fileSha256 ? base64ToBuffer(media.fileSha256) : undefined,
+                fileEncSha256: media.fileEncSha256 ? base64ToBuffer(media.fileEncSha256) : undefined
+            });
+            decryptStream.on('end', () => this.logger.info(`Downloaded media from ${media.url}`));
             
-            return buffer;
+            // Errors anywhere along the way, including an abort, surface on the returned stream
+            return pipeline(response.body as Readable, progress, decryptStream, () => undefined);
         } catch (error) {
             this.logger.error('Failed to download media:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MEDIA_DOWNLOAD_FAILED, MediaError);
+        }
+    }
+    
+    /**
+     * Ask the sender's device to upload expired media again and wait for the new path
+     * @param message Message with the expired media
+     * @param mediaKey Media key from the message
+     * @param signal Aborts waiting for the upload
+     */
+    private async requestMediaReupload(message: Message, mediaKey: Buffer, signal?: AbortSignal): Promise<string> {
+        signal?.throwIfAborted();
+        
+        const { ciphertext, iv } = encryptMediaRetryRequest(message.id, mediaKey);
+        
+        const notification = await new Promise<any>((resolve, reject) => {
+            const cleanup = () => {
+                clearTimeout(timeoutId);
+                this.connection.off('media_retry', onRetry);
+                signal?.removeEventListener('abort', onAbort);
+            };
+            const onRetry = (data: any) => {
+                if (data?.id === message.id) {
+                    cleanup();
+                    resolve(data);
+                }
+            };
+            const onAbort = () => {
+                cleanup();
+                reject(signal!.reason);
+            };
+            const timeoutId = setTimeout(() => {
+                cleanup();
+                reject(new TimeoutError(`Sender did not upload the media of message ${message.id} again within ${MEDIA_RETRY_TIMEOUT}ms`));
+            }, MEDIA_RETRY_TIMEOUT);
+            
+            // Listen before asking, so a quick answer is not missed
+            this.connection.on('media_retry', onRetry);
+            signal?.addEventListener('abort', onAbort, { once: true });
+            
+            const me = this.connection.getCredentials()?.me;
+            if (!me) {
+                cleanup();
+                reject(new FocksupError('Cannot request a media upload before logging in', { code: ERROR_CODES.NOT_CONNECTED }));
+                return;
+            }
+            
+            // The request goes to our own account, which relays it to the sender's device
+            this.connection.sendNode({
+                tag: 'receipt',
+                attrs: { id: message.id, to: toBareJid(me.id), type: 'server-error' },
+                content: [
+                    {
+                        tag: 'encrypt',
+                        attrs: {},
+                        content: [
+                            { tag: 'enc_p', attrs: {}, content: ciphertext },
+                            { tag: 'enc_iv', attrs: {}, content: iv }
+                        ]
+                    },
+                    {
+                        tag: 'rmr',
+                        attrs: {
+                            jid: message.groupId || (message.fromMe ? message.to : message.from),
+                            from_me: String(!!message.fromMe),
+                            ...(message.groupId ? { participant: message.from } : {})
+                        }
+                    }
+                ]
+            }).catch(error => {
+                cleanup();
+                reject(error);
+            });
+        });
+        
+        if (notification.error) {
+            throw new MediaError(`Media retry for message ${message.id} failed: ${notification.error}`, { code: ERROR_CODES.MEDIA_DOWNLOAD_FAILED });
+        }
+        
+        const result = decryptMediaRetryNotification(
+            message.id,
+            mediaKey,
+            notification.enc,
+            notification.iv
+        );
+        
+        if (result.stanzaId !== message.id) {
+            throw new ProtocolError(`Media retry notification is for message ${result.stanzaId}, not ${message.id}`);
+        }
+        
+        if (result.result !== MEDIA_RETRY_RESULT.SUCCESS || !result.directPath) {
+            const reason = result.result === MEDIA_RETRY_RESULT.NOT_FOUND
+                ? 'the sender no longer has it'
+                : result.result === MEDIA_RETRY_RESULT.DECRYPTION_ERROR
+                    ? 'the sender could not decrypt the request'
+                    : 'the sender could not upload it';
+            throw new MediaError(`Media of message ${message.id} could not be uploaded again: ${reason}`, {
+                code: ERROR_CODES.MEDIA_DOWNLOAD_FAILED,
+                retryable: result.result === MEDIA_RETRY_RESULT.GENERAL_ERROR
+            });
+        }
+        
+        this.logger.info(`Sender uploaded the media of message ${message.id} again to ${result.directPath}`);
+        
+        return result.directPath;
+    }
+    
+    /**
+     * Work out the MIME type to send media with, checking it against the content
+     * @param head Leading bytes of the media
+     * @param kind Kind of media message being sent
+     * @param options Caller-supplied mimetype and whether a mismatch is an error
+     * @param filename Filename, if known
+     */
+    private resolveMimetype(head: Buffer, kind: MediaKind, options: MediaSendOptions, filename?: string): string {
+        let detected = refineMimetype(detectMimetype(head), filename);
+        const prefix = MEDIA_KIND_PREFIXES[kind];
+        
+        // An MP4 with a generic brand (isom, mp42) is detected as video even when it only holds audio
+        if (kind === 'audio' && detected === 'video/mp4') {
+            detected = 'audio/mp4';
+        }
+        
+        // The caller may name the format inside a container more precisely than sniffing can
+        const effective = detected && options.mimetype && mimetypesMatch(options.mimetype, detected) ? options.mimetype : detected;
+        if (effective && prefix && !effective.startsWith(prefix)) {
+            throw new MediaError(`Cannot send ${effective} content as ${MEDIA_KIND_NAMES[kind]}`, { code: ERROR_CODES.INVALID_MEDIA });
+        }
+        
+        if (options.mimetype) {
+            if (detected && !mimetypesMatch(options.mimetype, detected)) {
+                const mismatch = `Mimetype ${options.mimetype} does not match the content, which looks like ${detected}`;
+                if (options.strictMimetype) {
+                    throw new MediaError(mismatch, { code: ERROR_CODES.INVALID_MEDIA });
+                }
+                this.logger.warn(mismatch);
+            }
+            
+            return options.mimetype;
+        }
+        
+        return detected || DEFAULT_MIMETYPES[kind];
+    }
+    
+    /**
+     * Relay a media message once the upload has finished, unless the transfer was aborted
+     * Resolves with 'queued' if the connection was lost in between
+     * @param jid Recipient JID
+     * @param messageId Message ID
+     * @param uploadResult Uploaded media
+     * @param options Progress callback, abort signal and broadcast recipients
+     * @param content Message content
+     */
+    private async relayMedia(
+        jid: string,
+        messageId: string,
+        uploadResult: MediaUploadResult,
+        options: MediaSendOptions,
+        content: any
+    ): Promise<SendStatus> {
+        options.signal?.throwIfAborted();
+        
+        this.reportProgress({
+            messageId,
+            phase: 'sending',
+            bytes: uploadResult.fileLength,
+            total: uploadResult.fileLength
+        }, options);
+        
+        return await this.messageHandler.relayMessage(jid, messageId, content, {}, options.recipients);
+    }
+    
+    /**
+     * Generate the base64 JPEG preview for a media message
+     * A preview is optional, so formats that cannot be decoded only log a warning
+     * @param image JPEG or PNG image to preview
+     */
+    private createThumbnail(image: Buffer): string | undefined {
+        try {
+            return bufferToBase64(generateThumbnail(image));
+        } catch (error) {
+            this.logger.warn('Could not generate media thumbnail, sending without preview:', error);
+            return undefined;
+        }
+    }
+    
+    /**
+     * Pass transfer progress to the caller's callback and to progress listeners
+     * @param progress Transfer progress
+     * @param options Options holding the caller's callback
+     */
+    private reportProgress(progress: MediaProgress, options: MediaTransferOptions): void {
+        if (options.onProgress) {
+            try {
+                options.onProgress(progress);
+            } catch (error) {
+                this.logger.warn('Media progress callback threw:', error);
+            }
         }
+        
+        this.emit('progress', progress);
     }
     
     /**
-     * Upload media to WhatsApp servers
-     * @param buffer Media buffer
+     * Encrypt media and upload it to WhatsApp servers
+     * Streams are encrypted to a temporary file first, as the upload request needs the
+     * encrypted hash and length up front. With a media cache, a file uploaded before or
+     * uploading right now is reused instead of uploaded again
+     * @param source Media buffer or stream
      * @param options Upload options
+     * @param messageId ID of the message the media is sent in, for progress reports
+     * @param transfer Progress callback and abort signal
      */
-    private async uploadMedia(buffer: Buffer, options: MediaUploadOptions = {}): Promise<{ url: string }> {
+    private async uploadMedia(
+        source: MediaSource,
+        options: MediaUploadOptions,
+        messageId: string,
+        transfer: MediaTransferOptions = {}
+    ): Promise<MediaUploadResult> {
+        let tempFile: string | undefined;
+        let body: Readable | undefined;
+        
         try {
             // Get file type from mimetype or filename
             const fileType = options.mimetype 
                 ? getWhatsAppFileType(options.mimetype) 
                 : options.filename 
-                    ? getWhatsAppFileType(this.getMimetypeFromFilename(options.filename))
+                    ? getWhatsAppFileType(getMimetypeFromFilename(options.filename) || DEFAULT_MIMETYPES.document)
                     : 'document';
+            const mediaType = options.mediaType || fileType as MediaKeyType;
             
-            // Convert buffer to base64 for sending
-            const base64Data = bufferToBase64(buffer);
-            
-            // Request upload URL and token
-            const uploadRequest = await this.connection.sendRequest({
-                type: 'media_upload_request',
-                data: {
-                    fileType,
-                    fileSize: buffer.length,
-                    mimetype: options.mimetype,
-                    filename: options.filename
-                }
-            });
+            this.reportProgress({ messageId, phase: 'encrypting', bytes: 0, total: source.size }, transfer);
             
-            // Upload media with the obtained URL and token
-            await this.connection.sendRequest({
-                type: 'media_upload',
-                data: {
-                    url: uploadRequest.uploadUrl,
-                    token: uploadRequest.token,
-                    media: base64Data,
-                    mimetype: options.mimetype
+            // Only the encrypted media ever leaves this device
+            if (Buffer.isBuffer(source.data)) {
+                const data = source.data;
+                const fileSha256 = sha256(data);
+                const cached = await this.getCachedUpload(fileSha256, mediaType, messageId, transfer);
+                if (cached) {
+                    return cached;
                 }
-            });
-            
-            this.logger.info(`Uploaded ${fileType} to WhatsApp servers`);
-            
-            return { url: uploadRequest.mediaUrl };
+                
+                return await this.shareUpload(fileSha256, mediaType, messageId, transfer, () => {
+                    const encrypted = encryptMedia(data, mediaType);
+                    this.reportProgress({ messageId, phase: 'encrypting', bytes: data.length, total: data.length }, transfer);
+                    
+                    body = Readable.from(splitBuffer(encrypted.encrypted, UPLOAD_CHUNK_SIZE));
+                    return this.uploadEncryptedMedia(encrypted, body, encrypted.encrypted.length, fileType, mediaType, messageId, transfer);
+                });
+            } else {
+                tempFile = path.join(os.tmpdir(), `focksup-${generateRandomId(8)}.enc`);
+                
+                const progress = createProgressStream(bytes => {
+                    this.reportProgress({ messageId, phase: 'encrypting', bytes, total: source.size }, transfer);
+                });
+                const encryptStream = new MediaEncryptStream(mediaType);
+                await pipelineAsync(
+                    source.data,
+                    progress,
+                    encryptStream,
+                    fs.createWriteStream(tempFile, { mode: 0o600 }),
+                    { signal: transfer.signal }
+                );
+                
+                const media = {
+                    mediaKey: encryptStream.mediaKey,
+                    fileSha256: encryptStream.fileSha256!,
+                    fileEncSha256: encryptStream.fileEncSha256!,
+                    fileLength: encryptStream.fileLength
+                };
+                const encryptedFile = tempFile;
+                
+                // A stream's hash is only known once it has been read through
+                const cached = await this.getCachedUpload(media.fileSha256, mediaType, messageId, transfer);
+                if (cached) {
+                    return cached;
+                }
+                
+                return await this.shareUpload(media.fileSha256, mediaType, messageId, transfer, () => {
+                    body = fs.createReadStream(encryptedFile);
+                    return this.uploadEncryptedMedia(media, body, encryptStream.encryptedLength, fileType, mediaType, messageId, transfer);
+                });
+            }
         } catch (error) {
             this.logger.error('Failed to upload media:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MEDIA_UPLOAD_FAILED, MediaError);
+        } finally {
+            body?.destroy();
+            
+            if (tempFile) {
+                await fs.promises.unlink(tempFile).catch(() => undefined);
+            }
         }
     }
     
     /**
-     * Get media as buffer from various sources
-     * @param media Buffer or URL or file path
+     * Upload encrypted media to WhatsApp servers and remember it in the media cache
+     * @param media Keys and hashes of the encrypted media
+     * @param body Encrypted media
+     * @param size Length of the encrypted media
+     * @param fileType WhatsApp file type, which selects the upload path
+     * @param mediaType Media key expansion the media is encrypted for
+     * @param messageId ID of the message the media is sent in, for progress reports
+     * @param transfer Progress callback and abort signal
      */
-    private async getMediaAsBuffer(media: Buffer | string): Promise<Buffer> {
-        // If already a buffer, return it
+    private async uploadEncryptedMedia(
+        media: { mediaKey: Buffer, fileSha256: Buffer, fileEncSha256: Buffer, fileLength: number },
+        body: Readable,
+        size: number,
+        fileType: string,
+        mediaType: MediaKeyType,
+        messageId: string,
+        transfer: MediaTransferOptions
+    ): Promise<MediaUploadResult> {
+        const fileEncSha256 = bufferToBase64(media.fileEncSha256);
+        transfer.signal?.throwIfAborted();
+        
+        // Ask for a media host and the auth token uploads to it need
+        const mediaConn = getBinaryNodeChild(await this.connection.query({
+            tag: 'iq',
+            attrs: { type: 'set', xmlns: 'w:m', to: S_WHATSAPP_NET },
+            content: [{ tag: 'media_conn', attrs: {} }]
+        }), 'media_conn');
+        const hostname = getBinaryNodeChild(mediaConn, 'host')?.attrs.hostname;
+        if (!mediaConn?.attrs.auth || !hostname) {
+            throw new ProtocolError('No media host in the answer to the media connection query');
+        }
+        
+        // Upload the encrypted media, named by its encrypted hash
+        const token = media.fileEncSha256.toString('base64url');
+        const uploadUrl = new URL(`https://${hostname}/mms/${fileType}/${token}`);
+        uploadUrl.searchParams.set('auth', mediaConn.attrs.auth);
+        uploadUrl.searchParams.set('token', token);
+        
+        const progress = createProgressStream(bytes => {
+            this.reportProgress({ messageId, phase: 'uploading', bytes, total: size }, transfer);
+        });
+        
+        const response = await fetch(uploadUrl.toString(), {
+            method: 'POST',
+            body: body.pipe(progress),
+            headers: {
+                'Content-Type': 'application/octet-stream',
+                'Content-Length': String(size),
+                Origin: DEFAULT_ORIGIN
+            },
+            signal: transfer.signal
+        });
+        if (!response.ok) {
+            throw new MediaError(`Failed to upload media: ${response.statusText}`, {
+                retryable: response.status >= 500 || response.status === 429
+            });
+        }
+        
+        const uploaded = await response.json() as { url?: string, direct_path?: string };
+        if (!uploaded.url || !uploaded.direct_path) {
+            throw new MediaError('Media server did not return the uploaded media location', { code: ERROR_CODES.MEDIA_UPLOAD_FAILED });
+        }
+        
+        this.logger.info(`Uploaded encrypted ${fileType} to WhatsApp servers`);
+        
+        const uploadResult: MediaUploadResult = {
+            url: uploaded.url,
+            directPath: uploaded.direct_path,
+            mediaKey: bufferToBase64(media.mediaKey),
+            fileSha256: bufferToBase64(media.fileSha256),
+            fileEncSha256,
+            fileLength: media.fileLength
+        };
+        
+        await this.mediaCache?.set(media.fileSha256, mediaType, uploadResult);
+        
+        return uploadResult;
+    }
+    
+    /**
+     * Upload a file once for all sends of it running at the same time
+     * A send that finds the file already uploading waits for that upload instead; should it
+     * fail, e.g. because its own sender aborted, the waiting send uploads the file itself
+     * @param fileSha256 SHA-256 of the unencrypted file
+     * @param mediaType Media key expansion the file is encrypted for
+     * @param messageId ID of the message the media is sent in, for progress reports
+     * @param transfer Progress callback and abort signal
+     * @param upload Encrypts and uploads the file
+     */
+    private async shareUpload(
+        fileSha256: Buffer,
+        mediaType: MediaKeyType,
+        messageId: string,
+        transfer: MediaTransferOptions,
+        upload: () => Promise<MediaUploadResult>
+    ): Promise<MediaUploadResult> {
+        // Reusing uploads is what the media cache opts into
+        if (!this.mediaCache) {
+            return upload();
+        }
+        
+        const key = `${mediaType}-${fileSha256.toString('hex')}`;
+        // After a failed upload, another waiting send may have started the next one already
+        for (let pending = this.pendingUploads.get(key); pending; pending = this.pendingUploads.get(key)) {
+            const shared = await pending.catch(() => undefined);
+            transfer.signal?.throwIfAborted();
+            if (shared) {
+                this.logger.info(`Reusing concurrent upload of ${mediaType} ${shared.fileSha256}`);
+                this.reportProgress({ messageId, phase: 'uploading', bytes: shared.fileLength, total: shared.fileLength }, transfer);
+                return shared;
+            }
+        }
+        
+        const uploading = upload();
+        this.pendingUploads.set(key, uploading);
+        try {
+            return await uploading;
+        } finally {
+            if (this.pendingUploads.get(key) === uploading) {
+                this.pendingUploads.delete(key);
+            }
+        }
+    }
+    
+    /**
+     * Look up an earlier upload of the same file in the media cache
+     * @param fileSha256 SHA-256 of the unencrypted file
+     * @param mediaType Media key expansion the file is encrypted for
+     * @param messageId ID of the message the media is sent in, for progress reports
+     * @param transfer Progress callback and abort signal
+     */
+    private async getCachedUpload(
+        fileSha256: Buffer,
+        mediaType: MediaKeyType,
+        messageId: string,
+        transfer: MediaTransferOptions
+    ): Promise<MediaUploadResult | undefined> {
+        const cached = await this.mediaCache?.get(fileSha256, mediaType);
+        if (!cached) {
+            return undefined;
+        }
+        
+        transfer.signal?.throwIfAborted();
+        this.logger.info(`Reusing cached upload of ${mediaType} ${cached.fileSha256}`);
+        
+        // Callers still see the upload complete
+        this.reportProgress({ messageId, phase: 'uploading', bytes: cached.fileLength, total: cached.fileLength }, transfer);
+        
+        return cached;
+    }
+    
+    /**
+     * Get media as a stream where possible, so large files are not read into memory
+     * @param media Bytes, stream, URL or file path
+     * @param signal Aborts fetching the media
+     */
+    private async getMediaSource(media: MediaInput, signal?: AbortSignal): Promise<MediaSource> {
         if (Buffer.isBuffer(media)) {
-            return media;
+            return { data: media, size: media.length };
+        }
+        
+        if (media instanceof Uint8Array || media instanceof ArrayBuffer) {
+            const data = media instanceof Uint8Array
+                ? Buffer.from(media.buffer, media.byteOffset, media.byteLength)
+                : Buffer.from(media);
+            return { data, size: data.length };
         }
         
-        // If URL, download it
+        if (media instanceof Readable) {
+            return { data: media };
+        }
+        
+        if (media.startsWith('data:')) {
+            const data = parseDataUri(media);
+            return { data, size: data.length };
+        }
+        
+        // If URL, stream the response body
         if (media.startsWith('http://') || media.startsWith('https://')) {
-            const response = await fetch(media);
-            if (!response.ok) {
-                throw new Error(`Failed to fetch URL: ${response.statusText}`);
-            }
-            return await response.buffer();
+            return await this.fetchMedia(media, signal);
         }
         
-        // Assume it's a file path
+        // Otherwise it's a file path, possibly as a file:// URL
         try {
-            return fs.readFileSync(media);
+            const filePath = media.startsWith('file://') ? fileURLToPath(media) : media;
+            const stats = await fs.promises.stat(filePath);
+            return { data: fs.createReadStream(filePath), size: stats.size };
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
-            throw new Error(`Failed to read file: ${errorMessage}`);
+            throw new MediaError(`Failed to read file: ${errorMessage}`, { code: ERROR_CODES.INVALID_MEDIA, cause: error });
         }
     }
     
     /**
-     * Get MIME type from filename
-     * @param filename Filename
+     * Get media as buffer from various sources
+     * @param media Bytes, stream, URL or file path
+     * @param signal Aborts fetching the media
      */
-    private getMimetypeFromFilename(filename: string): string {
-        const extension = path.extname(filename).toLowerCase();
-        
-        const mimeTypes: { [key: string]: string } = {
-            '.jpg': 'image/jpeg',
-            '.jpeg': 'image/jpeg',
-            '.png': 'image/png',
-            '.gif': 'image/gif',
-            '.webp': 'image/webp',
-            '.mp4': 'video/mp4',
-            '.mp3': 'audio/mpeg',
-            '.ogg': 'audio/ogg',
-            '.pdf': 'application/pdf',
-            '.doc': 'application/msword',
-            '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-            '.xls': 'application/vnd.ms-excel',
-            '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-            '.ppt': 'application/vnd.ms-powerpoint',
-            '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-            '.zip': 'application/zip',
-            '.txt': 'text/plain'
+    private async getMediaAsBuffer(media: MediaInput, signal?: AbortSignal): Promise<Buffer> {
+        const source = await this.getMediaSource(media, signal);
+        if (Buffer.isBuffer(source.data)) {
+            return source.data;
+        }
+        
+        const chunks: Buffer[] = [];
+        for await (const chunk of source.data) {
+            chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+        }
+        
+        return Buffer.concat(chunks);
+    }
+    
+    /**
+     * Download media from a URL within the size, time and redirect limits, so a hostile
+     * URL cannot make the client download without end
+     * @param url http(s) URL
+     * @param signal Aborts the download
+     */
+    private async fetchMedia(url: string, signal?: AbortSignal): Promise<MediaSource> {
+        const {
+            maxSize = MEDIA_FETCH_MAX_SIZE,
+            timeout = MEDIA_FETCH_TIMEOUT,
+            maxRedirects = MEDIA_FETCH_MAX_REDIRECTS
+        } = this.fetchOptions;
+        const startedAt = Date.now();
+        
+        // The fetch timeout only covers the wait for the response headers
+        const response = await fetch(url, { signal, timeout, follow: maxRedirects });
+        if (!response.ok) {
+            throw new MediaError(`Failed to fetch URL: ${response.statusText}`, {
+                code: ERROR_CODES.INVALID_MEDIA,
+                retryable: response.status >= 500
+            });
+        }
+        
+        const body = response.body as Readable;
+        const contentLength = Number(response.headers.get('content-length'));
+        if (contentLength > maxSize) {
+            body.destroy();
+            throw new MediaError(`Media at ${url} is ${contentLength} bytes, over the ${maxSize} byte limit`, { code: ERROR_CODES.INVALID_MEDIA });
+        }
+        
+        // The size is checked again as the body arrives, as the declared length may be missing or false
+        const limit = createFetchLimitStream(url, maxSize, timeout - (Date.now() - startedAt));
+        
+        return {
+            data: pipeline(body, limit, () => undefined),
+            size: contentLength > 0 ? contentLength : undefined
         };
+    }
+    
+}
+
+/**
+ * Get the media key expansion type for a received media message
+ * @param message Media message
+ */
+function getMediaKeyType(message: Message): MediaKeyType {
+    switch (message.type) {
+        case MessageType.IMAGE:
+        case MessageType.VIDEO:
+        case MessageType.AUDIO:
+        case MessageType.DOCUMENT:
+        case MessageType.STICKER:
+            return message.type;
+        default:
+            throw new MediaError(`Message of type ${message.type} has no media`, { code: ERROR_CODES.MEDIA_DOWNLOAD_FAILED });
+    }
+}
+
+/**
+ * Create a pass-through stream that reports the running byte count
+ * @param onBytes Called with the number of bytes seen so far
+ */
+function createProgressStream(onBytes: (bytes: number) => void): Transform {
+    let bytes = 0;
+    
+    return new Transform({
+        transform(chunk: Buffer, encoding, callback) {
+            bytes += chunk.length;
+            onBytes(bytes);
+            callback(null, chunk);
+        }
+    });
+}
+
+/**
+ * Create a pass-through stream that fails a download once it grows too large or takes too long
+ * @param url Downloaded URL, for error messages
+ * @param maxSize Largest download accepted, in bytes
+ * @param timeout Time left for the download, in milliseconds
+ */
+function createFetchLimitStream(url: string, maxSize: number, timeout: number): Transform {
+    let bytes = 0;
+    
+    const stream = new Transform({
+        transform(chunk: Buffer, encoding, callback) {
+            bytes += chunk.length;
+            if (bytes > maxSize) {
+                callback(new MediaError(`Media at ${url} is over the ${maxSize} byte limit`, { code: ERROR_CODES.INVALID_MEDIA }));
+                return;
+            }
+            callback(null, chunk);
+        }
+    });
+    
+    const timeoutId = setTimeout(() => {
+        stream.destroy(new TimeoutError(`Downloading ${url} timed out after ${timeout}ms`));
+    }, Math.max(timeout, 0));
+    stream.on('close', () => clearTimeout(timeoutId));
+    // A download abandoned unread must not crash the process when it times out; readers still get the error
+    stream.on('error', () => undefined);
+    
+    return stream;
+}
+
+/**
+ * Decode the contents of a data: URI
+ * @param uri data: URI, base64 or percent-encoded
+ */
+function parseDataUri(uri: string): Buffer {
+    const match = /^data:([^,]*),(.*)$/s.exec(uri);
+    if (!match) {
+        throw new MediaError('Malformed data URI', { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    if (/;base64$/i.test(match[1])) {
+        return Buffer.from(match[2], 'base64');
+    }
+    
+    const bytes = match[2].replace(/%([0-9a-f]{2})/gi, (escape, hex) => String.fromCharCode(parseInt(hex, 16)));
+    return Buffer.from(bytes, 'latin1');
+}
+
+/**
+ * Split a buffer into chunks without copying
+ * @param buffer Buffer to split
+ * @param size Chunk size
+ */
+function* splitBuffer(buffer: Buffer, size: number): Generator<Buffer> {
+    for (let offset = 0; offset < buffer.length; offset += size) {
+        yield buffer.subarray(offset, offset + size);
+    }
+}
+
+/**
+ * Read the dimensions and duration of media as it is consumed
+ * A stream source is replaced by one that passes through a metadata parser,
+ * so the returned function only has the full result once the stream has been read
+ * @param source Media source
+ * @param mimetype MIME type of the media
+ */
+function tapMediaMetadata(source: MediaSource, mimetype: string): () => MediaMetadata {
+    if (Buffer.isBuffer(source.data)) {
+        const metadata = getMediaMetadata(source.data, mimetype);
+        return () => metadata;
+    }
+    
+    const metadataStream = new MediaMetadataStream(mimetype);
+    source.data = pipeline(source.data, metadataStream, () => undefined);
+    return () => metadataStream.metadata;
+}
+
+/**
+ * Round a duration to the whole seconds WhatsApp messages carry
+ * @param duration Duration in seconds
+ */
+function toSeconds(duration?: number): number | undefined {
+    return duration === undefined ? undefined : Math.round(duration);
+}
+
+/**
+ * Read the leading bytes of media for content sniffing
+ * A stream source is replaced by one that still yields the bytes read here
+ * @param source Media source
+ */
+async function peekMediaSource(source: MediaSource): Promise<Buffer> {
+    if (Buffer.isBuffer(source.data)) {
+        return source.data.subarray(0, MIME_SNIFF_LENGTH);
+    }
+    
+    const iterator: AsyncIterator<Buffer> = source.data[Symbol.asyncIterator]();
+    const chunks: Buffer[] = [];
+    let length = 0;
+    let done = false;
+    
+    while (length < MIME_SNIFF_LENGTH) {
+        const result = await iterator.next();
+        if (result.done) {
+            done = true;
+            break;
+        }
         
-        return mimeTypes[extension] || 'application/octet-stream';
+        chunks.push(result.value);
+        length += result.value.length;
     }
+    
+    const head = Buffer.concat(chunks);
+    source.data = Readable.from((async function* () {
+        yield head;
+        
+        while (!done) {
+            const result = await iterator.next();
+            if (result.done) {
+                return;
+            }
+            yield result.value;
+        }
+    })(), { objectMode: false });
+    
+    return head.subarray(0, MIME_SNIFF_LENGTH);
 }
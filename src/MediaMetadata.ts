@@ -0,0 +1,592 @@
+/**
+ * Media metadata extraction: image dimensions and audio/video duration
+ * Parsers only read the headers and frame boundaries they need, so the same code
+ * works on a buffer and on a stream passing through on its way to the upload
+ */
+
+import { Transform, TransformCallback } from 'stream';
+import { MediaMetadata } from './Types';
+
+// A parser yields what it needs next; a read that comes back short means the input ended
+type ReadRequest = { read: number } | { skip: number };
+type MetadataParser = Generator<ReadRequest, MediaMetadata, Buffer>;
+
+const EMPTY = Buffer.alloc(0);
+
+// Answers a parser may receive after the input ended before it is stopped
+const MAX_READS_AFTER_END = 16;
+
+// MP4 boxes that contain the boxes holding the duration and track size
+const MP4_CONTAINER_BOXES = ['moov', 'trak'];
+
+// Larger header boxes are treated as corrupt rather than buffered
+const MAX_MP4_HEADER_BOX_SIZE = 4096;
+
+// MPEG audio bitrates in kbit/s by [version 1, version 2/2.5][layer I, II, III]
+const MP3_BITRATES = [
+    [
+        [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+        [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+        [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+    ],
+    [
+        [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+        [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+        [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+    ]
+];
+
+// MPEG audio sample rates by version bits (2.5, reserved, 2, 1)
+const MP3_SAMPLE_RATES = [
+    [11025, 12000, 8000],
+    [],
+    [22050, 24000, 16000],
+    [44100, 48000, 32000]
+];
+
+interface Mp3Frame {
+    length: number;
+    samples: number;
+    sampleRate: number;
+    // Offset of a Xing/Info header within the frame
+    xingOffset: number;
+}
+
+/**
+ * Read the dimensions and duration of media held in memory
+ * Fields that cannot be determined for the format are left out
+ * @param data Media contents
+ * @param mimetype MIME type of the media
+ */
+export function getMediaMetadata(data: Buffer, mimetype: string): MediaMetadata {
+    const reader = new MetadataReader(mimetype);
+    reader.write(data);
+    return reader.end();
+}
+
+/**
+ * Pass-through stream that reads the dimensions and duration of the media flowing through it
+ * The metadata is available once the stream has ended
+ */
+export class MediaMetadataStream extends Transform {
+    metadata: MediaMetadata = {};
+    private reader: MetadataReader;
+    
+    constructor(mimetype: string) {
+        super();
+        this.reader = new MetadataReader(mimetype);
+    }
+    
+    _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+        this.reader.write(chunk);
+        callback(null, chunk);
+    }
+    
+    _flush(callback: TransformCallback): void {
+        this.metadata = this.reader.end();
+        callback();
+    }
+}
+
+/**
+ * Drives a metadata parser with chunks of input, buffering only the bytes it asks to read
+ */
+class MetadataReader {
+    private parser?: MetadataParser;
+    private state?: IteratorResult<ReadRequest, MediaMetadata>;
+    private pending: Buffer[] = [];
+    private pendingLength = 0;
+    
+    /**
+     * Create a reader for a media format
+     * @param mimetype MIME type of the media
+     */
+    constructor(mimetype: string) {
+        this.parser = createParser(mimetype);
+        this.state = this.parser?.next(EMPTY);
+    }
+    
+    /**
+     * Feed the next chunk of input to the parser
+     * @param chunk Input chunk
+     */
+    write(chunk: Buffer): void {
+        let offset = 0;
+        
+        while (this.parser && this.state && !this.state.done && offset < chunk.length) {
+            const request = this.state.value;
+            
+            if ('skip' in request) {
+                const count = Math.min(request.skip, chunk.length - offset);
+                offset += count;
+                
+                if (count === request.skip) {
+                    this.state = this.parser.next(EMPTY);
+                } else {
+                    this.state = { done: false, value: { skip: request.skip - count } };
+                }
+                continue;
+            }
+            
+            const count = Math.min(request.read - this.pendingLength, chunk.length - offset);
+            this.pending.push(chunk.subarray(offset, offset + count));
+            this.pendingLength += count;
+            offset += count;
+            
+            if (this.pendingLength === request.read) {
+                this.state = this.parser.next(this.takePending());
+            }
+        }
+    }
+    
+    /**
+     * Signal the end of input and get the parser's result
+     */
+    end(): MediaMetadata {
+        if (!this.parser || !this.state) {
+            return {};
+        }
+        
+        // Outstanding reads are answered short; a parser that keeps asking is stopped
+        for (let reads = 0; !this.state.done; reads++) {
+            this.state = reads < MAX_READS_AFTER_END
+                ? this.parser.next(this.takePending())
+                : this.parser.return({});
+        }
+        
+        return this.state.value;
+    }
+    
+    /**
+     * Take the bytes buffered for the current read request
+     */
+    private takePending(): Buffer {
+        const data = Buffer.concat(this.pending);
+        this.pending = [];
+        this.pendingLength = 0;
+        return data;
+    }
+}
+
+/**
+ * Pick the parser for a media format
+ * @param mimetype MIME type of the media
+ */
+function createParser(mimetype: string): MetadataParser | undefined {
+    const base = mimetype.split(';')[0].trim().toLowerCase();
+    
+    switch (base) {
+        case 'image/jpeg':
+            return parseJpeg();
+        case 'image/png':
+            return parsePng();
+        case 'image/gif':
+            return parseGif();
+        case 'image/webp':
+            return parseWebp();
+        case 'video/mp4':
+        case 'video/quicktime':
+        case 'video/3gpp':
+        case 'audio/mp4':
+            return parseMp4();
+        case 'audio/ogg':
+            return parseOgg();
+        case 'audio/mpeg':
+            return parseMp3();
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Read the dimensions from the frame header of a JPEG image
+ */
+function* parseJpeg(): MetadataParser {
+    const start = yield { read: 2 };
+    if (start.length < 2 || start[0] !== 0xFF || start[1] !== 0xD8) {
+        return {};
+    }
+    
+    while (true) {
+        const marker = yield { read: 4 };
+        if (marker.length < 4 || marker[0] !== 0xFF) {
+            return {};
+        }
+        
+        const type = marker[1];
+        const length = marker.readUInt16BE(2);
+        
+        // Start of frame segments, except DHT, JPG and DAC which share the range
+        if (type >= 0xC0 && type <= 0xCF && type !== 0xC4 && type !== 0xC8 && type !== 0xCC) {
+            const frame = yield { read: 5 };
+            if (frame.length < 5) {
+                return {};
+            }
+            
+            return { height: frame.readUInt16BE(1), width: frame.readUInt16BE(3) };
+        }
+        
+        if (type === 0xD9 || type === 0xDA || length < 2) {
+            return {};
+        }
+        
+        yield { skip: length - 2 };
+    }
+}
+
+/**
+ * Read the dimensions from the header chunk of a PNG image
+ */
+function* parsePng(): MetadataParser {
+    const header = yield { read: 24 };
+    if (header.length < 24 || header.toString('latin1', 12, 16) !== 'IHDR') {
+        return {};
+    }
+    
+    return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+}
+
+/**
+ * Read the logical screen size of a GIF image
+ */
+function* parseGif(): MetadataParser {
+    const header = yield { read: 10 };
+    if (header.length < 10 || header.toString('latin1', 0, 3) !== 'GIF') {
+        return {};
+    }
+    
+    return { width: header.readUInt16LE(6), height: header.readUInt16LE(8) };
+}
+
+/**
+ * Read the canvas size of a lossy, lossless or extended WebP image
+ */
+function* parseWebp(): MetadataParser {
+    const header = yield { read: 30 };
+    if (header.length < 30 || header.toString('latin1', 8, 12) !== 'WEBP') {
+        return {};
+    }
+    
+    switch (header.toString('latin1', 12, 16)) {
+        case 'VP8 ':
+            return { width: header.readUInt16LE(26) & 0x3FFF, height: header.readUInt16LE(28) & 0x3FFF };
+        case 'VP8L': {
+            const bits = header.readUInt32LE(21);
+            return { width: (bits & 0x3FFF) + 1, height: ((bits >> 14) & 0x3FFF) + 1 };
+        }
+        case 'VP8X':
+            return { width: header.readUIntLE(24, 3) + 1, height: header.readUIntLE(27, 3) + 1 };
+        default:
+            return {};
+    }
+}
+
+/**
+ * Read the duration from the movie header and the size from the first visual track
+ * of an ISO base media file (MP4, MOV, 3GP, M4A)
+ */
+function* parseMp4(): MetadataParser {
+    const metadata: MediaMetadata = {};
+    yield* walkMp4Boxes(Infinity, metadata);
+    return metadata;
+}
+
+/**
+ * Walk a sequence of MP4 boxes, descending into containers and stopping after the movie box
+ * Returns false once the input has ended or the movie box has been read
+ * @param length Number of bytes the boxes occupy
+ * @param metadata Metadata to fill in
+ */
+function* walkMp4Boxes(length: number, metadata: MediaMetadata): Generator<ReadRequest, boolean, Buffer> {
+    let position = 0;
+    
+    while (position + 8 <= length) {
+        const header = yield { read: 8 };
+        if (header.length < 8) {
+            return false;
+        }
+        
+        const type = header.toString('latin1', 4, 8);
+        let size = header.readUInt32BE(0);
+        let headerSize = 8;
+        
+        if (size === 1) {
+            const largeSize = yield { read: 8 };
+            if (largeSize.length < 8) {
+                return false;
+            }
+            size = Number(largeSize.readBigUInt64BE(0));
+            headerSize = 16;
+        } else if (size === 0) {
+            // The last box may run to the end of the file
+            size = length - position;
+        }
+        
+        if (size < headerSize) {
+            return false;
+        }
+        
+        const bodySize = size - headerSize;
+        
+        if (MP4_CONTAINER_BOXES.includes(type)) {
+            if (!(yield* walkMp4Boxes(bodySize, metadata))) {
+                return false;
+            }
+            
+            // Everything needed lives in the movie box, so the media data after it is not read
+            if (type === 'moov') {
+                return false;
+            }
+        } else if (type === 'mvhd' || type === 'tkhd') {
+            if (bodySize > MAX_MP4_HEADER_BOX_SIZE) {
+                return false;
+            }
+            
+            const body = yield { read: bodySize };
+            if (body.length < bodySize) {
+                return false;
+            }
+            
+            if (type === 'mvhd') {
+                readMovieHeader(body, metadata);
+            } else {
+                readTrackHeader(body, metadata);
+            }
+        } else if (bodySize === Infinity) {
+            return false;
+        } else {
+            yield { skip: bodySize };
+        }
+        
+        position += size;
+    }
+    
+    return true;
+}
+
+/**
+ * Read the duration from an MP4 movie header box
+ * @param body Box contents
+ * @param metadata Metadata to fill in
+ */
+function readMovieHeader(body: Buffer, metadata: MediaMetadata): void {
+    const version = body[0];
+    if (body.length < (version === 1 ? 32 : 20)) {
+        return;
+    }
+    
+    const timescale = version === 1 ? body.readUInt32BE(20) : body.readUInt32BE(12);
+    const duration = version === 1 ? Number(body.readBigUInt64BE(24)) : body.readUInt32BE(16);
+    
+    // An all-ones duration means it is unknown
+    if (timescale > 0 && duration !== 0xFFFFFFFF) {
+        metadata.duration = duration / timescale;
+    }
+}
+
+/**
+ * Read the presentation size from an MP4 track header box
+ * Audio tracks have a zero size and are skipped; rotated tracks swap width and height
+ * @param body Box contents
+ * @param metadata Metadata to fill in
+ */
+function readTrackHeader(body: Buffer, metadata: MediaMetadata): void {
+    if (metadata.width || body.length < (body[0] === 1 ? 96 : 84)) {
+        return;
+    }
+    
+    // Width and height are 16.16 fixed point, after the 3x3 transformation matrix
+    const width = Math.round(body.readUInt32BE(body.length - 8) / 0x10000);
+    const height = Math.round(body.readUInt32BE(body.length - 4) / 0x10000);
+    if (!width || !height) {
+        return;
+    }
+    
+    // A matrix with a zero first coefficient rotates by 90 or 270 degrees
+    const rotated = body.readInt32BE(body.length - 44) === 0;
+    metadata.width = rotated ? height : width;
+    metadata.height = rotated ? width : height;
+}
+
+/**
+ * Read the duration of an Ogg Opus or Vorbis stream from the granule position of its last page
+ */
+function* parseOgg(): MetadataParser {
+    let serial: number | undefined;
+    let sampleRate = 0;
+    let preSkip = 0;
+    let granulePosition = -1;
+    
+    while (true) {
+        const header = yield { read: 27 };
+        if (header.length < 27 || header.toString('latin1', 0, 4) !== 'OggS') {
+            break;
+        }
+        
+        const segmentTable = yield { read: header[26] };
+        if (segmentTable.length < header[26]) {
+            break;
+        }
+        
+        const bodySize = segmentTable.reduce((sum, size) => sum + size, 0);
+        const pageSerial = header.readUInt32LE(14);
+        
+        if (serial === undefined) {
+            // The first page identifies the codec and its sample rate
+            const body = yield { read: bodySize };
+            if (body.length < bodySize) {
+                break;
+            }
+            
+            if (body.toString('latin1', 0, 8) === 'OpusHead' && body.length >= 12) {
+                // Opus granule positions always count 48 kHz samples
+                sampleRate = 48000;
+                preSkip = body.readUInt16LE(10);
+            } else if (body[0] === 0x01 && body.toString('latin1', 1, 7) === 'vorbis' && body.length >= 16) {
+                sampleRate = body.readUInt32LE(12);
+            } else {
+                return {};
+            }
+            
+            serial = pageSerial;
+            continue;
+        }
+        
+        yield { skip: bodySize };
+        
+        // Pages on which no packet ends carry a granule position of -1
+        const position = Number(header.readBigInt64LE(6));
+        if (pageSerial === serial && position >= 0) {
+            granulePosition = position;
+        }
+    }
+    
+    if (!sampleRate || granulePosition < 0) {
+        return {};
+    }
+    
+    return { duration: Math.max(granulePosition - preSkip, 0) / sampleRate };
+}
+
+/**
+ * Read the duration of an MP3 file from its Xing/Info/VBRI header, or by adding up its frames
+ */
+function* parseMp3(): MetadataParser {
+    let head = yield { read: 10 };
+    
+    // Skip an ID3v2 tag, whose size is stored as a syncsafe integer
+    if (head.length === 10 && head.toString('latin1', 0, 3) === 'ID3') {
+        const size = ((head[6] & 0x7F) << 21) | ((head[7] & 0x7F) << 14) | ((head[8] & 0x7F) << 7) | (head[9] & 0x7F);
+        const footerSize = head[5] & 0x10 ? 10 : 0;
+        yield { skip: size + footerSize };
+        head = EMPTY;
+    }
+    
+    let duration = 0;
+    let firstFrame = true;
+    
+    while (true) {
+        if (head.length < 4) {
+            head = Buffer.concat([head, yield { read: 4 - head.length }]);
+        }
+        
+        const frame = head.length >= 4 ? parseMp3FrameHeader(head) : undefined;
+        if (!frame) {
+            // Lost sync or end of input; a trailing ID3v1 tag also ends up here
+            break;
+        }
+        
+        if (firstFrame) {
+            firstFrame = false;
+            
+            // Encoders put the frame count of VBR files in a header inside the first frame
+            const rest = yield { read: frame.length - head.length };
+            const data = Buffer.concat([head, rest]);
+            const frameCount = readMp3FrameCount(data, frame);
+            if (frameCount !== undefined) {
+                return { duration: frameCount * frame.samples / frame.sampleRate };
+            }
+            
+            if (data.length < frame.length) {
+                break;
+            }
+        } else {
+            yield { skip: frame.length - head.length };
+        }
+        
+        duration += frame.samples / frame.sampleRate;
+        head = EMPTY;
+    }
+    
+    return duration > 0 ? { duration } : {};
+}
+
+/**
+ * Decode an MPEG audio frame header
+ * Returns undefined if the bytes are not a valid header
+ * @param header At least four bytes starting at the frame
+ */
+function parseMp3FrameHeader(header: Buffer): Mp3Frame | undefined {
+    if (header[0] !== 0xFF || (header[1] & 0xE0) !== 0xE0) {
+        return undefined;
+    }
+    
+    const versionBits = (header[1] >> 3) & 0x03;
+    const layerBits = (header[1] >> 1) & 0x03;
+    const bitrateIndex = header[2] >> 4;
+    const sampleRateIndex = (header[2] >> 2) & 0x03;
+    
+    // Reserved version and layer, free-format and invalid bitrates, reserved sample rate
+    if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+        return undefined;
+    }
+    
+    const isVersion1 = versionBits === 3;
+    const layer = 4 - layerBits;
+    const bitrate = MP3_BITRATES[isVersion1 ? 0 : 1][layer - 1][bitrateIndex] * 1000;
+    const sampleRate = MP3_SAMPLE_RATES[versionBits][sampleRateIndex];
+    const padding = (header[2] >> 1) & 0x01;
+    const mono = (header[3] >> 6) === 3;
+    
+    if (layer === 1) {
+        return {
+            length: (Math.floor(12 * bitrate / sampleRate) + padding) * 4,
+            samples: 384,
+            sampleRate,
+            xingOffset: 0
+        };
+    }
+    
+    const samples = layer === 3 && !isVersion1 ? 576 : 1152;
+    
+    return {
+        length: Math.floor(samples / 8 * bitrate / sampleRate) + padding,
+        samples,
+        sampleRate,
+        // The Xing header follows the side information, whose size depends on version and channels
+        xingOffset: layer === 3 ? 4 + (isVersion1 ? (mono ? 17 : 32) : (mono ? 9 : 17)) : 0
+    };
+}
+
+/**
+ * Read the total frame count from a Xing/Info or VBRI header in the first frame
+ * @param data First frame
+ * @param frame Decoded header of the first frame
+ */
+function readMp3FrameCount(data: Buffer, frame: Mp3Frame): number | undefined {
+    const { xingOffset } = frame;
+    
+    if (xingOffset && data.length >= xingOffset + 12) {
+        const tag = data.toString('latin1', xingOffset, xingOffset + 4);
+        // The frame count is present when the first flag bit is set
+        if ((tag === 'Xing' || tag === 'Info') && data.readUInt32BE(xingOffset + 4) & 0x01) {
+            return data.readUInt32BE(xingOffset + 8);
+        }
+    }
+    
+    if (data.length >= 54 && data.toString('latin1', 36, 40) === 'VBRI') {
+        return data.readUInt32BE(50);
+    }
+    
+    return undefined;
+}
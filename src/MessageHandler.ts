@@ -3,29 +3,89 @@
  */
 
 import { WAConnection } from './WAConnection';
-import { Message, MessageSendOptions, MessageType } from './Types';
-import { validatePhoneNumber, generateRandomId, formatTimestamp } from './Utils';
+import { SignalRepository, SignalMessageType } from './SignalProtocol';
+import { SenderKeyRepository } from './SenderKeys';
+import { GroupHandler } from './GroupHandler';
+import { SendQueue } from './SendQueue';
+import { padMessage, unpadMessage, parseMessageNode, getBinaryNodeChild, getBinaryNodeChildren, getBinaryNodeChildBuffer } from './WAProtocol';
+import { encodeMessage, decodeMessage } from './MessageProto';
+import { BinaryNode, Message, MessageSendOptions, MessageType, Jid, QueuedMessage, SendStatus } from './Types';
+import { generateRandomId, formatTimestamp, base64ToBuffer } from './Utils';
+import { phoneNumberToJid } from './PhoneNumber';
+import { parseJid, formatJid, toBareJid, getJidType, areJidsSameUser } from './Jid';
 import { createLogger } from './Utils';
+import { FocksupError, ProtocolError, toFocksupError } from './Errors';
+import { ERROR_CODES, KEY_BUNDLE_TYPE, S_WHATSAPP_NET } from './Constants';
+
+// Message content keys of the messages sent as media stanzas
+const MEDIA_MESSAGE_KEYS = ['imageMessage', 'videoMessage', 'audioMessage', 'documentMessage', 'stickerMessage'];
+
+// ProtocolMessage.Type of a revoke, and the edit attribute of a revoke sent by its sender
+const PROTOCOL_MESSAGE_REVOKE = 0;
+const MESSAGE_EDIT_SENDER_REVOKE = '7';
 
 export class MessageHandler {
     private connection: WAConnection;
+    private signal: SignalRepository;
+    private senderKeys: SenderKeyRepository;
+    private defaultRegion?: string;
+    private groupHandler?: GroupHandler;
+    private sendQueue: SendQueue;
     private logger: ReturnType<typeof createLogger>;
     
-    constructor(connection: WAConnection) {
+    constructor(
+        connection: WAConnection,
+        signal: SignalRepository,
+        senderKeys: SenderKeyRepository,
+        defaultRegion?: string,
+        sendQueue?: SendQueue,
+        logLevel?: string
+    ) {
         this.connection = connection;
-        this.logger = createLogger('MessageHandler');
+        this.signal = signal;
+        this.senderKeys = senderKeys;
+        this.defaultRegion = defaultRegion;
+        this.sendQueue = sendQueue || new SendQueue(message => this.deliverMessage(message), () => connection.isConnected(), undefined, logLevel);
+        this.logger = createLogger('MessageHandler', logLevel);
+    }
+    
+    /**
+     * Set the group handler that relays messages sent to groups
+     * The group handler sends through this handler, so it can only be set once both exist
+     * @param groupHandler Group handler
+     */
+    setGroupHandler(groupHandler: GroupHandler): void {
+        this.groupHandler = groupHandler;
+    }
+    
+    /**
+     * Work out the chat a message is sent to
+     * Phone numbers are turned into user JIDs; user, group, broadcast list and status JIDs are kept
+     * @param to Phone number or JID
+     */
+    resolveRecipient(to: string | Jid): string {
+        if (typeof to === 'string' && !to.includes('@')) {
+            return phoneNumberToJid(to, this.defaultRegion);
+        }
+        
+        if (getJidType(to) === 'newsletter') {
+            throw new FocksupError(`Sending to channels is not supported: ${formatJid(to)}`, { code: ERROR_CODES.INVALID_JID });
+        }
+        
+        return formatJid(to);
     }
     
     /**
      * Send a text message
-     * @param to Recipient's phone number
+     * @param to Recipient's phone number or JID
      * @param text Message text
      * @param options Send options
      */
-    async sendText(to: string, text: string, options: MessageSendOptions = {}): Promise<Message> {
+    async sendText(to: string | Jid, text: string, options: MessageSendOptions = {}): Promise<Message> {
         try {
-            const jid = validatePhoneNumber(to);
-            const messageId = generateRandomId();
+            const jid = this.resolveRecipient(to);
+            const { recipients, messageId: id } = options;
+            const messageId = id || generateRandomId();
             const timestamp = Date.now();
             
             const message = {
@@ -38,37 +98,29 @@ export class MessageHandler {
                 timestamp
             };
             
-            await this.connection.sendRequest({
-                type: 'message',
-                data: {
-                    jid,
-                    type: 'text',
-                    content: text,
-                    id: messageId,
-                    options
-                }
-            });
+            const status = await this.relayMessage(jid, messageId, { conversation: text }, {}, recipients);
             
-            this.logger.info(`Sent text message to ${jid}: ${text.substring(0, 30)}${text.length > 30 ? '...' : ''}`);
+            this.logger.info(`${status === 'queued' ? 'Queued' : 'Sent'} text message to ${jid}: ${text.substring(0, 30)}${text.length > 30 ? '...' : ''}`);
             
-            return message;
+            return { ...message, status };
         } catch (error) {
             this.logger.error('Failed to send text message:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MESSAGE_SEND_FAILED);
         }
     }
     
     /**
      * Send a reply to a message
-     * @param to Recipient's phone number
+     * @param to Recipient's phone number or JID
      * @param text Reply text
      * @param quotedMessageId ID of the message to reply to
      * @param options Send options
      */
-    async sendReply(to: string, text: string, quotedMessageId: string, options: MessageSendOptions = {}): Promise<Message> {
+    async sendReply(to: string | Jid, text: string, quotedMessageId: string, options: MessageSendOptions = {}): Promise<Message> {
         try {
-            const jid = validatePhoneNumber(to);
-            const messageId = generateRandomId();
+            const jid = this.resolveRecipient(to);
+            const { recipients, messageId: id } = options;
+            const messageId = id || generateRandomId();
             const timestamp = Date.now();
             
             const message = {
@@ -82,38 +134,35 @@ export class MessageHandler {
                 quotedMessageId
             };
             
-            await this.connection.sendRequest({
-                type: 'message',
-                data: {
-                    jid,
-                    type: 'text',
-                    content: text,
-                    id: messageId,
-                    quotedMessageId,
-                    options
+            const status = await this.relayMessage(jid, messageId, {
+                extendedTextMessage: {
+                    text,
+                    contextInfo: { stanzaId: quotedMessageId }
                 }
-            });
+            }, {}, recipients);
             
-            this.logger.info(`Sent reply to ${jid} (quoting ${quotedMessageId}): ${text.substring(0, 30)}${text.length > 30 ? '...' : ''}`);
+            this.logger.info(`${status === 'queued' ? 'Queued' : 'Sent'} reply to ${jid} (quoting ${quotedMessageId}): ${text.substring(0, 30)}${text.length > 30 ? '...' : ''}`);
             
-            return message;
+            return { ...message, status };
         } catch (error) {
             this.logger.error('Failed to send reply:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MESSAGE_SEND_FAILED);
         }
     }
     
     /**
      * Send a message with mentions
-     * @param to Recipient's phone number
+     * @param to Recipient's phone number or JID
      * @param text Message text with mentions (@mention)
-     * @param mentionedJids Array of JIDs to mention
+     * @param mentioned Users to mention, as phone numbers or JIDs
      * @param options Send options
      */
-    async sendTextWithMentions(to: string, text: string, mentionedJids: string[], options: MessageSendOptions = {}): Promise<Message> {
+    async sendTextWithMentions(to: string | Jid, text: string, mentioned: (string | Jid)[], options: MessageSendOptions = {}): Promise<Message> {
         try {
-            const jid = validatePhoneNumber(to);
-            const messageId = generateRandomId();
+            const jid = this.resolveRecipient(to);
+            const { recipients, messageId: id } = options;
+            const mentionedJids = mentioned.map(user => phoneNumberToJid(user, this.defaultRegion));
+            const messageId = id || generateRandomId();
             const timestamp = Date.now();
             
             const message = {
@@ -127,74 +176,451 @@ export class MessageHandler {
                 mentionedJids
             };
             
-            await this.connection.sendRequest({
-                type: 'message',
-                data: {
-                    jid,
-                    type: 'text',
-                    content: text,
-                    id: messageId,
-                    mentionedJids,
-                    options
+            const status = await this.relayMessage(jid, messageId, {
+                extendedTextMessage: {
+                    text,
+                    contextInfo: { mentionedJid: mentionedJids }
                 }
-            });
+            }, {}, recipients);
             
-            this.logger.info(`Sent text message with mentions to ${jid}: ${text.substring(0, 30)}${text.length > 30 ? '...' : ''}`);
+            this.logger.info(`${status === 'queued' ? 'Queued' : 'Sent'} text message with mentions to ${jid}: ${text.substring(0, 30)}${text.length > 30 ? '...' : ''}`);
             
-            return message;
+            return { ...message, status };
         } catch (error) {
             this.logger.error('Failed to send text message with mentions:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MESSAGE_SEND_FAILED);
         }
     }
     
+    /**
+     * Queue a message to be encrypted end-to-end and sent
+     * It is sent right away when connected, after the messages queued before it; otherwise
+     * it waits until the connection is back
+     * @param jid Recipient JID
+     * @param messageId Message ID
+     * @param content Message content, e.g. { conversation: 'text' }
+     * @param extra Additional attributes of the message stanza
+     * @param recipients Who receives a message sent to a broadcast list or the status
+     */
+    async relayMessage(
+        jid: string,
+        messageId: string,
+        content: any,
+        extra: { [key: string]: string } = {},
+        recipients: (string | Jid)[] = []
+    ): Promise<SendStatus> {
+        const type = getJidType(jid);
+        
+        // Check what can be checked now, rather than failing once the message leaves the queue
+        if (type === 'group' && !this.groupHandler) {
+            throw new FocksupError(`Cannot send to group ${jid} without a group handler`, { code: ERROR_CODES.MESSAGE_SEND_FAILED });
+        }
+        // Broadcast list and status audiences are kept by our own devices, not the server
+        if ((type === 'broadcast' || type === 'status') && recipients.length === 0) {
+            throw new FocksupError(`Messages to ${jid} need a list of recipients`, { code: ERROR_CODES.MESSAGE_SEND_FAILED });
+        }
+        
+        return await this.sendQueue.send({
+            id: messageId,
+            jid,
+            content,
+            extra,
+            recipients: recipients.length ? recipients.map(recipient => phoneNumberToJid(recipient, this.defaultRegion)) : undefined
+        });
+    }
+    
+    /**
+     * Encrypt a message from the send queue and send it
+     * Messages to a user are encrypted over the Signal session of each of their devices, and of our
+     * own other devices; messages to a group, broadcast list or the status are encrypted once with
+     * our sender key for that chat
+     * @param message Queued message
+     */
+    async deliverMessage(message: QueuedMessage): Promise<void> {
+        const { id, jid, content, extra, recipients } = message;
+        
+        switch (getJidType(jid)) {
+            case 'group':
+                if (!this.groupHandler) {
+                    throw new FocksupError(`Cannot send to group ${jid} without a group handler`, { code: ERROR_CODES.MESSAGE_SEND_FAILED });
+                }
+                return await this.groupHandler.relayMessage(jid, id, content, extra);
+            case 'broadcast':
+            case 'status':
+                return await this.relaySenderKeyMessage(jid, recipients || [], id, content, extra);
+        }
+        
+        // Our other devices get the message wrapped, so they know which chat it was sent to
+        const me = this.connection.getCredentials()?.me?.id;
+        const devices = await this.getDevices(me ? [jid, me] : [jid]);
+        const sentToSelf = !!me && areJidsSameUser(jid, me);
+        
+        // A device without a usable session is skipped, as long as one of the recipient's devices gets the message
+        const encrypted = [];
+        let failure: unknown;
+        for (const device of devices) {
+            const ownDevice = !sentToSelf && !!me && areJidsSameUser(device, me);
+            try {
+                encrypted.push({
+                    jid: device,
+                    enc: await this.encryptContent(device, ownDevice
+                        ? { deviceSentMessage: { destinationJid: jid, message: content } }
+                        : content)
+                });
+            } catch (error) {
+                this.logger.warn(`Skipping device ${device} for message ${id}:`, error);
+                failure = failure || error;
+            }
+        }
+        if (!encrypted.some(recipient => areJidsSameUser(recipient.jid, jid))) {
+            throw failure || new ProtocolError(`No device of ${jid} could be sent message ${id}`, { code: ERROR_CODES.MESSAGE_SEND_FAILED });
+        }
+        
+        // The server answers a message with an ack once it has taken it
+        await this.connection.query({
+            tag: 'message',
+            attrs: { id, to: jid, type: getStanzaType(content), ...extra },
+            content: [
+                createParticipantsNode(encrypted),
+                ...this.getDeviceIdentityNodes(encrypted.map(({ enc }) => enc))
+            ]
+        });
+    }
+    
+    /**
+     * Send the messages waiting in the send queue, e.g. once the connection is back
+     */
+    async flushSendQueue(): Promise<void> {
+        await this.sendQueue.flush();
+    }
+    
+    /**
+     * Encrypt message content once with our sender key for a chat and send it to its participants,
+     * distributing the sender key to participants that don't have it yet
+     * @param jid Group, broadcast list or status JID
+     * @param participantJids JIDs of everyone who receives the message
+     * @param messageId Message ID
+     * @param content Message content
+     * @param extra Additional attributes of the message stanza
+     */
+    async relaySenderKeyMessage(
+        jid: string,
+        participantJids: string[],
+        messageId: string,
+        content: any,
+        extra: { [key: string]: string } = {}
+    ): Promise<void> {
+        // Every device of a participant needs the sender key, including our own other devices
+        const participants = await this.getDevices(participantJids);
+        
+        // The key and who still needs it are read together, so a rotation before the send is caught below
+        const { keyId, message: distributionMessage, pending } = await this.senderKeys.createDistributionMessage(jid, participants);
+        
+        // Distributions capture the chain before this message advances it, and a participant
+        // without a usable session is skipped instead of failing the message for everyone
+        const distributions = [];
+        for (const participant of pending) {
+            try {
+                distributions.push({
+                    jid: participant,
+                    enc: await this.encryptContent(participant, {
+                        senderKeyDistributionMessage: {
+                            groupId: jid,
+                            axolotlSenderKeyDistributionMessage: distributionMessage
+                        }
+                    })
+                });
+            } catch (error) {
+                this.logger.warn(`Skipping sender key distribution to ${participant} in ${jid}:`, error);
+            }
+        }
+        
+        const ciphertext = await this.senderKeys.encrypt(jid, padMessage(encodeMessage(content)), keyId);
+        
+        const nodes: BinaryNode[] = [];
+        if (distributions.length) {
+            nodes.push(createParticipantsNode(distributions));
+        }
+        nodes.push(
+            createEncNode({ type: 'skmsg', ciphertext }),
+            ...this.getDeviceIdentityNodes(distributions.map(({ enc }) => enc))
+        );
+        
+        await this.connection.query({
+            tag: 'message',
+            attrs: { id: messageId, to: jid, type: getStanzaType(content), ...extra },
+            content: nodes
+        });
+        
+        await this.senderKeys.markDistributed(jid, distributions.map(({ jid: participant }) => participant), keyId);
+    }
+    
+    /**
+     * Encrypt message content for a single device over its Signal session
+     * @param jid Device JID
+     * @param content Message content
+     */
+    async encryptContent(jid: string, content: any): Promise<{ type: SignalMessageType, ciphertext: Buffer }> {
+        await this.assertSession(jid);
+        
+        return await this.signal.encryptMessage(jid, padMessage(encodeMessage(content)));
+    }
+    
+    /**
+     * Look up the devices of users, to encrypt a message for each of them
+     * Our own device is left out; a user the server lists no devices for gets their primary device
+     * @param jids User JIDs
+     */
+    private async getDevices(jids: string[]): Promise<string[]> {
+        const users = [...new Set(jids.map(jid => toBareJid(jid)))];
+        if (!users.length) {
+            return [];
+        }
+        
+        const response = await this.connection.query({
+            tag: 'iq',
+            attrs: { xmlns: 'usync', type: 'get', to: S_WHATSAPP_NET },
+            content: [{
+                tag: 'usync',
+                attrs: { sid: generateRandomId(), mode: 'query', last: 'true', index: '0', context: 'message' },
+                content: [
+                    { tag: 'query', attrs: {}, content: [{ tag: 'devices', attrs: { version: '2' } }] },
+                    { tag: 'list', attrs: {}, content: users.map(jid => ({ tag: 'user', attrs: { jid } })) }
+                ]
+            }]
+        });
+        
+        const listed = new Map<string, BinaryNode[]>();
+        for (const user of getBinaryNodeChildren(getBinaryNodeChild(getBinaryNodeChild(response, 'usync'), 'list'), 'user')) {
+            const deviceList = getBinaryNodeChild(getBinaryNodeChild(user, 'devices'), 'device-list');
+            if (user.attrs.jid && deviceList) {
+                listed.set(toBareJid(user.attrs.jid), getBinaryNodeChildren(deviceList, 'device'));
+            }
+        }
+        
+        const me = this.connection.getCredentials()?.me?.id;
+        const ownDevice = me ? parseJid(me) : undefined;
+        const devices: string[] = [];
+        for (const jid of users) {
+            const { user, server } = parseJid(jid);
+            const deviceIds = listed.get(jid)
+                // Companion devices are only linked once they have a key index
+                ?.filter(device => device.attrs.id === '0' || !!device.attrs['key-index'])
+                .map(device => parseInt(device.attrs.id, 10))
+                .filter(device => Number.isSafeInteger(device)) || [0];
+            
+            for (const device of new Set(deviceIds)) {
+                if (ownDevice && ownDevice.user === user && ownDevice.server === server && (ownDevice.device || 0) === device) {
+                    continue;
+                }
+                // The primary device is addressed by the user JID
+                devices.push(formatJid({ user, server, device: device || undefined }));
+            }
+        }
+        
+        return devices;
+    }
+    
+    /**
+     * Our signed device identity, which recipients need to accept a message that starts a Signal session
+     * @param encrypted Ciphertexts in the message
+     */
+    private getDeviceIdentityNodes(encrypted: Array<{ type: SignalMessageType }>): BinaryNode[] {
+        const account = this.connection.getCredentials()?.account;
+        if (!account || !encrypted.some(enc => enc.type === 'pkmsg')) {
+            return [];
+        }
+        
+        return [{ tag: 'device-identity', attrs: {}, content: base64ToBuffer(account) }];
+    }
+    
+    /**
+     * Decrypt an incoming encrypted message
+     * Group messages carry the sender in `participant` and may include the
+     * sender's key distribution message, encrypted over the 1:1 session
+     * @param data Message data with the encrypted envelope
+     */
+    async decryptMessage(data: {
+        id: string,
+        from: string,
+        participant?: string,
+        timestamp?: number,
+        enc: { type: SignalMessageType | 'skmsg', ciphertext: string },
+        distribution?: { type: SignalMessageType, ciphertext: string }
+    }): Promise<Message> {
+        try {
+            const sender = data.participant || data.from;
+            
+            if (data.distribution) {
+                const distribution = await this.decryptContent(sender, data.distribution);
+                const skdm = distribution.senderKeyDistributionMessage;
+                if (!skdm || skdm.groupId !== data.from) {
+                    throw new ProtocolError('Invalid sender key distribution message', { code: ERROR_CODES.DECRYPTION_FAILED });
+                }
+                await this.senderKeys.processDistributionMessage(
+                    data.from,
+                    sender,
+                    base64ToBuffer(skdm.axolotlSenderKeyDistributionMessage)
+                );
+            }
+            
+            let content: any;
+            if (data.enc.type === 'skmsg') {
+                const plaintext = await this.senderKeys.decrypt(data.from, sender, base64ToBuffer(data.enc.ciphertext));
+                content = decodeMessage(unpadMessage(plaintext));
+            } else {
+                content = await this.decryptContent(sender, { type: data.enc.type, ciphertext: data.enc.ciphertext });
+            }
+            
+            // A message one of our other devices sent comes wrapped with the chat it went to
+            const sent = content.deviceSentMessage;
+            const me = this.connection.getCredentials()?.me?.id;
+            const fromMe = !!sent && !!me && areJidsSameUser(sender, me);
+            
+            return parseMessageNode({
+                id: data.id,
+                from: sender,
+                fromMe,
+                groupId: data.participant ? data.from : undefined,
+                timestamp: data.timestamp,
+                message: fromMe ? sent.message : content
+            });
+        } catch (error) {
+            this.logger.error(`Failed to decrypt message ${data.id} from ${data.from}:`, error);
+            throw toFocksupError(error, ERROR_CODES.DECRYPTION_FAILED, ProtocolError);
+        }
+    }
+    
+    /**
+     * Decrypt content sent over a 1:1 Signal session
+     * @param jid Sender JID
+     * @param enc Encrypted envelope
+     */
+    private async decryptContent(jid: string, enc: { type: SignalMessageType, ciphertext: string }): Promise<any> {
+        const plaintext = await this.signal.decryptMessage(jid, enc.type, base64ToBuffer(enc.ciphertext));
+        return decodeMessage(unpadMessage(plaintext));
+    }
+    
+    /**
+     * Upload a fresh batch of one-time pre-keys
+     * @param count Number of pre-keys to upload
+     */
+    async uploadPreKeys(count: number = 30): Promise<void> {
+        try {
+            const identity = this.signal.getLocalIdentity();
+            const preKeys = await this.signal.generatePreKeys(count);
+            
+            await this.connection.query({
+                tag: 'iq',
+                attrs: { xmlns: 'encrypt', type: 'set', to: S_WHATSAPP_NET },
+                content: [
+                    { tag: 'registration', attrs: {}, content: encodeBigEndian(identity.registrationId, 4) },
+                    { tag: 'type', attrs: {}, content: KEY_BUNDLE_TYPE },
+                    { tag: 'identity', attrs: {}, content: identity.identityKeyPair.public },
+                    {
+                        tag: 'list',
+                        attrs: {},
+                        content: preKeys.map(preKey => ({
+                            tag: 'key',
+                            attrs: {},
+                            content: [
+                                { tag: 'id', attrs: {}, content: encodeBigEndian(preKey.keyId, 3) },
+                                { tag: 'value', attrs: {}, content: preKey.publicKey }
+                            ]
+                        }))
+                    },
+                    {
+                        tag: 'skey',
+                        attrs: {},
+                        content: [
+                            { tag: 'id', attrs: {}, content: encodeBigEndian(identity.signedPreKey.keyId, 3) },
+                            { tag: 'value', attrs: {}, content: identity.signedPreKey.keyPair.public },
+                            { tag: 'signature', attrs: {}, content: identity.signedPreKey.signature }
+                        ]
+                    }
+                ]
+            });
+            
+            this.logger.info(`Uploaded ${preKeys.length} pre-keys`);
+        } catch (error) {
+            this.logger.error('Failed to upload pre-keys:', error);
+            throw toFocksupError(error, ERROR_CODES.PROTOCOL_ERROR, ProtocolError);
+        }
+    }
+    
+    /**
+     * Make sure a Signal session exists, fetching the recipient's pre-key bundle if needed
+     * @param jid Recipient JID
+     */
+    private async assertSession(jid: string): Promise<void> {
+        if (await this.signal.hasSession(jid)) {
+            return;
+        }
+        
+        const response = await this.connection.query({
+            tag: 'iq',
+            attrs: { xmlns: 'encrypt', type: 'get', to: S_WHATSAPP_NET },
+            content: [{
+                tag: 'key',
+                attrs: {},
+                content: [{ tag: 'user', attrs: { jid } }]
+            }]
+        });
+        
+        const user = getBinaryNodeChild(getBinaryNodeChild(response, 'list'), 'user');
+        const registrationId = getBinaryNodeChildBuffer(user, 'registration');
+        const identityKey = getBinaryNodeChildBuffer(user, 'identity');
+        const signedPreKey = getBinaryNodeChild(user, 'skey');
+        const preKey = getBinaryNodeChild(user, 'key');
+        if (!registrationId || !identityKey || !signedPreKey) {
+            throw new ProtocolError(`Incomplete pre-key bundle for ${jid}`, { code: ERROR_CODES.MESSAGE_SEND_FAILED });
+        }
+        
+        await this.signal.injectSession(jid, {
+            registrationId: registrationId.readUIntBE(0, registrationId.length),
+            identityKey,
+            signedPreKey: {
+                ...parseKeyNode(signedPreKey),
+                signature: getBinaryNodeChildBuffer(signedPreKey, 'signature') || Buffer.alloc(0)
+            },
+            preKey: preKey && parseKeyNode(preKey)
+        });
+    }
+    
     /**
      * Mark a chat as read
-     * @param jid JID of the chat
+     * @param chat JID of the chat
      * @param messageId ID of the last message to mark as read
      */
-    async markChatAsRead(jid: string, messageId: string): Promise<void> {
+    async markChatAsRead(chat: string | Jid, messageId: string): Promise<void> {
         try {
-            await this.connection.sendRequest({
-                type: 'read',
-                data: {
-                    jid,
-                    messageId
-                }
+            const jid = formatJid(chat);
+            await this.connection.sendNode({
+                tag: 'receipt',
+                attrs: { id: messageId, to: jid, type: 'read' }
             });
             
             this.logger.info(`Marked chat ${jid} as read up to message ${messageId}`);
         } catch (error) {
             this.logger.error('Failed to mark chat as read:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MESSAGE_SEND_FAILED);
         }
     }
     
     /**
      * Send a "typing" indication
-     * @param jid JID to send typing indication to
+     * @param chat JID to send typing indication to
      * @param durationMs How long to show typing (ms)
      */
-    async sendTyping(jid: string, durationMs: number = 3000): Promise<void> {
+    async sendTyping(chat: string | Jid, durationMs: number = 3000): Promise<void> {
         try {
-            await this.connection.sendRequest({
-                type: 'presence',
-                data: {
-                    jid,
-                    presence: 'composing'
-                }
-            });
+            const jid = formatJid(chat);
+            await this.sendChatState(jid, 'composing');
             
             // Automatically stop typing after the specified duration
             setTimeout(async () => {
                 try {
-                    await this.connection.sendRequest({
-                        type: 'presence',
-                        data: {
-                            jid,
-                            presence: 'paused'
-                        }
-                    });
+                    await this.sendChatState(jid, 'paused');
                 } catch (error) {
                     this.logger.error('Failed to stop typing indication:', error);
                 }
@@ -203,7 +629,7 @@ export class MessageHandler {
             this.logger.info(`Sent typing indication to ${jid} for ${durationMs}ms`);
         } catch (error) {
             this.logger.error('Failed to send typing indication:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MESSAGE_SEND_FAILED);
         }
     }
     
@@ -213,41 +639,115 @@ export class MessageHandler {
      */
     async updatePresence(presence: 'available' | 'unavailable'): Promise<void> {
         try {
-            await this.connection.sendRequest({
-                type: 'presence',
-                data: {
-                    presence
-                }
+            const name = this.connection.getCredentials()?.me?.name;
+            await this.connection.sendNode({
+                tag: 'presence',
+                attrs: { type: presence, ...(name ? { name } : {}) }
             });
             
             this.logger.info(`Updated presence to ${presence}`);
         } catch (error) {
             this.logger.error('Failed to update presence:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MESSAGE_SEND_FAILED);
         }
     }
     
+    /**
+     * Send a chat state, shown to the other side as typing
+     * @param jid Chat JID
+     * @param state Chat state
+     */
+    private async sendChatState(jid: string, state: 'composing' | 'paused'): Promise<void> {
+        await this.connection.sendNode({
+            tag: 'chatstate',
+            attrs: { to: jid },
+            content: [{ tag: state, attrs: {} }]
+        });
+    }
+    
     /**
      * Delete a message
-     * @param jid JID where the message is
+     * Deleting for everyone revokes the message in the chat; deleting only for me is kept in the
+     * app state synced between our devices, which this library does not write to yet
+     * @param chat JID where the message is
      * @param messageId ID of the message to delete
      * @param forEveryone Whether to delete for everyone or just for me
      */
-    async deleteMessage(jid: string, messageId: string, forEveryone: boolean = false): Promise<void> {
+    async deleteMessage(chat: string | Jid, messageId: string, forEveryone: boolean = false): Promise<void> {
         try {
-            await this.connection.sendRequest({
-                type: 'message_delete',
-                data: {
-                    jid,
-                    messageId,
-                    forEveryone
+            const jid = formatJid(chat);
+            if (!forEveryone) {
+                throw new FocksupError('Deleting a message only for me is not supported', { code: ERROR_CODES.MESSAGE_SEND_FAILED });
+            }
+            
+            await this.relayMessage(jid, generateRandomId(), {
+                protocolMessage: {
+                    type: PROTOCOL_MESSAGE_REVOKE,
+                    key: { remoteJid: jid, id: messageId, fromMe: true }
                 }
-            });
+            }, { edit: MESSAGE_EDIT_SENDER_REVOKE });
             
             this.logger.info(`Deleted message ${messageId} from ${jid} (for ${forEveryone ? 'everyone' : 'me'})`);
         } catch (error) {
             this.logger.error('Failed to delete message:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.MESSAGE_SEND_FAILED);
         }
     }
 }
+
+/**
+ * Encrypted content node of a message stanza
+ * @param enc Ciphertext and the kind of message it is
+ */
+function createEncNode(enc: { type: SignalMessageType | 'skmsg', ciphertext: Buffer }): BinaryNode {
+    return { tag: 'enc', attrs: { v: '2', type: enc.type }, content: enc.ciphertext };
+}
+
+/**
+ * Participants node of a message stanza, with the content encrypted for each device
+ * @param recipients Device JIDs and what was encrypted for them
+ */
+function createParticipantsNode(recipients: Array<{ jid: string, enc: { type: SignalMessageType, ciphertext: Buffer } }>): BinaryNode {
+    return {
+        tag: 'participants',
+        attrs: {},
+        content: recipients.map(({ jid, enc }) => ({
+            tag: 'to',
+            attrs: { jid },
+            content: [createEncNode(enc)]
+        }))
+    };
+}
+
+/**
+ * Type attribute of the stanza carrying some message content
+ * @param content Message content
+ */
+function getStanzaType(content: any): string {
+    return MEDIA_MESSAGE_KEYS.some(key => key in content) ? 'media' : 'text';
+}
+
+/**
+ * Read the id and public key of a pre-key node in a pre-key bundle
+ * @param node key or skey node
+ */
+function parseKeyNode(node: BinaryNode): { keyId: number, publicKey: Buffer } {
+    const id = getBinaryNodeChildBuffer(node, 'id');
+    const publicKey = getBinaryNodeChildBuffer(node, 'value');
+    if (!id || !publicKey) {
+        throw new ProtocolError(`Incomplete ${node.tag} in pre-key bundle`, { code: ERROR_CODES.MESSAGE_SEND_FAILED });
+    }
+    
+    return { keyId: id.readUIntBE(0, id.length), publicKey };
+}
+
+/**
+ * Write a number as big-endian bytes
+ * @param value Number to write
+ * @param length Number of bytes
+ */
+function encodeBigEndian(value: number, length: number): Buffer {
+    const buffer = Buffer.alloc(length);
+    buffer.writeUIntBE(value, 0, length);
+    return buffer;
+}
@@ -0,0 +1,275 @@
+/**
+ * WhatsApp Message protobuf
+ * Message content is handled as plain objects, with bytes fields as base64 strings, and only
+ * turned into the Message protobuf when it is encrypted
+ */
+
+import { encodeProto, decodeProto, ProtoFields, ProtoValue, DecodedProto } from './Protobuf';
+import { ProtocolError } from './Errors';
+
+type FieldKind = 'string' | 'bytes' | 'uint' | 'bool' | MessageSchema;
+
+interface FieldSpec {
+    field: number;
+    kind: FieldKind;
+    repeated?: boolean;
+}
+
+type MessageSchema = { [name: string]: FieldSpec };
+
+// ContextInfo: the message a reply quotes and the users a message mentions
+const CONTEXT_INFO: MessageSchema = {
+    stanzaId: { field: 1, kind: 'string' },
+    participant: { field: 2, kind: 'string' },
+    remoteJid: { field: 4, kind: 'string' },
+    mentionedJid: { field: 15, kind: 'string', repeated: true }
+};
+
+const MESSAGE_KEY: MessageSchema = {
+    remoteJid: { field: 1, kind: 'string' },
+    fromMe: { field: 2, kind: 'bool' },
+    id: { field: 3, kind: 'string' },
+    participant: { field: 4, kind: 'string' }
+};
+
+const SENDER_KEY_DISTRIBUTION_MESSAGE: MessageSchema = {
+    groupId: { field: 1, kind: 'string' },
+    axolotlSenderKeyDistributionMessage: { field: 2, kind: 'bytes' }
+};
+
+const EXTENDED_TEXT_MESSAGE: MessageSchema = {
+    text: { field: 1, kind: 'string' },
+    jpegThumbnail: { field: 16, kind: 'bytes' },
+    contextInfo: { field: 17, kind: CONTEXT_INFO }
+};
+
+const IMAGE_MESSAGE: MessageSchema = {
+    url: { field: 1, kind: 'string' },
+    mimetype: { field: 2, kind: 'string' },
+    caption: { field: 3, kind: 'string' },
+    fileSha256: { field: 4, kind: 'bytes' },
+    fileLength: { field: 5, kind: 'uint' },
+    height: { field: 6, kind: 'uint' },
+    width: { field: 7, kind: 'uint' },
+    mediaKey: { field: 8, kind: 'bytes' },
+    fileEncSha256: { field: 9, kind: 'bytes' },
+    directPath: { field: 11, kind: 'string' },
+    mediaKeyTimestamp: { field: 12, kind: 'uint' },
+    jpegThumbnail: { field: 16, kind: 'bytes' },
+    contextInfo: { field: 17, kind: CONTEXT_INFO }
+};
+
+const VIDEO_MESSAGE: MessageSchema = {
+    url: { field: 1, kind: 'string' },
+    mimetype: { field: 2, kind: 'string' },
+    fileSha256: { field: 3, kind: 'bytes' },
+    fileLength: { field: 4, kind: 'uint' },
+    seconds: { field: 5, kind: 'uint' },
+    mediaKey: { field: 6, kind: 'bytes' },
+    caption: { field: 7, kind: 'string' },
+    gifPlayback: { field: 8, kind: 'bool' },
+    height: { field: 9, kind: 'uint' },
+    width: { field: 10, kind: 'uint' },
+    fileEncSha256: { field: 11, kind: 'bytes' },
+    directPath: { field: 13, kind: 'string' },
+    mediaKeyTimestamp: { field: 14, kind: 'uint' },
+    jpegThumbnail: { field: 16, kind: 'bytes' },
+    contextInfo: { field: 17, kind: CONTEXT_INFO }
+};
+
+const AUDIO_MESSAGE: MessageSchema = {
+    url: { field: 1, kind: 'string' },
+    mimetype: { field: 2, kind: 'string' },
+    fileSha256: { field: 3, kind: 'bytes' },
+    fileLength: { field: 4, kind: 'uint' },
+    seconds: { field: 5, kind: 'uint' },
+    ptt: { field: 6, kind: 'bool' },
+    mediaKey: { field: 7, kind: 'bytes' },
+    fileEncSha256: { field: 8, kind: 'bytes' },
+    directPath: { field: 9, kind: 'string' },
+    mediaKeyTimestamp: { field: 10, kind: 'uint' },
+    contextInfo: { field: 17, kind: CONTEXT_INFO },
+    waveform: { field: 19, kind: 'bytes' }
+};
+
+const DOCUMENT_MESSAGE: MessageSchema = {
+    url: { field: 1, kind: 'string' },
+    mimetype: { field: 2, kind: 'string' },
+    title: { field: 3, kind: 'string' },
+    fileSha256: { field: 4, kind: 'bytes' },
+    fileLength: { field: 5, kind: 'uint' },
+    pageCount: { field: 6, kind: 'uint' },
+    mediaKey: { field: 7, kind: 'bytes' },
+    fileName: { field: 8, kind: 'string' },
+    fileEncSha256: { field: 9, kind: 'bytes' },
+    directPath: { field: 10, kind: 'string' },
+    mediaKeyTimestamp: { field: 11, kind: 'uint' },
+    jpegThumbnail: { field: 16, kind: 'bytes' },
+    contextInfo: { field: 17, kind: CONTEXT_INFO },
+    caption: { field: 20, kind: 'string' }
+};
+
+const STICKER_MESSAGE: MessageSchema = {
+    url: { field: 1, kind: 'string' },
+    fileSha256: { field: 2, kind: 'bytes' },
+    fileEncSha256: { field: 3, kind: 'bytes' },
+    mediaKey: { field: 4, kind: 'bytes' },
+    mimetype: { field: 5, kind: 'string' },
+    height: { field: 6, kind: 'uint' },
+    width: { field: 7, kind: 'uint' },
+    directPath: { field: 8, kind: 'string' },
+    fileLength: { field: 9, kind: 'uint' },
+    mediaKeyTimestamp: { field: 10, kind: 'uint' },
+    isAnimated: { field: 13, kind: 'bool' },
+    contextInfo: { field: 17, kind: CONTEXT_INFO }
+};
+
+// ProtocolMessage: revokes and other changes to messages already sent
+const PROTOCOL_MESSAGE: MessageSchema = {
+    key: { field: 1, kind: MESSAGE_KEY },
+    type: { field: 2, kind: 'uint' }
+};
+
+// DeviceSentMessage: a message we sent, as our other devices receive it
+const DEVICE_SENT_MESSAGE: MessageSchema = {
+    destinationJid: { field: 1, kind: 'string' }
+};
+
+const MESSAGE: MessageSchema = {
+    conversation: { field: 1, kind: 'string' },
+    senderKeyDistributionMessage: { field: 2, kind: SENDER_KEY_DISTRIBUTION_MESSAGE },
+    imageMessage: { field: 3, kind: IMAGE_MESSAGE },
+    extendedTextMessage: { field: 6, kind: EXTENDED_TEXT_MESSAGE },
+    documentMessage: { field: 7, kind: DOCUMENT_MESSAGE },
+    audioMessage: { field: 8, kind: AUDIO_MESSAGE },
+    videoMessage: { field: 9, kind: VIDEO_MESSAGE },
+    protocolMessage: { field: 12, kind: PROTOCOL_MESSAGE },
+    stickerMessage: { field: 26, kind: STICKER_MESSAGE },
+    deviceSentMessage: { field: 31, kind: DEVICE_SENT_MESSAGE }
+};
+
+// The Message schema refers to itself through the device sent message
+DEVICE_SENT_MESSAGE.message = { field: 2, kind: MESSAGE };
+
+/**
+ * Encode message content as a Message protobuf
+ * @param content Message content, e.g. { conversation: 'text' }
+ */
+export function encodeMessage(content: any): Buffer {
+    return encodeWithSchema(content, MESSAGE, 'Message');
+}
+
+/**
+ * Decode a Message protobuf into message content
+ * Fields this library does not know are left out
+ * @param buffer Encoded message
+ */
+export function decodeMessage(buffer: Buffer): any {
+    return decodeWithSchema(decodeProto(buffer), MESSAGE);
+}
+
+/**
+ * Encode an object with a message schema
+ * @param value Object to encode
+ * @param schema Schema of the message
+ * @param path Name of the message, for errors
+ */
+function encodeWithSchema(value: any, schema: MessageSchema, path: string): Buffer {
+    if (!value || typeof value !== 'object' || Buffer.isBuffer(value) || Array.isArray(value)) {
+        throw new ProtocolError(`Cannot encode ${path}: not an object`);
+    }
+    
+    const fields: ProtoFields = {};
+    for (const [name, raw] of Object.entries(value)) {
+        if (raw === undefined || raw === null) continue;
+        
+        const spec = schema[name];
+        if (!spec) {
+            throw new ProtocolError(`Cannot encode ${path}.${name}: unknown field`);
+        }
+        
+        const values = spec.repeated ? (Array.isArray(raw) ? raw : [raw]) : [raw];
+        fields[spec.field] = values.map(item => encodeField(item, spec.kind, `${path}.${name}`));
+    }
+    
+    return encodeProto(fields);
+}
+
+/**
+ * Encode a single field value
+ * @param value Field value
+ * @param kind Kind of the field
+ * @param path Name of the field, for errors
+ */
+function encodeField(value: any, kind: FieldKind, path: string): ProtoValue {
+    switch (kind) {
+        case 'string':
+            if (typeof value !== 'string') break;
+            return value;
+        case 'bytes':
+            if (Buffer.isBuffer(value)) return value;
+            if (typeof value !== 'string') break;
+            return Buffer.from(value, 'base64');
+        case 'uint':
+            if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) break;
+            return value;
+        case 'bool':
+            if (typeof value !== 'boolean') break;
+            return value ? 1 : 0;
+        default:
+            return encodeWithSchema(value, kind, path);
+    }
+    
+    throw new ProtocolError(`Cannot encode ${path}: expected ${typeof kind === 'string' ? kind : 'a message'}`);
+}
+
+/**
+ * Read the known fields of a decoded message
+ * @param decoded Raw fields of the message
+ * @param schema Schema of the message
+ */
+function decodeWithSchema(decoded: DecodedProto, schema: MessageSchema): any {
+    const result: any = {};
+    
+    for (const [name, spec] of Object.entries(schema)) {
+        const values = (decoded[spec.field] || [])
+            .map(value => decodeField(value, spec.kind))
+            .filter(value => value !== undefined);
+        if (!values.length) continue;
+        
+        // A non-repeated field sent more than once takes the last value
+        result[name] = spec.repeated ? values : values[values.length - 1];
+    }
+    
+    return result;
+}
+
+/**
+ * Decode a single field value, ignoring values of the wrong wire type
+ * @param value Raw field value
+ * @param kind Kind of the field
+ */
+function decodeField(value: number | Buffer, kind: FieldKind): any {
+    if (typeof value === 'number') {
+        switch (kind) {
+            case 'uint':
+                return value;
+            case 'bool':
+                return value !== 0;
+            default:
+                return undefined;
+        }
+    }
+    
+    switch (kind) {
+        case 'string':
+            return value.toString('utf-8');
+        case 'bytes':
+            return value.toString('base64');
+        case 'uint':
+        case 'bool':
+            return undefined;
+        default:
+            return decodeWithSchema(decodeProto(value), kind);
+    }
+}
@@ -0,0 +1,275 @@
+/**
+ * MIME type detection for media
+ * Content is identified by its leading magic bytes, with the filename only used
+ * to tell apart formats that share a container (Office documents in ZIP or OLE files)
+ */
+
+import path from 'path';
+
+// Number of leading bytes needed to identify any supported format
+export const MIME_SNIFF_LENGTH = 4100;
+
+const ZIP_MIMETYPE = 'application/zip';
+const CFB_MIMETYPE = 'application/x-cfb';
+
+const MIMETYPES_BY_EXTENSION: { [extension: string]: string } = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.bmp': 'image/bmp',
+    '.tif': 'image/tiff',
+    '.tiff': 'image/tiff',
+    '.heic': 'image/heic',
+    '.avif': 'image/avif',
+    '.svg': 'image/svg+xml',
+    '.mp4': 'video/mp4',
+    '.m4v': 'video/mp4',
+    '.mov': 'video/quicktime',
+    '.3gp': 'video/3gpp',
+    '.webm': 'video/webm',
+    '.mkv': 'video/x-matroska',
+    '.avi': 'video/x-msvideo',
+    '.mp3': 'audio/mpeg',
+    '.ogg': 'audio/ogg',
+    '.oga': 'audio/ogg',
+    '.opus': 'audio/ogg; codecs=opus',
+    '.m4a': 'audio/mp4',
+    '.aac': 'audio/aac',
+    '.wav': 'audio/wav',
+    '.flac': 'audio/flac',
+    '.amr': 'audio/amr',
+    '.pdf': 'application/pdf',
+    '.doc': 'application/msword',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.xls': 'application/vnd.ms-excel',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    '.ppt': 'application/vnd.ms-powerpoint',
+    '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    '.odt': 'application/vnd.oasis.opendocument.text',
+    '.ods': 'application/vnd.oasis.opendocument.spreadsheet',
+    '.odp': 'application/vnd.oasis.opendocument.presentation',
+    '.epub': 'application/epub+zip',
+    '.apk': 'application/vnd.android.package-archive',
+    '.zip': ZIP_MIMETYPE,
+    '.rar': 'application/vnd.rar',
+    '.7z': 'application/x-7z-compressed',
+    '.gz': 'application/gzip',
+    '.txt': 'text/plain',
+    '.csv': 'text/csv',
+    '.json': 'application/json',
+    '.vcf': 'text/vcard'
+};
+
+// Formats stored inside a generic container, which content sniffing alone may not tell apart
+const CONTAINER_FORMATS: { [container: string]: string[] } = {
+    [ZIP_MIMETYPE]: [
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+        'application/vnd.oasis.opendocument.text',
+        'application/vnd.oasis.opendocument.spreadsheet',
+        'application/vnd.oasis.opendocument.presentation',
+        'application/epub+zip',
+        'application/vnd.android.package-archive'
+    ],
+    [CFB_MIMETYPE]: [
+        'application/msword',
+        'application/vnd.ms-excel',
+        'application/vnd.ms-powerpoint'
+    ]
+};
+
+// Alternative spellings of the same type
+const MIMETYPE_ALIASES: { [alias: string]: string } = {
+    'image/jpg': 'image/jpeg',
+    'audio/mp3': 'audio/mpeg',
+    'audio/x-wav': 'audio/wav',
+    'audio/wave': 'audio/wav',
+    'audio/x-flac': 'audio/flac',
+    'audio/opus': 'audio/ogg',
+    'application/x-zip-compressed': ZIP_MIMETYPE
+};
+
+/**
+ * Detect the MIME type of media from its leading bytes
+ * Returns undefined when the format is not recognised
+ * @param head Leading bytes of the media, ideally MIME_SNIFF_LENGTH of them
+ */
+export function detectMimetype(head: Buffer): string | undefined {
+    if (startsWith(head, [0xFF, 0xD8, 0xFF])) return 'image/jpeg';
+    if (startsWith(head, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) return 'image/png';
+    if (startsWithText(head, 'GIF87a') || startsWithText(head, 'GIF89a')) return 'image/gif';
+    if (startsWith(head, [0x49, 0x49, 0x2A, 0x00]) || startsWith(head, [0x4D, 0x4D, 0x00, 0x2A])) return 'image/tiff';
+    
+    if (startsWithText(head, 'RIFF') && head.length >= 12) {
+        const format = head.toString('latin1', 8, 12);
+        if (format === 'WEBP') return 'image/webp';
+        if (format === 'WAVE') return 'audio/wav';
+        if (format === 'AVI ') return 'video/x-msvideo';
+        return undefined;
+    }
+    
+    // ISO base media files (MP4, MOV, M4A, HEIC) start with an ftyp box naming the brand
+    if (head.length >= 12 && head.toString('latin1', 4, 8) === 'ftyp') {
+        return getIsoMediaMimetype(head.toString('latin1', 8, 12));
+    }
+    
+    if (startsWith(head, [0x1A, 0x45, 0xDF, 0xA3])) {
+        return includesText(head, 'webm') ? 'video/webm' : 'video/x-matroska';
+    }
+    
+    if (startsWithText(head, 'OggS')) {
+        if (includesText(head, 'OpusHead')) return 'audio/ogg; codecs=opus';
+        if (includesText(head, '\x80theora')) return 'video/ogg';
+        return 'audio/ogg';
+    }
+    
+    if (startsWithText(head, 'ID3')) return 'audio/mpeg';
+    if (startsWithText(head, 'fLaC')) return 'audio/flac';
+    if (startsWithText(head, '#!AMR')) return 'audio/amr';
+    
+    // MPEG audio frame sync: layer III is MP3, layer bits of zero mark AAC in ADTS
+    if (head.length >= 2 && head[0] === 0xFF && (head[1] & 0xE0) === 0xE0) {
+        const layer = (head[1] >> 1) & 0x03;
+        if (layer === 0x01) return 'audio/mpeg';
+        if (layer === 0x00) return 'audio/aac';
+    }
+    
+    if (startsWithText(head, '%PDF-')) return 'application/pdf';
+    if (startsWith(head, [0x50, 0x4B, 0x03, 0x04])) return getZipMimetype(head);
+    if (startsWith(head, [0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1])) return CFB_MIMETYPE;
+    if (startsWithText(head, 'Rar!\x1A\x07')) return 'application/vnd.rar';
+    if (startsWith(head, [0x37, 0x7A, 0xBC, 0xAF, 0x27, 0x1C])) return 'application/x-7z-compressed';
+    if (startsWith(head, [0x1F, 0x8B])) return 'application/gzip';
+    
+    return undefined;
+}
+
+/**
+ * Get MIME type from filename
+ * @param filename Filename
+ */
+export function getMimetypeFromFilename(filename: string): string | undefined {
+    return MIMETYPES_BY_EXTENSION[path.extname(filename).toLowerCase()];
+}
+
+/**
+ * Get the usual file extension for a MIME type, including the dot
+ * @param mimetype MIME type
+ */
+export function getExtensionForMimetype(mimetype: string): string {
+    const normalized = normalizeMimetype(mimetype);
+    
+    for (const [extension, type] of Object.entries(MIMETYPES_BY_EXTENSION)) {
+        if (normalizeMimetype(type) === normalized) {
+            return extension;
+        }
+    }
+    
+    return '.bin';
+}
+
+/**
+ * Resolve the MIME type of media from its detected type and its filename
+ * The filename narrows down generic containers, e.g. a ZIP file named report.docx
+ * @param detected Type detected from the content
+ * @param filename Filename, if known
+ */
+export function refineMimetype(detected: string | undefined, filename?: string): string | undefined {
+    const fromFilename = filename ? getMimetypeFromFilename(filename) : undefined;
+    if (!detected) {
+        return fromFilename;
+    }
+    
+    if (fromFilename && CONTAINER_FORMATS[detected]?.includes(fromFilename)) {
+        return fromFilename;
+    }
+    
+    return detected;
+}
+
+/**
+ * Check whether a declared MIME type agrees with the type detected from the content
+ * @param declared Type supplied by the caller
+ * @param detected Type detected from the content
+ */
+export function mimetypesMatch(declared: string, detected: string): boolean {
+    const a = normalizeMimetype(declared);
+    const b = normalizeMimetype(detected);
+    
+    return a === b || !!CONTAINER_FORMATS[b]?.some(format => normalizeMimetype(format) === a);
+}
+
+/**
+ * Reduce a MIME type to its lowercase base type, without parameters or aliases
+ * @param mimetype MIME type
+ */
+function normalizeMimetype(mimetype: string): string {
+    const base = mimetype.split(';')[0].trim().toLowerCase();
+    return MIMETYPE_ALIASES[base] || base;
+}
+
+/**
+ * Get the MIME type for an ISO base media file from its major brand
+ * @param brand Major brand from the ftyp box
+ */
+function getIsoMediaMimetype(brand: string): string {
+    if (brand === 'qt  ') return 'video/quicktime';
+    if (brand === 'M4A ' || brand === 'M4B ') return 'audio/mp4';
+    if (brand === 'avif') return 'image/avif';
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+    if (brand.startsWith('3g')) return 'video/3gpp';
+    return 'video/mp4';
+}
+
+/**
+ * Get the MIME type for a ZIP file from the entries named near its start
+ * @param head Leading bytes of the file
+ */
+function getZipMimetype(head: Buffer): string {
+    // OpenDocument and EPUB store their type uncompressed as the first entry
+    const mimetypeEntry = head.toString('latin1', 30, 38) === 'mimetype' ? head.toString('latin1', 38, 120) : '';
+    if (mimetypeEntry.startsWith('application/vnd.oasis.opendocument.text')) return 'application/vnd.oasis.opendocument.text';
+    if (mimetypeEntry.startsWith('application/vnd.oasis.opendocument.spreadsheet')) return 'application/vnd.oasis.opendocument.spreadsheet';
+    if (mimetypeEntry.startsWith('application/vnd.oasis.opendocument.presentation')) return 'application/vnd.oasis.opendocument.presentation';
+    if (mimetypeEntry.startsWith('application/epub+zip')) return 'application/epub+zip';
+    
+    if (includesText(head, '[Content_Types].xml') || includesText(head, '_rels/.rels')) {
+        if (includesText(head, 'word/')) return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+        if (includesText(head, 'xl/')) return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+        if (includesText(head, 'ppt/')) return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+    }
+    
+    if (includesText(head, 'AndroidManifest.xml')) return 'application/vnd.android.package-archive';
+    
+    return ZIP_MIMETYPE;
+}
+
+/**
+ * Check whether the content starts with the given bytes
+ * @param head Leading bytes of the content
+ * @param bytes Expected bytes
+ */
+function startsWith(head: Buffer, bytes: number[]): boolean {
+    return head.length >= bytes.length && bytes.every((byte, i) => head[i] === byte);
+}
+
+/**
+ * Check whether the content starts with the given ASCII text
+ * @param head Leading bytes of the content
+ * @param text Expected text
+ */
+function startsWithText(head: Buffer, text: string): boolean {
+    return head.toString('latin1', 0, text.length) === text;
+}
+
+/**
+ * Check whether the ASCII text appears anywhere in the leading bytes
+ * @param head Leading bytes of the content
+ * @param text Text to look for
+ */
+function includesText(head: Buffer, text: string): boolean {
+    return head.includes(Buffer.from(text, 'latin1'));
+}
@@ -0,0 +1,311 @@
+/**
+ * Noise_XX_25519_AESGCM_SHA256 transport used underneath WAConnection
+ */
+
+import EventEmitter from 'events';
+import {
+    generateCurveKeyPair,
+    sharedCurveKey,
+    hkdf,
+    sha256,
+    aesEncryptGCM,
+    aesDecryptGCM
+} from './Crypto';
+import { encodeProto, decodeProto, getProtoBytes } from './Protobuf';
+import { NOISE_MODE, NOISE_WA_HEADER, HANDSHAKE_TIMEOUT } from './Constants';
+import { createLogger } from './Utils';
+import { ProtocolError, TimeoutError } from './Errors';
+
+// Frames are prefixed with a 3-byte big-endian length
+const FRAME_HEADER_LENGTH = 3;
+const MAX_FRAME_LENGTH = (1 << 24) - 1;
+
+// HandshakeMessage field numbers
+const HANDSHAKE_CLIENT_HELLO = 2;
+const HANDSHAKE_SERVER_HELLO = 3;
+const HANDSHAKE_CLIENT_FINISH = 4;
+const HELLO_EPHEMERAL = 1;
+const HELLO_STATIC = 2;
+const HELLO_PAYLOAD = 3;
+const FINISH_STATIC = 1;
+const FINISH_PAYLOAD = 2;
+
+/**
+ * Anything the transport can write raw bytes to, e.g. a WebSocket
+ */
+export interface FrameSink {
+    send(data: Buffer): void | Promise<void>;
+}
+
+export class NoiseTransport extends EventEmitter {
+    private sink: FrameSink;
+    private staticKeyPair: { public: Buffer, private: Buffer };
+    private hash: Buffer;
+    private salt: Buffer;
+    private encKey: Buffer;
+    private decKey: Buffer;
+    private readCounter = 0;
+    private writeCounter = 0;
+    private isFinished = false;
+    private sentIntro = false;
+    private inBuffer: Buffer = Buffer.alloc(0);
+    private handshakeFrames: Buffer[] = [];
+    private handshakeWaiter?: { resolve: (frame: Buffer) => void, reject: (err: Error) => void };
+    private logger: ReturnType<typeof createLogger>;
+    
+    constructor(sink: FrameSink, options: { staticKeyPair: { public: Buffer, private: Buffer }, logLevel?: string }) {
+        super();
+        this.sink = sink;
+        this.staticKeyPair = options.staticKeyPair;
+        this.logger = createLogger('NoiseTransport', options.logLevel);
+        
+        // The protocol name is exactly 32 bytes, so it is used as the initial hash directly
+        const mode = Buffer.from(NOISE_MODE);
+        this.hash = mode.length === 32 ? mode : sha256(mode);
+        this.salt = this.hash;
+        this.encKey = this.hash;
+        this.decKey = this.hash;
+        
+        this.mixHash(NOISE_WA_HEADER);
+    }
+    
+    /**
+     * Run the XX handshake as initiator
+     * @param payload Client payload sent encrypted in the final handshake message
+     * @param timeout Time to wait for the server hello
+     * @returns Decrypted server payload (certificate chain)
+     */
+    async handshake(payload: Buffer, timeout = HANDSHAKE_TIMEOUT): Promise<Buffer> {
+        if (this.isFinished) {
+            throw new ProtocolError('Noise handshake already completed');
+        }
+        
+        const ephemeralKeyPair = generateCurveKeyPair();
+        
+        // -> e
+        this.mixHash(ephemeralKeyPair.public);
+        await this.sendFrame(encodeProto({
+            [HANDSHAKE_CLIENT_HELLO]: encodeProto({ [HELLO_EPHEMERAL]: ephemeralKeyPair.public })
+        }));
+        
+        // <- e, ee, s, es
+        const serverHelloFrame = await this.waitForHandshakeFrame(timeout);
+        const serverHello = getProtoBytes(decodeProto(serverHelloFrame), HANDSHAKE_SERVER_HELLO);
+        if (!serverHello) {
+            throw new ProtocolError('Noise handshake failed: missing server hello');
+        }
+        
+        const hello = decodeProto(serverHello);
+        const serverEphemeral = getProtoBytes(hello, HELLO_EPHEMERAL);
+        const serverStaticEncrypted = getProtoBytes(hello, HELLO_STATIC);
+        const serverPayloadEncrypted = getProtoBytes(hello, HELLO_PAYLOAD);
+        if (!serverEphemeral || !serverStaticEncrypted || !serverPayloadEncrypted) {
+            throw new ProtocolError('Noise handshake failed: incomplete server hello');
+        }
+        
+        this.mixHash(serverEphemeral);
+        this.mixKey(sharedCurveKey(ephemeralKeyPair.private, serverEphemeral));
+        
+        const serverStatic = this.decrypt(serverStaticEncrypted);
+        this.mixKey(sharedCurveKey(ephemeralKeyPair.private, serverStatic));
+        
+        const serverPayload = this.decrypt(serverPayloadEncrypted);
+        
+        // -> s, se
+        const staticEncrypted = this.encrypt(this.staticKeyPair.public);
+        this.mixKey(sharedCurveKey(this.staticKeyPair.private, serverEphemeral));
+        const payloadEncrypted = this.encrypt(payload);
+        
+        // Switch to transport keys before sending so that frames the server
+        // sends right after the finish message are decrypted correctly
+        this.finishHandshake();
+        
+        await this.sendFrame(encodeProto({
+            [HANDSHAKE_CLIENT_FINISH]: encodeProto({
+                [FINISH_STATIC]: staticEncrypted,
+                [FINISH_PAYLOAD]: payloadEncrypted
+            })
+        }));
+        
+        this.logger.info('Noise handshake completed');
+        
+        return serverPayload;
+    }
+    
+    /**
+     * Feed raw bytes received from the socket
+     * @param data Received data
+     */
+    receive(data: Buffer): void {
+        this.inBuffer = this.inBuffer.length ? Buffer.concat([this.inBuffer, data]) : data;
+        
+        while (this.inBuffer.length >= FRAME_HEADER_LENGTH) {
+            const length = this.inBuffer.readUIntBE(0, FRAME_HEADER_LENGTH);
+            if (this.inBuffer.length < FRAME_HEADER_LENGTH + length) {
+                break;
+            }
+            
+            const frame = this.inBuffer.subarray(FRAME_HEADER_LENGTH, FRAME_HEADER_LENGTH + length);
+            this.inBuffer = this.inBuffer.subarray(FRAME_HEADER_LENGTH + length);
+            
+            this.handleFrame(frame);
+        }
+    }
+    
+    /**
+     * Encrypt and send a frame over the established transport
+     * @param data Plaintext frame
+     */
+    async send(data: Buffer): Promise<void> {
+        if (!this.isFinished) {
+            throw new ProtocolError('Noise handshake has not completed');
+        }
+        
+        await this.sendFrame(this.encrypt(data));
+    }
+    
+    /**
+     * Check if the handshake has completed
+     */
+    isReady(): boolean {
+        return this.isFinished;
+    }
+    
+    /**
+     * Abort a pending handshake, e.g. because the socket closed
+     * @param error Reason for aborting
+     */
+    abort(error: Error): void {
+        if (this.handshakeWaiter) {
+            this.handshakeWaiter.reject(error);
+            this.handshakeWaiter = undefined;
+        }
+    }
+    
+    /**
+     * Handle a complete frame
+     * @param frame Frame data without length prefix
+     */
+    private handleFrame(frame: Buffer): void {
+        if (!this.isFinished) {
+            if (this.handshakeWaiter) {
+                this.handshakeWaiter.resolve(frame);
+                this.handshakeWaiter = undefined;
+            } else {
+                this.handshakeFrames.push(frame);
+            }
+            return;
+        }
+        
+        try {
+            this.emit('frame', this.decrypt(frame));
+        } catch (error) {
+            this.logger.error('Failed to decrypt frame:', error);
+            this.emit('error', error);
+        }
+    }
+    
+    /**
+     * Wait for the next frame during the handshake
+     * @param timeout Timeout in milliseconds
+     */
+    private waitForHandshakeFrame(timeout: number): Promise<Buffer> {
+        const queued = this.handshakeFrames.shift();
+        if (queued) {
+            return Promise.resolve(queued);
+        }
+        
+        return new Promise((resolve, reject) => {
+            const timeoutId = setTimeout(() => {
+                this.handshakeWaiter = undefined;
+                reject(new TimeoutError(`Noise handshake timed out after ${timeout}ms`));
+            }, timeout);
+            
+            this.handshakeWaiter = {
+                resolve: (frame: Buffer) => {
+                    clearTimeout(timeoutId);
+                    resolve(frame);
+                },
+                reject: (err: Error) => {
+                    clearTimeout(timeoutId);
+                    reject(err);
+                }
+            };
+        });
+    }
+    
+    /**
+     * Write a length-prefixed frame, preceded by the WA header on the first write
+     * @param data Frame payload
+     */
+    private async sendFrame(data: Buffer): Promise<void> {
+        if (data.length > MAX_FRAME_LENGTH) {
+            throw new ProtocolError(`Frame too large: ${data.length} bytes`);
+        }
+        
+        const header = Buffer.alloc(FRAME_HEADER_LENGTH);
+        header.writeUIntBE(data.length, 0, FRAME_HEADER_LENGTH);
+        
+        const parts = [header, data];
+        if (!this.sentIntro) {
+            parts.unshift(NOISE_WA_HEADER);
+            this.sentIntro = true;
+        }
+        
+        await this.sink.send(Buffer.concat(parts));
+    }
+    
+    private mixHash(data: Buffer): void {
+        if (!this.isFinished) {
+            this.hash = sha256(Buffer.concat([this.hash, data]));
+        }
+    }
+    
+    private mixKey(data: Buffer): void {
+        const key = hkdf(data, 64, { salt: this.salt });
+        this.salt = key.subarray(0, 32);
+        this.encKey = key.subarray(32);
+        this.decKey = this.encKey;
+        this.readCounter = 0;
+        this.writeCounter = 0;
+    }
+    
+    private finishHandshake(): void {
+        const key = hkdf(Buffer.alloc(0), 64, { salt: this.salt });
+        this.encKey = key.subarray(0, 32);
+        this.decKey = key.subarray(32);
+        this.hash = Buffer.alloc(0);
+        this.readCounter = 0;
+        this.writeCounter = 0;
+        this.isFinished = true;
+        
+        // Anything queued past the handshake belongs to the transport
+        for (const frame of this.handshakeFrames.splice(0)) {
+            this.handleFrame(frame);
+        }
+    }
+    
+    private encrypt(plaintext: Buffer): Buffer {
+        const ciphertext = aesEncryptGCM(plaintext, this.encKey, generateIV(this.writeCounter++), this.hash);
+        this.mixHash(ciphertext);
+        return ciphertext;
+    }
+    
+    private decrypt(ciphertext: Buffer): Buffer {
+        // Handshake messages share one counter per key; transport reads use their own
+        const counter = this.isFinished ? this.readCounter++ : this.writeCounter++;
+        const plaintext = aesDecryptGCM(ciphertext, this.decKey, generateIV(counter), this.hash);
+        this.mixHash(ciphertext);
+        return plaintext;
+    }
+}
+
+/**
+ * Build the 12-byte GCM IV for a message counter
+ * @param counter Message counter
+ */
+function generateIV(counter: number): Buffer {
+    const iv = Buffer.alloc(12);
+    iv.writeUInt32BE(counter, 8);
+    return iv;
+}
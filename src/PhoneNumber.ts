@@ -0,0 +1,209 @@
+/**
+ * Phone number normalization to the international form WhatsApp addresses users by
+ * Numbers written with a leading + or 00 are read as international; other numbers are
+ * read in the default region, dropping its trunk prefix, and are only accepted without
+ * one when they already start with a known country calling code
+ * In regions without a trunk prefix a national number can itself start with the calling
+ * code (Italian mobiles start with 39x), so there the national reading wins
+ */
+
+import { Jid } from './Types';
+import { FocksupError } from './Errors';
+import { formatJid, getJidType } from './Jid';
+import { ERROR_CODES, JID_TYPES } from './Constants';
+
+interface PhoneRegion {
+    // Country calling code
+    code: string;
+    // Prefix dialled before national numbers inside the country, dropped internationally
+    trunk?: string;
+    // Shortest and longest national significant number, without the trunk prefix
+    minLength: number;
+    maxLength: number;
+}
+
+// Regions by ISO 3166 code; the lengths cover mobile and landline numbers
+const PHONE_REGIONS: { [region: string]: PhoneRegion } = {
+    AE: { code: '971', trunk: '0', minLength: 8, maxLength: 9 },
+    AR: { code: '54', trunk: '0', minLength: 10, maxLength: 11 },
+    AT: { code: '43', trunk: '0', minLength: 7, maxLength: 13 },
+    AU: { code: '61', trunk: '0', minLength: 9, maxLength: 9 },
+    BD: { code: '880', trunk: '0', minLength: 10, maxLength: 10 },
+    BE: { code: '32', trunk: '0', minLength: 8, maxLength: 9 },
+    BG: { code: '359', trunk: '0', minLength: 7, maxLength: 9 },
+    BR: { code: '55', trunk: '0', minLength: 10, maxLength: 11 },
+    CA: { code: '1', trunk: '1', minLength: 10, maxLength: 10 },
+    CH: { code: '41', trunk: '0', minLength: 9, maxLength: 9 },
+    CN: { code: '86', trunk: '0', minLength: 10, maxLength: 11 },
+    DE: { code: '49', trunk: '0', minLength: 6, maxLength: 13 },
+    EG: { code: '20', trunk: '0', minLength: 9, maxLength: 10 },
+    ES: { code: '34', minLength: 9, maxLength: 9 },
+    FR: { code: '33', trunk: '0', minLength: 9, maxLength: 9 },
+    GB: { code: '44', trunk: '0', minLength: 9, maxLength: 10 },
+    GR: { code: '30', minLength: 10, maxLength: 10 },
+    HU: { code: '36', trunk: '06', minLength: 8, maxLength: 9 },
+    ID: { code: '62', trunk: '0', minLength: 8, maxLength: 12 },
+    IE: { code: '353', trunk: '0', minLength: 7, maxLength: 9 },
+    IN: { code: '91', trunk: '0', minLength: 10, maxLength: 10 },
+    // Italian landline numbers keep their leading 0 internationally
+    IT: { code: '39', minLength: 6, maxLength: 11 },
+    JP: { code: '81', trunk: '0', minLength: 9, maxLength: 10 },
+    KE: { code: '254', trunk: '0', minLength: 9, maxLength: 9 },
+    KR: { code: '82', trunk: '0', minLength: 8, maxLength: 10 },
+    MA: { code: '212', trunk: '0', minLength: 9, maxLength: 9 },
+    MD: { code: '373', trunk: '0', minLength: 8, maxLength: 8 },
+    MX: { code: '52', minLength: 10, maxLength: 10 },
+    MY: { code: '60', trunk: '0', minLength: 9, maxLength: 10 },
+    NG: { code: '234', trunk: '0', minLength: 8, maxLength: 10 },
+    NL: { code: '31', trunk: '0', minLength: 9, maxLength: 9 },
+    NZ: { code: '64', trunk: '0', minLength: 8, maxLength: 10 },
+    PH: { code: '63', trunk: '0', minLength: 8, maxLength: 10 },
+    PK: { code: '92', trunk: '0', minLength: 9, maxLength: 10 },
+    PL: { code: '48', minLength: 9, maxLength: 9 },
+    PT: { code: '351', minLength: 9, maxLength: 9 },
+    RO: { code: '40', trunk: '0', minLength: 9, maxLength: 9 },
+    RU: { code: '7', trunk: '8', minLength: 10, maxLength: 10 },
+    SA: { code: '966', trunk: '0', minLength: 9, maxLength: 9 },
+    SG: { code: '65', minLength: 8, maxLength: 8 },
+    TH: { code: '66', trunk: '0', minLength: 8, maxLength: 9 },
+    TR: { code: '90', trunk: '0', minLength: 10, maxLength: 10 },
+    UA: { code: '380', trunk: '0', minLength: 9, maxLength: 9 },
+    US: { code: '1', trunk: '1', minLength: 10, maxLength: 10 },
+    VN: { code: '84', trunk: '0', minLength: 9, maxLength: 10 },
+    ZA: { code: '27', trunk: '0', minLength: 9, maxLength: 9 }
+};
+
+// Length bounds of a full international number (E.164), used for calling codes missing from the table
+const MIN_INTERNATIONAL_LENGTH = 7;
+const MAX_INTERNATIONAL_LENGTH = 15;
+
+/**
+ * Get the country calling code of a region
+ * @param region ISO 3166 region code, such as 'RO' or 'GB'
+ */
+export function getCallingCode(region: string): string | undefined {
+    return PHONE_REGIONS[region.toUpperCase()]?.code;
+}
+
+/**
+ * Normalize a phone number to its international digits, without the leading +
+ * @param phoneNumber Phone number in international or national format
+ * @param defaultRegion ISO 3166 region that numbers without a calling code belong to
+ */
+export function normalizePhoneNumber(phoneNumber: string, defaultRegion?: string): string {
+    const region = defaultRegion ? getRegion(defaultRegion) : undefined;
+    const trimmed = phoneNumber.trim();
+    
+    // Spaces, dashes, dots, slashes and brackets are only formatting
+    if (!/^\+?[\d\s\-./()]+$/.test(trimmed)) {
+        throw invalidNumber(phoneNumber, 'only digits and formatting characters are allowed');
+    }
+    
+    const digits = trimmed.replace(/\D/g, '');
+    
+    if (trimmed.startsWith('+')) {
+        return validateInternational(phoneNumber, digits);
+    }
+    if (digits.startsWith('00')) {
+        return validateInternational(phoneNumber, digits.substring(2));
+    }
+    
+    if (region) {
+        if (region.trunk && digits.startsWith(region.trunk) && isNationalLength(region, digits.length - region.trunk.length)) {
+            return region.code + digits.substring(region.trunk.length);
+        }
+        const national = isNationalLength(region, digits.length);
+        
+        // Already international within the region, e.g. 40712345678 for Romania
+        const international = digits.startsWith(region.code) && isNationalLength(region, digits.length - region.code.length);
+        if (international && (region.trunk || !national)) {
+            return digits;
+        }
+        if (national) {
+            return region.code + digits;
+        }
+    } else if (digits.startsWith('0')) {
+        throw invalidNumber(phoneNumber, 'national numbers need a default region or a leading + with the country code');
+    }
+    
+    return validateInternational(phoneNumber, digits);
+}
+
+/**
+ * Convert a phone number or user JID to the JID messages are sent to
+ * @param phoneNumber Phone number, or a user JID that is passed through
+ * @param defaultRegion ISO 3166 region that numbers without a calling code belong to
+ */
+export function phoneNumberToJid(phoneNumber: string | Jid, defaultRegion?: string): string {
+    if (typeof phoneNumber === 'string' && !phoneNumber.includes('@')) {
+        return normalizePhoneNumber(phoneNumber, defaultRegion) + JID_TYPES.USER;
+    }
+    
+    const type = getJidType(phoneNumber);
+    if (type !== 'user' && type !== 'lid') {
+        throw new FocksupError(`Not a user JID: ${formatJid(phoneNumber)}`, { code: ERROR_CODES.INVALID_JID });
+    }
+    
+    return formatJid(phoneNumber);
+}
+
+/**
+ * Look up a region, failing for regions without numbering rules
+ * @param region ISO 3166 region code
+ */
+function getRegion(region: string): PhoneRegion {
+    const rules = PHONE_REGIONS[region.toUpperCase()];
+    if (!rules) {
+        throw new FocksupError(`Unsupported phone number region ${region}; supported regions are ${Object.keys(PHONE_REGIONS).join(', ')}`, {
+            code: ERROR_CODES.UNSUPPORTED_REGION
+        });
+    }
+    return rules;
+}
+
+/**
+ * Check a number is a known calling code followed by a national number of valid length
+ * Calling codes form a prefix code, so at most one of the 1 to 3 digit prefixes matches
+ * @param phoneNumber Number as given, for the error message
+ * @param digits International digits
+ */
+function validateInternational(phoneNumber: string, digits: string): string {
+    for (let length = 1; length <= 3; length++) {
+        const code = digits.substring(0, length);
+        const regions = Object.values(PHONE_REGIONS).filter(region => region.code === code);
+        
+        if (regions.length > 0) {
+            if (!regions.some(region => isNationalLength(region, digits.length - length))) {
+                throw invalidNumber(phoneNumber, `wrong length for country code +${code}`);
+            }
+            return digits;
+        }
+    }
+    
+    if (digits.length < MIN_INTERNATIONAL_LENGTH || digits.length > MAX_INTERNATIONAL_LENGTH) {
+        throw invalidNumber(phoneNumber, `international numbers have ${MIN_INTERNATIONAL_LENGTH} to ${MAX_INTERNATIONAL_LENGTH} digits`);
+    }
+    if (digits.startsWith('0')) {
+        throw invalidNumber(phoneNumber, 'country codes do not start with 0');
+    }
+    
+    return digits;
+}
+
+/**
+ * Check whether a national significant number has a valid length in a region
+ * @param region Region rules
+ * @param length Number of digits
+ */
+function isNationalLength(region: PhoneRegion, length: number): boolean {
+    return length >= region.minLength && length <= region.maxLength;
+}
+
+/**
+ * Create the error for a phone number that cannot be turned into a JID
+ * @param phoneNumber Number as given
+ * @param reason Why it was rejected
+ */
+function invalidNumber(phoneNumber: string, reason: string): FocksupError {
+    return new FocksupError(`Invalid phone number ${phoneNumber}: ${reason}`, { code: ERROR_CODES.INVALID_JID });
+}
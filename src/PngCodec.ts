@@ -0,0 +1,274 @@
+/**
+ * PNG decoding in plain TypeScript, using only zlib from the Node.js standard library
+ */
+
+import zlib from 'zlib';
+import { RawImage } from './Types';
+import { ERROR_CODES } from './Constants';
+import { MediaError } from './Errors';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+// Adam7 passes: x start, y start, x step, y step
+const ADAM7_PASSES = [
+    [0, 0, 8, 8],
+    [4, 0, 8, 8],
+    [0, 4, 4, 8],
+    [2, 0, 4, 4],
+    [0, 2, 2, 4],
+    [1, 0, 2, 2],
+    [0, 1, 1, 2]
+];
+
+// Samples per pixel for each color type
+const CHANNELS: { [colorType: number]: number } = {
+    0: 1, // grayscale
+    2: 3, // RGB
+    3: 1, // palette index
+    4: 2, // grayscale and alpha
+    6: 4 // RGBA
+};
+
+interface PngHeader {
+    width: number;
+    height: number;
+    bitDepth: number;
+    colorType: number;
+    interlaced: boolean;
+}
+
+/**
+ * Decode a PNG image to RGBA pixels
+ * Supports every color type and bit depth, transparency chunks and Adam7 interlacing
+ * @param data PNG file contents
+ */
+export function decodePng(data: Buffer): RawImage {
+    if (!data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+        throw new MediaError('Not a PNG image', { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    let header: PngHeader | undefined;
+    let palette: Buffer | undefined;
+    let transparency: Buffer | undefined;
+    const compressed: Buffer[] = [];
+    let offset = 8;
+    
+    while (offset + 8 <= data.length) {
+        const length = data.readUInt32BE(offset);
+        const type = data.toString('latin1', offset + 4, offset + 8);
+        const chunk = data.subarray(offset + 8, offset + 8 + length);
+        offset += 12 + length;
+        
+        if (type === 'IHDR') {
+            header = {
+                width: chunk.readUInt32BE(0),
+                height: chunk.readUInt32BE(4),
+                bitDepth: chunk[8],
+                colorType: chunk[9],
+                interlaced: chunk[12] === 1
+            };
+        } else if (type === 'PLTE') {
+            palette = chunk;
+        } else if (type === 'tRNS') {
+            transparency = chunk;
+        } else if (type === 'IDAT') {
+            compressed.push(chunk);
+        } else if (type === 'IEND') {
+            break;
+        }
+    }
+    
+    if (!header || !header.width || !header.height) {
+        throw new MediaError('PNG has no header', { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    const channels = CHANNELS[header.colorType];
+    if (!channels || ![1, 2, 4, 8, 16].includes(header.bitDepth)) {
+        throw new MediaError(`Unsupported PNG format: color type ${header.colorType}, bit depth ${header.bitDepth}`, { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    if (header.colorType === 3 && !palette) {
+        throw new MediaError('PNG palette is missing', { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    const raw = zlib.inflateSync(Buffer.concat(compressed));
+    const output = Buffer.alloc(header.width * header.height * 4);
+    const passes = header.interlaced ? ADAM7_PASSES : [[0, 0, 1, 1]];
+    let position = 0;
+    
+    for (const [startX, startY, stepX, stepY] of passes) {
+        const passWidth = Math.ceil((header.width - startX) / stepX);
+        const passHeight = Math.ceil((header.height - startY) / stepY);
+        if (passWidth <= 0 || passHeight <= 0) {
+            continue;
+        }
+        
+        const bitsPerPixel = channels * header.bitDepth;
+        const bytesPerPixel = Math.max(bitsPerPixel >> 3, 1);
+        const stride = Math.ceil(passWidth * bitsPerPixel / 8);
+        let previous = Buffer.alloc(stride);
+        
+        for (let y = 0; y < passHeight; y++) {
+            if (position + 1 + stride > raw.length) {
+                throw new MediaError('PNG data is truncated', { code: ERROR_CODES.INVALID_MEDIA });
+            }
+            
+            const filter = raw[position];
+            const line = Buffer.from(raw.subarray(position + 1, position + 1 + stride));
+            position += 1 + stride;
+            
+            unfilterLine(filter, line, previous, bytesPerPixel);
+            previous = line;
+            
+            for (let x = 0; x < passWidth; x++) {
+                const target = ((startY + y * stepY) * header.width + startX + x * stepX) * 4;
+                writePixel(output, target, line, x, header, channels, palette, transparency);
+            }
+        }
+    }
+    
+    return { width: header.width, height: header.height, data: output };
+}
+
+/**
+ * Reverse the filter applied to one scanline, in place
+ * @param filter Filter type
+ * @param line Filtered scanline
+ * @param previous Previous unfiltered scanline of the same pass
+ * @param bytesPerPixel Distance to the corresponding byte of the previous pixel
+ */
+function unfilterLine(filter: number, line: Buffer, previous: Buffer, bytesPerPixel: number): void {
+    for (let i = 0; i < line.length; i++) {
+        const left = i >= bytesPerPixel ? line[i - bytesPerPixel] : 0;
+        const up = previous[i];
+        const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+        
+        switch (filter) {
+            case 0:
+                break;
+            case 1:
+                line[i] = line[i] + left;
+                break;
+            case 2:
+                line[i] = line[i] + up;
+                break;
+            case 3:
+                line[i] = line[i] + ((left + up) >> 1);
+                break;
+            case 4:
+                line[i] = line[i] + paeth(left, up, upLeft);
+                break;
+            default:
+                throw new MediaError(`Invalid PNG filter type: ${filter}`, { code: ERROR_CODES.INVALID_MEDIA });
+        }
+    }
+}
+
+/**
+ * Paeth predictor: whichever neighbour is closest to left + up - upLeft
+ */
+function paeth(left: number, up: number, upLeft: number): number {
+    const estimate = left + up - upLeft;
+    const distanceLeft = Math.abs(estimate - left);
+    const distanceUp = Math.abs(estimate - up);
+    const distanceUpLeft = Math.abs(estimate - upLeft);
+    
+    if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+    if (distanceUp <= distanceUpLeft) return up;
+    return upLeft;
+}
+
+/**
+ * Convert one pixel of an unfiltered scanline to RGBA
+ */
+function writePixel(
+    output: Buffer,
+    target: number,
+    line: Buffer,
+    x: number,
+    header: PngHeader,
+    channels: number,
+    palette?: Buffer,
+    transparency?: Buffer
+): void {
+    const { bitDepth, colorType } = header;
+    const sample = (channel: number): number => readSample(line, x * channels + channel, bitDepth);
+    // Scales a sample to 8 bits
+    const scale = (value: number): number => bitDepth === 16 ? value >> 8 : Math.round(value * 255 / ((1 << bitDepth) - 1));
+    
+    let r: number;
+    let g: number;
+    let b: number;
+    let a = 255;
+    
+    switch (colorType) {
+        case 0: {
+            const gray = sample(0);
+            r = g = b = scale(gray);
+            if (transparency && transparency.length >= 2 && gray === transparency.readUInt16BE(0)) {
+                a = 0;
+            }
+            break;
+        }
+        case 2: {
+            const red = sample(0);
+            const green = sample(1);
+            const blue = sample(2);
+            r = scale(red);
+            g = scale(green);
+            b = scale(blue);
+            if (transparency && transparency.length >= 6 &&
+                red === transparency.readUInt16BE(0) &&
+                green === transparency.readUInt16BE(2) &&
+                blue === transparency.readUInt16BE(4)) {
+                a = 0;
+            }
+            break;
+        }
+        case 3: {
+            const index = sample(0);
+            r = palette![index * 3] || 0;
+            g = palette![index * 3 + 1] || 0;
+            b = palette![index * 3 + 2] || 0;
+            if (transparency && index < transparency.length) {
+                a = transparency[index];
+            }
+            break;
+        }
+        case 4:
+            r = g = b = scale(sample(0));
+            a = scale(sample(1));
+            break;
+        default:
+            r = scale(sample(0));
+            g = scale(sample(1));
+            b = scale(sample(2));
+            a = scale(sample(3));
+            break;
+    }
+    
+    output[target] = r;
+    output[target + 1] = g;
+    output[target + 2] = b;
+    output[target + 3] = a;
+}
+
+/**
+ * Read the sample at an index from a scanline of packed samples
+ * @param line Unfiltered scanline
+ * @param index Sample index within the line
+ * @param bitDepth Bits per sample
+ */
+function readSample(line: Buffer, index: number, bitDepth: number): number {
+    if (bitDepth === 8) {
+        return line[index];
+    }
+    
+    if (bitDepth === 16) {
+        return line.readUInt16BE(index * 2);
+    }
+    
+    const bit = index * bitDepth;
+    const shift = 8 - bitDepth - (bit & 7);
+    return (line[bit >> 3] >> shift) & ((1 << bitDepth) - 1);
+}
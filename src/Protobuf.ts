@@ -0,0 +1,155 @@
+/**
+ * Minimal protobuf wire format helpers
+ * Only varint and length-delimited fields are needed by the handshake and Signal messages
+ */
+
+import { ProtocolError } from './Errors';
+
+export type ProtoValue = number | string | Buffer;
+
+export type ProtoFields = { [fieldNumber: number]: ProtoValue | ProtoValue[] | undefined };
+
+export type DecodedProto = { [fieldNumber: number]: Array<number | Buffer> };
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+/**
+ * Encode fields into a protobuf message
+ * @param fields Field values keyed by field number
+ */
+export function encodeProto(fields: ProtoFields): Buffer {
+    const parts: Buffer[] = [];
+    
+    const fieldNumbers = Object.keys(fields).map(Number).sort((a, b) => a - b);
+    for (const fieldNumber of fieldNumbers) {
+        const raw = fields[fieldNumber];
+        if (typeof raw === 'undefined') continue;
+        
+        const values = Array.isArray(raw) ? raw : [raw];
+        for (const value of values) {
+            if (typeof value === 'number') {
+                parts.push(encodeVarint(fieldNumber << 3 | WIRE_VARINT), encodeVarint(value));
+            } else {
+                const bytes = typeof value === 'string' ? Buffer.from(value, 'utf-8') : value;
+                parts.push(
+                    encodeVarint(fieldNumber << 3 | WIRE_LENGTH_DELIMITED),
+                    encodeVarint(bytes.length),
+                    bytes
+                );
+            }
+        }
+    }
+    
+    return Buffer.concat(parts);
+}
+
+/**
+ * Decode a protobuf message into its raw fields
+ * Varints are returned as numbers, everything else as buffers
+ * @param buffer Encoded message
+ */
+export function decodeProto(buffer: Buffer): DecodedProto {
+    const result: DecodedProto = {};
+    let offset = 0;
+    
+    while (offset < buffer.length) {
+        const key = readVarint(buffer, offset);
+        offset = key.offset;
+        
+        const fieldNumber = Math.floor(key.value / 8);
+        const wireType = key.value & 7;
+        let value: number | Buffer;
+        
+        switch (wireType) {
+            case WIRE_VARINT: {
+                const varint = readVarint(buffer, offset);
+                value = varint.value;
+                offset = varint.offset;
+                break;
+            }
+            case WIRE_LENGTH_DELIMITED: {
+                const length = readVarint(buffer, offset);
+                offset = length.offset;
+                if (offset + length.value > buffer.length) {
+                    throw new ProtocolError('Truncated protobuf field');
+                }
+                value = buffer.subarray(offset, offset + length.value);
+                offset += length.value;
+                break;
+            }
+            case WIRE_FIXED64:
+            case WIRE_FIXED32: {
+                const size = wireType === WIRE_FIXED64 ? 8 : 4;
+                if (offset + size > buffer.length) {
+                    throw new ProtocolError('Truncated protobuf field');
+                }
+                value = buffer.subarray(offset, offset + size);
+                offset += size;
+                break;
+            }
+            default:
+                throw new ProtocolError(`Unsupported protobuf wire type: ${wireType}`);
+        }
+        
+        (result[fieldNumber] = result[fieldNumber] || []).push(value);
+    }
+    
+    return result;
+}
+
+/**
+ * Get the first bytes value of a decoded field
+ * @param decoded Decoded message
+ * @param fieldNumber Field number
+ */
+export function getProtoBytes(decoded: DecodedProto, fieldNumber: number): Buffer | undefined {
+    const value = decoded[fieldNumber]?.[0];
+    return Buffer.isBuffer(value) ? value : undefined;
+}
+
+/**
+ * Get the first varint value of a decoded field
+ * @param decoded Decoded message
+ * @param fieldNumber Field number
+ */
+export function getProtoNumber(decoded: DecodedProto, fieldNumber: number): number | undefined {
+    const value = decoded[fieldNumber]?.[0];
+    return typeof value === 'number' ? value : undefined;
+}
+
+function encodeVarint(value: number): Buffer {
+    if (value < 0 || !Number.isSafeInteger(value)) {
+        throw new ProtocolError(`Cannot encode varint: ${value}`);
+    }
+    
+    const bytes: number[] = [];
+    while (value > 0x7f) {
+        bytes.push((value % 128) | 0x80);
+        value = Math.floor(value / 128);
+    }
+    bytes.push(value);
+    
+    return Buffer.from(bytes);
+}
+
+function readVarint(buffer: Buffer, offset: number): { value: number, offset: number } {
+    let value = 0;
+    let multiplier = 1;
+    
+    while (true) {
+        if (offset >= buffer.length) {
+            throw new ProtocolError('Truncated protobuf varint');
+        }
+        
+        const byte = buffer[offset++];
+        value += (byte & 0x7f) * multiplier;
+        if (!(byte & 0x80)) break;
+        
+        multiplier *= 128;
+    }
+    
+    return { value, offset };
+}
@@ -5,6 +5,8 @@
 
 import { AuthenticationCredentials } from './Types';
 import { createLogger } from './Utils';
+import { AuthError, toFocksupError } from './Errors';
+import { ERROR_CODES } from './Constants';
 import puppeteer, { Browser, Page } from 'puppeteer';
 
 export class PuppeteerAuth {
@@ -75,7 +77,7 @@ export class PuppeteerAuth {
         } catch (error) {
             this.logger.error('Eroare la inițializarea browserului Puppeteer:', error);
             await this.cleanup();
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
         }
     }
     
@@ -84,7 +86,7 @@ export class PuppeteerAuth {
      */
     async getQRCode(): Promise<{ qrData: string, credentials: AuthenticationCredentials }> {
         if (!this.page) {
-            throw new Error('Pagina Puppeteer nu este inițializată');
+            throw new AuthError('Pagina Puppeteer nu este inițializată');
         }
         
         try {
@@ -109,7 +111,7 @@ export class PuppeteerAuth {
             });
             
             if (!qrCodeData) {
-                throw new Error('Nu am putut obține datele codului QR');
+                throw new AuthError('Nu am putut obține datele codului QR');
             }
             
             this.logger.info('Cod QR obținut cu succes');
@@ -123,7 +125,7 @@ export class PuppeteerAuth {
             return { qrData: qrCodeData, credentials: partialCredentials };
         } catch (error) {
             this.logger.error('Eroare la obținerea codului QR:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
         }
     }
     
@@ -132,7 +134,7 @@ export class PuppeteerAuth {
      */
     async waitForAuthentication(timeout = 120000): Promise<AuthenticationCredentials> {
         if (!this.page) {
-            throw new Error('Pagina Puppeteer nu este inițializată');
+            throw new AuthError('Pagina Puppeteer nu este inițializată');
         }
         
         try {
@@ -181,7 +183,7 @@ export class PuppeteerAuth {
             return credentials;
         } catch (error) {
             this.logger.error('Eroare la așteptarea autentificării:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
         } finally {
             // Curățăm resources indiferent de rezultat
             await this.cleanup();
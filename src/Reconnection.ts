@@ -0,0 +1,72 @@
+/**
+ * Reconnection policy shared by every connection: close reasons are classified to decide
+ * whether reconnecting can help, and attempts back off exponentially with jitter
+ * A logout or a session taken over elsewhere is final, since reconnecting would fail or
+ * take the session back; a server restart or a lost network always gets retried
+ */
+
+import { ClientOptions, DisconnectReason } from './Types';
+import {
+    DISCONNECT_CODES,
+    WS_CLOSE_GOING_AWAY,
+    WS_CLOSE_SERVICE_RESTART,
+    WS_CLOSE_TRY_AGAIN_LATER
+} from './Constants';
+
+/**
+ * Classify why a connection closed
+ * @param code WebSocket close code, or the stream error code the server closed with
+ * @param reason Close reason text
+ */
+export function classifyDisconnect(code: number, reason: string = ''): DisconnectReason {
+    switch (code) {
+        case DISCONNECT_CODES.LOGGED_OUT:
+        case DISCONNECT_CODES.FORBIDDEN:
+            return 'logged_out';
+        case DISCONNECT_CODES.CONNECTION_REPLACED:
+            return 'replaced';
+        case DISCONNECT_CODES.SERVICE_UNAVAILABLE:
+        case DISCONNECT_CODES.RESTART_REQUIRED:
+        case WS_CLOSE_GOING_AWAY:
+        case WS_CLOSE_SERVICE_RESTART:
+        case WS_CLOSE_TRY_AGAIN_LATER:
+            return 'server_restart';
+    }
+    
+    // Some servers only say why in the reason text
+    if (/logged.?out|device.?removed/i.test(reason)) {
+        return 'logged_out';
+    }
+    if (/conflict|replaced/i.test(reason)) {
+        return 'replaced';
+    }
+    
+    // Anything else, such as an abnormal closure (1006), is treated as a network problem
+    return 'network_lost';
+}
+
+/**
+ * Check whether reconnecting can restore a connection closed for a reason
+ * @param reason Kind of close
+ */
+export function shouldReconnect(reason: DisconnectReason): boolean {
+    return reason === 'server_restart' || reason === 'network_lost';
+}
+
+/**
+ * Get how long to wait before a reconnection attempt
+ * The delay doubles with each attempt up to the maximum, then up to the jitter share of it
+ * is taken off at random
+ * @param attempt Attempt number, starting at 1
+ * @param options Reconnection options
+ * @param random Source of random numbers between 0 and 1
+ */
+export function getReconnectDelay(
+    attempt: number,
+    options: Pick<ClientOptions, 'reconnectInterval' | 'maxReconnectDelay' | 'reconnectJitter'>,
+    random: () => number = Math.random
+): number {
+    const backoff = Math.min(options.reconnectInterval * 2 ** Math.max(attempt - 1, 0), options.maxReconnectDelay);
+    const jitter = Math.min(Math.max(options.reconnectJitter, 0), 1);
+    return Math.round(backoff * (1 - jitter * random()));
+}
@@ -0,0 +1,354 @@
+/**
+ * Outgoing message queue: messages sent while offline wait in a store and are sent
+ * in order once the connection is back
+ * Messages are only removed from the store once the server accepted them, so a message
+ * interrupted by a crash is sent again; the server drops duplicates by message ID
+ */
+
+import fs from 'fs';
+import path from 'path';
+import EventEmitter from 'events';
+import { QueuedMessage, SendQueueStore, SendStatus, SendStatusUpdate } from './Types';
+import { SEND_QUEUE_HISTORY_SIZE, SEND_QUEUE_RETRY_DELAY, SEND_QUEUE_MAX_RETRY_DELAY } from './Constants';
+import { BufferJSON } from './AuthState';
+import { FocksupError, RateLimitError } from './Errors';
+import { createLogger, writeFileAtomic } from './Utils';
+
+/**
+ * Keeps queued messages in memory; they are lost when the process exits
+ */
+export class MemorySendQueueStore implements SendQueueStore {
+    private messages: Map<string, QueuedMessage> = new Map();
+    
+    async list(): Promise<QueuedMessage[]> {
+        return Array.from(this.messages.values(), message => ({ ...message }));
+    }
+    
+    async set(message: QueuedMessage): Promise<void> {
+        this.messages.set(message.id, { ...message });
+    }
+    
+    async delete(id: string): Promise<void> {
+        this.messages.delete(id);
+    }
+}
+
+/**
+ * Keeps one JSON file per queued message inside a directory, so messages survive restarts
+ */
+export class FileSendQueueStore implements SendQueueStore {
+    private directory: string;
+    private logger: ReturnType<typeof createLogger>;
+    
+    constructor(directory: string, options: { logLevel?: string } = {}) {
+        this.directory = directory;
+        this.logger = createLogger('FileSendQueueStore', options.logLevel);
+    }
+    
+    async list(): Promise<QueuedMessage[]> {
+        try {
+            const files = (await fs.promises.readdir(this.directory)).filter(file => file.endsWith('.json'));
+            return await Promise.all(files.map(async file => JSON.parse(
+                await fs.promises.readFile(path.join(this.directory, file), 'utf8'),
+                BufferJSON.reviver
+            )));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                return [];
+            }
+            this.logger.error(`Failed to read the send queue in ${this.directory}:`, error);
+            throw error;
+        }
+    }
+    
+    async set(message: QueuedMessage): Promise<void> {
+        try {
+            await writeFileAtomic(this.getFilePath(message.id), JSON.stringify(message, BufferJSON.replacer));
+        } catch (error) {
+            this.logger.error(`Failed to write queued message ${message.id}:`, error);
+            throw error;
+        }
+    }
+    
+    async delete(id: string): Promise<void> {
+        try {
+            await fs.promises.unlink(this.getFilePath(id));
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                this.logger.error(`Failed to delete queued message ${id}:`, error);
+                throw error;
+            }
+        }
+    }
+    
+    private getFilePath(id: string): string {
+        return path.join(this.directory, `${encodeURIComponent(id)}.json`);
+    }
+}
+
+/**
+ * Sends messages one at a time in the order they were queued
+ * Messages wait in the store while offline and after failures that may pass, such as a lost
+ * connection; messages the server rejects for good are dropped and reported as failed
+ * After a failure while still online, the queue is flushed again after a backoff, or as
+ * long as the server asked to wait
+ */
+export class SendQueue extends EventEmitter<{ status: [update: SendStatusUpdate] }> {
+    private store: SendQueueStore;
+    private deliver: (message: QueuedMessage) => Promise<void>;
+    private isOnline: () => boolean;
+    private messages: QueuedMessage[] = [];
+    // Status of queued messages, then of recently sent and failed ones
+    private statuses: Map<string, SendStatus> = new Map();
+    private history: Map<string, SendStatus> = new Map();
+    private waiters: Map<string, { resolve: (status: SendStatus) => void, reject: (error: Error) => void }[]> = new Map();
+    private loading?: Promise<void>;
+    private flushing = false;
+    private retryTimer?: NodeJS.Timeout;
+    // Failures that may pass in a row, which the retry delay doubles with
+    private failures = 0;
+    private sequence = 0;
+    private logger: ReturnType<typeof createLogger>;
+    
+    /**
+     * Create a send queue
+     * @param deliver Encrypts and sends a message, failing with a retryable error if it may pass later
+     * @param isOnline Whether messages can be sent right now
+     * @param store Where queued messages are kept
+     * @param logLevel Log level
+     */
+    constructor(
+        deliver: (message: QueuedMessage) => Promise<void>,
+        isOnline: () => boolean,
+        store: SendQueueStore = new MemorySendQueueStore(),
+        logLevel?: string
+    ) {
+        super();
+        this.deliver = deliver;
+        this.isOnline = isOnline;
+        this.store = store;
+        this.logger = createLogger('SendQueue', logLevel);
+    }
+    
+    /**
+     * Number of messages waiting to be sent
+     */
+    get size(): number {
+        return this.messages.length;
+    }
+    
+    /**
+     * Get the delivery state of a message that is queued or was sent recently
+     * @param id Message ID
+     */
+    getStatus(id: string): SendStatus | undefined {
+        return this.statuses.get(id) || this.history.get(id);
+    }
+    
+    /**
+     * Queue a message and send it if online
+     * Resolves once the message was sent, or with 'queued' when it has to wait; a message whose
+     * ID is already queued or was sent is not added again
+     * @param message Message to send
+     */
+    async send(message: Omit<QueuedMessage, 'sequence' | 'queuedAt'>): Promise<SendStatus> {
+        await this.load();
+        
+        const existing = this.getStatus(message.id);
+        if (existing === 'sent') {
+            this.logger.debug(`Message ${message.id} was already sent`);
+            return existing;
+        }
+        
+        if (existing !== 'queued' && existing !== 'sending') {
+            const queued: QueuedMessage = { ...message, sequence: ++this.sequence, queuedAt: Date.now() };
+            await this.store.set(queued);
+            
+            this.history.delete(queued.id);
+            this.messages.push(queued);
+            this.setStatus(queued, 'queued');
+        }
+        
+        if (!this.isOnline()) {
+            this.logger.info(`Queued message ${message.id} to ${message.jid} until the connection is back`);
+            return 'queued';
+        }
+        
+        // Messages queued before this one are waiting for a retry, e.g. after a rate limit
+        if (this.retryTimer) {
+            this.logger.info(`Queued message ${message.id} to ${message.jid} until the next retry`);
+            return 'queued';
+        }
+        
+        const result = new Promise<SendStatus>((resolve, reject) => {
+            this.waiters.set(message.id, [...(this.waiters.get(message.id) || []), { resolve, reject }]);
+        });
+        
+        this.flush().catch(error => {
+            this.logger.error('Failed to flush the send queue:', error);
+        });
+        
+        return await result;
+    }
+    
+    /**
+     * Send queued messages in order until the queue is empty, the connection is lost
+     * or a message has to be retried later
+     * A scheduled retry is brought forward, e.g. when the connection is back
+     */
+    async flush(): Promise<void> {
+        await this.load();
+        
+        if (this.flushing) {
+            return;
+        }
+        this.flushing = true;
+        
+        // This flush takes the place of a scheduled retry
+        clearTimeout(this.retryTimer);
+        this.retryTimer = undefined;
+        
+        try {
+            while (this.messages.length > 0 && this.isOnline()) {
+                if (!(await this.sendNext(this.messages[0]))) {
+                    break;
+                }
+            }
+        } finally {
+            this.flushing = false;
+            
+            // Whoever waits on a message that is still queued learns it was put off
+            for (const message of this.messages) {
+                this.settle(message.id, waiter => waiter.resolve('queued'));
+            }
+        }
+    }
+    
+    /**
+     * Send the message at the head of the queue
+     * Returns false when it stays queued to be retried later
+     * @param message Message to send
+     */
+    private async sendNext(message: QueuedMessage): Promise<boolean> {
+        this.setStatus(message, 'sending');
+        
+        try {
+            await this.deliver(message);
+        } catch (error: any) {
+            if (error instanceof FocksupError && error.retryable) {
+                this.logger.warn(`Could not send message ${message.id}, keeping it queued:`, error.message);
+                this.setStatus(message, 'queued', error);
+                this.scheduleRetry(error);
+                return false;
+            }
+            
+            this.logger.error(`Message ${message.id} to ${message.jid} failed:`, error);
+            await this.remove(message, 'failed', error);
+            this.settle(message.id, waiter => waiter.reject(error));
+            return true;
+        }
+        
+        this.failures = 0;
+        await this.remove(message, 'sent');
+        this.settle(message.id, waiter => waiter.resolve('sent'));
+        return true;
+    }
+    
+    /**
+     * Flush the queue again later after a failure that may pass
+     * Offline there is nothing to schedule: the queue is flushed once the connection is back
+     * @param error Why the message could not be sent
+     */
+    private scheduleRetry(error: FocksupError): void {
+        if (!this.isOnline()) {
+            return;
+        }
+        
+        this.failures++;
+        const delay = error instanceof RateLimitError && error.retryAfter
+            ? error.retryAfter
+            : Math.min(SEND_QUEUE_RETRY_DELAY * 2 ** (this.failures - 1), SEND_QUEUE_MAX_RETRY_DELAY);
+        
+        clearTimeout(this.retryTimer);
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = undefined;
+            this.flush().catch(flushError => {
+                this.logger.error('Failed to flush the send queue:', flushError);
+            });
+        }, delay);
+        // A pending retry alone does not keep the process running
+        this.retryTimer.unref();
+        
+        this.logger.info(`Retrying the send queue in ${delay} ms`);
+    }
+    
+    /**
+     * Take a message out of the queue, remembering how it ended
+     * @param message Message that was sent or failed
+     * @param status Final status
+     * @param error Why it failed
+     */
+    private async remove(message: QueuedMessage, status: SendStatus, error?: Error): Promise<void> {
+        this.messages = this.messages.filter(queued => queued.id !== message.id);
+        this.statuses.delete(message.id);
+        
+        this.history.set(message.id, status);
+        if (this.history.size > SEND_QUEUE_HISTORY_SIZE) {
+            this.history.delete(this.history.keys().next().value!);
+        }
+        
+        this.emit('status', { id: message.id, jid: message.jid, status, error });
+        
+        try {
+            await this.store.delete(message.id);
+        } catch (storeError) {
+            this.logger.warn(`Could not remove message ${message.id} from the send queue store, it may be sent again:`, storeError);
+        }
+    }
+    
+    /**
+     * Record and announce the status of a queued message
+     * @param message Queued message
+     * @param status New status
+     * @param error Why sending was put off
+     */
+    private setStatus(message: QueuedMessage, status: SendStatus, error?: Error): void {
+        this.statuses.set(message.id, status);
+        this.emit('status', { id: message.id, jid: message.jid, status, error });
+    }
+    
+    /**
+     * Resolve or reject everyone waiting on a message
+     * @param id Message ID
+     * @param settle Called with each waiter
+     */
+    private settle(id: string, settle: (waiter: { resolve: (status: SendStatus) => void, reject: (error: Error) => void }) => void): void {
+        const waiters = this.waiters.get(id) || [];
+        this.waiters.delete(id);
+        waiters.forEach(settle);
+    }
+    
+    /**
+     * Load messages left in the store by an earlier run, once
+     * Messages that were being sent when it stopped are sent again
+     */
+    private load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.store.list().then(stored => {
+                this.messages = stored.sort((a, b) => a.sequence - b.sequence);
+                for (const message of this.messages) {
+                    this.statuses.set(message.id, 'queued');
+                    this.sequence = Math.max(this.sequence, message.sequence);
+                }
+                
+                if (this.messages.length > 0) {
+                    this.logger.info(`Loaded ${this.messages.length} queued messages`);
+                }
+            }).catch(error => {
+                this.loading = undefined;
+                throw error;
+            });
+        }
+        return this.loading;
+    }
+}
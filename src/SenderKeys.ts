@@ -0,0 +1,327 @@
+/**
+ * Sender keys for group messages: each member encrypts once per group with
+ * their own chain, and distributes that chain to the other members
+ */
+
+import crypto from 'crypto';
+import {
+    generateCurveKeyPair,
+    hkdf,
+    aesEncryptCBC,
+    aesDecryptCBC,
+    calculateSignature,
+    verifySignature
+} from './Crypto';
+import { encodeProto, decodeProto, getProtoBytes, getProtoNumber } from './Protobuf';
+import {
+    SkippingChainState,
+    VERSION_BYTE,
+    advanceChain,
+    getMessageKeySeed,
+    checkVersion,
+    serializePublicKey
+} from './SignalProtocol';
+import { AuthStateStore } from './Types';
+import { createLogger, createKeyedMutex } from './Utils';
+import { ProtocolError } from './Errors';
+
+const SIGNATURE_LENGTH = 64;
+const MAX_SENDER_KEY_STATES = 5;
+
+// Our own sender key is stored under this name in every group
+const OWN_SENDER = 'me';
+
+// SenderKeyMessage field numbers
+const SKMSG_ID = 1;
+const SKMSG_ITERATION = 2;
+const SKMSG_CIPHERTEXT = 3;
+
+// SenderKeyDistributionMessage field numbers
+const SKDM_ID = 1;
+const SKDM_ITERATION = 2;
+const SKDM_CHAIN_KEY = 3;
+const SKDM_SIGNING_KEY = 4;
+
+export interface SenderKeyState extends SkippingChainState {
+    keyId: number;
+    // Serialized (33-byte) signing public key
+    signingPublicKey: Buffer;
+    // Only present for our own sender key
+    signingPrivateKey?: Buffer;
+}
+
+// Everything stored for one group
+interface SenderKeyRecord {
+    // Newest state first, by sender
+    senders: { [sender: string]: SenderKeyState[] };
+    // Participants that already received our current sender key
+    distributedTo: string[];
+}
+
+// Our sender key for a group as it was when a message was prepared
+export interface SenderKeyDistribution {
+    // ID of the key the message is encrypted with
+    keyId: number;
+    // Serialized SenderKeyDistributionMessage of that key
+    message: Buffer;
+    // Participants that have not yet received that key
+    pending: string[];
+}
+
+export class SenderKeyRepository {
+    private store: AuthStateStore;
+    // Records are read-modify-write, so updates are serialized per group
+    private withGroupLock = createKeyedMutex();
+    private logger: ReturnType<typeof createLogger>;
+    
+    constructor(store: AuthStateStore, logLevel?: string) {
+        this.store = store;
+        this.logger = createLogger('SenderKeys', logLevel);
+    }
+    
+    /**
+     * Build a distribution message for our sender key in a group, creating the key if needed
+     * The key ID and the participants still waiting for that key are read in the same step,
+     * so a rotation in between can't mix up two keys
+     * @param groupId Group JID
+     * @param participants Current group participants
+     */
+    async createDistributionMessage(groupId: string, participants: string[] = []): Promise<SenderKeyDistribution> {
+        return this.updateRecord(groupId, record => {
+            const state = this.getOwnState(groupId, record);
+            const distributed = new Set(record.distributedTo);
+            
+            return {
+                keyId: state.keyId,
+                message: Buffer.concat([
+                    VERSION_BYTE,
+                    encodeProto({
+                        [SKDM_ID]: state.keyId,
+                        [SKDM_ITERATION]: state.index,
+                        [SKDM_CHAIN_KEY]: state.chainKey,
+                        [SKDM_SIGNING_KEY]: state.signingPublicKey
+                    })
+                ]),
+                pending: participants.filter(jid => !distributed.has(jid))
+            };
+        });
+    }
+    
+    /**
+     * Store a sender key received from another group member
+     * @param groupId Group JID
+     * @param sender Sender JID
+     * @param data Serialized SenderKeyDistributionMessage
+     */
+    async processDistributionMessage(groupId: string, sender: string, data: Buffer): Promise<void> {
+        checkVersion(data);
+        
+        const fields = decodeProto(data.subarray(1));
+        const keyId = getProtoNumber(fields, SKDM_ID);
+        const chainKey = getProtoBytes(fields, SKDM_CHAIN_KEY);
+        const signingKey = getProtoBytes(fields, SKDM_SIGNING_KEY);
+        if (typeof keyId === 'undefined' || !chainKey || !signingKey) {
+            throw new ProtocolError('Incomplete sender key distribution message');
+        }
+        
+        await this.updateRecord(groupId, record => {
+            const states = (record.senders[sender] || []).filter(state => state.keyId !== keyId);
+            states.unshift({
+                keyId,
+                index: getProtoNumber(fields, SKDM_ITERATION) || 0,
+                chainKey,
+                messageKeys: {},
+                signingPublicKey: serializePublicKey(signingKey)
+            });
+            record.senders[sender] = states.slice(0, MAX_SENDER_KEY_STATES);
+        });
+        
+        this.logger.debug(`Stored sender key ${keyId} for ${sender} in ${groupId}`);
+    }
+    
+    /**
+     * Encrypt a group message with our sender key
+     * @param groupId Group JID
+     * @param plaintext Message bytes
+     * @param keyId Key the message must be encrypted with, e.g. the one just distributed
+     * @returns Serialized SenderKeyMessage
+     */
+    async encrypt(groupId: string, plaintext: Buffer, keyId?: number): Promise<Buffer> {
+        return this.updateRecord(groupId, record => {
+            const state = this.getOwnState(groupId, record);
+            if (typeof keyId !== 'undefined' && state.keyId !== keyId) {
+                throw new ProtocolError(`Sender key for ${groupId} was rotated`, { retryable: true });
+            }
+            const iteration = state.index;
+            const { cipherKey, iv } = deriveSenderMessageKeys(advanceChain(state));
+            
+            const body = Buffer.concat([
+                VERSION_BYTE,
+                encodeProto({
+                    [SKMSG_ID]: state.keyId,
+                    [SKMSG_ITERATION]: iteration,
+                    [SKMSG_CIPHERTEXT]: aesEncryptCBC(plaintext, cipherKey, iv)
+                })
+            ]);
+            
+            return Buffer.concat([body, calculateSignature(state.signingPrivateKey!, body)]);
+        });
+    }
+    
+    /**
+     * Decrypt a group message from another member
+     * @param groupId Group JID
+     * @param sender Sender JID
+     * @param data Serialized SenderKeyMessage
+     */
+    async decrypt(groupId: string, sender: string, data: Buffer): Promise<Buffer> {
+        checkVersion(data);
+        if (data.length <= SIGNATURE_LENGTH + 1) {
+            throw new ProtocolError('Sender key message too short');
+        }
+        
+        const body = data.subarray(0, data.length - SIGNATURE_LENGTH);
+        const signature = data.subarray(data.length - SIGNATURE_LENGTH);
+        const fields = decodeProto(body.subarray(1));
+        const keyId = getProtoNumber(fields, SKMSG_ID);
+        const iteration = getProtoNumber(fields, SKMSG_ITERATION) || 0;
+        const ciphertext = getProtoBytes(fields, SKMSG_CIPHERTEXT);
+        if (typeof keyId === 'undefined' || !ciphertext) {
+            throw new ProtocolError('Incomplete sender key message');
+        }
+        
+        // A record that throws is never written back, so failures can't advance the chain
+        return this.updateRecord(groupId, record => {
+            const states = record.senders[sender];
+            if (!states || !states.length) {
+                throw new ProtocolError(`No sender key for ${sender} in ${groupId}`);
+            }
+            
+            const state = states.find(candidate => candidate.keyId === keyId);
+            if (!state) {
+                throw new ProtocolError(`Unknown sender key ${keyId} for ${sender} in ${groupId}`);
+            }
+            
+            if (!verifySignature(state.signingPublicKey, body, signature)) {
+                throw new ProtocolError('Invalid sender key message signature');
+            }
+            
+            const { cipherKey, iv } = deriveSenderMessageKeys(getMessageKeySeed(state, iteration));
+            return aesDecryptCBC(ciphertext, cipherKey, iv);
+        });
+    }
+    
+    /**
+     * Get the participants that have not yet received our current sender key
+     * @param groupId Group JID
+     * @param participants Current group participants
+     */
+    async getPendingParticipants(groupId: string, participants: string[]): Promise<string[]> {
+        const record = await this.store.get<SenderKeyRecord>('sender-key', groupId);
+        const distributed = new Set(record?.distributedTo || []);
+        return participants.filter(jid => !distributed.has(jid));
+    }
+    
+    /**
+     * Record that participants received our sender key
+     * Nothing is recorded if the key was rotated since, as they only hold the old one
+     * @param groupId Group JID
+     * @param participants Participants the key was sent to
+     * @param keyId ID of the key they received
+     */
+    async markDistributed(groupId: string, participants: string[], keyId: number): Promise<void> {
+        await this.updateRecord(groupId, record => {
+            const current = record.senders[OWN_SENDER];
+            if (!current || !current.length || current[0].keyId !== keyId) {
+                return;
+            }
+            
+            const distributed = new Set(record.distributedTo);
+            participants.forEach(jid => distributed.add(jid));
+            record.distributedTo = Array.from(distributed);
+        });
+    }
+    
+    /**
+     * Discard our sender key for a group so the next message uses a fresh one,
+     * e.g. after a member left and must not be able to read future messages
+     * @param groupId Group JID
+     */
+    async rotate(groupId: string): Promise<void> {
+        await this.updateRecord(groupId, record => {
+            delete record.senders[OWN_SENDER];
+            record.distributedTo = [];
+        });
+        
+        this.logger.info(`Rotated sender key for ${groupId}`);
+    }
+    
+    /**
+     * Forget the sender key of a member
+     * @param groupId Group JID
+     * @param sender Sender JID
+     */
+    async removeSenderKey(groupId: string, sender: string): Promise<void> {
+        await this.updateRecord(groupId, record => {
+            delete record.senders[sender];
+        });
+    }
+    
+    /**
+     * Forget all sender keys of a group, e.g. after leaving it
+     * @param groupId Group JID
+     */
+    async clearGroup(groupId: string): Promise<void> {
+        await this.withGroupLock(groupId, () => this.store.delete('sender-key', groupId));
+    }
+    
+    /**
+     * Load a group's record, apply a change and save it, one change at a time per group
+     * @param groupId Group JID
+     * @param update Change to apply; the record is not saved if it throws
+     */
+    private async updateRecord<T>(groupId: string, update: (record: SenderKeyRecord) => T): Promise<T> {
+        return this.withGroupLock(groupId, async () => {
+            const record = await this.store.get<SenderKeyRecord>('sender-key', groupId)
+                || { senders: {}, distributedTo: [] };
+            const result = update(record);
+            await this.store.set('sender-key', groupId, record);
+            return result;
+        });
+    }
+    
+    /**
+     * Get our own sender key for a group, creating it on first use
+     * @param groupId Group JID
+     * @param record The group's record, updated in place
+     */
+    private getOwnState(groupId: string, record: SenderKeyRecord): SenderKeyState {
+        const existing = record.senders[OWN_SENDER];
+        if (existing && existing.length) {
+            return existing[0];
+        }
+        
+        const signingKeyPair = generateCurveKeyPair();
+        const state: SenderKeyState = {
+            keyId: crypto.randomInt(0, 0x7fffffff),
+            index: 0,
+            chainKey: crypto.randomBytes(32),
+            messageKeys: {},
+            signingPublicKey: serializePublicKey(signingKeyPair.public),
+            signingPrivateKey: signingKeyPair.private
+        };
+        record.senders[OWN_SENDER] = [state];
+        
+        this.logger.info(`Created sender key ${state.keyId} for ${groupId}`);
+        
+        return state;
+    }
+}
+
+function deriveSenderMessageKeys(seed: Buffer): { cipherKey: Buffer, iv: Buffer } {
+    const derived = hkdf(seed, 48, { salt: Buffer.alloc(32), info: 'WhisperGroup' });
+    return {
+        iv: derived.subarray(0, 16),
+        cipherKey: derived.subarray(16, 48)
+    };
+}
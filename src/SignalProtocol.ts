@@ -0,0 +1,632 @@
+/**
+ * Signal protocol sessions: X3DH key agreement and the Double Ratchet
+ */
+
+import crypto from 'crypto';
+import { WAConnection } from './WAConnection';
+import { KeyPair, PreKeyBundle, AuthStateStore, AuthenticationCredentials } from './Types';
+import {
+    generateCurveKeyPair,
+    sharedCurveKey,
+    hkdf,
+    hmacSha256,
+    aesEncryptCBC,
+    aesDecryptCBC,
+    calculateSignature,
+    verifySignature
+} from './Crypto';
+import { encodeProto, decodeProto, getProtoBytes, getProtoNumber } from './Protobuf';
+import { createLogger, createKeyedMutex } from './Utils';
+import { ProtocolError } from './Errors';
+
+// Message version 3, sent as a single (version << 4 | version) byte
+const CIPHERTEXT_VERSION = 3;
+export const VERSION_BYTE = Buffer.from([(CIPHERTEXT_VERSION << 4) | CIPHERTEXT_VERSION]);
+const MAC_LENGTH = 8;
+const KEY_TYPE_DJB = 5;
+const MAX_SKIPPED_MESSAGE_KEYS = 2000;
+const MAX_RECEIVING_CHAINS = 5;
+
+// WhisperMessage field numbers
+const WHISPER_RATCHET_KEY = 1;
+const WHISPER_COUNTER = 2;
+const WHISPER_PREVIOUS_COUNTER = 3;
+const WHISPER_CIPHERTEXT = 4;
+
+// PreKeyWhisperMessage field numbers
+const PREKEY_PREKEY_ID = 1;
+const PREKEY_BASE_KEY = 2;
+const PREKEY_IDENTITY_KEY = 3;
+const PREKEY_MESSAGE = 4;
+const PREKEY_REGISTRATION_ID = 5;
+const PREKEY_SIGNED_PREKEY_ID = 6;
+
+export type SignalMessageType = 'pkmsg' | 'msg';
+
+export interface ChainState {
+    chainKey: Buffer;
+    index: number;
+}
+
+export interface SkippingChainState extends ChainState {
+    // Seeds for message keys that were skipped over, by counter
+    messageKeys: { [counter: number]: Buffer };
+}
+
+interface ReceivingChain extends SkippingChainState {
+    ratchetKey: Buffer;
+}
+
+export interface SessionState {
+    remoteRegistrationId: number;
+    remoteIdentityKey: Buffer;
+    localIdentityKey: Buffer;
+    baseKey: Buffer;
+    rootKey: Buffer;
+    sendingChain: ChainState & { ratchetKeyPair: KeyPair };
+    receivingChains: ReceivingChain[];
+    previousCounter: number;
+    // Set on the initiating side until the first reply arrives
+    pendingPreKey?: {
+        preKeyId?: number;
+        signedPreKeyId: number;
+        baseKey: Buffer;
+    };
+}
+
+/**
+ * Local Signal identity derived from the stored credentials
+ */
+export interface SignalIdentity {
+    registrationId: number;
+    identityKeyPair: KeyPair;
+    signedPreKey: {
+        keyId: number;
+        keyPair: KeyPair;
+        signature: Buffer;
+    };
+}
+
+/**
+ * Add the DJB type prefix to a raw Curve25519 public key
+ * @param publicKey Raw 32-byte public key
+ */
+export function serializePublicKey(publicKey: Buffer): Buffer {
+    return publicKey.length === 33 ? publicKey : Buffer.concat([Buffer.from([KEY_TYPE_DJB]), publicKey]);
+}
+
+/**
+ * Strip the DJB type prefix from a serialized public key
+ * @param publicKey 33-byte serialized or raw 32-byte public key
+ */
+export function parsePublicKey(publicKey: Buffer): Buffer {
+    if (publicKey.length === 33 && publicKey[0] === KEY_TYPE_DJB) {
+        return publicKey.subarray(1);
+    }
+    
+    if (publicKey.length !== 32) {
+        throw new ProtocolError(`Invalid public key length: ${publicKey.length}`);
+    }
+    
+    return publicKey;
+}
+
+/**
+ * Generate a random 14-bit registration ID
+ */
+export function generateRegistrationId(): number {
+    return crypto.randomInt(1, 16380);
+}
+
+/**
+ * Generate a signed pre-key
+ * @param identityKeyPair Identity keypair used to sign
+ * @param keyId Signed pre-key ID
+ */
+export function generateSignedPreKey(identityKeyPair: KeyPair, keyId: number): { keyId: number, keyPair: KeyPair, signature: Buffer } {
+    const keyPair = generateCurveKeyPair();
+    const signature = calculateSignature(identityKeyPair.private, serializePublicKey(keyPair.public));
+    
+    return { keyId, keyPair, signature };
+}
+
+/**
+ * Check whether credentials already hold a Signal identity
+ * @param credentials Stored credentials
+ */
+export function hasSignalIdentity(credentials?: AuthenticationCredentials): boolean {
+    return !!(credentials?.signedIdentityKey && credentials.signedPreKey && credentials.registrationId);
+}
+
+/**
+ * Generate a new Signal identity in the form it is stored in the credentials
+ * It is created before the device is registered, since registration uploads its public keys
+ */
+export function generateSignalCredentials(): Partial<AuthenticationCredentials> {
+    const identityKeyPair = generateCurveKeyPair();
+    const signedPreKey = generateSignedPreKey(identityKeyPair, 1);
+    
+    return {
+        registrationId: generateRegistrationId(),
+        signedIdentityKey: {
+            public: identityKeyPair.public.toString('base64'),
+            private: identityKeyPair.private.toString('base64')
+        },
+        signedPreKey: {
+            keyId: signedPreKey.keyId,
+            public: signedPreKey.keyPair.public.toString('base64'),
+            private: signedPreKey.keyPair.private.toString('base64'),
+            signature: signedPreKey.signature.toString('base64')
+        },
+        nextPreKeyId: 1
+    };
+}
+
+/**
+ * Read the Signal identity out of the stored credentials
+ * @param credentials Credentials holding a Signal identity
+ */
+export function getSignalIdentity(credentials: AuthenticationCredentials): SignalIdentity {
+    return {
+        registrationId: credentials.registrationId!,
+        identityKeyPair: {
+            public: Buffer.from(credentials.signedIdentityKey!.public, 'base64'),
+            private: Buffer.from(credentials.signedIdentityKey!.private, 'base64')
+        },
+        signedPreKey: {
+            keyId: credentials.signedPreKey!.keyId,
+            keyPair: {
+                public: Buffer.from(credentials.signedPreKey!.public, 'base64'),
+                private: Buffer.from(credentials.signedPreKey!.private, 'base64')
+            },
+            signature: Buffer.from(credentials.signedPreKey!.signature, 'base64')
+        }
+    };
+}
+
+export class SignalRepository {
+    private connection: WAConnection;
+    private store: AuthStateStore;
+    // Session updates are read-modify-write, so they are serialized per JID
+    private withSessionLock = createKeyedMutex();
+    private logger: ReturnType<typeof createLogger>;
+    
+    constructor(connection: WAConnection, store: AuthStateStore, logLevel?: string) {
+        this.connection = connection;
+        this.store = store;
+        this.logger = createLogger('SignalRepository', logLevel);
+    }
+    
+    /**
+     * Get the local identity, generating and storing it on first use
+     */
+    getLocalIdentity(): SignalIdentity {
+        let credentials = this.connection.getCredentials();
+        
+        if (!hasSignalIdentity(credentials)) {
+            this.connection.updateCredentials(generateSignalCredentials());
+            
+            this.logger.info('Generated new Signal identity');
+            credentials = this.connection.getCredentials()!;
+        }
+        
+        return getSignalIdentity(credentials!);
+    }
+    
+    /**
+     * Generate one-time pre-keys for upload
+     * @param count Number of pre-keys
+     */
+    async generatePreKeys(count: number): Promise<Array<{ keyId: number, publicKey: Buffer }>> {
+        this.getLocalIdentity();
+        
+        // Reserve the ids before the first await, so concurrent calls never hand out the same ones
+        const firstKeyId = this.connection.getCredentials()?.nextPreKeyId || 1;
+        this.connection.updateCredentials({ nextPreKeyId: firstKeyId + count });
+        
+        const preKeys: Array<{ keyId: number, publicKey: Buffer }> = [];
+        for (let keyId = firstKeyId; keyId < firstKeyId + count; keyId++) {
+            const keyPair = generateCurveKeyPair();
+            await this.store.set('pre-key', String(keyId), keyPair);
+            preKeys.push({ keyId, publicKey: keyPair.public });
+        }
+        
+        return preKeys;
+    }
+    
+    /**
+     * Check if a session exists for a JID
+     * @param jid Remote JID
+     */
+    async hasSession(jid: string): Promise<boolean> {
+        return !!(await this.store.get<SessionState>('session', jid));
+    }
+    
+    /**
+     * Start a session from a remote pre-key bundle (X3DH, initiator side)
+     * @param jid Remote JID
+     * @param bundle Remote pre-key bundle
+     */
+    async injectSession(jid: string, bundle: PreKeyBundle): Promise<void> {
+        return this.withSessionLock(jid, () => this.createSession(jid, bundle));
+    }
+    
+    /**
+     * Encrypt a message for a JID with an established session
+     * @param jid Remote JID
+     * @param plaintext Message plaintext
+     */
+    async encryptMessage(jid: string, plaintext: Buffer): Promise<{ type: SignalMessageType, ciphertext: Buffer }> {
+        return this.withSessionLock(jid, () => this.encryptWithSession(jid, plaintext));
+    }
+    
+    /**
+     * Decrypt a message received from a JID
+     * @param jid Remote JID
+     * @param type Envelope type ('pkmsg' or 'msg')
+     * @param ciphertext Encrypted message
+     */
+    async decryptMessage(jid: string, type: SignalMessageType, ciphertext: Buffer): Promise<Buffer> {
+        return this.withSessionLock(jid, () => type === 'pkmsg'
+            ? this.decryptPreKeyMessage(jid, ciphertext)
+            : this.decryptWithSession(jid, ciphertext));
+    }
+    
+    /**
+     * Start a session from a remote pre-key bundle (X3DH, initiator side)
+     * @param jid Remote JID
+     * @param bundle Remote pre-key bundle
+     */
+    private async createSession(jid: string, bundle: PreKeyBundle): Promise<void> {
+        const theirIdentityKey = parsePublicKey(bundle.identityKey);
+        const theirSignedPreKey = parsePublicKey(bundle.signedPreKey.publicKey);
+        
+        if (!verifySignature(theirIdentityKey, serializePublicKey(theirSignedPreKey), bundle.signedPreKey.signature)) {
+            throw new ProtocolError(`Invalid signed pre-key signature for ${jid}`);
+        }
+        
+        const existing = await this.store.get<SessionState>('session', jid);
+        if (existing && !existing.remoteIdentityKey.equals(serializePublicKey(theirIdentityKey))) {
+            this.logger.warn(`Identity key changed for ${jid}`);
+        }
+        
+        const identity = this.getLocalIdentity();
+        const baseKeyPair = generateCurveKeyPair();
+        
+        const secrets = [
+            Buffer.alloc(32, 0xff),
+            sharedCurveKey(identity.identityKeyPair.private, theirSignedPreKey),
+            sharedCurveKey(baseKeyPair.private, theirIdentityKey),
+            sharedCurveKey(baseKeyPair.private, theirSignedPreKey)
+        ];
+        if (bundle.preKey) {
+            secrets.push(sharedCurveKey(baseKeyPair.private, parsePublicKey(bundle.preKey.publicKey)));
+        }
+        
+        const derived = hkdf(Buffer.concat(secrets), 64, { salt: Buffer.alloc(32), info: 'WhisperText' });
+        
+        // Ratchet once so our first message already carries a fresh ratchet key
+        const ratchetKeyPair = generateCurveKeyPair();
+        const sending = deriveRootKeys(derived.subarray(0, 32), sharedCurveKey(ratchetKeyPair.private, theirSignedPreKey));
+        
+        await this.store.set('session', jid, {
+            remoteRegistrationId: bundle.registrationId,
+            remoteIdentityKey: serializePublicKey(theirIdentityKey),
+            localIdentityKey: serializePublicKey(identity.identityKeyPair.public),
+            baseKey: serializePublicKey(baseKeyPair.public),
+            rootKey: sending.rootKey,
+            sendingChain: { ratchetKeyPair, chainKey: sending.chainKey, index: 0 },
+            receivingChains: [{
+                ratchetKey: serializePublicKey(theirSignedPreKey),
+                chainKey: derived.subarray(32),
+                index: 0,
+                messageKeys: {}
+            }],
+            previousCounter: 0,
+            pendingPreKey: {
+                preKeyId: bundle.preKey?.keyId,
+                signedPreKeyId: bundle.signedPreKey.keyId,
+                baseKey: serializePublicKey(baseKeyPair.public)
+            }
+        });
+        
+        this.logger.debug(`Started Signal session with ${jid}`);
+    }
+    
+    /**
+     * Encrypt with the stored session and save the advanced sending chain
+     * @param jid Remote JID
+     * @param plaintext Message plaintext
+     */
+    private async encryptWithSession(jid: string, plaintext: Buffer): Promise<{ type: SignalMessageType, ciphertext: Buffer }> {
+        const state = await this.store.get<SessionState>('session', jid);
+        if (!state) {
+            throw new ProtocolError(`No Signal session for ${jid}`);
+        }
+        
+        const chain = state.sendingChain;
+        const counter = chain.index;
+        const keys = deriveMessageKeys(advanceChain(chain));
+        
+        const serialized = Buffer.concat([VERSION_BYTE, encodeProto({
+            [WHISPER_RATCHET_KEY]: serializePublicKey(chain.ratchetKeyPair.public),
+            [WHISPER_COUNTER]: counter,
+            [WHISPER_PREVIOUS_COUNTER]: state.previousCounter,
+            [WHISPER_CIPHERTEXT]: aesEncryptCBC(plaintext, keys.cipherKey, keys.iv)
+        })]);
+        
+        const mac = hmacSha256(keys.macKey, Buffer.concat([
+            state.localIdentityKey,
+            state.remoteIdentityKey,
+            serialized
+        ])).subarray(0, MAC_LENGTH);
+        
+        const whisperMessage = Buffer.concat([serialized, mac]);
+        await this.store.set('session', jid, state);
+        
+        if (!state.pendingPreKey) {
+            return { type: 'msg', ciphertext: whisperMessage };
+        }
+        
+        // Until the remote side replies, every message carries the X3DH parameters
+        const identity = this.getLocalIdentity();
+        return {
+            type: 'pkmsg',
+            ciphertext: Buffer.concat([VERSION_BYTE, encodeProto({
+                [PREKEY_PREKEY_ID]: state.pendingPreKey.preKeyId,
+                [PREKEY_BASE_KEY]: state.pendingPreKey.baseKey,
+                [PREKEY_IDENTITY_KEY]: state.localIdentityKey,
+                [PREKEY_MESSAGE]: whisperMessage,
+                [PREKEY_REGISTRATION_ID]: identity.registrationId,
+                [PREKEY_SIGNED_PREKEY_ID]: state.pendingPreKey.signedPreKeyId
+            })])
+        };
+    }
+    
+    /**
+     * Decrypt a WhisperMessage with the stored session
+     * @param jid Remote JID
+     * @param ciphertext Encrypted message
+     */
+    private async decryptWithSession(jid: string, ciphertext: Buffer): Promise<Buffer> {
+        const session = await this.store.get<SessionState>('session', jid);
+        if (!session) {
+            throw new ProtocolError(`No Signal session for ${jid}`);
+        }
+        
+        // Work on a copy so a forged or corrupt message cannot advance the ratchet
+        const state = cloneSession(session);
+        const plaintext = decryptWhisperMessage(state, ciphertext);
+        await this.store.set('session', jid, state);
+        
+        return plaintext;
+    }
+    
+    /**
+     * Decrypt a PreKeyWhisperMessage, building the session if needed (X3DH, responder side)
+     * @param jid Remote JID
+     * @param ciphertext Encrypted message
+     */
+    private async decryptPreKeyMessage(jid: string, ciphertext: Buffer): Promise<Buffer> {
+        checkVersion(ciphertext);
+        
+        const fields = decodeProto(ciphertext.subarray(1));
+        const preKeyId = getProtoNumber(fields, PREKEY_PREKEY_ID);
+        const signedPreKeyId = getProtoNumber(fields, PREKEY_SIGNED_PREKEY_ID);
+        const baseKey = getProtoBytes(fields, PREKEY_BASE_KEY);
+        const identityKey = getProtoBytes(fields, PREKEY_IDENTITY_KEY);
+        const message = getProtoBytes(fields, PREKEY_MESSAGE);
+        
+        if (!baseKey || !identityKey || !message || typeof signedPreKeyId === 'undefined') {
+            throw new ProtocolError('Incomplete PreKeyWhisperMessage');
+        }
+        
+        // Retransmissions of the initial message reuse the session they created
+        const existing = await this.store.get<SessionState>('session', jid);
+        if (existing && existing.baseKey.equals(serializePublicKey(parsePublicKey(baseKey)))) {
+            const state = cloneSession(existing);
+            const plaintext = decryptWhisperMessage(state, message);
+            await this.store.set('session', jid, state);
+            return plaintext;
+        }
+        
+        const identity = this.getLocalIdentity();
+        if (identity.signedPreKey.keyId !== signedPreKeyId) {
+            throw new ProtocolError(`Unknown signed pre-key ${signedPreKeyId}`);
+        }
+        
+        let preKeyPair: KeyPair | undefined;
+        if (typeof preKeyId !== 'undefined') {
+            preKeyPair = await this.store.get<KeyPair>('pre-key', String(preKeyId));
+            if (!preKeyPair) {
+                throw new ProtocolError(`Missing pre-key ${preKeyId}`);
+            }
+        }
+        
+        const theirIdentityKey = parsePublicKey(identityKey);
+        const theirBaseKey = parsePublicKey(baseKey);
+        const signedPreKey = identity.signedPreKey.keyPair;
+        
+        const secrets = [
+            Buffer.alloc(32, 0xff),
+            sharedCurveKey(signedPreKey.private, theirIdentityKey),
+            sharedCurveKey(identity.identityKeyPair.private, theirBaseKey),
+            sharedCurveKey(signedPreKey.private, theirBaseKey)
+        ];
+        if (preKeyPair) {
+            secrets.push(sharedCurveKey(preKeyPair.private, theirBaseKey));
+        }
+        
+        const derived = hkdf(Buffer.concat(secrets), 64, { salt: Buffer.alloc(32), info: 'WhisperText' });
+        
+        const state: SessionState = {
+            remoteRegistrationId: getProtoNumber(fields, PREKEY_REGISTRATION_ID) || 0,
+            remoteIdentityKey: serializePublicKey(theirIdentityKey),
+            localIdentityKey: serializePublicKey(identity.identityKeyPair.public),
+            baseKey: serializePublicKey(theirBaseKey),
+            rootKey: derived.subarray(0, 32),
+            sendingChain: { ratchetKeyPair: signedPreKey, chainKey: derived.subarray(32), index: 0 },
+            receivingChains: [],
+            previousCounter: 0
+        };
+        
+        const plaintext = decryptWhisperMessage(state, message);
+        
+        if (existing) {
+            this.logger.info(`Replacing Signal session with ${jid}`);
+        }
+        await this.store.set('session', jid, state);
+        
+        // One-time pre-keys must never be reused
+        if (typeof preKeyId !== 'undefined') {
+            await this.store.delete('pre-key', String(preKeyId));
+        }
+        
+        return plaintext;
+    }
+}
+
+/**
+ * Decrypt a WhisperMessage, advancing the given session state
+ * @param state Session state, mutated in place
+ * @param data Serialized WhisperMessage
+ */
+function decryptWhisperMessage(state: SessionState, data: Buffer): Buffer {
+    checkVersion(data);
+    
+    if (data.length <= 1 + MAC_LENGTH) {
+        throw new ProtocolError('WhisperMessage too short');
+    }
+    
+    const serialized = data.subarray(0, data.length - MAC_LENGTH);
+    const mac = data.subarray(data.length - MAC_LENGTH);
+    const fields = decodeProto(serialized.subarray(1));
+    
+    const ratchetKey = getProtoBytes(fields, WHISPER_RATCHET_KEY);
+    const counter = getProtoNumber(fields, WHISPER_COUNTER) || 0;
+    const ciphertext = getProtoBytes(fields, WHISPER_CIPHERTEXT);
+    if (!ratchetKey || !ciphertext) {
+        throw new ProtocolError('Incomplete WhisperMessage');
+    }
+    
+    const theirRatchetKey = serializePublicKey(parsePublicKey(ratchetKey));
+    let chain = state.receivingChains.find(c => c.ratchetKey.equals(theirRatchetKey));
+    
+    if (!chain) {
+        // New ratchet key from the remote side: perform a DH ratchet step
+        const receiving = deriveRootKeys(
+            state.rootKey,
+            sharedCurveKey(state.sendingChain.ratchetKeyPair.private, parsePublicKey(theirRatchetKey))
+        );
+        
+        chain = { ratchetKey: theirRatchetKey, chainKey: receiving.chainKey, index: 0, messageKeys: {} };
+        state.receivingChains.push(chain);
+        if (state.receivingChains.length > MAX_RECEIVING_CHAINS) {
+            state.receivingChains.shift();
+        }
+        
+        const ratchetKeyPair = generateCurveKeyPair();
+        const sending = deriveRootKeys(
+            receiving.rootKey,
+            sharedCurveKey(ratchetKeyPair.private, parsePublicKey(theirRatchetKey))
+        );
+        
+        state.rootKey = sending.rootKey;
+        state.previousCounter = state.sendingChain.index;
+        state.sendingChain = { ratchetKeyPair, chainKey: sending.chainKey, index: 0 };
+    }
+    
+    const keys = deriveMessageKeys(getMessageKeySeed(chain, counter));
+    
+    const expectedMac = hmacSha256(keys.macKey, Buffer.concat([
+        state.remoteIdentityKey,
+        state.localIdentityKey,
+        serialized
+    ])).subarray(0, MAC_LENGTH);
+    
+    if (!crypto.timingSafeEqual(mac, expectedMac)) {
+        throw new ProtocolError('Bad MAC on WhisperMessage');
+    }
+    
+    const plaintext = aesDecryptCBC(ciphertext, keys.cipherKey, keys.iv);
+    
+    // A decrypted reply confirms the session, so stop sending pre-key messages
+    state.pendingPreKey = undefined;
+    
+    return plaintext;
+}
+
+/**
+ * Get the message key seed for a counter, storing seeds for skipped messages
+ * @param chain Receiving chain, mutated in place
+ * @param counter Message counter
+ */
+export function getMessageKeySeed(chain: SkippingChainState, counter: number): Buffer {
+    if (counter < chain.index) {
+        const seed = chain.messageKeys[counter];
+        if (!seed) {
+            throw new ProtocolError(`Duplicate or expired message with counter ${counter}`);
+        }
+        delete chain.messageKeys[counter];
+        return seed;
+    }
+    
+    if (counter - chain.index > MAX_SKIPPED_MESSAGE_KEYS) {
+        throw new ProtocolError(`Too many skipped messages: ${counter - chain.index}`);
+    }
+    
+    while (chain.index < counter) {
+        chain.messageKeys[chain.index] = advanceChain(chain);
+    }
+    
+    // Drop the oldest skipped keys once the limit is exceeded
+    const skipped = Object.keys(chain.messageKeys).map(Number).sort((a, b) => a - b);
+    for (const oldCounter of skipped.slice(0, Math.max(skipped.length - MAX_SKIPPED_MESSAGE_KEYS, 0))) {
+        delete chain.messageKeys[oldCounter];
+    }
+    
+    return advanceChain(chain);
+}
+
+/**
+ * Step a symmetric chain, returning the message key seed for its current index
+ * @param chain Chain state, mutated in place
+ */
+export function advanceChain(chain: ChainState): Buffer {
+    const seed = hmacSha256(chain.chainKey, Buffer.from([1]));
+    chain.chainKey = hmacSha256(chain.chainKey, Buffer.from([2]));
+    chain.index++;
+    return seed;
+}
+
+function deriveRootKeys(rootKey: Buffer, sharedSecret: Buffer): { rootKey: Buffer, chainKey: Buffer } {
+    const derived = hkdf(sharedSecret, 64, { salt: rootKey, info: 'WhisperRatchet' });
+    return { rootKey: derived.subarray(0, 32), chainKey: derived.subarray(32) };
+}
+
+function deriveMessageKeys(seed: Buffer): { cipherKey: Buffer, macKey: Buffer, iv: Buffer } {
+    const derived = hkdf(seed, 80, { salt: Buffer.alloc(32), info: 'WhisperMessageKeys' });
+    return {
+        cipherKey: derived.subarray(0, 32),
+        macKey: derived.subarray(32, 64),
+        iv: derived.subarray(64, 80)
+    };
+}
+
+export function checkVersion(data: Buffer): void {
+    if (!data.length || data[0] >> 4 !== CIPHERTEXT_VERSION) {
+        throw new ProtocolError(`Unsupported Signal message version: ${data.length ? data[0] >> 4 : 'empty'}`);
+    }
+}
+
+function cloneSession(state: SessionState): SessionState {
+    return {
+        ...state,
+        sendingChain: { ...state.sendingChain },
+        receivingChains: state.receivingChains.map(chain => ({
+            ...chain,
+            messageKeys: { ...chain.messageKeys }
+        })),
+        pendingPreKey: state.pendingPreKey && { ...state.pendingPreKey }
+    };
+}
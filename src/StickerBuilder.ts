@@ -0,0 +1,310 @@
+/**
+ * Sticker creation: 512x512 WebP images carrying sticker pack metadata in EXIF
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { RawImage, StickerMetadata, StickerFrame, StickerWorkerRequest, StickerWorkerResult } from './Types';
+import {
+    ERROR_CODES,
+    STICKER_SIZE,
+    STICKER_MAX_SIZE,
+    ANIMATED_STICKER_MAX_SIZE,
+    STICKER_MAX_NEAR_LOSSLESS
+} from './Constants';
+import {
+    WebpChunk,
+    encodeVp8l,
+    readWebpChunks,
+    writeWebpContainer,
+    writeChunk,
+    createVp8xChunk,
+    WEBP_FLAG_ANIMATION,
+    WEBP_FLAG_EXIF,
+    WEBP_FLAG_ALPHA
+} from './WebpCodec';
+import { decodeImage, containImage } from './ImageProcessing';
+import { detectMimetype } from './MimeType';
+import { getMediaMetadata } from './MediaMetadata';
+import { generateRandomId, createLogger } from './Utils';
+import { MediaError } from './Errors';
+
+// EXIF tag WhatsApp reads the sticker pack JSON from
+const STICKER_EXIF_TAG = 0x5741;
+const EXIF_TYPE_UNDEFINED = 7;
+
+// Largest frame duration an ANMF chunk can store, in milliseconds
+const MAX_FRAME_DURATION = 0xFFFFFF;
+
+// Compiled worker entry; missing when running from the TypeScript sources, e.g. in tests
+const STICKER_WORKER_PATH = path.join(__dirname, 'StickerWorker.js');
+
+/**
+ * Builds stickers from images, tagging them with sticker pack metadata
+ */
+export class StickerBuilder {
+    private metadata: StickerMetadata;
+    private logger: ReturnType<typeof createLogger>;
+    
+    /**
+     * Create a sticker builder
+     * @param metadata Sticker pack metadata to embed
+     */
+    constructor(metadata: StickerMetadata = {}) {
+        // A fixed pack id keeps the stickers made by one builder in the same pack
+        this.metadata = { ...metadata, packId: metadata.packId || generateRandomId() };
+        this.logger = createLogger('StickerBuilder');
+    }
+    
+    /**
+     * Set the name of the sticker pack
+     * @param packName Pack name
+     */
+    setPackName(packName: string): this {
+        this.metadata.packName = packName;
+        return this;
+    }
+    
+    /**
+     * Set the publisher of the sticker pack
+     * @param publisher Publisher name
+     */
+    setPublisher(publisher: string): this {
+        this.metadata.publisher = publisher;
+        return this;
+    }
+    
+    /**
+     * Set the emojis describing the sticker
+     * @param emojis Emojis
+     */
+    setEmojis(...emojis: string[]): this {
+        this.metadata.emojis = emojis;
+        return this;
+    }
+    
+    /**
+     * Set the identifier of the sticker pack
+     * @param packId Pack identifier
+     */
+    setPackId(packId: string): this {
+        this.metadata.packId = packId;
+        return this;
+    }
+    
+    /**
+     * Build a sticker from an image
+     * JPEG and PNG images are scaled to fit 512x512 and encoded as WebP; WebP images,
+     * including animated ones, must already be 512x512 and only get the metadata added
+     * Encoding takes seconds and blocks the thread it runs on; buildAsync runs it on a worker
+     * @param image JPEG, PNG or WebP image
+     */
+    build(image: Buffer): Buffer {
+        if (detectMimetype(image) === 'image/webp') {
+            return this.tagWebp(image);
+        }
+        
+        const canvas = containImage(decodeImage(image, STICKER_SIZE), STICKER_SIZE);
+        
+        return this.encodeWithinLimit(STICKER_MAX_SIZE, nearLossless => writeWebpContainer([
+            createVp8xChunk(WEBP_FLAG_ALPHA | WEBP_FLAG_EXIF, STICKER_SIZE, STICKER_SIZE),
+            { type: 'VP8L', data: encodeVp8l(canvas, { nearLossless }) },
+            this.createExifChunk()
+        ]));
+    }
+    
+    /**
+     * Build a sticker from an image on a worker thread, keeping the event loop free
+     * @param image JPEG, PNG or WebP image
+     */
+    async buildAsync(image: Buffer): Promise<Buffer> {
+        return this.runInWorker({ metadata: this.metadata, image }, () => this.build(image));
+    }
+    
+    /**
+     * Build an animated sticker from a sequence of frames
+     * Encoding blocks the thread it runs on; buildAnimatedAsync runs it on a worker
+     * @param frames Frames as JPEG/PNG images or decoded pixels, each with its duration
+     * @param loops Number of times to play the animation, 0 to loop forever
+     */
+    buildAnimated(frames: StickerFrame[], loops: number = 0): Buffer {
+        if (frames.length === 0) {
+            throw new MediaError('An animated sticker needs at least one frame', { code: ERROR_CODES.INVALID_MEDIA });
+        }
+        
+        const canvases = frames.map(frame => containImage(
+            Buffer.isBuffer(frame.image) ? decodeImage(frame.image, STICKER_SIZE) : frame.image,
+            STICKER_SIZE
+        ));
+        
+        const animation = Buffer.alloc(6);
+        animation.writeUInt16LE(loops, 4); // after a transparent background color
+        
+        return this.encodeWithinLimit(ANIMATED_STICKER_MAX_SIZE, nearLossless => writeWebpContainer([
+            createVp8xChunk(WEBP_FLAG_ANIMATION | WEBP_FLAG_ALPHA | WEBP_FLAG_EXIF, STICKER_SIZE, STICKER_SIZE),
+            { type: 'ANIM', data: animation },
+            ...canvases.map((canvas, i) => createFrameChunk(canvas, frames[i].duration, nearLossless)),
+            this.createExifChunk()
+        ]));
+    }
+    
+    /**
+     * Build an animated sticker on a worker thread, keeping the event loop free
+     * @param frames Frames as JPEG/PNG images or decoded pixels, each with its duration
+     * @param loops Number of times to play the animation, 0 to loop forever
+     */
+    async buildAnimatedAsync(frames: StickerFrame[], loops: number = 0): Promise<Buffer> {
+        return this.runInWorker({ metadata: this.metadata, frames, loops }, () => this.buildAnimated(frames, loops));
+    }
+    
+    /**
+     * Run a sticker build on a worker thread
+     * Without the compiled worker entry, the build runs on this thread instead
+     * @param request Sticker to build
+     * @param fallback Builds the sticker on this thread
+     */
+    private runInWorker(request: StickerWorkerRequest, fallback: () => Buffer): Promise<Buffer> {
+        if (!fs.existsSync(STICKER_WORKER_PATH)) {
+            this.logger.debug('Sticker worker is not built, encoding on the main thread');
+            return Promise.resolve().then(fallback);
+        }
+        
+        return new Promise((resolve, reject) => {
+            const worker = new Worker(STICKER_WORKER_PATH, { workerData: request });
+            
+            worker.once('message', (result: StickerWorkerResult) => {
+                if (result.sticker) {
+                    resolve(Buffer.from(result.sticker));
+                } else {
+                    reject(new MediaError(result.error?.message || 'Sticker worker failed', {
+                        code: result.error?.code || ERROR_CODES.INVALID_MEDIA
+                    }));
+                }
+            });
+            worker.once('error', error => {
+                reject(new MediaError(`Sticker worker failed: ${error.message}`, { code: ERROR_CODES.INVALID_MEDIA, cause: error }));
+            });
+            worker.once('exit', exitCode => {
+                // Does nothing if the worker already answered
+                reject(new MediaError(`Sticker worker exited with code ${exitCode}`, { code: ERROR_CODES.INVALID_MEDIA }));
+            });
+        });
+    }
+    
+    /**
+     * Encode at decreasing color precision, stopping at the first result that fits the size limit
+     * @param maxSize Size limit in bytes
+     * @param encode Encoder taking the number of precision bits to drop
+     */
+    private encodeWithinLimit(maxSize: number, encode: (nearLossless: number) => Buffer): Buffer {
+        let sticker = encode(0);
+        
+        for (let nearLossless = 1; sticker.length > maxSize && nearLossless <= STICKER_MAX_NEAR_LOSSLESS; nearLossless++) {
+            sticker = encode(nearLossless);
+        }
+        
+        // WhatsApp does not show stickers over the limit, so sending one would only look lost
+        if (sticker.length > maxSize) {
+            throw new MediaError(
+                `Sticker is ${sticker.length} bytes even at the lowest quality, over the ${maxSize} byte limit WhatsApp allows`,
+                { code: ERROR_CODES.INVALID_MEDIA }
+            );
+        }
+        
+        return sticker;
+    }
+    
+    /**
+     * Replace the metadata of an existing WebP sticker
+     * @param webp WebP image
+     */
+    private tagWebp(webp: Buffer): Buffer {
+        validateSticker(webp);
+        
+        const chunks = readWebpChunks(webp);
+        const extended = chunks.find(chunk => chunk.type === 'VP8X');
+        const lossless = chunks.find(chunk => chunk.type === 'VP8L');
+        
+        let flags = extended ? extended.data[0] : 0;
+        // A simple lossless image records whether it has alpha in its own header
+        if (lossless && lossless.data.length >= 5 && (lossless.data.readUInt32LE(1) >>> 28) & 1) {
+            flags |= WEBP_FLAG_ALPHA;
+        }
+        
+        // EXIF goes after the image data and before any XMP
+        const imageChunks = chunks.filter(chunk => !['VP8X', 'EXIF', 'XMP '].includes(chunk.type));
+        const xmpChunks = chunks.filter(chunk => chunk.type === 'XMP ');
+        
+        return writeWebpContainer([
+            createVp8xChunk(flags | WEBP_FLAG_EXIF, STICKER_SIZE, STICKER_SIZE),
+            ...imageChunks,
+            this.createExifChunk(),
+            ...xmpChunks
+        ]);
+    }
+    
+    /**
+     * Build the EXIF chunk holding the sticker pack JSON
+     * The JSON is the value of a single tag in a little-endian TIFF structure
+     */
+    private createExifChunk(): WebpChunk {
+        const json = Buffer.from(JSON.stringify({
+            'sticker-pack-id': this.metadata.packId,
+            'sticker-pack-name': this.metadata.packName || '',
+            'sticker-pack-publisher': this.metadata.publisher || '',
+            'emojis': this.metadata.emojis || []
+        }), 'utf8');
+        
+        // TIFF header, then an IFD with one entry and no next IFD, then the value
+        const header = Buffer.alloc(26);
+        header.write('II', 0, 'latin1');
+        header.writeUInt16LE(42, 2);
+        header.writeUInt32LE(8, 4);
+        header.writeUInt16LE(1, 8);
+        header.writeUInt16LE(STICKER_EXIF_TAG, 10);
+        header.writeUInt16LE(EXIF_TYPE_UNDEFINED, 12);
+        header.writeUInt32LE(json.length, 14);
+        header.writeUInt32LE(header.length, 18);
+        
+        return { type: 'EXIF', data: Buffer.concat([header, json]) };
+    }
+}
+
+/**
+ * Check that a WebP image has the dimensions WhatsApp requires of stickers
+ * @param webp WebP image
+ */
+export function validateSticker(webp: Buffer): void {
+    const { width, height } = getMediaMetadata(webp, 'image/webp');
+    if (width !== STICKER_SIZE || height !== STICKER_SIZE) {
+        throw new MediaError(`WebP stickers must be ${STICKER_SIZE}x${STICKER_SIZE}, got ${width}x${height}`, { code: ERROR_CODES.INVALID_MEDIA });
+    }
+}
+
+/**
+ * Check whether a WebP sticker is animated
+ * @param sticker WebP image
+ */
+export function isAnimatedSticker(sticker: Buffer): boolean {
+    const extended = readWebpChunks(sticker).find(chunk => chunk.type === 'VP8X');
+    return !!extended && (extended.data[0] & WEBP_FLAG_ANIMATION) !== 0;
+}
+
+/**
+ * Build an ANMF chunk showing a full-canvas frame
+ * @param canvas Frame pixels, the size of the canvas
+ * @param duration Display time in milliseconds
+ * @param nearLossless Bits of color precision to drop
+ */
+function createFrameChunk(canvas: RawImage, duration: number, nearLossless: number): WebpChunk {
+    const header = Buffer.alloc(16);
+    // Offset stays at 0, 0
+    header.writeUIntLE(canvas.width - 1, 6, 3);
+    header.writeUIntLE(canvas.height - 1, 9, 3);
+    header.writeUIntLE(Math.min(Math.max(Math.round(duration), 1), MAX_FRAME_DURATION), 12, 3);
+    // Frames cover the whole canvas, so they replace the previous one instead of blending with it
+    header[15] = 0x02;
+    
+    return { type: 'ANMF', data: Buffer.concat([header, writeChunk('VP8L', encodeVp8l(canvas, { nearLossless }))]) };
+}
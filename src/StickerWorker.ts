@@ -0,0 +1,50 @@
+/**
+ * Worker thread entry that builds one sticker, see StickerBuilder.buildAsync
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { RawImage, StickerFrame, StickerWorkerRequest, StickerWorkerResult } from './Types';
+import { StickerBuilder } from './StickerBuilder';
+import { FocksupError } from './Errors';
+
+/**
+ * Turn bytes that lost their Buffer type on the way to the worker back into a Buffer
+ * @param bytes Bytes as received
+ */
+function toBuffer(bytes: Uint8Array): Buffer {
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Restore the Buffers of a frame received from the main thread
+ * @param frame Frame as received
+ */
+function restoreFrame(frame: StickerFrame): StickerFrame {
+    if (frame.image instanceof Uint8Array) {
+        return { ...frame, image: toBuffer(frame.image) };
+    }
+    
+    const image: RawImage = { ...frame.image, data: toBuffer(frame.image.data) };
+    return { ...frame, image };
+}
+
+/**
+ * Build the requested sticker and post it, or the error that stopped it, to the main thread
+ * @param request Sticker to build
+ */
+function run(request: StickerWorkerRequest): void {
+    let result: StickerWorkerResult;
+    try {
+        const builder = new StickerBuilder(request.metadata);
+        const sticker = request.frames
+            ? builder.buildAnimated(request.frames.map(restoreFrame), request.loops)
+            : builder.build(toBuffer(request.image!));
+        result = { sticker };
+    } catch (error: any) {
+        result = { error: { message: error?.message || String(error), code: error instanceof FocksupError ? error.code : undefined } };
+    }
+    
+    parentPort!.postMessage(result);
+}
+
+run(workerData);
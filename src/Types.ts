@@ -2,11 +2,19 @@
  * Type definitions for the library
  */
 
+import { Readable } from 'stream';
+
 // Client options
 export interface ClientOptions {
     restartOnConnectionLost: boolean;
+    // Reconnection attempts with a growing delay; later attempts wait maxReconnectDelay
     maxReconnectAttempts: number;
+    // Delay before the first reconnection attempt, doubled after each failed attempt
     reconnectInterval: number;
+    // Longest delay between reconnection attempts
+    maxReconnectDelay: number;
+    // Share of each delay that is randomized, from 0 to 1
+    reconnectJitter: number;
     logLevel: string;
     browser?: {
         name: string;
@@ -17,6 +25,49 @@ export interface ClientOptions {
      * Useful for environments where Puppeteer cannot be installed (e.g. Termux)
      */
     useFallbackAuth?: boolean;
+    /**
+     * Where credentials and keys are loaded from and saved to
+     * Defaults to an in-memory store
+     */
+    authStore?: AuthStateStore;
+    /**
+     * Where uploads are remembered so identical media is not uploaded again
+     * Media is always uploaded when this is not set
+     */
+    mediaCache?: MediaCacheStore;
+    /**
+     * How long a cached upload is reused, in milliseconds
+     */
+    mediaCacheTtl?: number;
+    /**
+     * Limits on downloading media given as a URL
+     */
+    mediaFetch?: MediaFetchOptions;
+    /**
+     * ISO 3166 region (e.g. 'RO', 'GB') of phone numbers given without a country code
+     * Without it, numbers must include their country code
+     */
+    defaultRegion?: string;
+    /**
+     * Where messages sent while offline wait until the connection is back
+     * Defaults to memory, so queued messages are lost if the process exits
+     */
+    sendQueue?: SendQueueStore;
+    /**
+     * WhatsApp Web WebSocket endpoint
+     * Only changed to connect to a local server, e.g. in tests
+     */
+    waWebSocketUrl?: string;
+}
+
+// Kinds of values kept in an auth state store
+export type AuthStateCategory = 'creds' | 'pre-key' | 'session' | 'sender-key' | 'app-state-sync-key';
+
+// Persistence for credentials and end-to-end encryption keys
+export interface AuthStateStore {
+    get<T = any>(category: AuthStateCategory, id: string): Promise<T | undefined>;
+    set(category: AuthStateCategory, id: string, value: any): Promise<void>;
+    delete(category: AuthStateCategory, id: string): Promise<void>;
 }
 
 // Authentication credentials
@@ -27,12 +78,54 @@ export interface AuthenticationCredentials {
     qrCode?: string;
     pairingCode?: string;
     session?: string;
+    // Static Noise keypair (base64), reused across connections
+    noiseKey?: {
+        public: string;
+        private: string;
+    };
+    // Signal identity for end-to-end encryption (base64 keys)
+    registrationId?: number;
+    signedIdentityKey?: {
+        public: string;
+        private: string;
+    };
+    signedPreKey?: {
+        keyId: number;
+        public: string;
+        private: string;
+        signature: string;
+    };
+    nextPreKeyId?: number;
+    // Account this device is linked to, known once pairing succeeds
+    me?: {
+        id: string;
+        lid?: string;
+        name?: string;
+    };
+    // Secret shared with the phone while linking (base64), which authenticates the pairing result
+    advSecretKey?: string;
+    // Device identity signed by the account (base64 ADVSignedDeviceIdentity), sent along with new sessions
+    account?: string;
     // Credențiale Puppeteer pentru autentificare prin browser
     cookies?: Array<{name: string, value: string, domain: string, path: string}>;
     localStorage?: {[key: string]: string};
     userAgent?: string;
 }
 
+// Servers a JID can belong to; c.us is the legacy name of s.whatsapp.net
+export type JidServer = 's.whatsapp.net' | 'c.us' | 'g.us' | 'broadcast' | 'newsletter' | 'lid';
+
+// Kinds of chats and accounts a JID can address
+export type JidType = 'user' | 'lid' | 'group' | 'broadcast' | 'status' | 'newsletter';
+
+// Parsed JID, e.g. 40712345678:2@s.whatsapp.net
+export interface Jid {
+    user: string;
+    server: JidServer;
+    // Linked device of a user; missing for the user's primary device and for chats
+    device?: number;
+}
+
 // Connection state
 export type ConnectionState = 'disconnected' | 'connecting' | 'authenticating' | 'connected';
 
@@ -48,6 +141,17 @@ export enum MessageType {
     LOCATION = 'location'
 }
 
+// Media types with their own media key expansion
+export type MediaKeyType = 'image' | 'video' | 'audio' | 'document' | 'sticker' | 'ptt' | 'gif';
+
+// Keys expanded from a 32-byte media key
+export interface MediaKeys {
+    iv: Buffer;
+    cipherKey: Buffer;
+    macKey: Buffer;
+    refKey: Buffer;
+}
+
 // Base message interface
 export interface Message {
     id: string;
@@ -67,6 +171,8 @@ export interface Message {
     isForwarded?: boolean;
     quotedMessageId?: string;
     groupId?: string;
+    // Delivery state of a message we sent
+    status?: SendStatus;
 }
 
 // Text message
@@ -80,6 +186,14 @@ export interface MediaMessage extends Message {
     caption?: string;
     mimetype: string;
     url: string;
+    directPath?: string;
+    // End-to-end encryption parameters (base64)
+    mediaKey?: string;
+    fileSha256?: string;
+    fileEncSha256?: string;
+    fileLength?: number;
+    // Small JPEG preview shown before the media is downloaded (base64)
+    jpegThumbnail?: string;
 }
 
 // Image message
@@ -101,6 +215,18 @@ export interface VideoMessage extends MediaMessage {
 export interface AudioMessage extends MediaMessage {
     type: MessageType.AUDIO;
     duration?: number;
+    // Voice note (push to talk) rather than an audio file
+    ptt?: boolean;
+    // Voice note waveform: 64 samples from 0 to 100 (base64)
+    waveform?: string;
+}
+
+// Sticker message
+export interface StickerMessage extends MediaMessage {
+    type: MessageType.STICKER;
+    width?: number;
+    height?: number;
+    isAnimated?: boolean;
 }
 
 // Document message
@@ -157,8 +283,88 @@ export interface PresenceUpdate {
     timestamp: number;
 }
 
+// Kind of close, which decides whether the client reconnects
+export type DisconnectReason = 'logged_out' | 'replaced' | 'server_restart' | 'network_lost';
+
+// Why the connection to WhatsApp Web closed
+export interface ConnectionCloseInfo {
+    // WebSocket close code, or the stream error code the server closed with
+    code: number;
+    reason: string;
+    disconnectReason: DisconnectReason;
+}
+
+// Deleted message
+export interface MessageRevoke {
+    id: string;
+    from: string;
+    participant?: string;
+}
+
+// Message that arrived but could not be decrypted
+export interface DecryptionFailure {
+    id: string;
+    from: string;
+    error: unknown;
+}
+
+// Events emitted by FocksupClient, with the arguments passed to their listeners
+export interface FocksupClientEvents {
+    connecting: [];
+    connection_failed: [error: Error];
+    auth_method_required: [];
+    // QR code as a data URL, and the raw data it encodes
+    qr: [qrCode: string, qrData: string];
+    pairing_code: [code: string];
+    authenticated: [];
+    auth_failure: [error: Error];
+    ready: [];
+    // Without a close reason when disconnect() was called
+    disconnected: [reason?: ConnectionCloseInfo];
+    // Milliseconds until the attempt starts
+    reconnecting: [attempt: number, delay: number];
+    reconnected: [];
+    reconnect_failed: [];
+    message: [message: Message];
+    message_create: [message: Message];
+    message_revoke: [revoke: MessageRevoke];
+    decryption_failed: [failure: DecryptionFailure];
+    group_update: [update: GroupUpdate];
+    presence_update: [update: PresenceUpdate];
+    media_progress: [progress: MediaProgress];
+    send_status: [update: SendStatusUpdate];
+}
+
+// What client.events() yields for an event: the single argument, or all of them as a tuple
+export type FocksupEventPayload<E extends keyof FocksupClientEvents> =
+    FocksupClientEvents[E] extends [] ? undefined :
+    FocksupClientEvents[E] extends [infer Payload] ? Payload :
+    FocksupClientEvents[E] extends [(infer Payload)?] ? Payload | undefined :
+    FocksupClientEvents[E];
+
+// Media to send: bytes, a stream, an http(s), data: or file:// URL, or a file path
+export type MediaInput = Buffer | Uint8Array | ArrayBuffer | Readable | string;
+
+// Limits on downloading media given as a URL
+export interface MediaFetchOptions {
+    // Largest download accepted, in bytes
+    maxSize?: number;
+    // Time allowed for the whole download, in milliseconds
+    timeout?: number;
+    // Redirects followed before giving up
+    maxRedirects?: number;
+}
+
+// How a message is addressed and delivered
+export interface DeliveryOptions {
+    // ID to send the message with; a message whose ID was already sent or queued is not sent again
+    messageId?: string;
+    // Phone numbers or JIDs receiving the message; required for broadcast lists and the status (status@broadcast)
+    recipients?: (string | Jid)[];
+}
+
 // Message send options
-export interface MessageSendOptions {
+export interface MessageSendOptions extends DeliveryOptions {
     quoted?: Message;
     mentions?: string[];
     scheduled?: number;
@@ -170,6 +376,172 @@ export interface MediaUploadOptions {
     filename?: string;
     caption?: string;
     mimetype?: string;
+    // Selects the media key expansion; derived from the mimetype when omitted
+    mediaType?: MediaKeyType;
+}
+
+// Stage of a media transfer
+export type MediaTransferPhase = 'encrypting' | 'uploading' | 'sending' | 'downloading';
+
+// Progress of a media transfer; total is missing when the size is not known in advance
+export interface MediaProgress {
+    messageId: string;
+    phase: MediaTransferPhase;
+    bytes: number;
+    total?: number;
+}
+
+// Progress reporting and cancellation for media sends and downloads
+export interface MediaTransferOptions {
+    onProgress?: (progress: MediaProgress) => void;
+    signal?: AbortSignal;
+}
+
+// Options for sending media
+export interface MediaSendOptions extends MediaTransferOptions, DeliveryOptions {
+    // Declared type of the media; detected from its content when omitted
+    mimetype?: string;
+    // Reject media whose declared type disagrees with its content instead of only warning
+    strictMimetype?: boolean;
+    // JPEG or PNG preview image; required for video previews, replaces the generated one for images
+    thumbnail?: Buffer;
+}
+
+// Sticker pack information embedded in a sticker's EXIF metadata
+export interface StickerMetadata {
+    packName?: string;
+    publisher?: string;
+    // Emojis describing the sticker, which WhatsApp uses to categorize and search it
+    emojis?: string[];
+    // Identifier shared by the stickers of a pack; random when omitted
+    packId?: string;
+}
+
+// Frame of an animated sticker
+export interface StickerFrame {
+    image: Buffer | RawImage;
+    // Display time in milliseconds
+    duration: number;
+}
+
+// Sticker to build on a worker thread, with the pack metadata to embed
+export interface StickerWorkerRequest {
+    metadata: StickerMetadata;
+    image?: Buffer;
+    // Set for an animated sticker instead of image
+    frames?: StickerFrame[];
+    loops?: number;
+}
+
+// Answer of a sticker worker: the sticker, or the error that stopped it
+export interface StickerWorkerResult {
+    sticker?: Uint8Array;
+    error?: { message: string, code?: string };
+}
+
+// Options for sending a sticker
+export interface StickerSendOptions extends MediaSendOptions, StickerMetadata {}
+
+// Uploaded, encrypted media as referenced from a message (base64 hashes and key)
+export interface MediaUploadResult {
+    url: string;
+    directPath?: string;
+    mediaKey: string;
+    fileSha256: string;
+    fileEncSha256: string;
+    fileLength: number;
+}
+
+// Upload kept in the media cache
+export interface MediaCacheEntry extends MediaUploadResult {
+    // Unix time in milliseconds after which the upload is no longer reused
+    expiresAt: number;
+}
+
+// Persistence for the media cache, keyed by media type and file SHA-256
+export interface MediaCacheStore {
+    get(key: string): Promise<MediaCacheEntry | undefined>;
+    set(key: string, entry: MediaCacheEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+// Delivery state of an outgoing message: waiting in the send queue, being sent,
+// accepted by the server, or rejected for good
+export type SendStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+// Outgoing message kept in the send queue until the server accepts it
+export interface QueuedMessage {
+    id: string;
+    jid: string;
+    // Unencrypted message content; it is encrypted when sent, so sessions started while offline are used
+    content: any;
+    // Additional attributes of the message stanza
+    extra: { [key: string]: string };
+    // Recipient JIDs of broadcast list and status messages
+    recipients?: string[];
+    // Position in the queue; messages are sent in this order
+    sequence: number;
+    queuedAt: number;
+}
+
+// Change in the delivery state of an outgoing message
+export interface SendStatusUpdate {
+    id: string;
+    jid: string;
+    status: SendStatus;
+    // Why the message failed, or why sending it was put off
+    error?: Error;
+}
+
+// Persistence for the send queue, keyed by message ID
+export interface SendQueueStore {
+    list(): Promise<QueuedMessage[]>;
+    set(message: QueuedMessage): Promise<void>;
+    delete(id: string): Promise<void>;
+}
+
+// Dimensions and duration read from media headers
+export interface MediaMetadata {
+    width?: number;
+    height?: number;
+    // Duration in seconds
+    duration?: number;
+}
+
+// Decoded image as 8-bit RGBA pixels, row by row
+export interface RawImage {
+    width: number;
+    height: number;
+    data: Buffer;
+}
+
+// Raw Curve25519 keypair
+export interface KeyPair {
+    public: Buffer;
+    private: Buffer;
+}
+
+// Pre-key bundle published by a remote device
+export interface PreKeyBundle {
+    registrationId: number;
+    identityKey: Buffer;
+    signedPreKey: {
+        keyId: number;
+        publicKey: Buffer;
+        signature: Buffer;
+    };
+    preKey?: {
+        keyId: number;
+        publicKey: Buffer;
+    };
+}
+
+// Binary protocol node
+export interface BinaryNode {
+    tag: string;
+    attrs: { [key: string]: string };
+    // Child nodes or raw bytes; text content is carried as UTF-8 bytes
+    content?: BinaryNode[] | Buffer;
 }
 
 // QR code options
@@ -3,14 +3,21 @@
  */
 
 import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { FocksupError } from './Errors';
+import { phoneNumberToJid } from './PhoneNumber';
+import { parseJid, isGroupJid } from './Jid';
+import { Jid } from './Types';
+import { ERROR_CODES } from './Constants';
 
 /**
  * Create a logger with the specified level
  * @param namespace Logger namespace
- * @param level Log level
+ * @param level Log level; 'silent' logs nothing
  */
 export function createLogger(namespace: string, level: string = 'info') {
-    const logLevels = ['debug', 'info', 'warn', 'error'];
+    const logLevels = ['debug', 'info', 'warn', 'error', 'silent'];
     const levelIndex = logLevels.indexOf(level);
     
     return {
@@ -47,52 +54,32 @@ export function generateRandomId(length: number = 16): string {
 
 /**
  * Validate a phone number
+ * @deprecated Use phoneNumberToJid
  * @param phoneNumber Phone number to validate
+ * @param defaultRegion ISO 3166 region that numbers without a calling code belong to
  */
-export function validatePhoneNumber(phoneNumber: string): string {
-    // Remove any non-numeric characters
-    let cleaned = phoneNumber.replace(/\D/g, '');
-    
-    // Ensure the number has a country code
-    if (cleaned.startsWith('0')) {
-        cleaned = '62' + cleaned.substring(1);
-    }
-    
-    // If no country code is there, assume Indonesia (62)
-    if (cleaned.length <= 10) {
-        cleaned = '62' + cleaned;
-    }
-    
-    // Append @c.us suffix for WhatsApp formatting
-    return cleaned + '@c.us';
+export function validatePhoneNumber(phoneNumber: string | Jid, defaultRegion?: string): string {
+    return phoneNumberToJid(phoneNumber, defaultRegion);
 }
 
 /**
  * Extract phone number from JID
  * @param jid WhatsApp JID
  */
-export function extractPhoneNumber(jid: string): string {
-    return jid.split('@')[0];
-}
-
-/**
- * Check if a JID is a group
- * @param jid WhatsApp JID
- */
-export function isGroupJid(jid: string): boolean {
-    return jid.endsWith('@g.us');
+export function extractPhoneNumber(jid: string | Jid): string {
+    return parseJid(jid).user;
 }
 
 /**
  * Convert a group JID to an invite link
  * @param groupId Group JID
  */
-export function groupJidToInviteLink(groupId: string): string {
+export function groupJidToInviteLink(groupId: string | Jid): string {
     if (!isGroupJid(groupId)) {
-        throw new Error('Not a valid group JID');
+        throw new FocksupError(`Not a valid group JID: ${typeof groupId === 'string' ? groupId : groupId.user}`, { code: ERROR_CODES.INVALID_JID });
     }
     
-    const code = Buffer.from(groupId.replace('@g.us', '')).toString('base64');
+    const code = Buffer.from(parseJid(groupId).user).toString('base64');
     return `https://chat.whatsapp.com/${code}`;
 }
 
@@ -104,6 +91,48 @@ export function delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/**
+ * Create a lock that runs async tasks one at a time for each key
+ * Tasks for different keys still run concurrently
+ */
+export function createKeyedMutex() {
+    const queues = new Map<string, Promise<void>>();
+    
+    return <T>(key: string, task: () => Promise<T>): Promise<T> => {
+        const previous = queues.get(key) || Promise.resolve();
+        const result = previous.then(task);
+        const tail = result.then(() => undefined, () => undefined);
+        
+        queues.set(key, tail);
+        tail.then(() => {
+            if (queues.get(key) === tail) {
+                queues.delete(key);
+            }
+        });
+        
+        return result;
+    };
+}
+
+/**
+ * Write a file so that a crash never leaves it half-written
+ * The data goes to a temporary file next to it first, which then replaces the file in one rename
+ * @param filePath File to write; its directory is created if needed
+ * @param data File contents
+ */
+export async function writeFileAtomic(filePath: string, data: string | Buffer): Promise<void> {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    
+    const tempPath = `${filePath}.${generateRandomId(4)}.tmp`;
+    try {
+        await fs.promises.writeFile(tempPath, data, { mode: 0o600 });
+        await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.promises.unlink(tempPath).catch(() => undefined);
+        throw error;
+    }
+}
+
 /**
  * Convert buffer to base64 string
  * @param buffer Buffer to convert
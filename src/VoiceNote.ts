@@ -0,0 +1,184 @@
+/**
+ * Voice note support: OGG/Opus validation and waveform generation
+ * Decoding Opus would need a full codec, so the waveform is estimated from packet sizes:
+ * Opus is variable bitrate by default, so louder, busier speech takes more bytes per
+ * millisecond than quiet passages, and silence is coded in a byte or two
+ * Constant bitrate audio (e.g. ffmpeg -vbr off) has no such variation and gets a flat waveform
+ */
+
+import { detectMimetype } from './MimeType';
+import { MediaError } from './Errors';
+import { ERROR_CODES, VOICE_NOTE_MIMETYPE, WAVEFORM_SAMPLES, WAVEFORM_MAX_VALUE } from './Constants';
+
+// Opus frame durations in tenths of a millisecond for each TOC configuration:
+// SILK (0-11) and hybrid (12-15) modes, then CELT (16-31)
+const OPUS_FRAME_DURATIONS = [
+    100, 200, 400, 600, 100, 200, 400, 600, 100, 200, 400, 600,
+    100, 200, 100, 200,
+    25, 50, 100, 200, 25, 50, 100, 200, 25, 50, 100, 200, 25, 50, 100, 200
+];
+
+// Bitrates within this fraction of each other count as constant: the sizes then carry no loudness
+const CONSTANT_BITRATE_TOLERANCE = 0.05;
+// Level of the flat waveform shown for constant bitrate audio, which WhatsApp draws as plain speech
+const FLAT_WAVEFORM_VALUE = 50;
+
+interface OpusPacket {
+    // Duration in tenths of a millisecond
+    duration: number;
+    size: number;
+}
+
+/**
+ * Check that audio can be sent as a voice note, which WhatsApp plays only as OGG/Opus
+ * @param audio Audio file contents
+ */
+export function validateVoiceNote(audio: Buffer): void {
+    const detected = detectMimetype(audio);
+    if (detected !== VOICE_NOTE_MIMETYPE) {
+        throw new MediaError(`Voice notes must be OGG/Opus audio, got ${detected || 'an unrecognised format'}`, { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    if (readOpusPackets(audio).length === 0) {
+        throw new MediaError('Voice note contains no Opus audio', { code: ERROR_CODES.INVALID_MEDIA });
+    }
+}
+
+/**
+ * Generate the waveform WhatsApp shows for a voice note
+ * Each sample is the relative bitrate of one slice of the recording, scaled so the loudest is 100
+ * Constant bitrate audio gets a flat waveform instead, as every slice would come out at 100
+ * @param audio OGG/Opus file contents
+ * @param samples Number of samples
+ */
+export function generateWaveform(audio: Buffer, samples: number = WAVEFORM_SAMPLES): Buffer {
+    const packets = readOpusPackets(audio);
+    const total = packets.reduce((sum, packet) => sum + packet.duration, 0);
+    const waveform = Buffer.alloc(samples);
+    if (total === 0) {
+        return waveform;
+    }
+    
+    if (isConstantBitrate(packets)) {
+        return waveform.fill(FLAT_WAVEFORM_VALUE);
+    }
+    
+    // Spread each packet's bitrate over the slices its time span overlaps
+    const levels = new Float64Array(samples);
+    const weights = new Float64Array(samples);
+    const sliceLength = total / samples;
+    let start = 0;
+    
+    for (const packet of packets) {
+        const end = start + packet.duration;
+        const rate = packet.size / packet.duration;
+        
+        for (let slice = Math.floor(start / sliceLength); slice < samples && slice * sliceLength < end; slice++) {
+            const overlap = Math.min(end, (slice + 1) * sliceLength) - Math.max(start, slice * sliceLength);
+            if (overlap > 0) {
+                levels[slice] += rate * overlap;
+                weights[slice] += overlap;
+            }
+        }
+        
+        start = end;
+    }
+    
+    const averages = Array.from(levels, (level, slice) => weights[slice] ? level / weights[slice] : 0);
+    const loudest = averages.reduce((max, average) => Math.max(max, average), 0);
+    
+    averages.forEach((average, slice) => {
+        waveform[slice] = loudest > 0 ? Math.round(average / loudest * WAVEFORM_MAX_VALUE) : 0;
+    });
+    
+    return waveform;
+}
+
+/**
+ * Check whether every packet has about the same bitrate, as with a constant bitrate encoder
+ * Variable bitrate audio always has quieter passages, at least silence between words, that take fewer bytes
+ * @param packets Opus packets
+ */
+function isConstantBitrate(packets: OpusPacket[]): boolean {
+    // A loop rather than Math.max(...rates), which runs out of stack on long recordings
+    let highest = 0;
+    let lowest = Infinity;
+    for (const packet of packets) {
+        const rate = packet.size / packet.duration;
+        highest = Math.max(highest, rate);
+        lowest = Math.min(lowest, rate);
+    }
+    
+    return highest - lowest <= highest * CONSTANT_BITRATE_TOLERANCE;
+}
+
+/**
+ * Extract the audio packets of the first Opus stream in an OGG file
+ * The identification and comment header packets are skipped
+ * @param data OGG file contents
+ */
+function readOpusPackets(data: Buffer): OpusPacket[] {
+    const packets: OpusPacket[] = [];
+    let serial: number | undefined;
+    let headerPackets = 0;
+    let partial: Buffer[] = [];
+    let offset = 0;
+    
+    while (offset + 27 <= data.length && data.toString('latin1', offset, offset + 4) === 'OggS') {
+        const segmentCount = data[offset + 26];
+        const pageSerial = data.readUInt32LE(offset + 14);
+        const segmentTable = data.subarray(offset + 27, offset + 27 + segmentCount);
+        let position = offset + 27 + segmentCount;
+        
+        if (serial === undefined) {
+            serial = pageSerial;
+        }
+        
+        for (const size of segmentTable) {
+            if (pageSerial === serial) {
+                partial.push(data.subarray(position, position + size));
+                
+                // A segment shorter than 255 bytes ends the packet; longer packets continue in the next segment
+                if (size < 255) {
+                    const packet = Buffer.concat(partial);
+                    partial = [];
+                    
+                    if (headerPackets < 2) {
+                        headerPackets++;
+                    } else if (packet.length > 0) {
+                        const duration = getOpusPacketDuration(packet);
+                        if (duration > 0) {
+                            packets.push({ duration, size: packet.length });
+                        }
+                    }
+                }
+            }
+            
+            position += size;
+        }
+        
+        offset = position;
+    }
+    
+    return packets;
+}
+
+/**
+ * Duration of an Opus packet from its table-of-contents byte
+ * @param packet Opus packet
+ */
+function getOpusPacketDuration(packet: Buffer): number {
+    const frameDuration = OPUS_FRAME_DURATIONS[packet[0] >> 3];
+    const frameCountCode = packet[0] & 0x03;
+    
+    let frameCount: number;
+    if (frameCountCode === 0) {
+        frameCount = 1;
+    } else if (frameCountCode === 3) {
+        frameCount = packet.length > 1 ? packet[1] & 0x3F : 0;
+    } else {
+        frameCount = 2;
+    }
+    
+    return frameDuration * frameCount;
+}
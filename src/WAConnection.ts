@@ -2,20 +2,74 @@
  * WhatsApp Web connection manager
  */
 
+import crypto from 'crypto';
 import EventEmitter from 'events';
 import WebSocket from 'ws';
-import { ClientOptions, AuthenticationCredentials } from './Types';
-import { parseMessageNode, generateMessageTag } from './WAProtocol';
-import { encrypt, decrypt, generateKeypair } from './Crypto';
+import { ClientOptions, AuthenticationCredentials, BinaryNode, GroupUpdate, KeyPair, PresenceUpdate } from './Types';
+import {
+    generateMessageTag,
+    encodeBinaryNode,
+    decodeBinaryNode,
+    getBinaryNodeChild,
+    getBinaryNodeChildren,
+    getBinaryNodeChildBuffer,
+    createLoginPayload,
+    createRegistrationPayload,
+    getDevicePlatform
+} from './WAProtocol';
+import {
+    generateCurveKeyPair,
+    generateRandomKey,
+    sharedCurveKey,
+    hkdf,
+    hmacSha256,
+    aesEncryptGCM,
+    aesEncryptCTR,
+    aesDecryptCTR,
+    derivePairingCodeKey,
+    calculateSignature,
+    verifySignature
+} from './Crypto';
+import { encodeProto, decodeProto, getProtoBytes, getProtoNumber } from './Protobuf';
+import { NoiseTransport } from './NoiseTransport';
+import { hasSignalIdentity, generateSignalCredentials, getSignalIdentity, SignalMessageType } from './SignalProtocol';
+import { phoneNumberToJid } from './PhoneNumber';
 import { 
     DEFAULT_WA_WEB_URL, 
     DEFAULT_WA_WEB_VERSION,
-    KEEP_ALIVE_INTERVAL_MS
+    DEFAULT_ORIGIN,
+    S_WHATSAPP_NET,
+    KEEP_ALIVE_INTERVAL_MS,
+    DISCONNECT_CODES,
+    AUTH_TIMEOUT,
+    QR_INITIAL_REF_TIMEOUT,
+    QR_REF_TIMEOUT,
+    PAIRING_CODE_ALPHABET,
+    PAIRING_CODE_LENGTH,
+    WA_ADV_ACCOUNT_SIG_PREFIX,
+    WA_ADV_DEVICE_SIG_PREFIX
 } from './Constants';
-import { createLogger } from './Utils';
+import { createLogger, bufferToBase64 } from './Utils';
+import { classifyDisconnect } from './Reconnection';
+import { ConnectionError, AuthError, TimeoutError, ProtocolError, createServerError, toFocksupError } from './Errors';
+import { ERROR_CODES } from './Constants';
+
+// ADVSignedDeviceIdentityHMAC field numbers
+const ADV_HMAC_DETAILS = 1;
+const ADV_HMAC_HMAC = 2;
+
+// ADVSignedDeviceIdentity field numbers
+const ADV_IDENTITY_DETAILS = 1;
+const ADV_IDENTITY_ACCOUNT_SIGNATURE_KEY = 2;
+const ADV_IDENTITY_ACCOUNT_SIGNATURE = 3;
+const ADV_IDENTITY_DEVICE_SIGNATURE = 4;
+
+// ADVDeviceIdentity field numbers
+const ADV_DEVICE_KEY_INDEX = 3;
 
 export class WAConnection extends EventEmitter {
     private ws: WebSocket | null = null;
+    private transport: NoiseTransport | null = null;
     private options: ClientOptions;
     private credentials?: AuthenticationCredentials;
     private authState: 'disconnected' | 'connecting' | 'authenticating' | 'connected' = 'disconnected';
@@ -23,7 +77,16 @@ export class WAConnection extends EventEmitter {
     private authResolve?: () => void;
     private authReject?: (err: Error) => void;
     private keepAliveInterval?: NodeJS.Timeout;
+    // Stream error the server sent before closing, which says more than the WebSocket close code
+    private streamError?: { code: number, reason: string };
     private msgRetryCache: Map<string, { resolve: Function, reject: Function }> = new Map();
+    // Refs the server handed out for QR codes while pairing; the first one is shown
+    private qrRefs: string[] = [];
+    private qrTimer?: NodeJS.Timeout;
+    // Pairing code being linked with, and the ephemeral keypair it wraps
+    private pairingCode?: { code: string, jid: string, ephemeralKeyPair: KeyPair };
+    // Set once the phone linked this device, as the server then restarts the stream
+    private restartAfterPairing = false;
     private logger: ReturnType<typeof createLogger>;
     
     constructor(options: ClientOptions) {
@@ -38,7 +101,7 @@ export class WAConnection extends EventEmitter {
      */
     async connect(credentials?: AuthenticationCredentials): Promise<void> {
         if (this.ws) {
-            throw new Error('Connection already exists');
+            throw new ConnectionError('Connection already exists', { retryable: false });
         }
         
         // Salvăm credențialele dacă sunt furnizate
@@ -57,10 +120,17 @@ export class WAConnection extends EventEmitter {
         
         try {
             this.authState = 'connecting';
-            this.ws = new WebSocket(DEFAULT_WA_WEB_URL);
+            this.ws = new WebSocket(this.options.waWebSocketUrl || DEFAULT_WA_WEB_URL, { origin: DEFAULT_ORIGIN });
             
             this.setupWebSocketListeners();
             
+            // A linked device logs in with the handshake, and the server answers with success or failure
+            const loggingIn = !!this.credentials?.me;
+            if (loggingIn && !this.authPromise) {
+                this.setupAuthenticationPromise();
+            }
+            const login = this.authPromise;
+            
             // Initialize the connection
             await this.waitForOpen();
             await this.initializeConnection();
@@ -68,16 +138,17 @@ export class WAConnection extends EventEmitter {
             // Start keep-alive interval
             this.startKeepAlive();
             
-            this.logger.info('Successfully connected to WhatsApp Web');
-            
-            // Dacă avem credențiale de autentificare, le folosim
-            if (credentials) {
-                await this.authenticate(credentials);
+            if (loggingIn) {
+                await login;
             }
+            
+            this.logger.info('Successfully connected to WhatsApp Web');
         } catch (error) {
             this.logger.error('Failed to connect:', error);
+            const failure = toFocksupError(error, ERROR_CODES.CONNECTION_REFUSED, ConnectionError);
+            this.failAuthentication(failure);
             await this.disconnect();
-            throw error;
+            throw failure;
         }
     }
     
@@ -86,18 +157,15 @@ export class WAConnection extends EventEmitter {
      * @param credentials Authentication credentials
      */
     async connectWithCredentials(credentials: AuthenticationCredentials): Promise<void> {
+        if (!credentials.me && !(credentials.cookies && credentials.localStorage)) {
+            throw new AuthError('Credentials do not belong to a linked device', { retryable: false });
+        }
+        
         try {
-            await this.connect();
-            this.credentials = credentials;
-            
-            // Authenticate with saved credentials
-            await this.authenticate(credentials);
-            
-            this.authState = 'connected';
-            this.emit('open');
+            await this.connect(credentials);
         } catch (error) {
             this.logger.error('Failed to connect with credentials:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
         }
     }
     
@@ -121,83 +189,89 @@ export class WAConnection extends EventEmitter {
             this.ws = null;
         }
         
+        if (this.transport) {
+            this.transport.abort(new ConnectionError('Connection closed'));
+            this.transport.removeAllListeners();
+            this.transport = null;
+        }
+        
         this.authState = 'disconnected';
-        this.msgRetryCache.clear();
+        this.resetPairing();
+        this.failAuthentication(new AuthError('Connection closed', { code: ERROR_CODES.CONNECTION_CLOSED }));
+        this.rejectPendingRequests(new ConnectionError('Connection closed', { code: ERROR_CODES.CONNECTION_CLOSED }));
     }
     
     /**
-     * Request a QR code for authentication
+     * Wait for the server to start pairing and get the data to show in a QR code
+     * Later QR codes, shown once the first one expires, are emitted as 'qr_update'
      */
     async requestQRCode(): Promise<string> {
-        if (this.authState !== 'connecting') {
-            throw new Error('Connection is not in the correct state for QR code request');
+        if (this.authState !== 'connecting' || this.credentials?.me) {
+            throw new AuthError('Connection is not in the correct state for QR code request');
         }
         
         try {
-            // Generate keypair for authentication
-            const { public: publicKey, private: privateKey } = await generateKeypair();
-            
-            // Request QR code
-            const response = await this.sendRequest({
-                tag: 'request_qr',
-                data: {
-                    publicKey
-                }
-            });
-            
-            // Store credentials (partial, until authenticated)
-            this.credentials = {
-                publicKey,
-                privateKey,
-                serverPublicKey: response.serverPublicKey,
-                qrCode: response.qrCode
-            };
+            await this.waitForPairDevice();
             
             this.authState = 'authenticating';
             this.setupAuthenticationPromise();
             
-            return response.qrCode;
+            return this.getQRData(this.qrRefs[0]);
         } catch (error) {
             this.logger.error('Failed to request QR code:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
         }
     }
     
     /**
-     * Request a pairing code for authentication
+     * Ask the server for a pairing code that links this device to a phone number
+     * The code is entered on the phone instead of scanning a QR code
+     * @param phoneNumber Phone number of the account to link to
      */
-    async requestPairingCode(): Promise<string> {
-        if (this.authState !== 'connecting') {
-            throw new Error('Connection is not in the correct state for pairing code request');
+    async requestPairingCode(phoneNumber: string): Promise<string> {
+        if (this.authState !== 'connecting' || this.credentials?.me) {
+            throw new AuthError('Connection is not in the correct state for pairing code request');
         }
         
         try {
-            // Generate keypair for authentication
-            const { public: publicKey, private: privateKey } = await generateKeypair();
-            
-            // Request pairing code
-            const response = await this.sendRequest({
-                tag: 'request_pairing_code',
-                data: {
-                    publicKey
-                }
-            });
+            const jid = phoneNumberToJid(phoneNumber, this.options.defaultRegion);
+            await this.waitForPairDevice();
             
-            // Store credentials (partial, until authenticated)
-            this.credentials = {
-                publicKey,
-                privateKey,
-                serverPublicKey: response.serverPublicKey,
-                pairingCode: response.pairingCode
-            };
+            const code = Array.from(crypto.randomBytes(PAIRING_CODE_LENGTH))
+                .map(byte => PAIRING_CODE_ALPHABET[byte % PAIRING_CODE_ALPHABET.length])
+                .join('');
+            const ephemeralKeyPair = generateCurveKeyPair();
+            this.pairingCode = { code, jid, ephemeralKeyPair };
             
             this.authState = 'authenticating';
             this.setupAuthenticationPromise();
             
-            return response.pairingCode;
+            const browser = this.getBrowser();
+            const { os, platformType } = getDevicePlatform(browser);
+            await this.query({
+                tag: 'iq',
+                attrs: { to: S_WHATSAPP_NET, type: 'set', xmlns: 'md' },
+                content: [{
+                    tag: 'link_code_companion_reg',
+                    attrs: { jid, stage: 'companion_hello', should_show_push_notification: 'true' },
+                    content: [
+                        {
+                            tag: 'link_code_pairing_wrapped_companion_ephemeral_pub',
+                            attrs: {},
+                            content: await wrapPairingKey(code, ephemeralKeyPair.public)
+                        },
+                        { tag: 'companion_server_auth_key_pub', attrs: {}, content: this.getNoiseKeyPair().public },
+                        { tag: 'companion_platform_id', attrs: {}, content: Buffer.from(String(platformType)) },
+                        { tag: 'companion_platform_display', attrs: {}, content: Buffer.from(`${browser.name} (${os})`) },
+                        { tag: 'link_code_pairing_nonce', attrs: {}, content: Buffer.from('0') }
+                    ]
+                }]
+            });
+            
+            return code;
         } catch (error) {
             this.logger.error('Failed to request pairing code:', error);
-            throw error;
+            throw toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError);
         }
     }
     
@@ -206,7 +280,7 @@ export class WAConnection extends EventEmitter {
      */
     async waitForAuthentication(): Promise<void> {
         if (this.authState !== 'authenticating') {
-            throw new Error('Not in authentication state');
+            throw new AuthError('Not in authentication state');
         }
         
         if (!this.authPromise) {
@@ -224,51 +298,58 @@ export class WAConnection extends EventEmitter {
     }
     
     /**
-     * Send a message to WhatsApp server
-     * @param message Message to send
+     * Merge new values into the credentials
+     * @param update Credential fields to update
      */
-    async send(message: any): Promise<void> {
-        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-            throw new Error('WebSocket connection is not open');
+    updateCredentials(update: Partial<AuthenticationCredentials>): void {
+        this.credentials = {
+            ...this.credentials,
+            ...update
+        };
+        
+        this.emit('creds_update', update);
+    }
+    
+    /**
+     * Check whether the connection is authenticated and open, so messages can be sent right now
+     */
+    isConnected(): boolean {
+        return this.authState === 'connected' && this.ws?.readyState === WebSocket.OPEN && !!this.transport?.isReady();
+    }
+    
+    /**
+     * Send a binary node to WhatsApp server
+     * @param node Node to send
+     */
+    async sendNode(node: BinaryNode): Promise<void> {
+        if (!this.ws || this.ws.readyState !== WebSocket.OPEN || !this.transport?.isReady()) {
+            throw new ConnectionError('WebSocket connection is not open', { code: ERROR_CODES.NOT_CONNECTED });
         }
         
         try {
-            const serialized = JSON.stringify(message);
-            const encrypted = this.credentials?.serverPublicKey 
-                ? encrypt(serialized, this.credentials.serverPublicKey) 
-                : serialized;
-                
-            this.ws.send(encrypted);
+            await this.transport.send(encodeBinaryNode(node));
         } catch (error) {
-            this.logger.error('Failed to send message:', error);
-            throw error;
+            this.logger.error('Failed to send node:', error);
+            throw toFocksupError(error, ERROR_CODES.CONNECTION_LOST, ConnectionError);
         }
     }
     
     /**
-     * Send a request and wait for response
-     * @param request Request data
+     * Send a binary node and wait for the node answering its id
+     * @param node Node to send
      * @param timeout Timeout in milliseconds
      */
-    async sendRequest(request: any, timeout = 30000): Promise<any> {
-        const tag = request.tag || generateMessageTag();
-        
-        // Add tag to request
-        const taggedRequest = {
-            ...request,
-            tag
-        };
+    async query(node: BinaryNode, timeout = 30000): Promise<BinaryNode> {
+        const tag = node.attrs.id || generateMessageTag();
         
         return new Promise((resolve, reject) => {
-            // Setup timeout
             const timeoutId = setTimeout(() => {
                 this.msgRetryCache.delete(tag);
-                reject(new Error(`Request ${tag} timed out after ${timeout}ms`));
+                reject(new TimeoutError(`Query ${tag} timed out after ${timeout}ms`, { tag }));
             }, timeout);
             
-            // Store callbacks in cache
             this.msgRetryCache.set(tag, {
-                resolve: (result: any) => {
+                resolve: (result: BinaryNode) => {
                     clearTimeout(timeoutId);
                     this.msgRetryCache.delete(tag);
                     resolve(result);
@@ -280,43 +361,85 @@ export class WAConnection extends EventEmitter {
                 }
             });
             
-            // Send the request
-            this.send(taggedRequest).catch(err => {
+            this.sendNode({ ...node, attrs: { ...node.attrs, id: tag } }).catch(err => {
                 clearTimeout(timeoutId);
                 this.msgRetryCache.delete(tag);
-                reject(err);
+                reject(new ConnectionError(`Failed to send query ${tag}: ${err.message}`, { code: err.code, tag, cause: err }));
             });
         });
     }
     
     /**
-     * Initialize the WebSocket connection
+     * Initialize the WebSocket connection with a Noise handshake
      */
     private async initializeConnection(): Promise<void> {
-        // Send initialization message
-        await this.send({
-            type: 'init',
-            version: DEFAULT_WA_WEB_VERSION,
-            browser: this.options.browser || {
-                name: 'Chrome',
-                version: '96.0.4664.110'
-            }
-        });
+        const ws = this.ws;
+        if (!ws) {
+            throw new ConnectionError('WebSocket is not initialized', { retryable: false });
+        }
+        
+        this.transport = new NoiseTransport(
+            { send: (data: Buffer) => ws.send(data) },
+            { staticKeyPair: this.getNoiseKeyPair(), logLevel: this.options.logLevel }
+        );
+        
+        this.transport.on('frame', (frame: Buffer) => this.handleFrame(frame));
+        this.transport.on('error', (error: Error) => this.emit('connection_error', error));
+        
+        // The client payload travels encrypted in the final handshake message
+        await this.transport.handshake(this.createClientPayload());
     }
     
     /**
-     * Authenticate with credentials
-     * @param credentials Authentication credentials
+     * Create the client payload: a login for a linked device, otherwise the registration of a new one
      */
-    private async authenticate(credentials: AuthenticationCredentials): Promise<void> {
-        // Send authentication request
-        await this.send({
-            type: 'auth',
-            credentials: {
-                publicKey: credentials.publicKey,
-                // Other credential information needed for authentication
-            }
-        });
+    private createClientPayload(): Buffer {
+        const browser = this.getBrowser();
+        
+        if (this.credentials?.me) {
+            return createLoginPayload(DEFAULT_WA_WEB_VERSION, browser, this.credentials.me.id);
+        }
+        
+        // Registration hands the Signal identity to the server, so it is created first
+        if (!hasSignalIdentity(this.credentials)) {
+            this.updateCredentials(generateSignalCredentials());
+        }
+        if (!this.credentials!.advSecretKey) {
+            this.updateCredentials({ advSecretKey: generateRandomKey(32).toString('base64') });
+        }
+        
+        return createRegistrationPayload(DEFAULT_WA_WEB_VERSION, browser, getSignalIdentity(this.credentials!));
+    }
+    
+    /**
+     * Get the browser this device identifies as
+     */
+    private getBrowser(): { name: string, version: string } {
+        return this.options.browser || {
+            name: 'Chrome',
+            version: '96.0.4664.110'
+        };
+    }
+    
+    /**
+     * Get the static Noise keypair, creating one on first connection
+     */
+    private getNoiseKeyPair(): { public: Buffer, private: Buffer } {
+        if (!this.credentials?.noiseKey) {
+            const keyPair = generateCurveKeyPair();
+            this.updateCredentials({
+                noiseKey: {
+                    public: keyPair.public.toString('base64'),
+                    private: keyPair.private.toString('base64')
+                }
+            });
+        }
+        
+        const noiseKey = this.credentials!.noiseKey!;
+        return {
+            public: Buffer.from(noiseKey.public, 'base64'),
+            private: Buffer.from(noiseKey.private, 'base64')
+        };
     }
     
     /**
@@ -327,6 +450,32 @@ export class WAConnection extends EventEmitter {
             this.authResolve = resolve;
             this.authReject = reject;
         });
+        
+        // It may fail before anyone waits for it
+        this.authPromise.catch(() => undefined);
+    }
+    
+    /**
+     * Resolve the pending authentication, if any
+     */
+    private completeAuthentication(): void {
+        const resolve = this.authResolve;
+        this.authPromise = undefined;
+        this.authResolve = undefined;
+        this.authReject = undefined;
+        resolve?.();
+    }
+    
+    /**
+     * Fail the pending authentication, if any
+     * @param error Reason authentication failed
+     */
+    private failAuthentication(error: Error): void {
+        const reject = this.authReject;
+        this.authPromise = undefined;
+        this.authResolve = undefined;
+        this.authReject = undefined;
+        reject?.(error);
     }
     
     /**
@@ -334,7 +483,7 @@ export class WAConnection extends EventEmitter {
      */
     private waitForOpen(): Promise<void> {
         if (!this.ws) {
-            return Promise.reject(new Error('WebSocket is not initialized'));
+            return Promise.reject(new ConnectionError('WebSocket is not initialized', { retryable: false }));
         }
         
         if (this.ws.readyState === WebSocket.OPEN) {
@@ -343,7 +492,7 @@ export class WAConnection extends EventEmitter {
         
         return new Promise((resolve, reject) => {
             if (!this.ws) {
-                return reject(new Error('WebSocket is not initialized'));
+                return reject(new ConnectionError('WebSocket is not initialized', { retryable: false }));
             }
             
             const onOpen = () => {
@@ -372,7 +521,11 @@ export class WAConnection extends EventEmitter {
         this.keepAliveInterval = setInterval(() => {
             try {
                 if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-                    this.send({ type: 'ping' }).catch(err => {
+                    this.sendNode({
+                        tag: 'iq',
+                        attrs: { id: generateMessageTag(), to: S_WHATSAPP_NET, type: 'get', xmlns: 'w:p' },
+                        content: [{ tag: 'ping', attrs: {} }]
+                    }).catch(err => {
                         this.logger.warn('Failed to send ping:', err);
                     });
                 }
@@ -392,18 +545,9 @@ export class WAConnection extends EventEmitter {
             this.logger.info('WebSocket connection opened');
         });
         
-        this.ws.on('message', (data: string) => {
-            try {
-                // Decrypt if needed
-                const decrypted = this.credentials?.privateKey 
-                    ? decrypt(data, this.credentials.privateKey) 
-                    : data;
-                
-                const message = JSON.parse(decrypted);
-                this.handleIncomingMessage(message);
-            } catch (error) {
-                this.logger.error('Failed to process message:', error);
-            }
+        this.ws.on('message', (data: Buffer) => {
+            // Raw socket data is split into frames and decrypted by the transport
+            this.transport?.receive(data);
         });
         
         this.ws.on('close', (code, reason) => {
@@ -419,87 +563,524 @@ export class WAConnection extends EventEmitter {
     }
     
     /**
-     * Handle incoming WebSocket messages
-     * @param message Parsed message
+     * Handle a decrypted transport frame
+     * @param frame Frame data
      */
-    private handleIncomingMessage(message: any): void {
-        // Check if this is a response to a pending request
-        if (message.tag && this.msgRetryCache.has(message.tag)) {
-            const { resolve, reject } = this.msgRetryCache.get(message.tag)!;
+    private handleFrame(frame: Buffer): void {
+        try {
+            this.handleIncomingNode(decodeBinaryNode(frame));
+        } catch (error) {
+            this.logger.error('Failed to process message:', error);
+        }
+    }
+    
+    /**
+     * Handle incoming binary nodes
+     * @param node Decoded node
+     */
+    private handleIncomingNode(node: BinaryNode): void {
+        const id = node.attrs.id;
+        
+        // Check if this answers a pending query; messages are answered by an ack
+        if (id && (node.tag === 'iq' || node.tag === 'ack') && this.msgRetryCache.has(id)) {
+            const { resolve, reject } = this.msgRetryCache.get(id)!;
             
-            if (message.error) {
-                reject(new Error(message.error));
+            if (node.attrs.type === 'error') {
+                const error = getBinaryNodeChild(node, 'error');
+                reject(createServerError({ code: error?.attrs.code, text: error?.attrs.text || 'unknown' }, id));
+            } else if (node.tag === 'ack' && node.attrs.error) {
+                reject(createServerError({ code: node.attrs.error }, id));
             } else {
-                resolve(message);
+                resolve(node);
             }
             
             return;
         }
         
-        // Handle authentication success
-        if (message.type === 'auth_success') {
-            this.handleAuthSuccess(message);
+        switch (node.tag) {
+            case 'stream:error':
+                this.handleStreamError(node);
+                break;
+            case 'success':
+                this.handleLoginSuccess(node);
+                break;
+            case 'failure':
+                this.handleLoginFailure(node);
+                break;
+            case 'iq':
+                this.handleIq(node);
+                break;
+            case 'message':
+                this.handleMessage(node);
+                break;
+            case 'notification':
+                this.handleNotification(node);
+                break;
+            case 'presence':
+            case 'chatstate':
+                this.handlePresence(node);
+                break;
+            case 'receipt':
+                this.sendAck(node);
+                this.emit('node', node);
+                break;
+            default:
+                this.emit('node', node);
+                break;
+        }
+    }
+    
+    /**
+     * Handle a stream error, which the server sends right before closing the connection
+     * @param node Stream error node
+     */
+    private handleStreamError(node: BinaryNode): void {
+        const conflict = getBinaryNodeChild(node, 'conflict');
+        const code = conflict ? DISCONNECT_CODES.CONNECTION_REPLACED : parseInt(node.attrs.code, 10) || 0;
+        const reason = conflict?.attrs.type || node.attrs.text || 'stream error';
+        
+        this.logger.warn(`Stream error from server: ${code} - ${reason}`);
+        this.streamError = { code, reason };
+        this.ws?.close();
+    }
+    
+    /**
+     * Handle the server accepting our login
+     * @param node Success node
+     */
+    private handleLoginSuccess(node: BinaryNode): void {
+        const me = this.credentials?.me;
+        if (me && node.attrs.lid && me.lid !== node.attrs.lid) {
+            this.updateCredentials({ me: { ...me, lid: node.attrs.lid } });
+        }
+        
+        this.authState = 'connected';
+        this.logger.info('Logged in to WhatsApp Web');
+        
+        // Tell the server this device is active, so it delivers messages
+        this.query({
+            tag: 'iq',
+            attrs: { to: S_WHATSAPP_NET, type: 'set', xmlns: 'passive' },
+            content: [{ tag: 'active', attrs: {} }]
+        }).catch(error => {
+            this.logger.warn('Failed to mark the connection as active:', error);
+        });
+        
+        this.completeAuthentication();
+        this.emit('open');
+    }
+    
+    /**
+     * Handle the server rejecting our login; it closes the connection right after
+     * @param node Failure node
+     */
+    private handleLoginFailure(node: BinaryNode): void {
+        const code = parseInt(node.attrs.reason, 10) || 0;
+        
+        this.logger.warn(`Login failed: ${code}`);
+        this.streamError = { code, reason: 'login failure' };
+        this.ws?.close();
+    }
+    
+    /**
+     * Handle an iq the server sends us
+     * @param node Iq node
+     */
+    private handleIq(node: BinaryNode): void {
+        if (node.attrs.type === 'get' && node.attrs.xmlns === 'urn:xmpp:ping') {
+            this.sendNode({ tag: 'iq', attrs: { to: S_WHATSAPP_NET, type: 'result', id: node.attrs.id } }).catch(error => {
+                this.logger.warn('Failed to answer ping:', error);
+            });
+        } else if (getBinaryNodeChild(node, 'pair-device')) {
+            this.handlePairDevice(node);
+        } else if (getBinaryNodeChild(node, 'pair-success')) {
+            this.handlePairSuccess(node).catch(error => {
+                this.logger.error('Failed to complete pairing:', error);
+            });
+        } else {
+            this.emit('node', node);
+        }
+    }
+    
+    /**
+     * Handle the refs the server hands out for QR codes once a new device has registered
+     * @param node Iq node with the refs
+     */
+    private handlePairDevice(node: BinaryNode): void {
+        this.sendNode({ tag: 'iq', attrs: { to: S_WHATSAPP_NET, type: 'result', id: node.attrs.id } }).catch(error => {
+            this.logger.warn('Failed to acknowledge pairing refs:', error);
+        });
+        
+        this.qrRefs = getBinaryNodeChildren(getBinaryNodeChild(node, 'pair-device'), 'ref')
+            .filter(ref => Buffer.isBuffer(ref.content))
+            .map(ref => (ref.content as Buffer).toString('utf-8'));
+        
+        this.logger.info(`Server started pairing with ${this.qrRefs.length} QR codes`);
+        this.emit('pair_device');
+        this.scheduleNextQRCode(QR_INITIAL_REF_TIMEOUT);
+    }
+    
+    /**
+     * Move on to the next QR code once the current one expires, failing authentication after the last
+     * @param timeout How long the current QR code is shown
+     */
+    private scheduleNextQRCode(timeout: number): void {
+        clearTimeout(this.qrTimer);
+        
+        this.qrTimer = setTimeout(() => {
+            this.qrRefs.shift();
+            
+            if (!this.qrRefs.length) {
+                this.failAuthentication(new AuthError('Device was not linked before the pairing codes expired', { retryable: true }));
+                this.ws?.close();
+                return;
+            }
+            
+            // Linking with a pairing code keeps the connection open, but shows no QR code
+            if (!this.pairingCode) {
+                this.emit('qr_update', this.getQRData(this.qrRefs[0]));
+            }
+            
+            this.scheduleNextQRCode(QR_REF_TIMEOUT);
+        }, timeout);
+    }
+    
+    /**
+     * Build the QR code data for a ref: the ref, our Noise key, identity key and pairing secret
+     * @param ref Ref handed out by the server
+     */
+    private getQRData(ref: string): string {
+        const credentials = this.credentials!;
+        
+        return [
+            ref,
+            credentials.noiseKey!.public,
+            credentials.signedIdentityKey!.public,
+            credentials.advSecretKey!
+        ].join(',');
+    }
+    
+    /**
+     * Wait until the server has handed out the refs for pairing
+     */
+    private waitForPairDevice(): Promise<void> {
+        if (this.qrRefs.length) {
+            return Promise.resolve();
+        }
+        
+        return new Promise((resolve, reject) => {
+            const cleanup = () => {
+                clearTimeout(timeoutId);
+                this.off('pair_device', onPairDevice);
+                this.off('close', onClose);
+            };
+            const onPairDevice = () => {
+                cleanup();
+                resolve();
+            };
+            const onClose = () => {
+                cleanup();
+                reject(new AuthError('Connection closed before pairing started', { retryable: true }));
+            };
+            const timeoutId = setTimeout(() => {
+                cleanup();
+                reject(new TimeoutError(`Server did not start pairing within ${AUTH_TIMEOUT}ms`));
+            }, AUTH_TIMEOUT);
+            
+            this.on('pair_device', onPairDevice);
+            this.on('close', onClose);
+        });
+    }
+    
+    /**
+     * Finish linking with a pairing code once the phone has accepted it: exchange identity keys
+     * with the phone and derive the secret that authenticates the pairing result
+     * @param node Notification from the phone
+     */
+    private async handlePairingCodeAccepted(node: BinaryNode): Promise<void> {
+        if (!this.pairingCode) {
+            this.logger.warn('Received a pairing code notification without a pairing code request');
             return;
         }
         
-        // Handle normal messages
-        if (message.type === 'message') {
-            const parsedMessage = parseMessageNode(message.data);
-            this.emit('message', parsedMessage);
+        const { code, jid, ephemeralKeyPair } = this.pairingCode;
+        const registration = getBinaryNodeChild(node, 'link_code_companion_reg');
+        const ref = getBinaryNodeChildBuffer(registration, 'link_code_pairing_ref');
+        const primaryIdentityKey = getBinaryNodeChildBuffer(registration, 'primary_identity_pub');
+        const wrappedPrimaryKey = getBinaryNodeChildBuffer(registration, 'link_code_pairing_wrapped_primary_ephemeral_pub');
+        if (!ref || !primaryIdentityKey || !wrappedPrimaryKey || wrappedPrimaryKey.length < 80) {
+            throw new ProtocolError('Incomplete pairing code notification');
+        }
+        
+        // The phone wraps its ephemeral key with the pairing code, the same way we wrapped ours
+        const wrappingKey = await derivePairingCodeKey(code, wrappedPrimaryKey.subarray(0, 32));
+        const primaryEphemeralKey = aesDecryptCTR(wrappedPrimaryKey.subarray(48, 80), wrappingKey, wrappedPrimaryKey.subarray(32, 48));
+        const companionSharedKey = sharedCurveKey(ephemeralKeyPair.private, primaryEphemeralKey);
+        
+        const identity = getSignalIdentity(this.credentials!);
+        const random = generateRandomKey(32);
+        const salt = generateRandomKey(32);
+        const iv = generateRandomKey(12);
+        const bundleKey = hkdf(companionSharedKey, 32, { salt, info: 'link_code_pairing_key_bundle_encryption_key' });
+        const bundle = aesEncryptGCM(
+            Buffer.concat([identity.identityKeyPair.public, primaryIdentityKey, random]),
+            bundleKey,
+            iv,
+            Buffer.alloc(0)
+        );
+        
+        const identitySharedKey = sharedCurveKey(identity.identityKeyPair.private, primaryIdentityKey);
+        this.updateCredentials({
+            advSecretKey: hkdf(Buffer.concat([companionSharedKey, identitySharedKey, random]), 32, { info: 'adv_secret' }).toString('base64')
+        });
+        
+        await this.query({
+            tag: 'iq',
+            attrs: { to: S_WHATSAPP_NET, type: 'set', xmlns: 'md' },
+            content: [{
+                tag: 'link_code_companion_reg',
+                attrs: { jid, stage: 'companion_finish' },
+                content: [
+                    { tag: 'link_code_pairing_wrapped_key_bundle', attrs: {}, content: Buffer.concat([salt, iv, bundle]) },
+                    { tag: 'companion_identity_public', attrs: {}, content: identity.identityKeyPair.public },
+                    { tag: 'link_code_pairing_ref', attrs: {}, content: ref }
+                ]
+            }]
+        });
+    }
+    
+    /**
+     * Handle the phone linking this device: check the signed device identity, countersign it
+     * and store the account; the server then restarts the stream so the device can log in
+     * @param node Iq node with the pairing result
+     */
+    private async handlePairSuccess(node: BinaryNode): Promise<void> {
+        try {
+            const pairSuccess = getBinaryNodeChild(node, 'pair-success');
+            const device = getBinaryNodeChild(pairSuccess, 'device');
+            const signedIdentity = getBinaryNodeChildBuffer(pairSuccess, 'device-identity');
+            if (!device?.attrs.jid || !signedIdentity) {
+                throw new ProtocolError('Missing device identity in pairing result');
+            }
+            
+            // ADVSignedDeviceIdentityHMAC: the identity, authenticated with the secret from the QR code or pairing code
+            const identityHmac = decodeProto(signedIdentity);
+            const details = getProtoBytes(identityHmac, ADV_HMAC_DETAILS);
+            const hmac = getProtoBytes(identityHmac, ADV_HMAC_HMAC);
+            const expectedHmac = hmacSha256(Buffer.from(this.credentials!.advSecretKey!, 'base64'), details || Buffer.alloc(0));
+            if (!details || !hmac || hmac.length !== expectedHmac.length || !crypto.timingSafeEqual(hmac, expectedHmac)) {
+                throw new AuthError('Pairing result is not authenticated with our pairing secret', { retryable: false });
+            }
+            
+            // ADVSignedDeviceIdentity: the device details signed by the account
+            const account = decodeProto(details);
+            const deviceDetails = getProtoBytes(account, ADV_IDENTITY_DETAILS);
+            const accountSignatureKey = getProtoBytes(account, ADV_IDENTITY_ACCOUNT_SIGNATURE_KEY);
+            const accountSignature = getProtoBytes(account, ADV_IDENTITY_ACCOUNT_SIGNATURE);
+            if (!deviceDetails || !accountSignatureKey || !accountSignature) {
+                throw new ProtocolError('Incomplete device identity in pairing result');
+            }
+            
+            const identity = getSignalIdentity(this.credentials!);
+            const accountMessage = Buffer.concat([WA_ADV_ACCOUNT_SIG_PREFIX, deviceDetails, identity.identityKeyPair.public]);
+            if (!verifySignature(accountSignatureKey, accountMessage, accountSignature)) {
+                throw new AuthError('Invalid account signature in pairing result', { retryable: false });
+            }
+            
+            const deviceSignature = calculateSignature(
+                identity.identityKeyPair.private,
+                Buffer.concat([WA_ADV_DEVICE_SIG_PREFIX, deviceDetails, identity.identityKeyPair.public, accountSignatureKey])
+            );
+            const keyIndex = getProtoNumber(decodeProto(deviceDetails), ADV_DEVICE_KEY_INDEX) || 0;
+            
+            await this.sendNode({
+                tag: 'iq',
+                attrs: { to: S_WHATSAPP_NET, type: 'result', id: node.attrs.id },
+                content: [{
+                    tag: 'pair-device-sign',
+                    attrs: {},
+                    content: [{
+                        tag: 'device-identity',
+                        attrs: { 'key-index': String(keyIndex) },
+                        // The server already knows the account key, so it is left out
+                        content: encodeProto({
+                            [ADV_IDENTITY_DETAILS]: deviceDetails,
+                            [ADV_IDENTITY_ACCOUNT_SIGNATURE]: accountSignature,
+                            [ADV_IDENTITY_DEVICE_SIGNATURE]: deviceSignature
+                        })
+                    }]
+                }]
+            });
+            
+            this.updateCredentials({
+                me: {
+                    id: device.attrs.jid,
+                    lid: device.attrs.lid,
+                    name: getBinaryNodeChild(pairSuccess, 'biz')?.attrs.name
+                },
+                account: encodeProto({
+                    [ADV_IDENTITY_DETAILS]: deviceDetails,
+                    [ADV_IDENTITY_ACCOUNT_SIGNATURE_KEY]: accountSignatureKey,
+                    [ADV_IDENTITY_ACCOUNT_SIGNATURE]: accountSignature,
+                    [ADV_IDENTITY_DEVICE_SIGNATURE]: deviceSignature
+                }).toString('base64')
+            });
+            
+            this.logger.info(`Linked to ${device.attrs.jid}`);
+            this.resetPairing();
+            this.restartAfterPairing = true;
+        } catch (error) {
+            this.sendNode({
+                tag: 'iq',
+                attrs: { to: S_WHATSAPP_NET, type: 'error', id: node.attrs.id },
+                content: [{ tag: 'error', attrs: { code: '500', text: 'internal-error' } }]
+            }).catch(() => undefined);
+            
+            this.failAuthentication(toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError));
+            throw error;
+        }
+    }
+    
+    /**
+     * Stop showing QR codes and forget the pairing code
+     */
+    private resetPairing(): void {
+        clearTimeout(this.qrTimer);
+        this.qrTimer = undefined;
+        this.qrRefs = [];
+        this.pairingCode = undefined;
+    }
+    
+    /**
+     * Handle an incoming message, handing end-to-end encrypted content to the message handler
+     * A group message carries the sender key distribution next to the skmsg, encrypted over the 1:1 session
+     * @param node Message node
+     */
+    private handleMessage(node: BinaryNode): void {
+        this.sendAck(node);
+        
+        const encrypted = getBinaryNodeChildren(node, 'enc').filter(enc => Buffer.isBuffer(enc.content));
+        if (!encrypted.length) {
+            this.emit('node', node);
             return;
         }
         
-        // Handle other message types
-        switch (message.type) {
-            case 'presence_update':
-                this.emit('presence_update', message.data);
+        for (const enc of encrypted) {
+            if (!isEncryptedType(enc.attrs.type)) {
+                this.logger.warn(`Dropping ${enc.attrs.type} envelope in message ${node.attrs.id} from ${node.attrs.from}`);
+            }
+        }
+        
+        const senderKeyMessage = encrypted.find(enc => enc.attrs.type === 'skmsg');
+        const directMessage = encrypted.find(enc => enc.attrs.type === 'pkmsg' || enc.attrs.type === 'msg');
+        if (!senderKeyMessage && !directMessage) return;
+        
+        this.emit('encrypted_message', {
+            id: node.attrs.id,
+            from: node.attrs.from,
+            participant: node.attrs.participant,
+            timestamp: node.attrs.t ? parseInt(node.attrs.t, 10) * 1000 : undefined,
+            enc: senderKeyMessage
+                ? { type: 'skmsg', ciphertext: bufferToBase64(senderKeyMessage.content as Buffer) }
+                : toSignalEnvelope(directMessage!),
+            distribution: senderKeyMessage && directMessage ? toSignalEnvelope(directMessage) : undefined
+        });
+    }
+    
+    /**
+     * Handle a server notification
+     * @param node Notification node
+     */
+    private handleNotification(node: BinaryNode): void {
+        this.sendAck(node);
+        
+        switch (node.attrs.type) {
+            case 'encrypt': {
+                // The server says how many of our one-time pre-keys are left
+                const count = getBinaryNodeChild(node, 'count');
+                if (count) {
+                    this.emit('prekey_low', { count: parseInt(count.attrs.value, 10) || 0 });
+                } else {
+                    this.emit('node', node);
+                }
                 break;
-            
-            case 'group_update':
-                this.emit('group_update', message.data);
+            }
+            case 'w:gp2':
+                for (const update of parseGroupNotification(node)) {
+                    this.emit('group_update', update);
+                }
                 break;
-                
-            case 'message_revoke':
-                this.emit('message_revoke', message.data);
+            case 'mediaretry': {
+                const error = getBinaryNodeChild(node, 'error');
+                const encrypted = getBinaryNodeChild(node, 'encrypt');
+                this.emit('media_retry', {
+                    id: node.attrs.id,
+                    error: error ? error.attrs.text || error.attrs.code || 'unknown' : undefined,
+                    enc: getBinaryNodeChildBuffer(encrypted, 'enc_p'),
+                    iv: getBinaryNodeChildBuffer(encrypted, 'enc_iv')
+                });
                 break;
-                
-            case 'message_create':
-                this.emit('message_create', message.data);
+            }
+            case 'link_code_companion_reg':
+                this.handlePairingCodeAccepted(node).catch(error => {
+                    this.logger.error('Failed to link with the pairing code:', error);
+                    this.failAuthentication(toFocksupError(error, ERROR_CODES.AUTHENTICATION_FAILURE, AuthError));
+                });
                 break;
-                
             default:
-                // Unknown message type
-                this.logger.debug('Received unknown message type:', message.type);
+                this.emit('node', node);
                 break;
         }
     }
     
     /**
-     * Handle authentication success
-     * @param message Success message
+     * Handle the online status or typing state of a contact
+     * @param node Presence or chatstate node
      */
-    private handleAuthSuccess(message: any): void {
-        if (!this.credentials) {
-            this.logger.warn('Received auth success but no credentials are stored');
-            return;
+    private handlePresence(node: BinaryNode): void {
+        let presence: PresenceUpdate['presence'];
+        
+        if (node.tag === 'presence') {
+            presence = node.attrs.type === 'unavailable' ? 'unavailable' : 'available';
+        } else {
+            const state = Array.isArray(node.content) ? node.content[0] : undefined;
+            if (state?.tag === 'composing') {
+                presence = state.attrs.media === 'audio' ? 'recording' : 'composing';
+            } else {
+                presence = 'paused';
+            }
         }
         
-        // Update credentials with any additional server data
-        this.credentials = {
-            ...this.credentials,
-            ...message.credentials
+        this.emit('presence_update', {
+            id: node.attrs.participant || node.attrs.from,
+            presence,
+            timestamp: node.attrs.last && /^\d+$/.test(node.attrs.last) ? parseInt(node.attrs.last, 10) * 1000 : Date.now()
+        });
+    }
+    
+    /**
+     * Acknowledge a message, receipt or notification, so the server stops delivering it
+     * @param node Node to acknowledge
+     */
+    private sendAck(node: BinaryNode): void {
+        const attrs: { [key: string]: string } = {
+            id: node.attrs.id,
+            to: node.attrs.from,
+            class: node.tag
         };
-        
-        this.authState = 'connected';
-        
-        // Resolve authentication promise if exists
-        if (this.authResolve) {
-            this.authResolve();
-            this.authResolve = undefined;
-            this.authReject = undefined;
+        if (node.attrs.participant) {
+            attrs.participant = node.attrs.participant;
+        }
+        if (node.attrs.recipient) {
+            attrs.recipient = node.attrs.recipient;
+        }
+        if (node.tag !== 'message' && node.attrs.type) {
+            attrs.type = node.attrs.type;
         }
         
-        this.emit('open');
+        this.sendNode({ tag: 'ack', attrs }).catch(error => {
+            this.logger.warn(`Failed to acknowledge ${node.tag} ${node.attrs.id}:`, error);
+        });
     }
     
     /**
@@ -508,14 +1089,129 @@ export class WAConnection extends EventEmitter {
      * @param reason Close reason
      */
     private handleConnectionClose(code: number, reason: string): void {
-        // Reject pending authentication if needed
-        if (this.authState === 'authenticating' && this.authReject) {
-            this.authReject(new Error(`Connection closed during authentication: ${code} - ${reason}`));
-            this.authResolve = undefined;
-            this.authReject = undefined;
+        if (this.streamError) {
+            ({ code, reason } = this.streamError);
+            this.streamError = undefined;
         }
         
+        this.transport?.abort(new ConnectionError(`Connection closed during handshake: ${code} - ${reason}`));
+        this.transport?.removeAllListeners();
+        this.transport = null;
+        
+        // Let connect() open a new socket
+        if (this.keepAliveInterval) {
+            clearInterval(this.keepAliveInterval);
+            this.keepAliveInterval = undefined;
+        }
+        this.ws?.removeAllListeners();
+        this.ws = null;
+        
         this.authState = 'disconnected';
-        this.emit('close', { code, reason });
+        this.rejectPendingRequests(new ConnectionError(`Connection closed: ${code} - ${reason}`, { code: ERROR_CODES.CONNECTION_LOST }));
+        
+        // A newly linked device logs in on a new connection; waitForAuthentication resolves once it has
+        if (this.restartAfterPairing) {
+            this.restartAfterPairing = false;
+            this.logger.info('Device linked, logging in');
+            this.connect().catch(error => {
+                this.logger.error('Failed to log in after linking:', error);
+            });
+            return;
+        }
+        
+        this.resetPairing();
+        
+        // Reject pending authentication if needed
+        const loggedOut = classifyDisconnect(code, reason) === 'logged_out';
+        this.failAuthentication(new AuthError(`Connection closed during authentication: ${code} - ${reason}`, { retryable: !loggedOut }));
+        
+        this.emit('close', { code, reason, disconnectReason: classifyDisconnect(code, reason) });
     }
+    
+    /**
+     * Fail every request still waiting for an answer, which can no longer arrive
+     * @param error Reason the requests failed
+     */
+    private rejectPendingRequests(error: ConnectionError): void {
+        for (const [tag, { reject }] of this.msgRetryCache) {
+            reject(new ConnectionError(`${error.message} before request ${tag} was answered`, { code: error.code, tag }));
+        }
+        this.msgRetryCache.clear();
+    }
+}
+
+/**
+ * Wrap an ephemeral public key with a key derived from the pairing code, so only a phone
+ * that was given the code can read it
+ * @param pairingCode Pairing code shown to the user
+ * @param publicKey Ephemeral public key
+ */
+async function wrapPairingKey(pairingCode: string, publicKey: Buffer): Promise<Buffer> {
+    const salt = generateRandomKey(32);
+    const iv = generateRandomKey(16);
+    const key = await derivePairingCodeKey(pairingCode, salt);
+    
+    return Buffer.concat([salt, iv, aesEncryptCTR(publicKey, key, iv)]);
+}
+
+/**
+ * Turn a w:gp2 notification into group updates, one per change it carries
+ * @param node Notification node
+ */
+function parseGroupNotification(node: BinaryNode): GroupUpdate[] {
+    const updates: GroupUpdate[] = [];
+    const actor = node.attrs.participant;
+    
+    for (const child of Array.isArray(node.content) ? node.content : []) {
+        const participants = getBinaryNodeChildren(child, 'participant').map(participant => participant.attrs.jid);
+        
+        switch (child.tag) {
+            case 'add':
+            case 'promote':
+            case 'demote':
+                updates.push({ id: node.attrs.from, type: child.tag, participants, actor });
+                break;
+            case 'remove':
+                // Members removing themselves have left
+                updates.push({
+                    id: node.attrs.from,
+                    type: participants.length === 1 && participants[0] === actor ? 'leave' : 'remove',
+                    participants,
+                    actor
+                });
+                break;
+            case 'subject':
+                updates.push({ id: node.attrs.from, type: 'subject', subject: child.attrs.subject, actor });
+                break;
+            case 'description':
+                updates.push({
+                    id: node.attrs.from,
+                    type: 'description',
+                    description: getBinaryNodeChildBuffer(child, 'body')?.toString('utf-8'),
+                    actor
+                });
+                break;
+        }
+    }
+    
+    return updates;
+}
+
+/**
+ * Check whether an enc node carries a message type we can decrypt
+ * @param type Value of the enc node's type attribute
+ */
+function isEncryptedType(type: string | undefined): type is SignalMessageType | 'skmsg' {
+    return type === 'pkmsg' || type === 'msg' || type === 'skmsg';
+}
+
+/**
+ * Build the envelope of a message encrypted over a 1:1 Signal session
+ * @param enc A pkmsg or msg enc node
+ */
+function toSignalEnvelope(enc: BinaryNode): { type: SignalMessageType, ciphertext: string } {
+    return {
+        type: enc.attrs.type === 'pkmsg' ? 'pkmsg' : 'msg',
+        ciphertext: bufferToBase64(enc.content as Buffer)
+    };
 }
@@ -2,10 +2,87 @@
  * Implementation of WhatsApp Web protocol
  */
 
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { BinaryNode } from './Types';
 import { createLogger } from './Utils';
+import { ProtocolError } from './Errors';
+import { encodeProto, ProtoFields } from './Protobuf';
+import { parseJid } from './Jid';
+import { SignalIdentity } from './SignalProtocol';
+import { BINARY_TAGS, SINGLE_BYTE_TOKENS, DOUBLE_BYTE_TOKENS, KEY_BUNDLE_TYPE } from './Constants';
 
 const logger = createLogger('WAProtocol');
 
+// ClientPayload field numbers
+const CLIENT_PAYLOAD_USERNAME = 1;
+const CLIENT_PAYLOAD_PASSIVE = 3;
+const CLIENT_PAYLOAD_USER_AGENT = 5;
+const CLIENT_PAYLOAD_WEB_INFO = 6;
+const CLIENT_PAYLOAD_CONNECT_TYPE = 12;
+const CLIENT_PAYLOAD_CONNECT_REASON = 13;
+const CLIENT_PAYLOAD_DEVICE = 18;
+const CLIENT_PAYLOAD_DEVICE_PAIRING_DATA = 19;
+const CLIENT_PAYLOAD_PULL = 33;
+const CONNECT_TYPE_WIFI_UNKNOWN = 1;
+const CONNECT_REASON_USER_ACTIVATED = 1;
+
+// ClientPayload.UserAgent and ClientPayload.WebInfo field numbers
+const USER_AGENT_PLATFORM = 1;
+const USER_AGENT_APP_VERSION = 2;
+const USER_AGENT_MCC = 3;
+const USER_AGENT_MNC = 4;
+const USER_AGENT_OS_VERSION = 5;
+const USER_AGENT_DEVICE = 7;
+const USER_AGENT_OS_BUILD_NUMBER = 8;
+const USER_AGENT_RELEASE_CHANNEL = 10;
+const USER_AGENT_LOCALE_LANGUAGE = 11;
+const USER_AGENT_PLATFORM_WEB = 14;
+const WEB_INFO_SUB_PLATFORM = 4;
+
+// ClientPayload.DevicePairingRegistrationData field numbers
+const PAIRING_DATA_REGISTRATION_ID = 1;
+const PAIRING_DATA_KEY_TYPE = 2;
+const PAIRING_DATA_IDENTITY = 3;
+const PAIRING_DATA_SIGNED_PRE_KEY_ID = 4;
+const PAIRING_DATA_SIGNED_PRE_KEY = 5;
+const PAIRING_DATA_SIGNED_PRE_KEY_SIGNATURE = 6;
+const PAIRING_DATA_BUILD_HASH = 7;
+const PAIRING_DATA_DEVICE_PROPS = 8;
+
+// DeviceProps field numbers
+const DEVICE_PROPS_OS = 1;
+const DEVICE_PROPS_VERSION = 2;
+const DEVICE_PROPS_PLATFORM_TYPE = 3;
+const DEVICE_PROPS_REQUIRE_FULL_SYNC = 4;
+
+// DeviceProps.PlatformType values of the browsers a device can claim to be
+const DEVICE_PLATFORM_TYPES: { [browser: string]: number } = {
+    chrome: 1,
+    firefox: 2,
+    ie: 3,
+    opera: 4,
+    safari: 5,
+    edge: 6
+};
+
+// Names the phone shows for the operating system of a linked device
+const DEVICE_OS_NAMES: { [platform: string]: string } = {
+    darwin: 'Mac OS',
+    win32: 'Windows'
+};
+
+// Reverse lookup for token encoding
+const TOKEN_MAP: Map<string, { dict?: number, index: number }> = new Map();
+SINGLE_BYTE_TOKENS.forEach((token, index) => {
+    if (token) TOKEN_MAP.set(token, { index });
+});
+DOUBLE_BYTE_TOKENS.forEach((tokens, dict) => {
+    tokens.forEach((token, index) => {
+        if (!TOKEN_MAP.has(token)) TOKEN_MAP.set(token, { dict, index });
+    });
+});
+
 /**
  * Generate a message tag for request identification
  */
@@ -50,6 +127,7 @@ function parseWhatsAppMessage(message: any): any {
         from: message.from || message.key?.remoteJid,
         fromMe: message.fromMe || message.key?.fromMe || false,
         timestamp: message.timestamp || message.messageTimestamp,
+        groupId: message.groupId,
         type: 'unknown'
     };
     
@@ -57,81 +135,623 @@ function parseWhatsAppMessage(message: any): any {
     if (message.message?.conversation) {
         result.type = 'text';
         result.body = message.message.conversation;
+    } else if (message.message?.extendedTextMessage) {
+        const contextInfo = message.message.extendedTextMessage.contextInfo;
+        result.type = 'text';
+        result.body = message.message.extendedTextMessage.text;
+        result.quotedMessageId = contextInfo?.stanzaId;
+        result.mentionedJids = contextInfo?.mentionedJid;
     } else if (message.message?.imageMessage) {
         result.type = 'image';
         result.caption = message.message.imageMessage.caption;
         result.mimetype = message.message.imageMessage.mimetype;
-        result.url = message.message.imageMessage.url;
+        Object.assign(result, getMediaFields(message.message.imageMessage));
     } else if (message.message?.videoMessage) {
         result.type = 'video';
         result.caption = message.message.videoMessage.caption;
         result.mimetype = message.message.videoMessage.mimetype;
-        result.url = message.message.videoMessage.url;
+        Object.assign(result, getMediaFields(message.message.videoMessage));
     } else if (message.message?.documentMessage) {
         result.type = 'document';
         result.filename = message.message.documentMessage.fileName;
         result.mimetype = message.message.documentMessage.mimetype;
-        result.url = message.message.documentMessage.url;
+        Object.assign(result, getMediaFields(message.message.documentMessage));
     } else if (message.message?.audioMessage) {
         result.type = 'audio';
         result.mimetype = message.message.audioMessage.mimetype;
-        result.url = message.message.audioMessage.url;
+        result.ptt = message.message.audioMessage.ptt;
+        result.waveform = message.message.audioMessage.waveform;
+        Object.assign(result, getMediaFields(message.message.audioMessage));
     } else if (message.message?.stickerMessage) {
         result.type = 'sticker';
         result.mimetype = message.message.stickerMessage.mimetype;
-        result.url = message.message.stickerMessage.url;
+        Object.assign(result, getMediaFields(message.message.stickerMessage));
     }
     
     return result;
 }
 
 /**
- * Serialize a message for WhatsApp protocol
- * @param message Message to serialize
+ * Pick the download, decryption and preview fields of a media message
+ * @param media Media message content
  */
-export function serializeMessage(message: any): any {
-    // Here we would implement the specific WhatsApp protocol serialization
-    // This is a simplified version for demonstration
-    
-    try {
-        return {
-            type: 'message',
-            data: message
-        };
-    } catch (error) {
-        logger.error('Error serializing message:', error);
-        throw error;
+function getMediaFields(media: any): any {
+    return {
+        url: media.url,
+        directPath: media.directPath,
+        mediaKey: media.mediaKey,
+        fileSha256: media.fileSha256,
+        fileEncSha256: media.fileEncSha256,
+        fileLength: media.fileLength,
+        jpegThumbnail: media.jpegThumbnail,
+        width: media.width,
+        height: media.height,
+        duration: media.seconds
+    };
+}
+
+/**
+ * Append 1-16 bytes of random-length padding before encryption
+ * @param plaintext Serialized message content
+ */
+export function padMessage(plaintext: Buffer): Buffer {
+    const padLength = (crypto.randomBytes(1)[0] & 0x0f) + 1;
+    return Buffer.concat([plaintext, Buffer.alloc(padLength, padLength)]);
+}
+
+/**
+ * Remove padding added by padMessage
+ * @param padded Decrypted message content
+ */
+export function unpadMessage(padded: Buffer): Buffer {
+    const padLength = padded.length ? padded[padded.length - 1] : 0;
+    if (!padLength || padLength > padded.length) {
+        throw new ProtocolError('Invalid message padding');
     }
+    return padded.subarray(0, padded.length - padLength);
 }
 
 /**
- * Create a presence update message
- * @param jid JID to update presence for
- * @param presence Presence status ('available', 'unavailable', 'composing', etc.)
+ * Client payload sent in the final handshake message to log in as an already linked device
+ * @param version WhatsApp Web version
+ * @param browser Browser identification
+ * @param me JID of the linked device, e.g. 40712345678:12@s.whatsapp.net
  */
-export function createPresenceMessage(jid: string, presence: string): any {
+export function createLoginPayload(version: string, browser: { name: string, version: string }, me: string): Buffer {
+    const { user, device } = parseJid(me);
+    
+    return encodeProto({
+        ...getClientPayloadFields(version, browser),
+        [CLIENT_PAYLOAD_USERNAME]: Number(user),
+        [CLIENT_PAYLOAD_PASSIVE]: 1,
+        [CLIENT_PAYLOAD_DEVICE]: device || 0,
+        [CLIENT_PAYLOAD_PULL]: 1
+    });
+}
+
+/**
+ * Client payload sent in the final handshake message to register a new device,
+ * which the server answers with the refs shown in QR codes
+ * @param version WhatsApp Web version
+ * @param browser Browser identification
+ * @param identity Signal identity of the new device
+ */
+export function createRegistrationPayload(
+    version: string,
+    browser: { name: string, version: string },
+    identity: SignalIdentity
+): Buffer {
+    const { os, platformType } = getDevicePlatform(browser);
+    
+    const registrationId = Buffer.alloc(4);
+    registrationId.writeUInt32BE(identity.registrationId);
+    const signedPreKeyId = Buffer.alloc(3);
+    signedPreKeyId.writeUIntBE(identity.signedPreKey.keyId, 0, 3);
+    
+    const deviceProps = encodeProto({
+        [DEVICE_PROPS_OS]: os,
+        [DEVICE_PROPS_VERSION]: encodeProto({ 1: 10, 2: 15, 3: 7 }),
+        [DEVICE_PROPS_PLATFORM_TYPE]: platformType,
+        [DEVICE_PROPS_REQUIRE_FULL_SYNC]: 0
+    });
+    
+    return encodeProto({
+        ...getClientPayloadFields(version, browser),
+        [CLIENT_PAYLOAD_PASSIVE]: 0,
+        [CLIENT_PAYLOAD_PULL]: 0,
+        [CLIENT_PAYLOAD_DEVICE_PAIRING_DATA]: encodeProto({
+            [PAIRING_DATA_REGISTRATION_ID]: registrationId,
+            [PAIRING_DATA_KEY_TYPE]: KEY_BUNDLE_TYPE,
+            [PAIRING_DATA_IDENTITY]: identity.identityKeyPair.public,
+            [PAIRING_DATA_SIGNED_PRE_KEY_ID]: signedPreKeyId,
+            [PAIRING_DATA_SIGNED_PRE_KEY]: identity.signedPreKey.keyPair.public,
+            [PAIRING_DATA_SIGNED_PRE_KEY_SIGNATURE]: identity.signedPreKey.signature,
+            // The server checks the build against a hash of the version
+            [PAIRING_DATA_BUILD_HASH]: crypto.createHash('md5').update(version).digest(),
+            [PAIRING_DATA_DEVICE_PROPS]: deviceProps
+        })
+    });
+}
+
+/**
+ * Operating system and platform type a linked device is shown with on the phone
+ * @param browser Browser identification
+ */
+export function getDevicePlatform(browser: { name: string, version: string }): { os: string, platformType: number } {
     return {
-        type: 'presence',
-        data: {
-            jid,
-            presence
-        }
+        os: DEVICE_OS_NAMES[process.platform] || 'Linux',
+        platformType: DEVICE_PLATFORM_TYPES[browser.name.toLowerCase()] || DEVICE_PLATFORM_TYPES.chrome
     };
 }
 
 /**
- * Create a group message
- * @param groupId Group ID
- * @param action Action ('create', 'add', 'remove', etc.)
- * @param participants Participant JIDs
+ * ClientPayload fields shared by the login and registration payloads
+ * @param version WhatsApp Web version
+ * @param browser Browser identification
  */
-export function createGroupMessage(groupId: string, action: string, participants: string[]): any {
+function getClientPayloadFields(version: string, browser: { name: string, version: string }): ProtoFields {
+    const [primary, secondary, tertiary] = version.split('.').map(part => parseInt(part, 10) || 0);
+    
     return {
-        type: 'group',
-        data: {
-            groupId,
-            action,
-            participants
-        }
+        [CLIENT_PAYLOAD_USER_AGENT]: encodeProto({
+            [USER_AGENT_PLATFORM]: USER_AGENT_PLATFORM_WEB,
+            [USER_AGENT_APP_VERSION]: encodeProto({ 1: primary, 2: secondary, 3: tertiary }),
+            [USER_AGENT_MCC]: '000',
+            [USER_AGENT_MNC]: '000',
+            [USER_AGENT_OS_VERSION]: '0.1',
+            [USER_AGENT_DEVICE]: 'Desktop',
+            [USER_AGENT_OS_BUILD_NUMBER]: '0.1',
+            [USER_AGENT_RELEASE_CHANNEL]: 0,
+            [USER_AGENT_LOCALE_LANGUAGE]: 'en'
+        }),
+        [CLIENT_PAYLOAD_WEB_INFO]: encodeProto({ [WEB_INFO_SUB_PLATFORM]: 0 }),
+        [CLIENT_PAYLOAD_CONNECT_TYPE]: CONNECT_TYPE_WIFI_UNKNOWN,
+        [CLIENT_PAYLOAD_CONNECT_REASON]: CONNECT_REASON_USER_ACTIVATED
     };
 }
+
+/**
+ * Encode a node into the WhatsApp binary format
+ * Content is child nodes or bytes; text content is given as UTF-8 bytes and decodes as bytes
+ * @param node Node to encode
+ */
+export function encodeBinaryNode(node: BinaryNode): Buffer {
+    const buffer: number[] = [0];
+    writeNode(node, buffer);
+    return Buffer.from(buffer);
+}
+
+/**
+ * Decode a WhatsApp binary frame into a node
+ * @param data Frame data, including the leading flags byte
+ */
+export function decodeBinaryNode(data: Buffer): BinaryNode {
+    if (!data.length) {
+        throw new ProtocolError('Cannot decode an empty binary node');
+    }
+    
+    // Bit 2 of the flags byte marks a zlib-compressed payload
+    const payload = data[0] & 2
+        ? zlib.inflateSync(data.subarray(1))
+        : data.subarray(1);
+        
+    const reader = { data: payload, index: 0 };
+    const node = readNode(reader);
+    
+    if (reader.index !== payload.length) {
+        logger.warn(`Ignoring ${payload.length - reader.index} trailing bytes after binary node`);
+    }
+    
+    return node;
+}
+
+/**
+ * Find the first child of a node with the given tag
+ * @param node Parent node
+ * @param tag Child tag
+ */
+export function getBinaryNodeChild(node: BinaryNode | undefined, tag: string): BinaryNode | undefined {
+    if (Array.isArray(node?.content)) {
+        return node!.content.find(child => child.tag === tag);
+    }
+    return undefined;
+}
+
+/**
+ * Find every child of a node with the given tag
+ * @param node Parent node
+ * @param tag Child tag
+ */
+export function getBinaryNodeChildren(node: BinaryNode | undefined, tag: string): BinaryNode[] {
+    if (Array.isArray(node?.content)) {
+        return node!.content.filter(child => child.tag === tag);
+    }
+    return [];
+}
+
+/**
+ * Get the bytes carried by the first child of a node with the given tag
+ * @param node Parent node
+ * @param tag Child tag
+ */
+export function getBinaryNodeChildBuffer(node: BinaryNode | undefined, tag: string): Buffer | undefined {
+    const content = getBinaryNodeChild(node, tag)?.content;
+    return Buffer.isBuffer(content) ? content : undefined;
+}
+
+function writeNode(node: BinaryNode, buffer: number[]): void {
+    if (!node.tag) {
+        throw new ProtocolError('Binary node is missing a tag');
+    }
+    
+    const attrs = Object.entries(node.attrs || {})
+        .filter(([, value]) => typeof value !== 'undefined' && value !== null);
+        
+    const hasContent = typeof node.content !== 'undefined';
+    writeListStart(2 * attrs.length + 1 + (hasContent ? 1 : 0), buffer);
+    writeString(node.tag, buffer);
+    
+    for (const [key, value] of attrs) {
+        writeString(key, buffer);
+        writeString(value, buffer);
+    }
+    
+    if (Buffer.isBuffer(node.content)) {
+        writeByteLength(node.content.length, buffer);
+        pushBytes(node.content, buffer);
+    } else if (Array.isArray(node.content)) {
+        writeListStart(node.content.length, buffer);
+        for (const child of node.content) {
+            writeNode(child, buffer);
+        }
+    }
+}
+
+function writeListStart(size: number, buffer: number[]): void {
+    if (size === 0) {
+        buffer.push(BINARY_TAGS.LIST_EMPTY);
+    } else if (size < 256) {
+        buffer.push(BINARY_TAGS.LIST_8, size);
+    } else {
+        buffer.push(BINARY_TAGS.LIST_16, (size >> 8) & 0xff, size & 0xff);
+    }
+}
+
+function writeByteLength(length: number, buffer: number[]): void {
+    if (length >= 2 ** 32) {
+        throw new ProtocolError(`Binary node content too large: ${length} bytes`);
+    }
+    
+    if (length >= 1 << 20) {
+        buffer.push(
+            BINARY_TAGS.BINARY_32,
+            (length >>> 24) & 0xff,
+            (length >> 16) & 0xff,
+            (length >> 8) & 0xff,
+            length & 0xff
+        );
+    } else if (length >= 256) {
+        buffer.push(
+            BINARY_TAGS.BINARY_20,
+            (length >> 16) & 0x0f,
+            (length >> 8) & 0xff,
+            length & 0xff
+        );
+    } else {
+        buffer.push(BINARY_TAGS.BINARY_8, length);
+    }
+}
+
+function pushBytes(bytes: Uint8Array, buffer: number[]): void {
+    for (let i = 0; i < bytes.length; i++) {
+        buffer.push(bytes[i]);
+    }
+}
+
+function writeString(str: string, buffer: number[]): void {
+    const token = TOKEN_MAP.get(str);
+    if (token) {
+        if (typeof token.dict === 'number') {
+            buffer.push(BINARY_TAGS.DICTIONARY_0 + token.dict);
+        }
+        buffer.push(token.index);
+        return;
+    }
+    
+    if (str === '') {
+        // Empty strings are never tokenised; write them as zero-length binary
+        buffer.push(BINARY_TAGS.BINARY_8, 0);
+        return;
+    }
+    
+    const jid = parseJidForEncoding(str);
+    if (jid) {
+        writeJid(jid, buffer);
+        return;
+    }
+    
+    if (isNibble(str)) {
+        writePackedBytes(str, BINARY_TAGS.NIBBLE_8, buffer);
+    } else if (isHex(str)) {
+        writePackedBytes(str, BINARY_TAGS.HEX_8, buffer);
+    } else {
+        const bytes = Buffer.from(str, 'utf-8');
+        writeByteLength(bytes.length, buffer);
+        pushBytes(bytes, buffer);
+    }
+}
+
+function writeJid(jid: { user: string, server: string, device?: number, agent?: number }, buffer: number[]): void {
+    if (typeof jid.device === 'number') {
+        buffer.push(BINARY_TAGS.AD_JID, jid.agent || 0, jid.device);
+        writeString(jid.user, buffer);
+        return;
+    }
+    
+    buffer.push(BINARY_TAGS.JID_PAIR);
+    if (jid.user) {
+        writeString(jid.user, buffer);
+    } else {
+        buffer.push(BINARY_TAGS.LIST_EMPTY);
+    }
+    writeString(jid.server, buffer);
+}
+
+/**
+ * Split a string into JID parts if it looks like one
+ * @param str Candidate string
+ */
+function parseJidForEncoding(str: string): { user: string, server: string, device?: number, agent?: number } | null {
+    const at = str.indexOf('@');
+    if (at < 0 || at !== str.lastIndexOf('@')) {
+        return null;
+    }
+    
+    const server = str.substring(at + 1);
+    const userPart = str.substring(0, at);
+    if (!server) {
+        return null;
+    }
+    
+    const [user, device] = userPart.split(':');
+    if (typeof device !== 'undefined') {
+        // Device-suffixed JIDs only exist for regular and LID users
+        if ((server !== 's.whatsapp.net' && server !== 'lid') || !/^\d+$/.test(device)) {
+            return null;
+        }
+        return {
+            user,
+            server,
+            device: parseInt(device, 10),
+            agent: server === 'lid' ? 1 : 0
+        };
+    }
+    
+    return { user: userPart, server };
+}
+
+function isNibble(str: string): boolean {
+    return str.length <= BINARY_TAGS.PACKED_MAX && /^[0-9.-]+$/.test(str);
+}
+
+function isHex(str: string): boolean {
+    return str.length <= BINARY_TAGS.PACKED_MAX && /^[0-9A-F]+$/.test(str);
+}
+
+function packNibble(char: string): number {
+    if (char >= '0' && char <= '9') return char.charCodeAt(0) - 48;
+    if (char === '-') return 10;
+    if (char === '.') return 11;
+    if (char === '\0') return 15;
+    throw new ProtocolError(`Invalid nibble character: ${char}`);
+}
+
+function packHex(char: string): number {
+    if (char >= '0' && char <= '9') return char.charCodeAt(0) - 48;
+    if (char >= 'A' && char <= 'F') return 10 + char.charCodeAt(0) - 65;
+    if (char === '\0') return 15;
+    throw new ProtocolError(`Invalid hex character: ${char}`);
+}
+
+function writePackedBytes(str: string, type: number, buffer: number[]): void {
+    const pack = type === BINARY_TAGS.NIBBLE_8 ? packNibble : packHex;
+    let roundedLength = Math.ceil(str.length / 2);
+    if (str.length % 2 !== 0) {
+        roundedLength |= 0x80;
+    }
+    
+    buffer.push(type, roundedLength);
+    
+    for (let i = 0; i < str.length - 1; i += 2) {
+        buffer.push((pack(str[i]) << 4) | pack(str[i + 1]));
+    }
+    
+    if (str.length % 2 !== 0) {
+        buffer.push((pack(str[str.length - 1]) << 4) | pack('\0'));
+    }
+}
+
+interface BinaryReader {
+    data: Buffer;
+    index: number;
+}
+
+function checkEOS(reader: BinaryReader, length: number): void {
+    if (reader.index + length > reader.data.length) {
+        throw new ProtocolError('End of stream while decoding binary node');
+    }
+}
+
+function readByte(reader: BinaryReader): number {
+    checkEOS(reader, 1);
+    return reader.data[reader.index++];
+}
+
+function readBytes(reader: BinaryReader, length: number): Buffer {
+    checkEOS(reader, length);
+    const bytes = reader.data.subarray(reader.index, reader.index + length);
+    reader.index += length;
+    return bytes;
+}
+
+function readInt(reader: BinaryReader, length: number): number {
+    checkEOS(reader, length);
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+        value = value * 256 + reader.data[reader.index++];
+    }
+    return value;
+}
+
+function readInt20(reader: BinaryReader): number {
+    checkEOS(reader, 3);
+    const value = ((reader.data[reader.index] & 0x0f) << 16)
+        | (reader.data[reader.index + 1] << 8)
+        | reader.data[reader.index + 2];
+    reader.index += 3;
+    return value;
+}
+
+function readListSize(tag: number, reader: BinaryReader): number {
+    switch (tag) {
+        case BINARY_TAGS.LIST_EMPTY:
+            return 0;
+        case BINARY_TAGS.LIST_8:
+            return readByte(reader);
+        case BINARY_TAGS.LIST_16:
+            return readInt(reader, 2);
+        default:
+            throw new ProtocolError(`Invalid list size tag: ${tag}`);
+    }
+}
+
+function isListTag(tag: number): boolean {
+    return tag === BINARY_TAGS.LIST_EMPTY || tag === BINARY_TAGS.LIST_8 || tag === BINARY_TAGS.LIST_16;
+}
+
+function unpackNibble(value: number): string {
+    if (value >= 0 && value <= 9) return String.fromCharCode(48 + value);
+    if (value === 10) return '-';
+    if (value === 11) return '.';
+    if (value === 15) return '\0';
+    throw new ProtocolError(`Invalid nibble value: ${value}`);
+}
+
+function unpackHex(value: number): string {
+    if (value >= 0 && value <= 9) return String.fromCharCode(48 + value);
+    if (value >= 10 && value <= 15) return String.fromCharCode(65 + value - 10);
+    throw new ProtocolError(`Invalid hex value: ${value}`);
+}
+
+function readPacked8(tag: number, reader: BinaryReader): string {
+    const startByte = readByte(reader);
+    const unpack = tag === BINARY_TAGS.NIBBLE_8 ? unpackNibble : unpackHex;
+    let value = '';
+    
+    for (let i = 0; i < (startByte & 0x7f); i++) {
+        const byte = readByte(reader);
+        value += unpack((byte & 0xf0) >> 4);
+        value += unpack(byte & 0x0f);
+    }
+    
+    // The high bit marks an odd length, so the final padding nibble is dropped
+    if (startByte >> 7 !== 0) {
+        value = value.slice(0, -1);
+    }
+    
+    return value;
+}
+
+function readToken(index: number, dict?: number): string {
+    const token = typeof dict === 'number'
+        ? DOUBLE_BYTE_TOKENS[dict]?.[index]
+        : SINGLE_BYTE_TOKENS[index];
+        
+    if (typeof token === 'undefined') {
+        throw new ProtocolError(`Unknown token ${typeof dict === 'number' ? `${dict}:` : ''}${index}`);
+    }
+    
+    return token;
+}
+
+function readString(tag: number, reader: BinaryReader): string {
+    if (tag >= 1 && tag < SINGLE_BYTE_TOKENS.length) {
+        return readToken(tag);
+    }
+    
+    switch (tag) {
+        case BINARY_TAGS.DICTIONARY_0:
+        case BINARY_TAGS.DICTIONARY_1:
+        case BINARY_TAGS.DICTIONARY_2:
+        case BINARY_TAGS.DICTIONARY_3:
+            return readToken(readByte(reader), tag - BINARY_TAGS.DICTIONARY_0);
+        case BINARY_TAGS.LIST_EMPTY:
+            return '';
+        case BINARY_TAGS.BINARY_8:
+            return readBytes(reader, readByte(reader)).toString('utf-8');
+        case BINARY_TAGS.BINARY_20:
+            return readBytes(reader, readInt20(reader)).toString('utf-8');
+        case BINARY_TAGS.BINARY_32:
+            return readBytes(reader, readInt(reader, 4)).toString('utf-8');
+        case BINARY_TAGS.JID_PAIR: {
+            const user = readString(readByte(reader), reader);
+            const server = readString(readByte(reader), reader);
+            return user ? `${user}@${server}` : `@${server}`;
+        }
+        case BINARY_TAGS.AD_JID: {
+            const agent = readByte(reader);
+            const device = readByte(reader);
+            const user = readString(readByte(reader), reader);
+            const server = agent === 1 ? 'lid' : 's.whatsapp.net';
+            return `${user}:${device}@${server}`;
+        }
+        case BINARY_TAGS.NIBBLE_8:
+        case BINARY_TAGS.HEX_8:
+            return readPacked8(tag, reader);
+        default:
+            throw new ProtocolError(`Invalid string tag: ${tag}`);
+    }
+}
+
+function readNode(reader: BinaryReader): BinaryNode {
+    const listSize = readListSize(readByte(reader), reader);
+    const tag = readString(readByte(reader), reader);
+    
+    if (!listSize || !tag.length) {
+        throw new ProtocolError('Invalid binary node: missing tag');
+    }
+    
+    const attrs: { [key: string]: string } = {};
+    const attributesLength = (listSize - 1) >> 1;
+    for (let i = 0; i < attributesLength; i++) {
+        const key = readString(readByte(reader), reader);
+        attrs[key] = readString(readByte(reader), reader);
+    }
+    
+    const node: BinaryNode = { tag, attrs };
+    
+    // An even list size means the node carries content after its attributes
+    if (listSize % 2 === 0) {
+        const contentTag = readByte(reader);
+        
+        if (isListTag(contentTag)) {
+            const size = readListSize(contentTag, reader);
+            const children: BinaryNode[] = [];
+            for (let i = 0; i < size; i++) {
+                children.push(readNode(reader));
+            }
+            node.content = children;
+        } else if (contentTag === BINARY_TAGS.BINARY_8) {
+            node.content = Buffer.from(readBytes(reader, readByte(reader)));
+        } else if (contentTag === BINARY_TAGS.BINARY_20) {
+            node.content = Buffer.from(readBytes(reader, readInt20(reader)));
+        } else if (contentTag === BINARY_TAGS.BINARY_32) {
+            node.content = Buffer.from(readBytes(reader, readInt(reader, 4)));
+        } else {
+            // Content sent as a token, JID or packed digits is still text, returned as bytes like raw content
+            node.content = Buffer.from(readString(contentTag, reader), 'utf-8');
+        }
+    }
+    
+    return node;
+}
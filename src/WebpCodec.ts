@@ -0,0 +1,893 @@
+/**
+ * WebP encoding in plain TypeScript
+ * Images are written as lossless VP8L bitstreams using the subtract-green and predictor
+ * transforms, LZ77 backward references and a color cache; the RIFF helpers build
+ * the extended (VP8X) container used for metadata and animation
+ */
+
+import { RawImage } from './Types';
+import { ERROR_CODES } from './Constants';
+import { MediaError } from './Errors';
+
+// A chunk of a WebP RIFF container
+export interface WebpChunk {
+    type: string;
+    data: Buffer;
+}
+
+// Options for lossless encoding
+export interface WebpEncodeOptions {
+    // Bits of color precision to drop before encoding (0 keeps the image exact), trading fidelity for size
+    nearLossless?: number;
+}
+
+// VP8X feature flags
+export const WEBP_FLAG_ANIMATION = 0x02;
+export const WEBP_FLAG_EXIF = 0x08;
+export const WEBP_FLAG_ALPHA = 0x10;
+
+const VP8L_SIGNATURE = 0x2F;
+const VP8L_MAX_DIMENSION = 1 << 14;
+
+const NUM_LITERAL_CODES = 256;
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+const MAX_CODE_LENGTH = 15;
+const MAX_CODE_LENGTH_CODE_LENGTH = 7;
+
+// Order in which the lengths of the code length code are stored
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+const TRANSFORM_PREDICTOR = 0;
+const TRANSFORM_SUBTRACT_GREEN = 2;
+
+// Predictor modes are chosen per 16x16 block
+const PREDICTOR_BITS = 4;
+const NUM_PREDICTORS = 14;
+
+const COLOR_CACHE_BITS = 10;
+
+const MIN_MATCH_LENGTH = 3;
+const MAX_MATCH_LENGTH = 4096;
+const HASH_BITS = 16;
+// Candidates examined per pixel when looking for a backward reference
+const MAX_CHAIN_LENGTH = 32;
+
+// Distance codes 1 and 2 stand for the pixel above and the pixel to the left;
+// larger distances are stored offset past the 120 short codes
+const DISTANCE_CODE_ABOVE = 1;
+const DISTANCE_CODE_LEFT = 2;
+const DISTANCE_CODE_OFFSET = 120;
+
+// Token kinds produced by LZ77 matching
+const TOKEN_LITERAL = 0;
+const TOKEN_CACHE = 1;
+const TOKEN_COPY = 2;
+
+interface PrefixCode {
+    lengths: Uint8Array;
+    codes: Uint16Array;
+    // A code with a single symbol takes no bits
+    single: boolean;
+}
+
+/**
+ * Encode an image as a lossless WebP file
+ * @param image Image to encode
+ * @param options Encoding options
+ */
+export function encodeWebp(image: RawImage, options: WebpEncodeOptions = {}): Buffer {
+    return writeWebpContainer([{ type: 'VP8L', data: encodeVp8l(image, options) }]);
+}
+
+/**
+ * Encode an image as a VP8L bitstream, the payload of a VP8L chunk
+ * @param image Image to encode
+ * @param options Encoding options
+ */
+export function encodeVp8l(image: RawImage, options: WebpEncodeOptions = {}): Buffer {
+    const { width, height } = image;
+    if (width < 1 || height < 1 || width > VP8L_MAX_DIMENSION || height > VP8L_MAX_DIMENSION) {
+        throw new MediaError(`Cannot encode a ${width}x${height} image as WebP`, { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    const argb = toArgb(image, options.nearLossless || 0);
+    const hasAlpha = argb.some(pixel => pixel >>> 24 !== 0xFF);
+    const writer = new BitWriter();
+    
+    writer.write(VP8L_SIGNATURE, 8);
+    writer.write(width - 1, 14);
+    writer.write(height - 1, 14);
+    writer.write(hasAlpha ? 1 : 0, 1);
+    writer.write(0, 3); // version
+    
+    // Transforms are listed in the order they are applied; the decoder undoes them in reverse
+    writer.write(1, 1);
+    writer.write(TRANSFORM_SUBTRACT_GREEN, 2);
+    subtractGreen(argb);
+    
+    writer.write(1, 1);
+    writer.write(TRANSFORM_PREDICTOR, 2);
+    writer.write(PREDICTOR_BITS - 2, 3);
+    const modes = choosePredictors(argb, width, height);
+    writeImageData(writer, modes, subSampleSize(width), 0, false);
+    const residuals = applyPredictors(argb, width, height, modes);
+    
+    writer.write(0, 1); // no more transforms
+    writeImageData(writer, residuals, width, COLOR_CACHE_BITS, true);
+    
+    return writer.finish();
+}
+
+/**
+ * Split a WebP file into its chunks
+ * @param data WebP file contents
+ */
+export function readWebpChunks(data: Buffer): WebpChunk[] {
+    if (data.length < 12 || data.toString('latin1', 0, 4) !== 'RIFF' || data.toString('latin1', 8, 12) !== 'WEBP') {
+        throw new MediaError('Not a WebP image', { code: ERROR_CODES.INVALID_MEDIA });
+    }
+    
+    const end = Math.min(data.length, data.readUInt32LE(4) + 8);
+    const chunks: WebpChunk[] = [];
+    let offset = 12;
+    
+    while (offset + 8 <= end) {
+        const type = data.toString('latin1', offset, offset + 4);
+        const size = data.readUInt32LE(offset + 4);
+        if (offset + 8 + size > end) {
+            throw new MediaError(`WebP chunk ${type} is truncated`, { code: ERROR_CODES.INVALID_MEDIA });
+        }
+        
+        chunks.push({ type, data: data.subarray(offset + 8, offset + 8 + size) });
+        // Chunks are padded to an even size
+        offset += 8 + size + (size & 1);
+    }
+    
+    return chunks;
+}
+
+/**
+ * Assemble chunks into a WebP file
+ * @param chunks Chunks in file order
+ */
+export function writeWebpContainer(chunks: WebpChunk[]): Buffer {
+    const parts = chunks.map(chunk => writeChunk(chunk.type, chunk.data));
+    const header = Buffer.alloc(12);
+    
+    header.write('RIFF', 0, 'latin1');
+    header.writeUInt32LE(4 + parts.reduce((sum, part) => sum + part.length, 0), 4);
+    header.write('WEBP', 8, 'latin1');
+    
+    return Buffer.concat([header, ...parts]);
+}
+
+/**
+ * Serialize a chunk with its header and padding
+ * @param type Four-character chunk type
+ * @param data Chunk payload
+ */
+export function writeChunk(type: string, data: Buffer): Buffer {
+    const header = Buffer.alloc(8);
+    header.write(type, 0, 'latin1');
+    header.writeUInt32LE(data.length, 4);
+    
+    return Buffer.concat(data.length & 1 ? [header, data, Buffer.alloc(1)] : [header, data]);
+}
+
+/**
+ * Build the payload of a VP8X chunk
+ * @param flags Feature flags
+ * @param width Canvas width
+ * @param height Canvas height
+ */
+export function createVp8xChunk(flags: number, width: number, height: number): WebpChunk {
+    const data = Buffer.alloc(10);
+    data[0] = flags;
+    data.writeUIntLE(width - 1, 4, 3);
+    data.writeUIntLE(height - 1, 7, 3);
+    
+    return { type: 'VP8X', data };
+}
+
+/**
+ * Convert RGBA pixels to packed ARGB, optionally dropping low bits of color precision
+ * Fully transparent pixels are made black so they compress to a single value
+ * @param image Source image
+ * @param nearLossless Bits of precision to drop
+ */
+function toArgb(image: RawImage, nearLossless: number): Uint32Array {
+    const argb = new Uint32Array(image.width * image.height);
+    const step = 1 << nearLossless;
+    const quantize = (value: number): number => Math.min(Math.round(value / step) * step, 255);
+    
+    for (let i = 0; i < argb.length; i++) {
+        const p = i * 4;
+        const alpha = image.data[p + 3];
+        if (alpha === 0) {
+            continue;
+        }
+        
+        const r = quantize(image.data[p]);
+        const g = quantize(image.data[p + 1]);
+        const b = quantize(image.data[p + 2]);
+        argb[i] = ((alpha << 24) | (r << 16) | (g << 8) | b) >>> 0;
+    }
+    
+    return argb;
+}
+
+/**
+ * Subtract the green channel from red and blue, in place
+ * @param argb Pixels
+ */
+function subtractGreen(argb: Uint32Array): void {
+    for (let i = 0; i < argb.length; i++) {
+        const pixel = argb[i];
+        const green = (pixel >> 8) & 0xFF;
+        const red = (((pixel >> 16) & 0xFF) - green) & 0xFF;
+        const blue = ((pixel & 0xFF) - green) & 0xFF;
+        argb[i] = ((pixel & 0xFF00FF00) | (red << 16) | blue) >>> 0;
+    }
+}
+
+/**
+ * Number of predictor blocks across a dimension
+ * @param size Image width or height
+ */
+function subSampleSize(size: number): number {
+    return (size + (1 << PREDICTOR_BITS) - 1) >> PREDICTOR_BITS;
+}
+
+/**
+ * Pick the predictor mode for each block that leaves the smallest residuals
+ * Returns the modes as a sub-image with the mode in the green channel
+ * @param argb Pixels
+ * @param width Image width
+ * @param height Image height
+ */
+function choosePredictors(argb: Uint32Array, width: number, height: number): Uint32Array {
+    const blocksWide = subSampleSize(width);
+    const blocksHigh = subSampleSize(height);
+    const modes = new Uint32Array(blocksWide * blocksHigh);
+    const costs = new Float64Array(NUM_PREDICTORS);
+    
+    for (let blockY = 0; blockY < blocksHigh; blockY++) {
+        for (let blockX = 0; blockX < blocksWide; blockX++) {
+            costs.fill(0);
+            
+            const endY = Math.min((blockY + 1) << PREDICTOR_BITS, height);
+            const endX = Math.min((blockX + 1) << PREDICTOR_BITS, width);
+            
+            for (let y = blockY << PREDICTOR_BITS; y < endY; y++) {
+                for (let x = blockX << PREDICTOR_BITS; x < endX; x++) {
+                    // The first row and column use fixed predictors whatever the mode
+                    if (x === 0 || y === 0) {
+                        continue;
+                    }
+                    
+                    const i = y * width + x;
+                    for (let mode = 0; mode < NUM_PREDICTORS; mode++) {
+                        costs[mode] += residualCost(argb[i], predict(argb, i, width, mode));
+                    }
+                }
+            }
+            
+            let best = 0;
+            for (let mode = 1; mode < NUM_PREDICTORS; mode++) {
+                if (costs[mode] < costs[best]) {
+                    best = mode;
+                }
+            }
+            
+            modes[blockY * blocksWide + blockX] = (0xFF000000 | (best << 8)) >>> 0;
+        }
+    }
+    
+    return modes;
+}
+
+/**
+ * Replace every pixel by its difference from the prediction of its block's mode
+ * @param argb Pixels
+ * @param width Image width
+ * @param height Image height
+ * @param modes Predictor sub-image
+ */
+function applyPredictors(argb: Uint32Array, width: number, height: number, modes: Uint32Array): Uint32Array {
+    const residuals = new Uint32Array(argb.length);
+    const blocksWide = subSampleSize(width);
+    
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            let mode: number;
+            
+            if (y === 0) {
+                mode = x === 0 ? 0 : 1;
+            } else if (x === 0) {
+                mode = 2;
+            } else {
+                mode = (modes[(y >> PREDICTOR_BITS) * blocksWide + (x >> PREDICTOR_BITS)] >> 8) & 0xFF;
+            }
+            
+            residuals[i] = subtractPixels(argb[i], predict(argb, i, width, mode));
+        }
+    }
+    
+    return residuals;
+}
+
+/**
+ * Predict a pixel from its already decoded neighbours
+ * @param argb Pixels
+ * @param i Index of the pixel
+ * @param width Image width
+ * @param mode Predictor mode
+ */
+function predict(argb: Uint32Array, i: number, width: number, mode: number): number {
+    const left = argb[i - 1];
+    const top = argb[i - width];
+    // For the last column this wraps to the first pixel of the current row, as the decoder expects
+    const topRight = argb[i - width + 1];
+    const topLeft = argb[i - width - 1];
+    
+    switch (mode) {
+        case 0: return 0xFF000000;
+        case 1: return left;
+        case 2: return top;
+        case 3: return topRight;
+        case 4: return topLeft;
+        case 5: return average(average(left, topRight), top);
+        case 6: return average(left, topLeft);
+        case 7: return average(left, top);
+        case 8: return average(topLeft, top);
+        case 9: return average(top, topRight);
+        case 10: return average(average(left, topLeft), average(top, topRight));
+        case 11: return select(left, top, topLeft);
+        case 12: return clampAddSubtractFull(left, top, topLeft);
+        default: return clampAddSubtractHalf(average(left, top), topLeft);
+    }
+}
+
+/**
+ * Per-channel average of two pixels, rounded down
+ */
+function average(a: number, b: number): number {
+    return mapChannels(channel => (channelOf(a, channel) + channelOf(b, channel)) >> 1);
+}
+
+/**
+ * Whichever of left and top is closer to the gradient estimate left + top - topLeft
+ */
+function select(left: number, top: number, topLeft: number): number {
+    let distanceToLeft = 0;
+    let distanceToTop = 0;
+    
+    for (let channel = 0; channel < 4; channel++) {
+        const corner = channelOf(topLeft, channel);
+        distanceToLeft += Math.abs(channelOf(top, channel) - corner);
+        distanceToTop += Math.abs(channelOf(left, channel) - corner);
+    }
+    
+    return distanceToLeft < distanceToTop ? left : top;
+}
+
+/**
+ * Per-channel gradient a + b - c, clamped to a byte
+ */
+function clampAddSubtractFull(a: number, b: number, c: number): number {
+    return mapChannels(channel => clampByte(channelOf(a, channel) + channelOf(b, channel) - channelOf(c, channel)));
+}
+
+/**
+ * Per-channel a + (a - b) / 2, clamped to a byte
+ */
+function clampAddSubtractHalf(a: number, b: number): number {
+    return mapChannels(channel => clampByte(channelOf(a, channel) + Math.trunc((channelOf(a, channel) - channelOf(b, channel)) / 2)));
+}
+
+/**
+ * Per-channel difference of two pixels, modulo 256
+ */
+function subtractPixels(a: number, b: number): number {
+    return mapChannels(channel => (channelOf(a, channel) - channelOf(b, channel)) & 0xFF);
+}
+
+/**
+ * Estimated cost of a residual: the distance of each channel difference from zero
+ */
+function residualCost(pixel: number, prediction: number): number {
+    let cost = 0;
+    
+    for (let channel = 0; channel < 4; channel++) {
+        const difference = (channelOf(pixel, channel) - channelOf(prediction, channel)) & 0xFF;
+        cost += difference < 128 ? difference : 256 - difference;
+    }
+    
+    return cost;
+}
+
+/**
+ * Get one 8-bit channel of an ARGB pixel, 0 being blue and 3 alpha
+ */
+function channelOf(pixel: number, channel: number): number {
+    return (pixel >>> (channel * 8)) & 0xFF;
+}
+
+/**
+ * Build an ARGB pixel from a function of the channel index
+ */
+function mapChannels(fn: (channel: number) => number): number {
+    return ((fn(3) << 24) | (fn(2) << 16) | (fn(1) << 8) | fn(0)) >>> 0;
+}
+
+/**
+ * Clamp a value to a byte
+ */
+function clampByte(value: number): number {
+    return value < 0 ? 0 : value > 255 ? 255 : value;
+}
+
+/**
+ * Write an entropy-coded image: color cache info, prefix codes and pixel data
+ * @param writer Bit writer
+ * @param argb Pixels
+ * @param width Image width
+ * @param cacheBits Color cache size in bits, 0 for none
+ * @param isMainImage Whether this is the main image, which may use meta prefix codes
+ */
+function writeImageData(writer: BitWriter, argb: Uint32Array, width: number, cacheBits: number, isMainImage: boolean): void {
+    const tokens = findBackwardReferences(argb, width, cacheBits);
+    
+    const green = new Uint32Array(NUM_LITERAL_CODES + NUM_LENGTH_CODES + (cacheBits ? 1 << cacheBits : 0));
+    const red = new Uint32Array(NUM_LITERAL_CODES);
+    const blue = new Uint32Array(NUM_LITERAL_CODES);
+    const alpha = new Uint32Array(NUM_LITERAL_CODES);
+    const distance = new Uint32Array(NUM_DISTANCE_CODES);
+    
+    for (let t = 0; t < tokens.length; t += 3) {
+        const value = tokens[t + 1];
+        
+        if (tokens[t] === TOKEN_LITERAL) {
+            green[(value >> 8) & 0xFF]++;
+            red[(value >> 16) & 0xFF]++;
+            blue[value & 0xFF]++;
+            alpha[value >>> 24]++;
+        } else if (tokens[t] === TOKEN_CACHE) {
+            green[NUM_LITERAL_CODES + NUM_LENGTH_CODES + value]++;
+        } else {
+            green[NUM_LITERAL_CODES + prefixEncode(value).code]++;
+            distance[prefixEncode(tokens[t + 2]).code]++;
+        }
+    }
+    
+    if (cacheBits) {
+        writer.write(1, 1);
+        writer.write(cacheBits, 4);
+    } else {
+        writer.write(0, 1);
+    }
+    
+    if (isMainImage) {
+        writer.write(0, 1); // a single group of prefix codes for the whole image
+    }
+    
+    const codes = [green, red, blue, alpha, distance].map(histogram => {
+        const code = createPrefixCode(buildCodeLengths(histogram, MAX_CODE_LENGTH));
+        writePrefixCode(writer, code);
+        return code;
+    });
+    const [greenCode, redCode, blueCode, alphaCode, distanceCode] = codes;
+    
+    for (let t = 0; t < tokens.length; t += 3) {
+        const value = tokens[t + 1];
+        
+        if (tokens[t] === TOKEN_LITERAL) {
+            writeSymbol(writer, greenCode, (value >> 8) & 0xFF);
+            writeSymbol(writer, redCode, (value >> 16) & 0xFF);
+            writeSymbol(writer, blueCode, value & 0xFF);
+            writeSymbol(writer, alphaCode, value >>> 24);
+        } else if (tokens[t] === TOKEN_CACHE) {
+            writeSymbol(writer, greenCode, NUM_LITERAL_CODES + NUM_LENGTH_CODES + value);
+        } else {
+            const length = prefixEncode(value);
+            writeSymbol(writer, greenCode, NUM_LITERAL_CODES + length.code);
+            writer.write(length.extra, length.extraBits);
+            
+            const distanceValue = prefixEncode(tokens[t + 2]);
+            writeSymbol(writer, distanceCode, distanceValue.code);
+            writer.write(distanceValue.extra, distanceValue.extraBits);
+        }
+    }
+}
+
+/**
+ * Turn pixels into literal, color cache and backward reference tokens
+ * Tokens are stored as triples of kind, value (pixel, cache index or length) and distance code
+ * @param argb Pixels
+ * @param width Image width
+ * @param cacheBits Color cache size in bits, 0 for none
+ */
+function findBackwardReferences(argb: Uint32Array, width: number, cacheBits: number): number[] {
+    const tokens: number[] = [];
+    const cache = cacheBits ? new Uint32Array(1 << cacheBits) : undefined;
+    const head = new Int32Array(1 << HASH_BITS).fill(-1);
+    const chain = new Int32Array(argb.length);
+    
+    const addToCache = (pixel: number): void => {
+        if (cache) {
+            cache[colorCacheIndex(pixel, cacheBits)] = pixel;
+        }
+    };
+    
+    const addToHash = (i: number): void => {
+        if (i + 1 < argb.length) {
+            const hash = hashPixels(argb[i], argb[i + 1]);
+            chain[i] = head[hash];
+            head[hash] = i;
+        }
+    };
+    
+    let i = 0;
+    while (i < argb.length) {
+        const maxLength = Math.min(MAX_MATCH_LENGTH, argb.length - i);
+        let bestLength = 0;
+        let bestDistance = 0;
+        
+        const tryMatch = (candidate: number): void => {
+            const distance = i - candidate;
+            let length = 0;
+            while (length < maxLength && argb[candidate + length] === argb[i + length]) {
+                length++;
+            }
+            
+            if (length > bestLength) {
+                bestLength = length;
+                bestDistance = distance;
+            }
+        };
+        
+        // The pixels to the left and above are cheap to refer to, so they are always tried
+        if (i >= 1) {
+            tryMatch(i - 1);
+        }
+        if (i >= width) {
+            tryMatch(i - width);
+        }
+        
+        if (i + 1 < argb.length) {
+            let candidate = head[hashPixels(argb[i], argb[i + 1])];
+            for (let steps = 0; candidate >= 0 && steps < MAX_CHAIN_LENGTH && bestLength < maxLength; steps++) {
+                tryMatch(candidate);
+                candidate = chain[candidate];
+            }
+        }
+        
+        if (bestLength >= MIN_MATCH_LENGTH) {
+            tokens.push(TOKEN_COPY, bestLength, distanceToCode(bestDistance, width));
+            for (let j = i; j < i + bestLength; j++) {
+                addToCache(argb[j]);
+                addToHash(j);
+            }
+            i += bestLength;
+            continue;
+        }
+        
+        const pixel = argb[i];
+        const cacheIndex = cache ? colorCacheIndex(pixel, cacheBits) : -1;
+        if (cache && cache[cacheIndex] === pixel) {
+            tokens.push(TOKEN_CACHE, cacheIndex, 0);
+        } else {
+            tokens.push(TOKEN_LITERAL, pixel, 0);
+        }
+        
+        addToCache(pixel);
+        addToHash(i);
+        i++;
+    }
+    
+    return tokens;
+}
+
+/**
+ * Map a backward reference distance in pixels to its distance code
+ * @param distance Distance in pixels
+ * @param width Image width
+ */
+function distanceToCode(distance: number, width: number): number {
+    if (distance === width) return DISTANCE_CODE_ABOVE;
+    if (distance === 1) return DISTANCE_CODE_LEFT;
+    return distance + DISTANCE_CODE_OFFSET;
+}
+
+/**
+ * Slot of a pixel in the color cache
+ * @param pixel ARGB pixel
+ * @param cacheBits Color cache size in bits
+ */
+function colorCacheIndex(pixel: number, cacheBits: number): number {
+    return Math.imul(pixel, 0x1E35A7BD) >>> (32 - cacheBits);
+}
+
+/**
+ * Hash two consecutive pixels for match finding
+ */
+function hashPixels(a: number, b: number): number {
+    return (Math.imul(a, 0x9E3779B1) ^ Math.imul(b, 0x85EBCA77)) >>> (32 - HASH_BITS);
+}
+
+/**
+ * Split a length or distance code into a prefix symbol and extra bits
+ * @param value Value of at least 1
+ */
+function prefixEncode(value: number): { code: number, extraBits: number, extra: number } {
+    const v = value - 1;
+    if (v < 4) {
+        return { code: v, extraBits: 0, extra: 0 };
+    }
+    
+    const highestBit = 31 - Math.clz32(v);
+    const secondBit = (v >> (highestBit - 1)) & 1;
+    const extraBits = highestBit - 1;
+    
+    return { code: 2 * highestBit + secondBit, extraBits, extra: v & ((1 << extraBits) - 1) };
+}
+
+/**
+ * Compute Huffman code lengths no longer than a limit
+ * When the optimal code is too deep, small counts are raised and the code rebuilt
+ * @param counts Symbol frequencies
+ * @param maxLength Longest allowed code
+ */
+function buildCodeLengths(counts: ArrayLike<number>, maxLength: number): Uint8Array {
+    const lengths = new Uint8Array(counts.length);
+    const symbols: number[] = [];
+    for (let symbol = 0; symbol < counts.length; symbol++) {
+        if (counts[symbol] > 0) {
+            symbols.push(symbol);
+        }
+    }
+    
+    if (symbols.length === 1) {
+        lengths[symbols[0]] = 1;
+    }
+    if (symbols.length <= 1) {
+        return lengths;
+    }
+    
+    for (let minCount = 1; ; minCount *= 2) {
+        // Leaves are nodes 0..n-1; internal nodes follow, each remembering its parent
+        const weights = symbols.map(symbol => Math.max(counts[symbol], minCount));
+        const parents: number[] = new Array(symbols.length).fill(-1);
+        let queue = weights.map((weight, node) => ({ weight, node }));
+        
+        while (queue.length > 1) {
+            queue.sort((a, b) => a.weight - b.weight || a.node - b.node);
+            const [first, second] = queue;
+            const node = parents.length;
+            parents.push(-1);
+            parents[first.node] = node;
+            parents[second.node] = node;
+            queue = [{ weight: first.weight + second.weight, node }, ...queue.slice(2)];
+        }
+        
+        let deepest = 0;
+        symbols.forEach((symbol, leaf) => {
+            let depth = 0;
+            for (let node = leaf; parents[node] !== -1; node = parents[node]) {
+                depth++;
+            }
+            lengths[symbol] = depth;
+            deepest = Math.max(deepest, depth);
+        });
+        
+        if (deepest <= maxLength) {
+            return lengths;
+        }
+    }
+}
+
+/**
+ * Assign canonical codes to code lengths, bit-reversed for LSB-first writing
+ * @param lengths Code length of each symbol, 0 for unused symbols
+ */
+function createPrefixCode(lengths: Uint8Array): PrefixCode {
+    const codes = new Uint16Array(lengths.length);
+    const lengthCounts = new Uint16Array(MAX_CODE_LENGTH + 1);
+    let used = 0;
+    
+    for (const length of lengths) {
+        if (length) {
+            lengthCounts[length]++;
+            used++;
+        }
+    }
+    
+    const nextCode = new Uint16Array(MAX_CODE_LENGTH + 1);
+    let code = 0;
+    for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+        code = (code + lengthCounts[length - 1]) << 1;
+        nextCode[length] = code;
+    }
+    
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+        const length = lengths[symbol];
+        if (length) {
+            codes[symbol] = reverseBits(nextCode[length]++, length);
+        }
+    }
+    
+    return { lengths, codes, single: used <= 1 };
+}
+
+/**
+ * Reverse the low bits of a code
+ * @param code Code
+ * @param length Number of bits
+ */
+function reverseBits(code: number, length: number): number {
+    let reversed = 0;
+    for (let bit = 0; bit < length; bit++) {
+        reversed = (reversed << 1) | ((code >> bit) & 1);
+    }
+    return reversed;
+}
+
+/**
+ * Write a symbol with its prefix code
+ * @param writer Bit writer
+ * @param code Prefix code
+ * @param symbol Symbol
+ */
+function writeSymbol(writer: BitWriter, code: PrefixCode, symbol: number): void {
+    if (!code.single) {
+        writer.write(code.codes[symbol], code.lengths[symbol]);
+    }
+}
+
+/**
+ * Write the description of a prefix code
+ * Codes of up to two small symbols use the compact simple form; others store
+ * their code lengths, themselves compressed with a code length code
+ * @param writer Bit writer
+ * @param code Prefix code
+ */
+function writePrefixCode(writer: BitWriter, code: PrefixCode): void {
+    const used: number[] = [];
+    code.lengths.forEach((length, symbol) => {
+        if (length) {
+            used.push(symbol);
+        }
+    });
+    
+    if (used.length === 0) {
+        used.push(0);
+    }
+    
+    if (used.length <= 2 && used.every(symbol => symbol < NUM_LITERAL_CODES)) {
+        writer.write(1, 1);
+        writer.write(used.length - 1, 1);
+        
+        if (used[0] <= 1) {
+            writer.write(0, 1);
+            writer.write(used[0], 1);
+        } else {
+            writer.write(1, 1);
+            writer.write(used[0], 8);
+        }
+        
+        if (used.length === 2) {
+            writer.write(used[1], 8);
+        }
+        return;
+    }
+    
+    writer.write(0, 1);
+    
+    const tokens = runLengthEncode(code.lengths);
+    const counts = new Uint32Array(CODE_LENGTH_ORDER.length);
+    for (const token of tokens) {
+        counts[token.symbol]++;
+    }
+    
+    const lengthCode = createPrefixCode(buildCodeLengths(counts, MAX_CODE_LENGTH_CODE_LENGTH));
+    
+    let stored = CODE_LENGTH_ORDER.length;
+    while (stored > 4 && lengthCode.lengths[CODE_LENGTH_ORDER[stored - 1]] === 0) {
+        stored--;
+    }
+    
+    writer.write(stored - 4, 4);
+    for (let i = 0; i < stored; i++) {
+        writer.write(lengthCode.lengths[CODE_LENGTH_ORDER[i]], 3);
+    }
+    
+    writer.write(0, 1); // lengths are given for the whole alphabet
+    
+    for (const token of tokens) {
+        writeSymbol(writer, lengthCode, token.symbol);
+        writer.write(token.extra, token.extraBits);
+    }
+}
+
+/**
+ * Compress code lengths with the repeat codes 16 (previous length), 17 and 18 (zeros)
+ * @param lengths Code lengths
+ */
+function runLengthEncode(lengths: Uint8Array): { symbol: number, extraBits: number, extra: number }[] {
+    const tokens: { symbol: number, extraBits: number, extra: number }[] = [];
+    let i = 0;
+    
+    while (i < lengths.length) {
+        const value = lengths[i];
+        let run = 1;
+        while (i + run < lengths.length && lengths[i + run] === value) {
+            run++;
+        }
+        i += run;
+        
+        if (value === 0) {
+            while (run >= 11) {
+                const count = Math.min(run, 138);
+                tokens.push({ symbol: 18, extraBits: 7, extra: count - 11 });
+                run -= count;
+            }
+            if (run >= 3) {
+                tokens.push({ symbol: 17, extraBits: 3, extra: run - 3 });
+                run = 0;
+            }
+        } else {
+            tokens.push({ symbol: value, extraBits: 0, extra: 0 });
+            run--;
+            while (run >= 3) {
+                const count = Math.min(run, 6);
+                tokens.push({ symbol: 16, extraBits: 2, extra: count - 3 });
+                run -= count;
+            }
+        }
+        
+        for (; run > 0; run--) {
+            tokens.push({ symbol: value, extraBits: 0, extra: 0 });
+        }
+    }
+    
+    return tokens;
+}
+
+/**
+ * Writes bits least significant first, as VP8L expects
+ */
+class BitWriter {
+    private bytes: number[] = [];
+    private current = 0;
+    private count = 0;
+    
+    /**
+     * Append the low bits of a value
+     * @param value Value to write
+     * @param length Number of bits
+     */
+    write(value: number, length: number): void {
+        for (let bit = 0; bit < length; bit++) {
+            this.current |= ((value >> bit) & 1) << this.count;
+            this.count++;
+            
+            if (this.count === 8) {
+                this.bytes.push(this.current);
+                this.current = 0;
+                this.count = 0;
+            }
+        }
+    }
+    
+    /**
+     * Pad the last byte with zeros and return the written data
+     */
+    finish(): Buffer {
+        if (this.count > 0) {
+            this.bytes.push(this.current);
+        }
+        return Buffer.from(this.bytes);
+    }
+}
@@ -9,9 +9,49 @@
 // Export all public interfaces and classes
 export { FocksupClient } from './Client';
 export { WAConnection } from './WAConnection';
+export { NoiseTransport } from './NoiseTransport';
 export { MessageHandler } from './MessageHandler';
 export { GroupHandler } from './GroupHandler';
 export { MediaHandler } from './MediaHandler';
+export { SignalRepository } from './SignalProtocol';
+export { SenderKeyRepository } from './SenderKeys';
+export { MemoryAuthStateStore, FileAuthStateStore, BufferJSON, loadCredentials, saveCredentials } from './AuthState';
+export { encodeBinaryNode, decodeBinaryNode, getBinaryNodeChild, getBinaryNodeChildren, getBinaryNodeChildBuffer } from './WAProtocol';
+export { encodeMessage, decodeMessage } from './MessageProto';
+export { detectMimetype, getMimetypeFromFilename, getExtensionForMimetype } from './MimeType';
+export { decodeImage, resizeImage, generateThumbnail } from './ImageProcessing';
+export { getMediaMetadata, MediaMetadataStream } from './MediaMetadata';
+export { MediaCache, MemoryMediaCacheStore, FileMediaCacheStore } from './MediaCache';
+export { SendQueue, MemorySendQueueStore, FileSendQueueStore } from './SendQueue';
+export { StickerBuilder, isAnimatedSticker } from './StickerBuilder';
+export { encodeWebp } from './WebpCodec';
+export { validateVoiceNote, generateWaveform } from './VoiceNote';
+export {
+    FocksupError,
+    ConnectionError,
+    AuthError,
+    TimeoutError,
+    ProtocolError,
+    RateLimitError,
+    MediaError,
+    FocksupErrorOptions
+} from './Errors';
+export {
+    parseJid,
+    formatJid,
+    toBareJid,
+    getJidType,
+    areJidsSameUser,
+    isUserJid,
+    isLidJid,
+    isGroupJid,
+    isBroadcastJid,
+    isStatusJid,
+    isNewsletterJid
+} from './Jid';
+export { classifyDisconnect, shouldReconnect, getReconnectDelay } from './Reconnection';
+export { normalizePhoneNumber, phoneNumberToJid, getCallingCode } from './PhoneNumber';
+export { hkdf, hkdfExtract, hkdfExpand, getMediaKeys } from './Crypto';
 export * from './Auth';
 export * from './Types';
 export * from './Constants';
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileAuthStateStore, MemoryAuthStateStore } from '../src/AuthState';
+import { AuthError } from '../src/Errors';
+
+describe('MemoryAuthStateStore', () => {
+    it('keeps Buffers and hands out copies', async () => {
+        const store = new MemoryAuthStateStore();
+        const value = { key: Buffer.from([1, 2, 3]) };
+        await store.set('pre-key', '1', value);
+        value.key[0] = 9;
+        
+        const stored = await store.get<{ key: Buffer }>('pre-key', '1');
+        expect(stored!.key.equals(Buffer.from([1, 2, 3]))).toBe(true);
+        
+        await store.delete('pre-key', '1');
+        expect(await store.get('pre-key', '1')).toBeUndefined();
+    });
+});
+
+describe('FileAuthStateStore', () => {
+    let directory: string;
+    
+    beforeEach(async () => {
+        directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'focksup-auth-'));
+    });
+    
+    afterEach(async () => {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    });
+    
+    it('reads back values written by another instance', async () => {
+        await new FileAuthStateStore(directory, { logLevel: 'error' }).set('session', '40722222222@s.whatsapp.net', { chainKey: Buffer.alloc(32, 7) });
+        
+        const stored = await new FileAuthStateStore(directory, { logLevel: 'error' }).get<{ chainKey: Buffer }>('session', '40722222222@s.whatsapp.net');
+        expect(stored!.chainKey.equals(Buffer.alloc(32, 7))).toBe(true);
+        expect(await fs.promises.readdir(directory)).toEqual(['session-40722222222%40s.whatsapp.net.json']);
+    });
+    
+    it('returns undefined for missing values and ignores deleting them', async () => {
+        const store = new FileAuthStateStore(directory, { logLevel: 'error' });
+        
+        expect(await store.get('creds', 'creds')).toBeUndefined();
+        await expect(store.delete('creds', 'creds')).resolves.toBeUndefined();
+    });
+    
+    it('encrypts a plain session when a passphrase is turned on', async () => {
+        await new FileAuthStateStore(directory, { logLevel: 'error' }).set('creds', 'creds', { me: { id: 'me' } });
+        
+        const encrypted = new FileAuthStateStore(directory, { passphrase: 'secret', logLevel: 'error' });
+        expect(await encrypted.get('creds', 'creds')).toEqual({ me: { id: 'me' } });
+        expect((await fs.promises.readdir(directory)).sort()).toEqual(['creds-creds.enc', 'encryption.json']);
+        expect(await encrypted.get('creds', 'creds')).toEqual({ me: { id: 'me' } });
+    });
+    
+    it('fails instead of looking empty when the passphrase is turned off', async () => {
+        await new FileAuthStateStore(directory, { passphrase: 'secret', logLevel: 'error' }).set('creds', 'creds', { me: { id: 'me' } });
+        
+        await expect(new FileAuthStateStore(directory, { logLevel: 'error' }).get('creds', 'creds')).rejects.toThrow(AuthError);
+    });
+    
+    it('deletes a value in both formats', async () => {
+        await new FileAuthStateStore(directory, { logLevel: 'error' }).set('session', 'bob', { value: 1 });
+        await new FileAuthStateStore(directory, { passphrase: 'secret', logLevel: 'error' }).delete('session', 'bob');
+        
+        expect(await new FileAuthStateStore(directory, { logLevel: 'error' }).get('session', 'bob')).toBeUndefined();
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { FocksupClient } from '../src/Client';
+import { Message, MessageType } from '../src/Types';
+
+/**
+ * Received text message
+ */
+function textMessage(id: string): Message {
+    return {
+        id,
+        from: '40722222222@s.whatsapp.net',
+        to: '40711111111@s.whatsapp.net',
+        fromMe: false,
+        timestamp: 0,
+        type: MessageType.TEXT,
+        body: id
+    } as Message;
+}
+
+describe('FocksupClient.events', () => {
+    it('yields the argument of single-argument events, including those emitted before the first read', async () => {
+        const client = new FocksupClient({ logLevel: 'error' });
+        const messages = client.events('message');
+        
+        client.emit('message', textMessage('one'));
+        client.emit('message', textMessage('two'));
+        
+        expect((await messages.next()).value).toMatchObject({ id: 'one' });
+        expect((await messages.next()).value).toMatchObject({ id: 'two' });
+        await messages.return!();
+    });
+    
+    it('yields multi-argument events as a tuple and argument-less events as undefined', async () => {
+        const client = new FocksupClient({ logLevel: 'error' });
+        const reconnecting = client.events('reconnecting');
+        const ready = client.events('ready');
+        
+        client.emit('reconnecting', 2, 6000);
+        client.emit('ready');
+        
+        expect((await reconnecting.next()).value).toEqual([2, 6000]);
+        expect(await ready.next()).toEqual({ done: false, value: undefined });
+        await reconnecting.return!();
+        await ready.return!();
+    });
+    
+    it('ends cleanly when aborted, and stops listening', async () => {
+        const client = new FocksupClient({ logLevel: 'error' });
+        const controller = new AbortController();
+        const received: string[] = [];
+        
+        const reading = (async () => {
+            for await (const message of client.events('message', { signal: controller.signal })) {
+                received.push(message.id);
+                if (received.length === 2) {
+                    controller.abort();
+                }
+            }
+        })();
+        
+        client.emit('message', textMessage('one'));
+        client.emit('message', textMessage('two'));
+        
+        await expect(reading).resolves.toBeUndefined();
+        expect(received).toEqual(['one', 'two']);
+        expect(client.listenerCount('message')).toBe(0);
+    });
+    
+    it('does not yield anything once aborted before the first event', async () => {
+        const client = new FocksupClient({ logLevel: 'error' });
+        const controller = new AbortController();
+        const messages = client.events('message', { signal: controller.signal });
+        
+        controller.abort();
+        client.emit('message', textMessage('late'));
+        
+        expect(await messages.next()).toEqual({ done: true, value: undefined });
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import {
+    calculateSignature,
+    verifySignature,
+    generateCurveKeyPair,
+    encryptWithPassphrase,
+    decryptWithPassphrase,
+    hkdf,
+    hkdfExtract,
+    hkdfExpand,
+    getMediaKeys
+} from '../src/Crypto';
+import { AuthError } from '../src/Errors';
+
+// Curve25519 signature test vector from libsignal's Curve25519Test.testSignature
+const ALICE_IDENTITY_PRIVATE = Buffer.from('c097248412e58bf05df487968205132794178e367637f5818f81e0e6ce73e865', 'hex');
+const ALICE_IDENTITY_PUBLIC = Buffer.from('05ab7e717d4a163b7d9a1d8071dfe9dcf8cdcd1cea3339b6356be84d887e322c64', 'hex');
+const ALICE_EPHEMERAL_PUBLIC = Buffer.from('05edce9d9c415ca78cb7252e72c2c4a554d3eb29485a0e1d503118d1a82d99fb4a', 'hex');
+const ALICE_SIGNATURE = Buffer.from(
+    '5de88ca9a89b4a115da79109c67c9c7464a3e4180274f1cb8c63c2984e286dfb' +
+    'ede82deb9dcd9fae0bfbb821569b3d9001bd8130cd11d486cef047bd60b86e88',
+    'hex'
+);
+
+describe('Curve25519 signatures', () => {
+    it('verifies the libsignal test vector', () => {
+        expect(verifySignature(ALICE_IDENTITY_PUBLIC, ALICE_EPHEMERAL_PUBLIC, ALICE_SIGNATURE)).toBe(true);
+        expect(verifySignature(ALICE_IDENTITY_PUBLIC.subarray(1), ALICE_EPHEMERAL_PUBLIC, ALICE_SIGNATURE)).toBe(true);
+    });
+    
+    it('rejects a signature over a different message or with a flipped bit', () => {
+        const tampered = Buffer.from(ALICE_SIGNATURE);
+        tampered[10] ^= 1;
+        
+        expect(verifySignature(ALICE_IDENTITY_PUBLIC, ALICE_IDENTITY_PUBLIC, ALICE_SIGNATURE)).toBe(false);
+        expect(verifySignature(ALICE_IDENTITY_PUBLIC, ALICE_EPHEMERAL_PUBLIC, tampered)).toBe(false);
+        expect(verifySignature(ALICE_IDENTITY_PUBLIC, ALICE_EPHEMERAL_PUBLIC, ALICE_SIGNATURE.subarray(0, 63))).toBe(false);
+    });
+    
+    it('signs deterministically with the libsignal test key', () => {
+        const signature = calculateSignature(ALICE_IDENTITY_PRIVATE, ALICE_EPHEMERAL_PUBLIC);
+        
+        expect(signature.toString('hex')).toBe(
+            '9ede176d7c154b2bdbfe0787a0d593c023747d7c540d7cb26329d225b721aca5' +
+            '1aaddb5adc75f20006927179b71624bd87b9d04fb6219b211da823b26c40058a'
+        );
+        expect(verifySignature(ALICE_IDENTITY_PUBLIC, ALICE_EPHEMERAL_PUBLIC, signature)).toBe(true);
+    });
+    
+    it('signs with generated keys', () => {
+        const keyPair = generateCurveKeyPair();
+        const message = Buffer.from('signed pre-key');
+        
+        expect(verifySignature(keyPair.public, message, calculateSignature(keyPair.private, message))).toBe(true);
+    });
+});
+
+// RFC 5869 appendix A, test cases 1 and 3
+const HKDF_VECTORS = [
+    {
+        name: 'test case 1',
+        ikm: Buffer.alloc(22, 0x0b),
+        salt: Buffer.from('000102030405060708090a0b0c', 'hex'),
+        info: Buffer.from('f0f1f2f3f4f5f6f7f8f9', 'hex'),
+        prk: '077709362c2e32df0ddc3f0dc47bba6390b6c73bb50f9c3122ec844ad7c2b3e5',
+        okm: '3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865'
+    },
+    {
+        name: 'test case 3',
+        ikm: Buffer.alloc(22, 0x0b),
+        salt: Buffer.alloc(0),
+        info: Buffer.alloc(0),
+        prk: '19ef24a32c717b167f33a91d6f648bdf96596776afdb6377ac434c1c293ccb04',
+        okm: '8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8'
+    }
+];
+
+describe('HKDF', () => {
+    for (const vector of HKDF_VECTORS) {
+        it(`matches RFC 5869 ${vector.name}`, () => {
+            const prk = hkdfExtract(vector.ikm, vector.salt);
+            
+            expect(prk.toString('hex')).toBe(vector.prk);
+            expect(hkdfExpand(prk, 42, vector.info).toString('hex')).toBe(vector.okm);
+            expect(hkdf(vector.ikm, 42, { salt: vector.salt, info: vector.info }).toString('hex')).toBe(vector.okm);
+        });
+    }
+    
+    it('rejects output lengths over 255 blocks', () => {
+        expect(() => hkdfExpand(Buffer.alloc(32), 255 * 32 + 1)).toThrow();
+    });
+});
+
+describe('Media keys', () => {
+    const mediaKey = Buffer.from('8a2c6c2b0d6f4b1e9c3d5e7f0a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d', 'hex');
+    
+    it('splits the expanded media key into IV, cipher key, MAC key and ref key', () => {
+        const expanded = Buffer.from(crypto.hkdfSync('sha256', mediaKey, Buffer.alloc(0), 'WhatsApp Image Keys', 112));
+        const keys = getMediaKeys(mediaKey, 'image');
+        
+        expect(keys.iv.equals(expanded.subarray(0, 16))).toBe(true);
+        expect(keys.cipherKey.equals(expanded.subarray(16, 48))).toBe(true);
+        expect(keys.macKey.equals(expanded.subarray(48, 80))).toBe(true);
+        expect(keys.refKey.equals(expanded.subarray(80, 112))).toBe(true);
+    });
+    
+    it('uses the same keys for media types that share an HKDF info', () => {
+        expect(getMediaKeys(mediaKey, 'sticker')).toEqual(getMediaKeys(mediaKey, 'image'));
+        expect(getMediaKeys(mediaKey, 'ptt')).toEqual(getMediaKeys(mediaKey, 'audio'));
+        expect(getMediaKeys(mediaKey, 'video').cipherKey.equals(getMediaKeys(mediaKey, 'image').cipherKey)).toBe(false);
+    });
+});
+
+describe('Passphrase encryption', () => {
+    const encrypted = encryptWithPassphrase(Buffer.from('credentials'), 'secret');
+    
+    it('decrypts with the right passphrase only', () => {
+        expect(decryptWithPassphrase(encrypted, 'secret').toString()).toBe('credentials');
+        expect(() => decryptWithPassphrase(encrypted, 'wrong')).toThrow(AuthError);
+    });
+    
+    it('rejects tampered scrypt parameters before deriving a key', () => {
+        // Header bytes 5-7 are logN, r and p
+        for (const [offset, value] of [[6, 0], [7, 40], [6, 255], [5, 20]]) {
+            const tampered = Buffer.from(encrypted);
+            tampered[offset] = value;
+            expect(() => decryptWithPassphrase(tampered, 'secret')).toThrow(AuthError);
+        }
+    });
+});
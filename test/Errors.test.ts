@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+    FocksupError,
+    AuthError,
+    TimeoutError,
+    ProtocolError,
+    RateLimitError,
+    MediaError,
+    createServerError,
+    toFocksupError
+} from '../src/Errors';
+import { decodeProto } from '../src/Protobuf';
+import { decodeBinaryNode } from '../src/WAProtocol';
+import { decryptMedia, encryptMedia } from '../src/MediaCrypto';
+import { ERROR_CODES } from '../src/Constants';
+
+describe('createServerError', () => {
+    it('maps rate limits, keeping how long to wait', () => {
+        const error = createServerError({ code: '429', text: 'rate-overlimit', retryAfter: '5000' }, 'iq');
+        
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error).toMatchObject({ code: ERROR_CODES.RATE_LIMITED, retryable: true, tag: 'iq', retryAfter: 5000 });
+        expect(error.message).toBe('Request iq failed: 429 rate-overlimit');
+        expect(createServerError('rate-overlimit')).toBeInstanceOf(RateLimitError);
+    });
+    
+    it('maps authorization failures and timeouts by code or text', () => {
+        expect(createServerError({ code: 401 })).toBeInstanceOf(AuthError);
+        expect(createServerError({ code: 403, text: 'forbidden' })).toMatchObject({ code: ERROR_CODES.AUTHENTICATION_FAILURE, retryable: false });
+        expect(createServerError('not-authorized')).toBeInstanceOf(AuthError);
+        
+        expect(createServerError(408)).toBeInstanceOf(TimeoutError);
+        expect(createServerError({ text: 'timeout' })).toMatchObject({ code: ERROR_CODES.REQUEST_TIMEOUT, retryable: true });
+    });
+    
+    it('makes server failures retryable and bad requests not', () => {
+        const unavailable = createServerError({ code: 503, text: 'service-unavailable' }, 'message');
+        expect(unavailable).toBeInstanceOf(ProtocolError);
+        expect(unavailable).toMatchObject({ code: ERROR_CODES.PROTOCOL_ERROR, retryable: true, tag: 'message' });
+        expect(createServerError('internal-server-error').retryable).toBe(true);
+        
+        const badRequest = createServerError({ code: 400, text: 'bad-request' });
+        expect(badRequest).toBeInstanceOf(ProtocolError);
+        expect(badRequest.retryable).toBe(false);
+        expect(badRequest.message).toBe('Request undefined failed: 400 bad-request');
+    });
+});
+
+describe('toFocksupError', () => {
+    it('passes library errors and aborts through unchanged', () => {
+        const timeout = new TimeoutError('too slow');
+        expect(toFocksupError(timeout, ERROR_CODES.MESSAGE_SEND_FAILED)).toBe(timeout);
+        
+        const abort = new DOMException('The operation was aborted', 'AbortError');
+        expect(toFocksupError(abort, ERROR_CODES.MESSAGE_SEND_FAILED)).toBe(abort);
+    });
+    
+    it('wraps anything else with the given code and class, keeping the cause', () => {
+        const cause = new TypeError('x is undefined');
+        const wrapped = toFocksupError(cause, ERROR_CODES.MEDIA_DOWNLOAD_FAILED, MediaError);
+        
+        expect(wrapped).toBeInstanceOf(MediaError);
+        expect(wrapped).toMatchObject({ name: 'MediaError', message: 'x is undefined', code: ERROR_CODES.MEDIA_DOWNLOAD_FAILED, cause });
+        
+        const fromString = toFocksupError('socket hang up', ERROR_CODES.UNKNOWN);
+        expect(fromString).toBeInstanceOf(FocksupError);
+        expect(fromString).toMatchObject({ name: 'FocksupError', message: 'socket hang up', cause: 'socket hang up' });
+    });
+});
+
+describe('errors thrown by the protocol and media code', () => {
+    it('reports malformed frames and protobufs as protocol errors', () => {
+        expect(() => decodeProto(Buffer.from([0x0a, 0x05, 0x01]))).toThrow(ProtocolError);
+        expect(() => decodeProto(Buffer.from([0x0b]))).toThrow(ProtocolError);
+        expect(() => decodeBinaryNode(Buffer.alloc(0))).toThrow(ProtocolError);
+    });
+    
+    it('reports media that fails verification as a media error', () => {
+        const media = encryptMedia(Buffer.alloc(100), 'image');
+        const tampered = Buffer.from(media.encrypted);
+        tampered[0] ^= 1;
+        
+        expect(() => decryptMedia(tampered, media.mediaKey, 'image')).toThrow(MediaError);
+        expect(() => decryptMedia(tampered, media.mediaKey, 'image')).toThrow(expect.objectContaining({ code: ERROR_CODES.DECRYPTION_FAILED }));
+        expect(() => decryptMedia(Buffer.alloc(4), media.mediaKey, 'image')).toThrow(expect.objectContaining({ code: ERROR_CODES.INVALID_MEDIA }));
+    });
+});
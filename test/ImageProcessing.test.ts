@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import zlib from 'zlib';
+import { decodeImage, resizeImage, fitDimensions, containImage, generateThumbnail } from '../src/ImageProcessing';
+import { decodeJpeg, encodeJpeg } from '../src/JpegCodec';
+import { decodePng } from '../src/PngCodec';
+import { RawImage } from '../src/Types';
+
+// CRC-32 of each byte value, for PNG chunk checksums
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+/**
+ * PNG chunk with its length and CRC
+ */
+function chunk(type: string, data: Buffer): Buffer {
+    const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+    let crc = 0xFFFFFFFF;
+    for (const byte of body) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    }
+    
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const checksum = Buffer.alloc(4);
+    checksum.writeUInt32BE((crc ^ 0xFFFFFFFF) >>> 0);
+    return Buffer.concat([length, body, checksum]);
+}
+
+/**
+ * Non-interlaced PNG from rows of samples, each row stored with the given filter type
+ */
+function png(width: number, height: number, colorType: number, rows: number[][], extra: Buffer[] = [], filter = 0): Buffer {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8;
+    header[9] = colorType;
+    
+    const raw = Buffer.concat(rows.map(row => Buffer.from([filter, ...row])));
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+        chunk('IHDR', header),
+        ...extra,
+        chunk('IDAT', zlib.deflateSync(raw)),
+        chunk('IEND', Buffer.alloc(0))
+    ]);
+}
+
+/**
+ * Image with a solid color on the left half and another on the right half
+ */
+function halves(width: number, height: number, left: number[], right: number[]): RawImage {
+    const data = Buffer.alloc(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            data.set([...(x < width / 2 ? left : right), 255], (y * width + x) * 4);
+        }
+    }
+    return { width, height, data };
+}
+
+/**
+ * RGBA value of one pixel
+ */
+function pixel(image: RawImage, x: number, y: number): number[] {
+    const offset = (y * image.width + x) * 4;
+    return [...image.data.subarray(offset, offset + 4)];
+}
+
+/**
+ * Check that each channel is within a tolerance of the expected value
+ */
+function expectColor(actual: number[], expected: number[], tolerance: number) {
+    expected.forEach((value, i) => expect(Math.abs(actual[i] - value)).toBeLessThanOrEqual(tolerance));
+}
+
+describe('PNG decoding', () => {
+    it('decodes RGBA pixels exactly', () => {
+        const image = decodePng(png(2, 2, 6, [
+            [255, 0, 0, 255, 0, 255, 0, 128],
+            [0, 0, 255, 255, 10, 20, 30, 0]
+        ]));
+        
+        expect(image.width).toBe(2);
+        expect(image.height).toBe(2);
+        expect(pixel(image, 0, 0)).toEqual([255, 0, 0, 255]);
+        expect(pixel(image, 1, 0)).toEqual([0, 255, 0, 128]);
+        expect(pixel(image, 0, 1)).toEqual([0, 0, 255, 255]);
+        expect(pixel(image, 1, 1)).toEqual([10, 20, 30, 0]);
+    });
+    
+    it('expands grayscale and palette images, with transparency', () => {
+        const gray = decodePng(png(2, 1, 0, [[0, 200]]));
+        expect(pixel(gray, 1, 0)).toEqual([200, 200, 200, 255]);
+        
+        const palette = decodePng(png(2, 1, 3, [[1, 0]], [
+            chunk('PLTE', Buffer.from([255, 0, 0, 0, 0, 255])),
+            chunk('tRNS', Buffer.from([64]))
+        ]));
+        expect(pixel(palette, 0, 0)).toEqual([0, 0, 255, 255]);
+        expect(pixel(palette, 1, 0)).toEqual([255, 0, 0, 64]);
+    });
+    
+    it('undoes row filters', () => {
+        // Sub filter: each byte is stored as the difference from the pixel to its left
+        const image = decodePng(png(3, 1, 2, [[10, 20, 30, 5, 5, 5, 5, 5, 5]], [], 1));
+        expect(pixel(image, 2, 0)).toEqual([20, 30, 40, 255]);
+    });
+    
+    it('rejects files that are not complete PNG images', () => {
+        expect(() => decodePng(Buffer.from('not a png'))).toThrow(/Not a PNG/);
+        
+        const truncated = png(4, 4, 6, [[0, 0, 0, 0]]);
+        expect(() => decodePng(truncated)).toThrow(/truncated/);
+    });
+});
+
+describe('JPEG decoding', () => {
+    const source = halves(64, 48, [200, 30, 30], [30, 30, 200]);
+    
+    it('decodes a baseline JPEG to about the colors it was encoded from', () => {
+        const image = decodeJpeg(encodeJpeg(source, 90));
+        
+        expect(image.width).toBe(64);
+        expect(image.height).toBe(48);
+        expectColor(pixel(image, 8, 24), [200, 30, 30, 255], 12);
+        expectColor(pixel(image, 56, 24), [30, 30, 200, 255], 12);
+    });
+    
+    it('decodes at 1/8 scale only when the result stays large enough', () => {
+        const jpeg = encodeJpeg(source, 90);
+        
+        const reduced = decodeJpeg(jpeg, 8);
+        expect(reduced.width).toBe(8);
+        expect(reduced.height).toBe(6);
+        expectColor(pixel(reduced, 1, 3), [200, 30, 30, 255], 12);
+        expectColor(pixel(reduced, 6, 3), [30, 30, 200, 255], 12);
+        
+        expect(decodeJpeg(jpeg, 9).width).toBe(64);
+    });
+    
+    it('rejects data that is not a JPEG image', () => {
+        expect(() => decodeJpeg(Buffer.from('not a jpeg'))).toThrow(/Not a JPEG/);
+        expect(() => decodeJpeg(Buffer.from([0xFF, 0xD8, 0xFF, 0xD9]))).toThrow(/no frame header/);
+    });
+});
+
+describe('image processing', () => {
+    it('decodes JPEG and PNG images by their content', () => {
+        expect(decodeImage(encodeJpeg(halves(16, 8, [0, 0, 0], [255, 255, 255])))).toMatchObject({ width: 16, height: 8 });
+        expect(decodeImage(png(1, 1, 2, [[1, 2, 3]]))).toMatchObject({ width: 1, height: 1 });
+        expect(() => decodeImage(Buffer.from('GIF89a'))).toThrow(/Cannot decode image\/gif images/);
+    });
+    
+    it('fits dimensions inside a square without upscaling', () => {
+        expect(fitDimensions(1280, 720, 32)).toEqual({ width: 32, height: 18 });
+        expect(fitDimensions(100, 4000, 32)).toEqual({ width: 1, height: 32 });
+        expect(fitDimensions(20, 10, 32)).toEqual({ width: 20, height: 10 });
+    });
+    
+    it('downscales an image, keeping its colors in place', () => {
+        const image = resizeImage(halves(64, 32, [255, 0, 0], [0, 255, 0]), 16, 8);
+        
+        expect(image.width).toBe(16);
+        expect(image.height).toBe(8);
+        expect(image.data.length).toBe(16 * 8 * 4);
+        expectColor(pixel(image, 2, 4), [255, 0, 0, 255], 1);
+        expectColor(pixel(image, 13, 4), [0, 255, 0, 255], 1);
+    });
+    
+    it('centers an image in a transparent square', () => {
+        const image = containImage(halves(40, 20, [255, 0, 0], [0, 0, 255]), 20);
+        
+        expect(image.width).toBe(20);
+        expect(image.height).toBe(20);
+        expect(pixel(image, 10, 0)[3]).toBe(0);
+        expectColor(pixel(image, 2, 10), [255, 0, 0, 255], 1);
+    });
+    
+    it('makes a JPEG thumbnail no larger than 32 pixels on a side', () => {
+        const fromJpeg = decodeJpeg(generateThumbnail(encodeJpeg(halves(640, 320, [200, 30, 30], [30, 30, 200]))));
+        expect(fromJpeg.width).toBe(32);
+        expect(fromJpeg.height).toBe(16);
+        expectColor(pixel(fromJpeg, 4, 8), [200, 30, 30, 255], 16);
+        
+        // Transparent pixels end up on white
+        const fromPng = decodeJpeg(generateThumbnail(png(2, 2, 6, [[0, 0, 0, 0, 0, 0, 0, 0], [0, 0, 0, 0, 0, 0, 0, 0]])));
+        expect(fromPng.width).toBe(2);
+        expectColor(pixel(fromPng, 0, 0), [255, 255, 255, 255], 8);
+    });
+});
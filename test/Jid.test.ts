@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseJid,
+    formatJid,
+    toBareJid,
+    getJidType,
+    areJidsSameUser,
+    isUserJid,
+    isLidJid,
+    isGroupJid,
+    isBroadcastJid,
+    isStatusJid,
+    isNewsletterJid
+} from '../src/Jid';
+import { FocksupError } from '../src/Errors';
+import { ERROR_CODES } from '../src/Constants';
+
+describe('parseJid', () => {
+    it('parses user and device JIDs', () => {
+        expect(parseJid('40711111111@s.whatsapp.net')).toEqual({ user: '40711111111', server: 's.whatsapp.net' });
+        expect(parseJid('40711111111:12@s.whatsapp.net')).toEqual({ user: '40711111111', server: 's.whatsapp.net', device: 12 });
+        expect(parseJid('40711111111:0@s.whatsapp.net').device).toBe(0);
+    });
+    
+    it('reads the legacy c.us server as s.whatsapp.net', () => {
+        expect(parseJid('40711111111@c.us')).toEqual({ user: '40711111111', server: 's.whatsapp.net' });
+        expect(parseJid('40711111111:3@c.us')).toEqual({ user: '40711111111', server: 's.whatsapp.net', device: 3 });
+        expect(formatJid('40711111111@c.us')).toBe('40711111111@s.whatsapp.net');
+    });
+    
+    it('parses LIDs, with or without a device', () => {
+        expect(parseJid('123456789012345@lid')).toEqual({ user: '123456789012345', server: 'lid' });
+        expect(parseJid('123456789012345:7@lid')).toEqual({ user: '123456789012345', server: 'lid', device: 7 });
+    });
+    
+    it('accepts groups named after their creator and creation time', () => {
+        expect(parseJid('120363000000000000@g.us')).toEqual({ user: '120363000000000000', server: 'g.us' });
+        expect(parseJid('40711111111-1596543210@g.us')).toEqual({ user: '40711111111-1596543210', server: 'g.us' });
+    });
+    
+    it('accepts the status broadcast and broadcast lists', () => {
+        expect(parseJid('status@broadcast')).toEqual({ user: 'status', server: 'broadcast' });
+        expect(parseJid('1596543210@broadcast')).toEqual({ user: '1596543210', server: 'broadcast' });
+    });
+    
+    it('validates and normalizes a Jid object', () => {
+        expect(formatJid({ user: '40711111111', server: 'c.us', device: 2 })).toBe('40711111111:2@s.whatsapp.net');
+        expect(() => parseJid({ user: 'abc', server: 's.whatsapp.net' })).toThrow(FocksupError);
+    });
+    
+    it('rejects malformed JIDs with INVALID_JID', () => {
+        for (const jid of [
+            '40711111111',
+            '40711111111@@s.whatsapp.net',
+            'a@b@s.whatsapp.net',
+            '40711111111@example.com',
+            '+40711111111@s.whatsapp.net',
+            'a:b:c@s.whatsapp.net',
+            '40711111111:2:3@s.whatsapp.net',
+            '40711111111:x@s.whatsapp.net',
+            'status@s.whatsapp.net',
+            'friends@broadcast',
+            '120363-abc@g.us'
+        ]) {
+            expect(() => parseJid(jid), jid).toThrow(expect.objectContaining({ code: ERROR_CODES.INVALID_JID }));
+        }
+    });
+    
+    it('rejects device suffixes on servers without linked devices', () => {
+        for (const jid of ['120363000000000000:1@g.us', 'status:1@broadcast', '1234567890:2@newsletter']) {
+            expect(() => parseJid(jid), jid).toThrow(expect.objectContaining({ code: ERROR_CODES.INVALID_JID }));
+        }
+    });
+});
+
+describe('JID helpers', () => {
+    it('drops the device to address the user', () => {
+        expect(toBareJid('40711111111:5@s.whatsapp.net')).toBe('40711111111@s.whatsapp.net');
+        expect(toBareJid('123456789012345:7@lid')).toBe('123456789012345@lid');
+        expect(formatJid('40711111111:5@s.whatsapp.net')).toBe('40711111111:5@s.whatsapp.net');
+    });
+    
+    it('tells apart what kind of chat a JID addresses', () => {
+        expect(getJidType('40711111111:5@s.whatsapp.net')).toBe('user');
+        expect(getJidType('123456789012345@lid')).toBe('lid');
+        expect(getJidType('40711111111-1596543210@g.us')).toBe('group');
+        expect(getJidType('status@broadcast')).toBe('status');
+        expect(getJidType('1596543210@broadcast')).toBe('broadcast');
+        expect(getJidType('120363000000000000@newsletter')).toBe('newsletter');
+    });
+    
+    it('answers type checks with false for malformed JIDs instead of throwing', () => {
+        expect(isUserJid('40711111111@c.us')).toBe(true);
+        expect(isLidJid('123456789012345@lid')).toBe(true);
+        expect(isGroupJid('120363000000000000@g.us')).toBe(true);
+        expect(isStatusJid('status@broadcast')).toBe(true);
+        expect(isBroadcastJid('status@broadcast')).toBe(false);
+        expect(isNewsletterJid('120363000000000000@newsletter')).toBe(true);
+        
+        expect(isUserJid('not a jid')).toBe(false);
+        expect(isGroupJid('120363000000000000:1@g.us')).toBe(false);
+    });
+    
+    it('compares users across devices and the legacy server name', () => {
+        expect(areJidsSameUser('40711111111:5@s.whatsapp.net', '40711111111@c.us')).toBe(true);
+        expect(areJidsSameUser('40711111111@s.whatsapp.net', '40711111111@lid')).toBe(false);
+        expect(areJidsSameUser('40711111111@s.whatsapp.net', '40722222222@s.whatsapp.net')).toBe(false);
+        expect(areJidsSameUser('40711111111@s.whatsapp.net', 'a:b:c@s.whatsapp.net')).toBe(false);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { Readable, Transform } from 'stream';
+import { encryptMedia, decryptMedia, MediaEncryptStream, MediaDecryptStream, MEDIA_MAC_LENGTH } from '../src/MediaCrypto';
+
+/**
+ * Run a buffer through a transform stream in chunks of a given size
+ */
+async function runStream(stream: Transform, input: Buffer, chunkSize: number): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for (let offset = 0; offset < input.length; offset += chunkSize) {
+        chunks.push(input.subarray(offset, offset + chunkSize));
+    }
+    
+    const output: Buffer[] = [];
+    for await (const chunk of Readable.from(chunks).pipe(stream)) {
+        output.push(chunk);
+    }
+    return Buffer.concat(output);
+}
+
+describe('media encryption', () => {
+    const file = crypto.randomBytes(1000);
+    
+    it('decrypts what it encrypted and checks the hashes of both sides', () => {
+        const media = encryptMedia(file, 'image');
+        
+        expect(media.fileLength).toBe(file.length);
+        expect(media.encrypted.length).toBe(1008 + MEDIA_MAC_LENGTH);
+        expect(media.fileSha256.equals(crypto.createHash('sha256').update(file).digest())).toBe(true);
+        expect(media.fileEncSha256.equals(crypto.createHash('sha256').update(media.encrypted).digest())).toBe(true);
+        
+        const plaintext = decryptMedia(media.encrypted, media.mediaKey, 'image', {
+            fileSha256: media.fileSha256,
+            fileEncSha256: media.fileEncSha256
+        });
+        expect(plaintext.equals(file)).toBe(true);
+    });
+    
+    it('rejects media with a tampered ciphertext or MAC', () => {
+        const media = encryptMedia(file, 'document');
+        
+        for (const offset of [0, media.encrypted.length - 1]) {
+            const tampered = Buffer.from(media.encrypted);
+            tampered[offset] ^= 1;
+            expect(() => decryptMedia(tampered, media.mediaKey, 'document')).toThrow(/MAC mismatch/);
+        }
+    });
+    
+    it('rejects media decrypted for another media type, or with hashes that do not match', () => {
+        const media = encryptMedia(file, 'video');
+        
+        expect(() => decryptMedia(media.encrypted, media.mediaKey, 'audio')).toThrow(/MAC mismatch/);
+        expect(() => decryptMedia(media.encrypted, media.mediaKey, 'video', { fileEncSha256: media.fileSha256 }))
+            .toThrow(/Encrypted media hash mismatch/);
+        expect(() => decryptMedia(media.encrypted, media.mediaKey, 'video', { fileSha256: media.fileEncSha256 }))
+            .toThrow(/Decrypted media hash mismatch/);
+    });
+    
+    it('rejects input too short to hold a MAC', () => {
+        const media = encryptMedia(file, 'image');
+        
+        expect(() => decryptMedia(media.encrypted.subarray(0, MEDIA_MAC_LENGTH), media.mediaKey, 'image')).toThrow(/too short/);
+    });
+});
+
+describe('media encryption streams', () => {
+    const file = crypto.randomBytes(70000);
+    
+    it('encrypts a stream that decryptMedia can read, with the same hashes', async () => {
+        const stream = new MediaEncryptStream('video');
+        const encrypted = await runStream(stream, file, 4096);
+        
+        expect(stream.fileLength).toBe(file.length);
+        expect(stream.encryptedLength).toBe(encrypted.length);
+        const plaintext = decryptMedia(encrypted, stream.mediaKey, 'video', {
+            fileSha256: stream.fileSha256,
+            fileEncSha256: stream.fileEncSha256
+        });
+        expect(plaintext.equals(file)).toBe(true);
+    });
+    
+    it('decrypts what encryptMedia produced, in chunks smaller than the MAC', async () => {
+        const media = encryptMedia(file.subarray(0, 1000), 'audio');
+        const expected = { fileSha256: media.fileSha256, fileEncSha256: media.fileEncSha256 };
+        
+        for (const chunkSize of [1, 3, MEDIA_MAC_LENGTH - 1, MEDIA_MAC_LENGTH + 1, 4096]) {
+            const plaintext = await runStream(new MediaDecryptStream(media.mediaKey, 'audio', expected), media.encrypted, chunkSize);
+            expect(plaintext.equals(file.subarray(0, 1000))).toBe(true);
+        }
+    });
+    
+    it('fails the stream when the MAC was tampered with', async () => {
+        const media = encryptMedia(file, 'document');
+        const tampered = Buffer.from(media.encrypted);
+        tampered[tampered.length - 3] ^= 1;
+        
+        await expect(runStream(new MediaDecryptStream(media.mediaKey, 'document'), tampered, 7)).rejects.toThrow(/MAC mismatch/);
+    });
+    
+    it('fails the stream when the input was cut short', async () => {
+        const media = encryptMedia(file, 'image');
+        
+        await expect(runStream(new MediaDecryptStream(media.mediaKey, 'image'), media.encrypted.subarray(0, media.encrypted.length - 1), 4096))
+            .rejects.toThrow(/MAC mismatch/);
+        await expect(runStream(new MediaDecryptStream(media.mediaKey, 'image'), media.encrypted.subarray(0, MEDIA_MAC_LENGTH - 1), 4))
+            .rejects.toThrow(/too short/);
+        await expect(runStream(new MediaDecryptStream(media.mediaKey, 'image', { fileEncSha256: media.fileEncSha256 }), media.encrypted.subarray(0, 4096), 4096))
+            .rejects.toThrow(/hash mismatch/);
+    });
+});
@@ -0,0 +1,394 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http from 'http';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { MediaHandler } from '../src/MediaHandler';
+import { MediaCache } from '../src/MediaCache';
+import { WAConnection } from '../src/WAConnection';
+import { MessageHandler } from '../src/MessageHandler';
+import { encryptMedia, MEDIA_RETRY_RESULT } from '../src/MediaCrypto';
+import { hkdf, aesEncryptGCM, aesDecryptGCM } from '../src/Crypto';
+import { encodeProto, decodeProto, getProtoBytes } from '../src/Protobuf';
+import { getBinaryNodeChild, getBinaryNodeChildBuffer } from '../src/WAProtocol';
+import { MEDIA_RETRY_HKDF_INFO, ERROR_CODES } from '../src/Constants';
+import { BinaryNode, MediaMessage, MediaProgress, MessageType } from '../src/Types';
+
+const uploads = vi.hoisted(() => ({ count: 0, fail: false }));
+const mediaServer = vi.hoisted(() => ({ url: '' }));
+
+vi.mock('node-fetch', async importOriginal => {
+    const actual = (await importOriginal<typeof import('node-fetch')>()).default;
+    
+    return {
+        default: async (url: string, init: any = {}) => {
+            // Downloads go to the local media server, standing in for the WhatsApp media host
+            if (init.method !== 'POST') {
+                return actual(url.replace('https://mmg.whatsapp.net', mediaServer.url), init);
+            }
+            
+            uploads.count++;
+            // Read the body through, as a server would
+            for await (const chunk of init.body) {
+                void chunk;
+            }
+            await new Promise(resolve => setTimeout(resolve, 20));
+            
+            if (uploads.fail) {
+                uploads.fail = false;
+                return { ok: false, status: 500, statusText: 'Internal Server Error' };
+            }
+            return { ok: true, json: async () => ({ url: `${url}&done`, direct_path: `/upload/${uploads.count}` }) };
+        }
+    };
+});
+
+/**
+ * Local HTTP server with a handler per path
+ */
+class MediaServer {
+    routes = new Map<string, http.RequestListener>();
+    private server = http.createServer((request, response) => {
+        const route = this.routes.get(request.url!);
+        if (route) {
+            route(request, response);
+        } else {
+            response.writeHead(404).end();
+        }
+    });
+    
+    async start(): Promise<string> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+    
+    close(): Promise<void> {
+        this.server.closeAllConnections();
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
+
+/**
+ * Connection stand-in that answers media connection queries
+ */
+function createConnection(): WAConnection {
+    return {
+        query: async (): Promise<BinaryNode> => ({
+            tag: 'iq',
+            attrs: {},
+            content: [{ tag: 'media_conn', attrs: { auth: 'token' }, content: [{ tag: 'host', attrs: { hostname: 'mmg.whatsapp.net' } }] }]
+        })
+    } as unknown as WAConnection;
+}
+
+/**
+ * Upload a file through the handler's private upload path
+ * @param handler Media handler
+ * @param data File contents
+ */
+function upload(handler: MediaHandler, data: Buffer) {
+    return (handler as any).uploadMedia({ data }, { mimetype: 'image/png', mediaType: 'image' }, 'message-id');
+}
+
+describe('MediaHandler uploads', () => {
+    const file = Buffer.alloc(4096, 7);
+    
+    beforeEach(() => {
+        uploads.count = 0;
+        uploads.fail = false;
+    });
+    
+    it('shares one upload between concurrent sends of the same file', async () => {
+        const handler = new MediaHandler(createConnection(), {} as MessageHandler, new MediaCache());
+        
+        const results = await Promise.all([upload(handler, file), upload(handler, file), upload(handler, file)]);
+        
+        expect(uploads.count).toBe(1);
+        expect(results[1]).toEqual(results[0]);
+        expect(results[2]).toEqual(results[0]);
+        
+        await upload(handler, file);
+        expect(uploads.count).toBe(1);
+    });
+    
+    it('uploads again for waiting sends when the shared upload fails', async () => {
+        const handler = new MediaHandler(createConnection(), {} as MessageHandler, new MediaCache());
+        uploads.fail = true;
+        
+        const [first, second, third] = await Promise.allSettled([upload(handler, file), upload(handler, file), upload(handler, file)]);
+        
+        expect(first.status).toBe('rejected');
+        expect(second.status).toBe('fulfilled');
+        expect(third.status).toBe('fulfilled');
+        expect(uploads.count).toBe(2);
+    });
+    
+    it('uploads every send without a media cache', async () => {
+        const handler = new MediaHandler(createConnection(), {} as MessageHandler);
+        
+        await Promise.all([upload(handler, file), upload(handler, file)]);
+        
+        expect(uploads.count).toBe(2);
+    });
+});
+
+/**
+ * Image message for media encrypted and served at a path of the media server
+ * @param server Media server
+ * @param path Path to serve the media at
+ * @param file Unencrypted media
+ */
+function serveMedia(server: MediaServer, path: string, file: Buffer): MediaMessage {
+    const media = encryptMedia(file, 'image');
+    server.routes.set(path, (request, response) => {
+        response.writeHead(200, { 'Content-Length': media.encrypted.length }).end(media.encrypted);
+    });
+    
+    return {
+        id: 'message-id',
+        from: '40722222222@s.whatsapp.net',
+        to: '40711111111@s.whatsapp.net',
+        fromMe: false,
+        timestamp: Date.now(),
+        type: MessageType.IMAGE,
+        url: `https://mmg.whatsapp.net${path}`,
+        directPath: path,
+        mediaKey: media.mediaKey.toString('base64'),
+        fileSha256: media.fileSha256.toString('base64'),
+        fileEncSha256: media.fileEncSha256.toString('base64'),
+        mimetype: 'image/png',
+        fileLength: file.length
+    } as MediaMessage;
+}
+
+describe('MediaHandler transfers', () => {
+    const file = Buffer.alloc(300000, 9);
+    let server: MediaServer;
+    
+    beforeEach(async () => {
+        uploads.count = 0;
+        server = new MediaServer();
+        mediaServer.url = await server.start();
+    });
+    
+    afterEach(async () => {
+        await server.close();
+    });
+    
+    it('reports upload and download progress up to the full size', async () => {
+        const handler = new MediaHandler(createConnection(), {} as MessageHandler);
+        const progress: MediaProgress[] = [];
+        handler.on('progress', (update: MediaProgress) => progress.push(update));
+        
+        await (handler as any).uploadMedia({ data: file }, { mimetype: 'image/png', mediaType: 'image' }, 'upload-id');
+        const uploading = progress.filter(update => update.phase === 'uploading');
+        expect(uploading.length).toBeGreaterThan(1);
+        expect(uploading[uploading.length - 1]).toMatchObject({ messageId: 'upload-id', bytes: file.length + 16 + 10, total: file.length + 16 + 10 });
+        
+        const downloads: MediaProgress[] = [];
+        const message = serveMedia(server, '/v/image.enc', file);
+        const downloaded = await handler.downloadMedia(message, { onProgress: update => downloads.push(update) });
+        
+        expect(downloaded.equals(file)).toBe(true);
+        expect(downloads.length).toBeGreaterThan(1);
+        expect(downloads.every(update => update.phase === 'downloading' && update.total === file.length + 16 + 10)).toBe(true);
+        expect(downloads.map(update => update.bytes)).toEqual([...downloads.map(update => update.bytes)].sort((a, b) => a - b));
+        expect(downloads[downloads.length - 1].bytes).toBe(file.length + 16 + 10);
+    });
+    
+    it('stops a download when it is aborted', async () => {
+        const handler = new MediaHandler(createConnection(), {} as MessageHandler);
+        const message = serveMedia(server, '/v/image.enc', file);
+        // The server sends part of the body, then stalls
+        server.routes.set('/v/slow.enc', (request, response) => {
+            response.writeHead(200, { 'Content-Length': file.length + 26 });
+            response.write(Buffer.alloc(1024));
+        });
+        message.url = 'https://mmg.whatsapp.net/v/slow.enc';
+        
+        const controller = new AbortController();
+        const download = handler.downloadMedia(message, {
+            signal: controller.signal,
+            onProgress: () => controller.abort()
+        });
+        
+        await expect(download).rejects.toMatchObject({ name: 'AbortError' });
+    });
+    
+    it('does not upload once the send was aborted', async () => {
+        const handler = new MediaHandler(createConnection(), {} as MessageHandler);
+        const controller = new AbortController();
+        controller.abort();
+        
+        await expect((handler as any).uploadMedia({ data: file }, { mimetype: 'image/png', mediaType: 'image' }, 'upload-id', { signal: controller.signal }))
+            .rejects.toMatchObject({ name: 'AbortError' });
+        expect(uploads.count).toBe(0);
+    });
+});
+
+/**
+ * Connection stand-in for a media retry: it plays the sender's device, answering the retry
+ * receipt with an encrypted notification that points at a new upload
+ */
+class RetryConnection extends EventEmitter {
+    receipts: BinaryNode[] = [];
+    
+    /**
+     * @param mediaKey Media key of the expired media
+     * @param directPath Path the sender uploads the media to again
+     * @param result Outcome the sender reports
+     */
+    constructor(private mediaKey: Buffer, private directPath: string, private result = MEDIA_RETRY_RESULT.SUCCESS) {
+        super();
+    }
+    
+    getCredentials() {
+        return { me: { id: '40711111111:3@s.whatsapp.net' } };
+    }
+    
+    async sendNode(node: BinaryNode): Promise<void> {
+        this.receipts.push(node);
+        const id = node.attrs.id;
+        const key = hkdf(this.mediaKey, 32, { info: MEDIA_RETRY_HKDF_INFO });
+        
+        // Only a holder of the media key can read the request
+        const encrypted = getBinaryNodeChild(node, 'encrypt');
+        const request = decodeProto(aesDecryptGCM(
+            getBinaryNodeChildBuffer(encrypted, 'enc_p')!,
+            key,
+            getBinaryNodeChildBuffer(encrypted, 'enc_iv')!,
+            Buffer.from(id)
+        ));
+        expect(getProtoBytes(request, 1)!.toString()).toBe(id);
+        
+        const iv = Buffer.alloc(12, 5);
+        const notification = encodeProto({ 1: id, 2: this.directPath, 3: this.result });
+        setImmediate(() => this.emit('media_retry', { id, enc: aesEncryptGCM(notification, key, iv, Buffer.from(id)), iv }));
+    }
+}
+
+describe('MediaHandler expired media', () => {
+    const file = Buffer.alloc(5000, 3);
+    let server: MediaServer;
+    
+    beforeEach(async () => {
+        server = new MediaServer();
+        mediaServer.url = await server.start();
+    });
+    
+    afterEach(async () => {
+        await server.close();
+    });
+    
+    /**
+     * Message whose media is served at a new path, while its own URL answers with an error
+     * @param status Status the expired URL answers with
+     */
+    function expiredMessage(status: number): MediaMessage {
+        const message = serveMedia(server, '/v/new.enc', file);
+        server.routes.set('/v/old.enc', (request, response) => {
+            response.writeHead(status).end();
+        });
+        return Object.assign(message, { url: 'https://mmg.whatsapp.net/v/old.enc', directPath: '/v/old.enc' });
+    }
+    
+    it('asks the sender to upload media again when its URL is gone, then downloads the new upload', async () => {
+        for (const status of [404, 410]) {
+            const message = expiredMessage(status);
+            const connection = new RetryConnection(Buffer.from(message.mediaKey!, 'base64'), '/v/new.enc');
+            const handler = new MediaHandler(connection as unknown as WAConnection, {} as MessageHandler);
+            
+            const downloaded = await handler.downloadMedia(message);
+            
+            expect(downloaded.equals(file)).toBe(true);
+            expect(message).toMatchObject({ url: 'https://mmg.whatsapp.net/v/new.enc', directPath: '/v/new.enc' });
+            expect(connection.receipts).toHaveLength(1);
+            expect(connection.receipts[0].attrs).toEqual({ id: 'message-id', to: '40711111111@s.whatsapp.net', type: 'server-error' });
+            expect(getBinaryNodeChild(connection.receipts[0], 'rmr')!.attrs).toEqual({ jid: message.from, from_me: 'false' });
+            expect(connection.listenerCount('media_retry')).toBe(0);
+        }
+    });
+    
+    it('fails the download when the sender cannot upload the media again', async () => {
+        const message = expiredMessage(410);
+        const connection = new RetryConnection(Buffer.from(message.mediaKey!, 'base64'), '', MEDIA_RETRY_RESULT.NOT_FOUND);
+        const handler = new MediaHandler(connection as unknown as WAConnection, {} as MessageHandler);
+        
+        await expect(handler.downloadMedia(message)).rejects.toMatchObject({
+            code: ERROR_CODES.MEDIA_DOWNLOAD_FAILED,
+            message: expect.stringMatching(/the sender no longer has it/)
+        });
+        expect(message.directPath).toBe('/v/old.enc');
+    });
+});
+
+describe('MediaHandler URL fetches', () => {
+    let server: MediaServer;
+    let baseUrl: string;
+    
+    beforeEach(async () => {
+        server = new MediaServer();
+        baseUrl = await server.start();
+    });
+    
+    afterEach(async () => {
+        await server.close();
+    });
+    
+    /**
+     * Fetch a URL through the handler's private media input path
+     * @param handler Media handler
+     * @param url URL to fetch
+     */
+    function fetchUrl(handler: MediaHandler, url: string): Promise<Buffer> {
+        return (handler as any).getMediaAsBuffer(url);
+    }
+    
+    it('rejects a body over the size limit, whether or not its length is declared', async () => {
+        const handler = new MediaHandler(createConnection(), {} as MessageHandler, undefined, { maxSize: 1000 });
+        server.routes.set('/declared', (request, response) => {
+            response.writeHead(200, { 'Content-Length': 5000 }).end(Buffer.alloc(5000));
+        });
+        server.routes.set('/chunked', (request, response) => {
+            response.writeHead(200);
+            for (let i = 0; i < 10; i++) {
+                response.write(Buffer.alloc(500));
+            }
+            response.end();
+        });
+        server.routes.set('/small', (request, response) => {
+            response.writeHead(200).end(Buffer.alloc(1000, 1));
+        });
+        
+        await expect(fetchUrl(handler, `${baseUrl}/declared`)).rejects.toMatchObject({
+            code: ERROR_CODES.INVALID_MEDIA,
+            message: expect.stringMatching(/is 5000 bytes, over the 1000 byte limit/)
+        });
+        await expect(fetchUrl(handler, `${baseUrl}/chunked`)).rejects.toMatchObject({
+            code: ERROR_CODES.INVALID_MEDIA,
+            message: expect.stringMatching(/over the 1000 byte limit/)
+        });
+        expect((await fetchUrl(handler, `${baseUrl}/small`)).equals(Buffer.alloc(1000, 1))).toBe(true);
+    });
+    
+    it('follows redirects up to the limit and gives up on a redirect loop', async () => {
+        const handler = new MediaHandler(createConnection(), {} as MessageHandler, undefined, { maxRedirects: 2 });
+        let loops = 0;
+        server.routes.set('/loop', (request, response) => {
+            loops++;
+            response.writeHead(302, { Location: '/loop' }).end();
+        });
+        server.routes.set('/hop-1', (request, response) => {
+            response.writeHead(302, { Location: '/hop-2' }).end();
+        });
+        server.routes.set('/hop-2', (request, response) => {
+            response.writeHead(301, { Location: '/file' }).end();
+        });
+        server.routes.set('/file', (request, response) => {
+            response.writeHead(200).end('media');
+        });
+        
+        expect((await fetchUrl(handler, `${baseUrl}/hop-1`)).toString()).toBe('media');
+        await expect(fetchUrl(handler, `${baseUrl}/loop`)).rejects.toThrow(/maximum redirect/);
+        expect(loops).toBe(3);
+    });
+});
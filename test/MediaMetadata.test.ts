@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { finished } from 'stream/promises';
+import { getMediaMetadata, MediaMetadataStream } from '../src/MediaMetadata';
+import { MediaMetadata } from '../src/Types';
+
+/**
+ * MP4 box with the given type and contents
+ */
+function box(type: string, ...children: Buffer[]): Buffer {
+    const body = Buffer.concat(children);
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(8 + body.length);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, body]);
+}
+
+/**
+ * Version 0 movie header box
+ */
+function mvhd(timescale: number, duration: number): Buffer {
+    const body = Buffer.alloc(96);
+    body.writeUInt32BE(timescale, 12);
+    body.writeUInt32BE(duration, 16);
+    return box('mvhd', body);
+}
+
+/**
+ * Version 0 track header box, optionally with a matrix rotating the track by 90 degrees
+ */
+function tkhd(width: number, height: number, rotated = false): Buffer {
+    const body = Buffer.alloc(84);
+    // Matrix coefficients a and b, as 16.16 fixed point
+    body.writeInt32BE(rotated ? 0 : 0x10000, 40);
+    body.writeInt32BE(rotated ? 0x10000 : 0, 44);
+    body.writeUInt32BE(width * 0x10000, 76);
+    body.writeUInt32BE(height * 0x10000, 80);
+    return box('tkhd', body);
+}
+
+/**
+ * Ogg page holding one packet
+ */
+function oggPage(serial: number, granulePosition: bigint, body: Buffer): Buffer {
+    const segments: number[] = [];
+    for (let left = body.length; left >= 0; left -= 255) {
+        segments.push(Math.min(left, 255));
+    }
+    
+    const header = Buffer.alloc(27);
+    header.write('OggS', 0, 'latin1');
+    header.writeBigInt64LE(granulePosition, 6);
+    header.writeUInt32LE(serial, 14);
+    header[26] = segments.length;
+    return Buffer.concat([header, Buffer.from(segments), body]);
+}
+
+/**
+ * Identification header of an Opus stream
+ */
+function opusHead(preSkip: number): Buffer {
+    const body = Buffer.alloc(19);
+    body.write('OpusHead', 0, 'latin1');
+    body[8] = 1;
+    body[9] = 2;
+    body.writeUInt16LE(preSkip, 10);
+    body.writeUInt32LE(48000, 12);
+    return body;
+}
+
+// MPEG 1 layer III, 128 kbit/s, 44.1 kHz, stereo: 417 bytes and 1152 samples per frame
+const MP3_FRAME_HEADER = [0xFF, 0xFB, 0x90, 0x00];
+const MP3_FRAME_LENGTH = 417;
+
+/**
+ * MP3 frame, optionally carrying a Xing header with a frame count
+ */
+function mp3Frame(xingFrames?: number): Buffer {
+    const frame = Buffer.alloc(MP3_FRAME_LENGTH);
+    frame.set(MP3_FRAME_HEADER);
+    
+    if (xingFrames !== undefined) {
+        // After the 32 bytes of side information of a stereo MPEG 1 frame
+        frame.write('Xing', 36, 'latin1');
+        frame.writeUInt32BE(1, 40);
+        frame.writeUInt32BE(xingFrames, 44);
+    }
+    return frame;
+}
+
+/**
+ * ID3v2 tag of the given body size
+ */
+function id3(size: number): Buffer {
+    const header = Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, (size >> 21) & 0x7F, (size >> 14) & 0x7F, (size >> 7) & 0x7F, size & 0x7F]);
+    return Buffer.concat([header, Buffer.alloc(size)]);
+}
+
+/**
+ * Read metadata through MediaMetadataStream, in chunks of a given size
+ */
+async function streamMetadata(data: Buffer, mimetype: string, chunkSize: number): Promise<MediaMetadata> {
+    const chunks: Buffer[] = [];
+    for (let offset = 0; offset < data.length; offset += chunkSize) {
+        chunks.push(data.subarray(offset, offset + chunkSize));
+    }
+    
+    const stream = Readable.from(chunks).pipe(new MediaMetadataStream(mimetype));
+    await finished(stream.resume());
+    return stream.metadata;
+}
+
+describe('MP4 metadata', () => {
+    const ftyp = box('ftyp', Buffer.from('isom\0\0\0\0isom', 'latin1'));
+    const mdat = box('mdat', Buffer.alloc(5000));
+    const moov = box('moov', mvhd(1000, 12500), box('trak', tkhd(0, 0)), box('trak', tkhd(1280, 720)));
+    
+    it('reads the duration and the size of the first visual track', () => {
+        expect(getMediaMetadata(Buffer.concat([ftyp, moov, mdat]), 'video/mp4')).toEqual({ duration: 12.5, width: 1280, height: 720 });
+    });
+    
+    it('finds the movie box after the media data, in small chunks', async () => {
+        const file = Buffer.concat([ftyp, mdat, moov]);
+        
+        for (const chunkSize of [1, 7, 4096]) {
+            expect(await streamMetadata(file, 'video/mp4', chunkSize)).toEqual({ duration: 12.5, width: 1280, height: 720 });
+        }
+    });
+    
+    it('swaps width and height of a rotated track', () => {
+        const rotated = box('moov', mvhd(600, 600), box('trak', tkhd(1920, 1080, true)));
+        expect(getMediaMetadata(Buffer.concat([ftyp, rotated]), 'video/quicktime')).toEqual({ duration: 1, width: 1080, height: 1920 });
+    });
+    
+    it('keeps what it read from a file cut short, and ignores an unknown duration', () => {
+        const file = Buffer.concat([ftyp, moov]);
+        expect(getMediaMetadata(file.subarray(0, file.length - 20), 'video/mp4')).toEqual({ duration: 12.5 });
+        expect(getMediaMetadata(Buffer.concat([ftyp, box('moov', mvhd(1000, 0xFFFFFFFF))]), 'audio/mp4')).toEqual({});
+    });
+});
+
+describe('Ogg metadata', () => {
+    it('reads the duration of an Opus stream, less the pre-skip', () => {
+        const file = Buffer.concat([
+            oggPage(7, 0n, opusHead(312)),
+            oggPage(7, 0n, Buffer.from('OpusTags', 'latin1')),
+            oggPage(7, 48000n + 312n, Buffer.alloc(300)),
+            // A page on which no packet ends, and a page of another stream
+            oggPage(7, -1n, Buffer.alloc(300)),
+            oggPage(8, 480000n, Buffer.alloc(10)),
+            oggPage(7, 3n * 48000n + 312n, Buffer.alloc(600))
+        ]);
+        
+        expect(getMediaMetadata(file, 'audio/ogg; codecs=opus')).toEqual({ duration: 3 });
+    });
+    
+    it('reads the duration of a Vorbis stream at its own sample rate', async () => {
+        const identification = Buffer.alloc(30);
+        identification[0] = 0x01;
+        identification.write('vorbis', 1, 'latin1');
+        identification.writeUInt32LE(44100, 12);
+        const file = Buffer.concat([oggPage(1, 0n, identification), oggPage(1, 110250n, Buffer.alloc(100))]);
+        
+        expect(await streamMetadata(file, 'audio/ogg', 5)).toEqual({ duration: 2.5 });
+    });
+    
+    it('returns nothing for other codecs or a stream without audio pages', () => {
+        expect(getMediaMetadata(oggPage(1, 100n, Buffer.from('\x80theora', 'latin1')), 'audio/ogg')).toEqual({});
+        expect(getMediaMetadata(oggPage(1, 0n, opusHead(0)), 'audio/ogg')).toEqual({});
+    });
+});
+
+describe('MP3 metadata', () => {
+    const seconds = (frames: number) => frames * 1152 / 44100;
+    
+    it('adds up the frames of a constant bitrate file, after an ID3 tag', () => {
+        const file = Buffer.concat([id3(200), ...Array.from({ length: 40 }, () => mp3Frame()), Buffer.from('TAG', 'latin1')]);
+        
+        expect(getMediaMetadata(file, 'audio/mpeg').duration).toBeCloseTo(seconds(40), 6);
+    });
+    
+    it('takes the frame count from a Xing header without reading further', async () => {
+        const file = Buffer.concat([id3(20), mp3Frame(2500), mp3Frame()]);
+        
+        expect(getMediaMetadata(file, 'audio/mpeg').duration).toBeCloseTo(seconds(2500), 6);
+        expect((await streamMetadata(file, 'audio/mpeg', 3)).duration).toBeCloseTo(seconds(2500), 6);
+    });
+    
+    it('returns nothing when there is no frame to sync to', () => {
+        expect(getMediaMetadata(Buffer.alloc(1000), 'audio/mpeg')).toEqual({});
+        expect(getMediaMetadata(mp3Frame().subarray(0, 100), 'audio/mpeg')).toEqual({});
+    });
+});
+
+describe('metadata of other types', () => {
+    it('returns nothing for formats it does not parse', () => {
+        expect(getMediaMetadata(Buffer.from('%PDF-1.7'), 'application/pdf')).toEqual({});
+    });
+});
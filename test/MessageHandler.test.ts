@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MessageHandler } from '../src/MessageHandler';
+import { GroupHandler } from '../src/GroupHandler';
+import { SignalRepository } from '../src/SignalProtocol';
+import { SenderKeyRepository } from '../src/SenderKeys';
+import { WAConnection } from '../src/WAConnection';
+import { MemoryAuthStateStore } from '../src/AuthState';
+import { getBinaryNodeChild, getBinaryNodeChildren, unpadMessage } from '../src/WAProtocol';
+import { encodeProto, decodeProto, getProtoBytes } from '../src/Protobuf';
+import { DEFAULT_CLIENT_OPTIONS, ERROR_CODES } from '../src/Constants';
+import { BinaryNode } from '../src/Types';
+
+const ALICE = '40711111111@s.whatsapp.net';
+const BOB = '40722222222@s.whatsapp.net';
+const GROUP = '120363000000000000@g.us';
+
+/**
+ * One linked device, with its own Signal identity and sender keys
+ */
+interface Device {
+    jid: string;
+    connection: WAConnection;
+    signal: SignalRepository;
+    senderKeys: SenderKeyRepository;
+    handler: MessageHandler;
+}
+
+/**
+ * Stand-in for the server: lists each user's devices, hands out their pre-key bundles
+ * and keeps the message stanzas sent through it
+ */
+class Network {
+    devices = new Map<string, Device>();
+    sent: BinaryNode[] = [];
+    
+    createDevice(jid: string): Device {
+        const connection = new WAConnection({ ...DEFAULT_CLIENT_OPTIONS, logLevel: 'error' });
+        connection.updateCredentials({ me: { id: jid } });
+        connection.query = async (node: BinaryNode) => this.answer(node);
+        
+        const store = new MemoryAuthStateStore();
+        const signal = new SignalRepository(connection, store, 'error');
+        const senderKeys = new SenderKeyRepository(store, 'error');
+        const device = { jid, connection, signal, senderKeys, handler: new MessageHandler(connection, signal, senderKeys, undefined, undefined, 'error') };
+        this.devices.set(jid, device);
+        return device;
+    }
+    
+    private async answer(node: BinaryNode): Promise<BinaryNode> {
+        if (node.tag === 'message') {
+            this.sent.push(node);
+            return { tag: 'ack', attrs: { id: node.attrs.id, class: 'message' } };
+        }
+        
+        const usync = getBinaryNodeChild(node, 'usync');
+        if (usync) {
+            const users = getBinaryNodeChildren(getBinaryNodeChild(usync, 'list'), 'user').map(user => user.attrs.jid);
+            return {
+                tag: 'iq',
+                attrs: { type: 'result' },
+                content: [{ tag: 'usync', attrs: {}, content: [{ tag: 'list', attrs: {}, content: users.map(jid => this.listDevices(jid)) }] }]
+            };
+        }
+        
+        const jid = getBinaryNodeChild(getBinaryNodeChild(node, 'key'), 'user')!.attrs.jid;
+        return { tag: 'iq', attrs: { type: 'result' }, content: [{ tag: 'list', attrs: {}, content: [await this.getBundle(jid)] }] };
+    }
+    
+    private listDevices(user: string): BinaryNode {
+        const [number] = user.split('@');
+        const ids = [...this.devices.keys()]
+            .filter(jid => jid.split(/[:@]/)[0] === number)
+            .map(jid => jid.includes(':') ? jid.split(/[:@]/)[1] : '0');
+        
+        return {
+            tag: 'user',
+            attrs: { jid: user },
+            content: [{
+                tag: 'devices',
+                attrs: {},
+                content: [{
+                    tag: 'device-list',
+                    attrs: {},
+                    content: ids.map((id): BinaryNode => ({ tag: 'device', attrs: id === '0' ? { id } : { id, 'key-index': '1' } }))
+                }]
+            }]
+        };
+    }
+    
+    private async getBundle(jid: string): Promise<BinaryNode> {
+        const device = this.devices.get(jid)!;
+        const identity = device.signal.getLocalIdentity();
+        const [preKey] = await device.signal.generatePreKeys(1);
+        const registration = Buffer.alloc(4);
+        registration.writeUInt32BE(identity.registrationId);
+        const id = (keyId: number) => Buffer.from([keyId >> 16, keyId >> 8 & 0xff, keyId & 0xff]);
+        
+        return {
+            tag: 'user',
+            attrs: { jid },
+            content: [
+                { tag: 'registration', attrs: {}, content: registration },
+                { tag: 'identity', attrs: {}, content: identity.identityKeyPair.public },
+                {
+                    tag: 'skey',
+                    attrs: {},
+                    content: [
+                        { tag: 'id', attrs: {}, content: id(identity.signedPreKey.keyId) },
+                        { tag: 'value', attrs: {}, content: identity.signedPreKey.keyPair.public },
+                        { tag: 'signature', attrs: {}, content: identity.signedPreKey.signature }
+                    ]
+                },
+                {
+                    tag: 'key',
+                    attrs: {},
+                    content: [
+                        { tag: 'id', attrs: {}, content: id(preKey.keyId) },
+                        { tag: 'value', attrs: {}, content: preKey.publicKey }
+                    ]
+                }
+            ]
+        };
+    }
+}
+
+/**
+ * Ciphertext a message stanza carries for one device
+ */
+function getEnc(stanza: BinaryNode, jid: string): { type: 'pkmsg' | 'msg', ciphertext: string } {
+    const to = getBinaryNodeChildren(getBinaryNodeChild(stanza, 'participants'), 'to').find(node => node.attrs.jid === jid)!;
+    const enc = getBinaryNodeChild(to, 'enc')!;
+    return { type: enc.attrs.type as 'pkmsg' | 'msg', ciphertext: (enc.content as Buffer).toString('base64') };
+}
+
+describe('MessageHandler encryption', () => {
+    let network: Network;
+    let alice: Device;
+    
+    beforeEach(() => {
+        network = new Network();
+        alice = network.createDevice('40711111111:2@s.whatsapp.net');
+    });
+    
+    it('encrypts a Message protobuf for every device of the recipient and our other devices', async () => {
+        const bob = network.createDevice(BOB);
+        const bobLaptop = network.createDevice('40722222222:4@s.whatsapp.net');
+        const alicePhone = network.createDevice(ALICE);
+        
+        await alice.handler.deliverMessage({ id: 'msg-1', jid: BOB, content: { conversation: 'hello' }, extra: {}, sequence: 1, queuedAt: Date.now() });
+        
+        const [stanza] = network.sent;
+        expect(stanza.attrs).toMatchObject({ id: 'msg-1', to: BOB, type: 'text' });
+        expect(getBinaryNodeChildren(getBinaryNodeChild(stanza, 'participants'), 'to').map(to => to.attrs.jid))
+            .toEqual([BOB, '40722222222:4@s.whatsapp.net', ALICE]);
+        
+        const plaintext = await bobLaptop.signal.decryptMessage(alice.jid, 'pkmsg', Buffer.from(getEnc(stanza, bobLaptop.jid).ciphertext, 'base64'));
+        expect(unpadMessage(plaintext).equals(encodeProto({ 1: 'hello' }))).toBe(true);
+        
+        const received = await bob.handler.decryptMessage({ id: 'msg-1', from: alice.jid, enc: getEnc(stanza, BOB) });
+        expect(received).toMatchObject({ id: 'msg-1', from: alice.jid, fromMe: false, type: 'text', body: 'hello' });
+        
+        // Our phone gets the message wrapped with the chat it was sent to
+        const copy = await alicePhone.handler.decryptMessage({ id: 'msg-1', from: alice.jid, enc: getEnc(stanza, ALICE) });
+        expect(copy).toMatchObject({ id: 'msg-1', fromMe: true, type: 'text', body: 'hello' });
+    });
+    
+    it('round-trips media fields through the protobuf, keeping bytes as base64', async () => {
+        const bob = network.createDevice(BOB);
+        const imageMessage = {
+            url: 'https://mmg.whatsapp.net/d/f/image.enc',
+            directPath: '/v/t62/image.enc',
+            mimetype: 'image/jpeg',
+            caption: 'look',
+            mediaKey: Buffer.alloc(32, 1).toString('base64'),
+            fileSha256: Buffer.alloc(32, 2).toString('base64'),
+            fileEncSha256: Buffer.alloc(32, 3).toString('base64'),
+            fileLength: 123456,
+            width: 640,
+            height: 480,
+            jpegThumbnail: Buffer.from([0xff, 0xd8, 0xff]).toString('base64')
+        };
+        
+        await alice.handler.deliverMessage({ id: 'msg-2', jid: BOB, content: { imageMessage }, extra: {}, sequence: 1, queuedAt: Date.now() });
+        
+        const [stanza] = network.sent;
+        expect(stanza.attrs.type).toBe('media');
+        const received = await bob.handler.decryptMessage({ id: 'msg-2', from: alice.jid, enc: getEnc(stanza, BOB) });
+        expect(received).toMatchObject({
+            type: 'image',
+            caption: 'look',
+            mimetype: 'image/jpeg',
+            url: imageMessage.url,
+            directPath: imageMessage.directPath,
+            mediaKey: imageMessage.mediaKey,
+            fileSha256: imageMessage.fileSha256,
+            fileEncSha256: imageMessage.fileEncSha256,
+            fileLength: 123456,
+            width: 640,
+            height: 480,
+            jpegThumbnail: imageMessage.jpegThumbnail
+        });
+    });
+    
+    it('sends a group message that members decrypt with the sender key it distributes', async () => {
+        const bob = network.createDevice(BOB);
+        const bobLaptop = network.createDevice('40722222222:4@s.whatsapp.net');
+        
+        await alice.handler.relaySenderKeyMessage(GROUP, [BOB, ALICE], 'msg-3', { conversation: 'hi all' });
+        
+        const [stanza] = network.sent;
+        const skmsg = getBinaryNodeChildren(stanza, 'enc').find(enc => enc.attrs.type === 'skmsg')!;
+        expect(getBinaryNodeChildren(getBinaryNodeChild(stanza, 'participants'), 'to').map(to => to.attrs.jid))
+            .toEqual([BOB, '40722222222:4@s.whatsapp.net']);
+        
+        // The distribution is Message.senderKeyDistributionMessage, and the group message a Message too
+        const distribution = decodeProto(unpadMessage(await bobLaptop.signal.decryptMessage(
+            alice.jid,
+            'pkmsg',
+            Buffer.from(getEnc(stanza, bobLaptop.jid).ciphertext, 'base64')
+        )));
+        const skdm = decodeProto(getProtoBytes(distribution, 2)!);
+        expect(getProtoBytes(skdm, 1)!.toString()).toBe(GROUP);
+        await bobLaptop.senderKeys.processDistributionMessage(GROUP, alice.jid, getProtoBytes(skdm, 2)!);
+        const plaintext = await bobLaptop.senderKeys.decrypt(GROUP, alice.jid, skmsg.content as Buffer);
+        expect(unpadMessage(plaintext).equals(encodeProto({ 1: 'hi all' }))).toBe(true);
+        
+        const received = await bob.handler.decryptMessage({
+            id: 'msg-3',
+            from: GROUP,
+            participant: alice.jid,
+            enc: { type: 'skmsg', ciphertext: (skmsg.content as Buffer).toString('base64') },
+            distribution: getEnc(stanza, BOB)
+        });
+        expect(received).toMatchObject({ id: 'msg-3', from: alice.jid, groupId: GROUP, type: 'text', body: 'hi all' });
+        
+        // Members that have the key get only the skmsg next time
+        await alice.handler.relaySenderKeyMessage(GROUP, [BOB], 'msg-4', { conversation: 'again' });
+        expect(getBinaryNodeChild(network.sent[1], 'participants')).toBeUndefined();
+    });
+});
+
+describe('MessageHandler recipients', () => {
+    let network: Network;
+    let alice: Device;
+    
+    beforeEach(() => {
+        network = new Network();
+        alice = network.createDevice('40711111111:2@s.whatsapp.net');
+    });
+    
+    it('turns phone numbers into user JIDs and keeps group, broadcast and status JIDs', () => {
+        const handler = new MessageHandler(alice.connection, alice.signal, alice.senderKeys, 'RO', undefined, 'error');
+        
+        expect(handler.resolveRecipient('0722 222 222')).toBe(BOB);
+        expect(handler.resolveRecipient('40722222222@c.us')).toBe(BOB);
+        expect(handler.resolveRecipient({ user: '120363000000000000', server: 'g.us' })).toBe(GROUP);
+        expect(handler.resolveRecipient('1596543210@broadcast')).toBe('1596543210@broadcast');
+        expect(handler.resolveRecipient('status@broadcast')).toBe('status@broadcast');
+        expect(() => handler.resolveRecipient('1234567890@newsletter')).toThrow(expect.objectContaining({ code: ERROR_CODES.INVALID_JID }));
+    });
+    
+    it('sends status updates with our sender key to the given recipients only', async () => {
+        network.createDevice(BOB);
+        
+        await alice.handler.deliverMessage({
+            id: 'msg-1',
+            jid: 'status@broadcast',
+            content: { conversation: 'news' },
+            extra: {},
+            recipients: [BOB],
+            sequence: 1,
+            queuedAt: Date.now()
+        });
+        
+        const [stanza] = network.sent;
+        expect(stanza.attrs).toMatchObject({ id: 'msg-1', to: 'status@broadcast' });
+        expect(getBinaryNodeChildren(stanza, 'enc').map(enc => enc.attrs.type)).toEqual(['skmsg']);
+        expect(getBinaryNodeChildren(getBinaryNodeChild(stanza, 'participants'), 'to').map(to => to.attrs.jid)).toEqual([BOB]);
+        
+        await expect(alice.handler.relayMessage('1596543210@broadcast', 'msg-2', { conversation: 'news' }))
+            .rejects.toThrow('need a list of recipients');
+    });
+    
+    it('hands group messages to the group handler once it is set', async () => {
+        await expect(alice.handler.relayMessage(GROUP, 'msg-1', { conversation: 'hi' }))
+            .rejects.toThrow('without a group handler');
+        
+        const relayMessage = vi.fn(async () => undefined);
+        alice.handler.setGroupHandler({ relayMessage } as unknown as GroupHandler);
+        await alice.handler.deliverMessage({ id: 'msg-1', jid: GROUP, content: { conversation: 'hi' }, extra: { edit: '1' }, sequence: 1, queuedAt: Date.now() });
+        
+        expect(relayMessage).toHaveBeenCalledWith(GROUP, 'msg-1', { conversation: 'hi' }, { edit: '1' });
+        expect(network.sent).toEqual([]);
+    });
+});
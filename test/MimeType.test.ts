@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { detectMimetype, getMimetypeFromFilename, getExtensionForMimetype, refineMimetype, mimetypesMatch } from '../src/MimeType';
+
+/**
+ * Leading bytes of a file: the given bytes or text, padded with zeros
+ */
+function head(...parts: Array<string | number[]>): Buffer {
+    const bytes = Buffer.concat(parts.map(part => typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part)));
+    return Buffer.concat([bytes, Buffer.alloc(64)]);
+}
+
+/**
+ * Leading bytes of an ISO base media file with the given major brand
+ */
+function ftyp(brand: string): Buffer {
+    return head([0, 0, 0, 0x18], 'ftyp', brand, [0, 0, 0, 0]);
+}
+
+/**
+ * Leading bytes of a ZIP file whose first entry has the given name and contents
+ */
+function zip(name: string, contents = ''): Buffer {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(name.length, 26);
+    return Buffer.concat([header, Buffer.from(name + contents, 'latin1'), Buffer.alloc(64)]);
+}
+
+describe('detectMimetype', () => {
+    it('recognises images by their magic bytes', () => {
+        expect(detectMimetype(head([0xFF, 0xD8, 0xFF, 0xE0]))).toBe('image/jpeg');
+        expect(detectMimetype(head([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]))).toBe('image/png');
+        expect(detectMimetype(head('GIF89a'))).toBe('image/gif');
+        expect(detectMimetype(head('RIFF', [0, 0, 0, 0], 'WEBPVP8 '))).toBe('image/webp');
+        expect(detectMimetype(head([0x49, 0x49, 0x2A, 0x00]))).toBe('image/tiff');
+        expect(detectMimetype(ftyp('heic'))).toBe('image/heic');
+        expect(detectMimetype(ftyp('avif'))).toBe('image/avif');
+    });
+    
+    it('tells ISO media files apart by their brand', () => {
+        expect(detectMimetype(ftyp('isom'))).toBe('video/mp4');
+        expect(detectMimetype(ftyp('mp42'))).toBe('video/mp4');
+        expect(detectMimetype(ftyp('qt  '))).toBe('video/quicktime');
+        expect(detectMimetype(ftyp('M4A '))).toBe('audio/mp4');
+        expect(detectMimetype(ftyp('3gp5'))).toBe('video/3gpp');
+    });
+    
+    it('recognises audio and video containers', () => {
+        expect(detectMimetype(head('OggS', [0, 2], 'OpusHead'))).toBe('audio/ogg; codecs=opus');
+        expect(detectMimetype(head('OggS', [0, 2], '\x01vorbis'))).toBe('audio/ogg');
+        expect(detectMimetype(head('OggS', [0, 2], '\x80theora'))).toBe('video/ogg');
+        expect(detectMimetype(head('ID3', [4, 0]))).toBe('audio/mpeg');
+        expect(detectMimetype(head([0xFF, 0xFB, 0x90, 0x00]))).toBe('audio/mpeg');
+        expect(detectMimetype(head([0xFF, 0xF1, 0x50, 0x80]))).toBe('audio/aac');
+        expect(detectMimetype(head('RIFF', [0, 0, 0, 0], 'WAVEfmt '))).toBe('audio/wav');
+        expect(detectMimetype(head('fLaC'))).toBe('audio/flac');
+        expect(detectMimetype(head('#!AMR\n'))).toBe('audio/amr');
+        expect(detectMimetype(head([0x1A, 0x45, 0xDF, 0xA3], [0x42, 0x82, 0x84], 'webm'))).toBe('video/webm');
+        expect(detectMimetype(head([0x1A, 0x45, 0xDF, 0xA3], [0x42, 0x82, 0x88], 'matroska'))).toBe('video/x-matroska');
+    });
+    
+    it('recognises documents and archives, looking inside ZIP files', () => {
+        expect(detectMimetype(head('%PDF-1.7'))).toBe('application/pdf');
+        expect(detectMimetype(zip('[Content_Types].xml', 'word/document.xml')))
+            .toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+        expect(detectMimetype(zip('[Content_Types].xml', 'xl/workbook.xml')))
+            .toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        expect(detectMimetype(zip('mimetype', 'application/vnd.oasis.opendocument.text'))).toBe('application/vnd.oasis.opendocument.text');
+        expect(detectMimetype(zip('mimetype', 'application/epub+zip'))).toBe('application/epub+zip');
+        expect(detectMimetype(zip('photo.jpg'))).toBe('application/zip');
+        expect(detectMimetype(head([0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1]))).toBe('application/x-cfb');
+        expect(detectMimetype(head('Rar!\x1A\x07\x01\x00'))).toBe('application/vnd.rar');
+        expect(detectMimetype(head([0x1F, 0x8B, 0x08]))).toBe('application/gzip');
+    });
+    
+    it('returns undefined for content it does not know, however it is named', () => {
+        expect(detectMimetype(Buffer.from('plain text, not media'))).toBeUndefined();
+        expect(detectMimetype(head('RIFF', [0, 0, 0, 0], 'XXXX'))).toBeUndefined();
+        expect(detectMimetype(Buffer.alloc(0))).toBeUndefined();
+    });
+});
+
+describe('MIME type helpers', () => {
+    it('maps filenames and MIME types to each other', () => {
+        expect(getMimetypeFromFilename('Report.PDF')).toBe('application/pdf');
+        expect(getMimetypeFromFilename('notes')).toBeUndefined();
+        expect(getExtensionForMimetype('image/jpg')).toBe('.jpg');
+        expect(getExtensionForMimetype('audio/ogg; codecs=opus')).toBe('.ogg');
+        expect(getExtensionForMimetype('application/x-unknown')).toBe('.bin');
+    });
+    
+    it('only lets the filename narrow down a generic container', () => {
+        expect(refineMimetype('application/x-cfb', 'budget.xls')).toBe('application/vnd.ms-excel');
+        expect(refineMimetype('application/zip', 'book.epub')).toBe('application/epub+zip');
+        expect(refineMimetype('image/png', 'photo.jpg')).toBe('image/png');
+        expect(refineMimetype(undefined, 'notes.txt')).toBe('text/plain');
+    });
+    
+    it('matches declared types against detected ones, ignoring aliases and parameters', () => {
+        expect(mimetypesMatch('image/jpg', 'image/jpeg')).toBe(true);
+        expect(mimetypesMatch('audio/ogg', 'audio/ogg; codecs=opus')).toBe(true);
+        expect(mimetypesMatch('application/msword', 'application/x-cfb')).toBe(true);
+        expect(mimetypesMatch('image/png', 'image/jpeg')).toBe(false);
+    });
+});
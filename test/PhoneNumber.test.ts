@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { normalizePhoneNumber } from '../src/PhoneNumber';
+import { ERROR_CODES } from '../src/Constants';
+
+describe('normalizePhoneNumber', () => {
+    it('reads international numbers regardless of the region', () => {
+        expect(normalizePhoneNumber('+40 712 345 678', 'IT')).toBe('40712345678');
+        expect(normalizePhoneNumber('0040712345678')).toBe('40712345678');
+    });
+    
+    it('drops the trunk prefix of national numbers', () => {
+        expect(normalizePhoneNumber('0712 345 678', 'RO')).toBe('40712345678');
+        expect(normalizePhoneNumber('40712345678', 'RO')).toBe('40712345678');
+    });
+    
+    it('prefers the national reading in regions without a trunk prefix', () => {
+        expect(normalizePhoneNumber('393 123 4567', 'IT')).toBe('393931234567');
+        expect(normalizePhoneNumber('333 123 4567', 'IT')).toBe('393331234567');
+        expect(normalizePhoneNumber('39 333 123 4567', 'IT')).toBe('393331234567');
+    });
+    
+    it('rejects unknown regions with an explicit code', () => {
+        expect(() => normalizePhoneNumber('0712345678', 'XX')).toThrow(expect.objectContaining({ code: ERROR_CODES.UNSUPPORTED_REGION }));
+    });
+    
+    it('rejects national numbers without a region', () => {
+        expect(() => normalizePhoneNumber('0712 345 678')).toThrow(expect.objectContaining({ code: ERROR_CODES.INVALID_JID }));
+    });
+});
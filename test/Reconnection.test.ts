@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { classifyDisconnect, shouldReconnect, getReconnectDelay } from '../src/Reconnection';
+
+const options = { reconnectInterval: 3000, maxReconnectDelay: 60000, reconnectJitter: 0.2 };
+
+describe('classifyDisconnect', () => {
+    it('classifies the close codes WhatsApp sends', () => {
+        expect(classifyDisconnect(401)).toBe('logged_out');
+        expect(classifyDisconnect(403)).toBe('logged_out');
+        expect(classifyDisconnect(440)).toBe('replaced');
+        expect(classifyDisconnect(503)).toBe('server_restart');
+        expect(classifyDisconnect(515)).toBe('server_restart');
+    });
+    
+    it('treats WebSocket codes for a server going down as a restart', () => {
+        expect(classifyDisconnect(1001)).toBe('server_restart');
+        expect(classifyDisconnect(1012)).toBe('server_restart');
+        expect(classifyDisconnect(1013)).toBe('server_restart');
+    });
+    
+    it('falls back to the reason text, then to a lost network', () => {
+        expect(classifyDisconnect(1006, 'Device Removed')).toBe('logged_out');
+        expect(classifyDisconnect(1000, 'logged out')).toBe('logged_out');
+        expect(classifyDisconnect(1006, 'stream:error conflict')).toBe('replaced');
+        expect(classifyDisconnect(1006, 'session replaced')).toBe('replaced');
+        expect(classifyDisconnect(1006)).toBe('network_lost');
+        expect(classifyDisconnect(1000)).toBe('network_lost');
+    });
+    
+    it('lets the code win over the reason text', () => {
+        expect(classifyDisconnect(515, 'conflict')).toBe('server_restart');
+        expect(classifyDisconnect(440, 'logged out')).toBe('replaced');
+    });
+});
+
+describe('shouldReconnect', () => {
+    it('reconnects after restarts and network problems only', () => {
+        expect(shouldReconnect('server_restart')).toBe(true);
+        expect(shouldReconnect('network_lost')).toBe(true);
+        expect(shouldReconnect('logged_out')).toBe(false);
+        expect(shouldReconnect('replaced')).toBe(false);
+    });
+});
+
+describe('getReconnectDelay', () => {
+    it('doubles the delay with each attempt up to the ceiling', () => {
+        const delays = [1, 2, 3, 4, 5, 6, 10].map(attempt => getReconnectDelay(attempt, options, () => 0));
+        
+        expect(delays).toEqual([3000, 6000, 12000, 24000, 48000, 60000, 60000]);
+        expect(getReconnectDelay(0, options, () => 0)).toBe(3000);
+        expect(getReconnectDelay(1000, options, () => 0)).toBe(60000);
+    });
+    
+    it('takes up to the jitter share off the delay', () => {
+        expect(getReconnectDelay(2, options, () => 1)).toBe(4800);
+        expect(getReconnectDelay(2, options, () => 0.5)).toBe(5400);
+        
+        for (let i = 0; i < 100; i++) {
+            const delay = getReconnectDelay(7, options);
+            expect(delay).toBeGreaterThanOrEqual(48000);
+            expect(delay).toBeLessThanOrEqual(60000);
+        }
+    });
+    
+    it('keeps the jitter share between 0 and 1', () => {
+        expect(getReconnectDelay(1, { ...options, reconnectJitter: 0 }, () => 1)).toBe(3000);
+        expect(getReconnectDelay(1, { ...options, reconnectJitter: -1 }, () => 1)).toBe(3000);
+        expect(getReconnectDelay(1, { ...options, reconnectJitter: 5 }, () => 1)).toBe(0);
+    });
+});
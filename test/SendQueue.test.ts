@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SendQueue, FileSendQueueStore } from '../src/SendQueue';
+import { QueuedMessage, SendQueueStore, SendStatus } from '../src/Types';
+import { FocksupError, RateLimitError, TimeoutError } from '../src/Errors';
+
+/**
+ * Queue a text message
+ * @param queue Send queue
+ * @param id Message ID
+ */
+function send(queue: SendQueue, id: string) {
+    return queue.send({ id, jid: '40712345678@s.whatsapp.net', content: { conversation: id }, extra: {} });
+}
+
+describe('SendQueue', () => {
+    let failures: Error[];
+    let delivered: string[];
+    let queue: SendQueue;
+    
+    beforeEach(() => {
+        vi.useFakeTimers();
+        failures = [];
+        delivered = [];
+        queue = new SendQueue(async (message: QueuedMessage) => {
+            const failure = failures.shift();
+            if (failure) {
+                throw failure;
+            }
+            delivered.push(message.id);
+        }, () => true, undefined, 'silent');
+    });
+    
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+    
+    it('retries a message after a failure that may pass, with a growing delay', async () => {
+        failures.push(new TimeoutError('timed out'), new TimeoutError('timed out'));
+        
+        expect(await send(queue, 'one')).toBe('queued');
+        
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(delivered).toEqual([]);
+        expect(queue.getStatus('one')).toBe('queued');
+        
+        await vi.advanceTimersByTimeAsync(3999);
+        expect(delivered).toEqual([]);
+        
+        await vi.advanceTimersByTimeAsync(1);
+        expect(delivered).toEqual(['one']);
+        expect(queue.getStatus('one')).toBe('sent');
+    });
+    
+    it('waits as long as the server asked after a rate limit', async () => {
+        failures.push(new RateLimitError('rate-overlimit', { retryAfter: 30000 }));
+        
+        await send(queue, 'one');
+        await send(queue, 'two');
+        
+        await vi.advanceTimersByTimeAsync(29999);
+        expect(delivered).toEqual([]);
+        
+        await vi.advanceTimersByTimeAsync(1);
+        expect(delivered).toEqual(['one', 'two']);
+    });
+    
+    it('drops a message the server rejects for good without retrying', async () => {
+        failures.push(new FocksupError('bad request'));
+        
+        await expect(send(queue, 'one')).rejects.toThrow('bad request');
+        
+        await vi.advanceTimersByTimeAsync(60000);
+        expect(delivered).toEqual([]);
+        expect(queue.getStatus('one')).toBe('failed');
+    });
+});
+
+describe('SendQueue while offline', () => {
+    let online: boolean;
+    let delivered: QueuedMessage[];
+    
+    /**
+     * Create a queue that delivers into `delivered` while `online` is set
+     * @param store Where queued messages are kept
+     */
+    function createQueue(store?: SendQueueStore): SendQueue {
+        return new SendQueue(async message => {
+            delivered.push(message);
+        }, () => online, store, 'silent');
+    }
+    
+    beforeEach(() => {
+        online = false;
+        delivered = [];
+    });
+    
+    it('buffers messages until the connection is back, then sends them in order', async () => {
+        const queue = createQueue();
+        const statuses: [string, SendStatus][] = [];
+        queue.on('status', update => statuses.push([update.id, update.status]));
+        
+        for (const id of ['one', 'two', 'three']) {
+            expect(await send(queue, id)).toBe('queued');
+        }
+        expect(queue.size).toBe(3);
+        expect(delivered).toEqual([]);
+        
+        online = true;
+        await queue.flush();
+        
+        expect(delivered.map(message => message.id)).toEqual(['one', 'two', 'three']);
+        expect(delivered.map(message => message.sequence)).toEqual([1, 2, 3]);
+        expect(queue.size).toBe(0);
+        expect(statuses.filter(([id]) => id === 'two').map(([, status]) => status)).toEqual(['queued', 'sending', 'sent']);
+    });
+    
+    it('queues and sends each message ID only once', async () => {
+        const queue = createQueue();
+        
+        await send(queue, 'one');
+        await send(queue, 'one');
+        expect(queue.size).toBe(1);
+        
+        online = true;
+        await queue.flush();
+        expect(await send(queue, 'one')).toBe('sent');
+        
+        expect(delivered.map(message => message.id)).toEqual(['one']);
+        expect(queue.getStatus('one')).toBe('sent');
+    });
+    
+    it('keeps queued messages in a FileSendQueueStore across a restart', async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'focksup-queue-'));
+        
+        try {
+            const before = createQueue(new FileSendQueueStore(directory, { logLevel: 'silent' }));
+            await before.send({ id: 'one', jid: 'status@broadcast', content: { conversation: 'one' }, extra: { edit: '1' }, recipients: ['40712345678@s.whatsapp.net'] });
+            await send(before, 'two');
+            expect(fs.readdirSync(directory)).toHaveLength(2);
+            
+            // A new process finds the messages where the last one left them
+            const after = createQueue(new FileSendQueueStore(directory, { logLevel: 'silent' }));
+            await send(after, 'three');
+            expect(after.size).toBe(3);
+            
+            online = true;
+            await after.flush();
+            
+            expect(delivered.map(message => message.id)).toEqual(['one', 'two', 'three']);
+            expect(delivered[0]).toMatchObject({ jid: 'status@broadcast', content: { conversation: 'one' }, extra: { edit: '1' }, recipients: ['40712345678@s.whatsapp.net'] });
+            expect(fs.readdirSync(directory)).toEqual([]);
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+});
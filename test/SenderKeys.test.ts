@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SenderKeyRepository } from '../src/SenderKeys';
+import { MemoryAuthStateStore } from '../src/AuthState';
+
+const GROUP = '123456789-987654321@g.us';
+const ALICE = '40711111111@s.whatsapp.net';
+const BOB = '40722222222@s.whatsapp.net';
+
+describe('SenderKeyRepository', () => {
+    let own: SenderKeyRepository;
+    let member: SenderKeyRepository;
+    
+    beforeEach(() => {
+        own = new SenderKeyRepository(new MemoryAuthStateStore(), 'error');
+        member = new SenderKeyRepository(new MemoryAuthStateStore(), 'error');
+    });
+    
+    it('lets a member decrypt once it processed our distribution message', async () => {
+        const { keyId, message, pending } = await own.createDistributionMessage(GROUP, [ALICE, BOB]);
+        expect(pending).toEqual([ALICE, BOB]);
+        
+        await member.processDistributionMessage(GROUP, ALICE, message);
+        const first = await own.encrypt(GROUP, Buffer.from('one'), keyId);
+        const second = await own.encrypt(GROUP, Buffer.from('two'), keyId);
+        
+        expect((await member.decrypt(GROUP, ALICE, second)).toString()).toBe('two');
+        expect((await member.decrypt(GROUP, ALICE, first)).toString()).toBe('one');
+    });
+    
+    it('only lists participants that did not receive the current key', async () => {
+        const { keyId } = await own.createDistributionMessage(GROUP, [ALICE, BOB]);
+        await own.markDistributed(GROUP, [ALICE], keyId);
+        
+        const { pending } = await own.createDistributionMessage(GROUP, [ALICE, BOB]);
+        expect(pending).toEqual([BOB]);
+    });
+    
+    it('does not mark participants against a key rotated after the distribution', async () => {
+        const { keyId } = await own.createDistributionMessage(GROUP, [ALICE, BOB]);
+        await own.rotate(GROUP);
+        await own.markDistributed(GROUP, [ALICE, BOB], keyId);
+        
+        const next = await own.createDistributionMessage(GROUP, [ALICE, BOB]);
+        expect(next.keyId).not.toBe(keyId);
+        expect(next.pending).toEqual([ALICE, BOB]);
+    });
+    
+    it('refuses to encrypt with a key other than the one distributed', async () => {
+        const { keyId } = await own.createDistributionMessage(GROUP, [ALICE]);
+        await own.rotate(GROUP);
+        
+        await expect(own.encrypt(GROUP, Buffer.from('one'), keyId)).rejects.toMatchObject({ retryable: true });
+    });
+});
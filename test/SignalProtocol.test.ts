@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SignalRepository, generateSignedPreKey } from '../src/SignalProtocol';
+import { WAConnection } from '../src/WAConnection';
+import { MemoryAuthStateStore } from '../src/AuthState';
+import { sha256, sharedCurveKey } from '../src/Crypto';
+import { DEFAULT_CLIENT_OPTIONS } from '../src/Constants';
+import { KeyPair, PreKeyBundle } from '../src/Types';
+
+// Every keypair the session layer generates comes from a fixed sequence, so sessions are reproducible
+const keys = vi.hoisted(() => ({ next: 0 }));
+
+vi.mock('../src/Crypto', async importOriginal => {
+    const actual = await importOriginal<typeof import('../src/Crypto')>();
+    return {
+        ...actual,
+        generateCurveKeyPair: () => keyPairFromSeed(`keypair-${keys.next++}`)
+    };
+});
+
+const BASE_POINT = Buffer.concat([Buffer.from([9]), Buffer.alloc(31)]);
+
+function keyPairFromSeed(seed: string): KeyPair {
+    const privateKey = sha256(Buffer.from(seed));
+    return { public: sharedCurveKey(privateKey, BASE_POINT), private: privateKey };
+}
+
+interface Party {
+    connection: WAConnection;
+    store: MemoryAuthStateStore;
+    signal: SignalRepository;
+}
+
+function createParty(name: string, registrationId: number): Party {
+    const identityKeyPair = keyPairFromSeed(`${name}-identity`);
+    const signedPreKey = generateSignedPreKey(identityKeyPair, 1);
+    const connection = new WAConnection({ ...DEFAULT_CLIENT_OPTIONS, logLevel: 'error' });
+    connection.updateCredentials({
+        registrationId,
+        signedIdentityKey: {
+            public: identityKeyPair.public.toString('base64'),
+            private: identityKeyPair.private.toString('base64')
+        },
+        signedPreKey: {
+            keyId: signedPreKey.keyId,
+            public: signedPreKey.keyPair.public.toString('base64'),
+            private: signedPreKey.keyPair.private.toString('base64'),
+            signature: signedPreKey.signature.toString('base64')
+        },
+        nextPreKeyId: 1
+    });
+    
+    const store = new MemoryAuthStateStore();
+    return { connection, store, signal: new SignalRepository(connection, store, 'error') };
+}
+
+async function getBundle(party: Party): Promise<PreKeyBundle> {
+    const identity = party.signal.getLocalIdentity();
+    const [preKey] = await party.signal.generatePreKeys(1);
+    
+    return {
+        registrationId: identity.registrationId,
+        identityKey: identity.identityKeyPair.public,
+        signedPreKey: {
+            keyId: identity.signedPreKey.keyId,
+            publicKey: identity.signedPreKey.keyPair.public,
+            signature: identity.signedPreKey.signature
+        },
+        preKey
+    };
+}
+
+describe('SignalRepository sessions', () => {
+    let alice: Party;
+    let bob: Party;
+    
+    beforeEach(() => {
+        keys.next = 0;
+        alice = createParty('alice', 1111);
+        bob = createParty('bob', 2222);
+    });
+    
+    it('produces the same pre-key message for the same keys', async () => {
+        await alice.signal.injectSession('bob@s.whatsapp.net', await getBundle(bob));
+        const { type, ciphertext } = await alice.signal.encryptMessage('bob@s.whatsapp.net', Buffer.from('hello bob'));
+        
+        expect(type).toBe('pkmsg');
+        expect(sha256(ciphertext).toString('hex')).toBe('88ea4af521f146d32a0b9ec038f326bda3a5bd1add3be692a53ba05493c6cbbd');
+    });
+    
+    it('decrypts the pre-key message and switches to whisper messages once the other side replies', async () => {
+        await alice.signal.injectSession('bob@s.whatsapp.net', await getBundle(bob));
+        
+        const first = await alice.signal.encryptMessage('bob@s.whatsapp.net', Buffer.from('hello bob'));
+        expect((await bob.signal.decryptMessage('alice@s.whatsapp.net', first.type, first.ciphertext)).toString()).toBe('hello bob');
+        
+        const reply = await bob.signal.encryptMessage('alice@s.whatsapp.net', Buffer.from('hello alice'));
+        expect(reply.type).toBe('msg');
+        expect((await alice.signal.decryptMessage('bob@s.whatsapp.net', reply.type, reply.ciphertext)).toString()).toBe('hello alice');
+        
+        const next = await alice.signal.encryptMessage('bob@s.whatsapp.net', Buffer.from('how are you'));
+        expect(next.type).toBe('msg');
+        expect((await bob.signal.decryptMessage('alice@s.whatsapp.net', next.type, next.ciphertext)).toString()).toBe('how are you');
+    });
+    
+    it('decrypts messages that arrive out of order with the skipped message keys', async () => {
+        await alice.signal.injectSession('bob@s.whatsapp.net', await getBundle(bob));
+        const first = await alice.signal.encryptMessage('bob@s.whatsapp.net', Buffer.from('one'));
+        await bob.signal.decryptMessage('alice@s.whatsapp.net', first.type, first.ciphertext);
+        
+        const replies = [];
+        for (const text of ['two', 'three', 'four']) {
+            replies.push(await bob.signal.encryptMessage('alice@s.whatsapp.net', Buffer.from(text)));
+        }
+        
+        const decrypted = [];
+        for (const index of [2, 0, 1]) {
+            decrypted.push((await alice.signal.decryptMessage('bob@s.whatsapp.net', 'msg', replies[index].ciphertext)).toString());
+        }
+        expect(decrypted).toEqual(['four', 'two', 'three']);
+        
+        // A message key is used once
+        await expect(alice.signal.decryptMessage('bob@s.whatsapp.net', 'msg', replies[0].ciphertext)).rejects.toThrow();
+    });
+    
+    it('rejects a tampered message without advancing the session', async () => {
+        await alice.signal.injectSession('bob@s.whatsapp.net', await getBundle(bob));
+        const first = await alice.signal.encryptMessage('bob@s.whatsapp.net', Buffer.from('one'));
+        await bob.signal.decryptMessage('alice@s.whatsapp.net', first.type, first.ciphertext);
+        
+        const reply = await bob.signal.encryptMessage('alice@s.whatsapp.net', Buffer.from('two'));
+        const tampered = Buffer.from(reply.ciphertext);
+        tampered[tampered.length - 1] ^= 1;
+        
+        await expect(alice.signal.decryptMessage('bob@s.whatsapp.net', 'msg', tampered)).rejects.toThrow();
+        expect((await alice.signal.decryptMessage('bob@s.whatsapp.net', 'msg', reply.ciphertext)).toString()).toBe('two');
+    });
+    
+    it('hands out distinct pre-key ids to concurrent uploads', async () => {
+        const [first, second] = await Promise.all([
+            alice.signal.generatePreKeys(3),
+            alice.signal.generatePreKeys(3)
+        ]);
+        
+        const ids = [...first, ...second].map(preKey => preKey.keyId);
+        expect(new Set(ids).size).toBe(6);
+        expect(alice.connection.getCredentials()!.nextPreKeyId).toBe(7);
+        
+        for (const preKey of [...first, ...second]) {
+            const stored = await alice.store.get<KeyPair>('pre-key', String(preKey.keyId));
+            expect(stored!.public.equals(preKey.publicKey)).toBe(true);
+        }
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { StickerBuilder, isAnimatedSticker } from '../src/StickerBuilder';
+import { readWebpChunks, encodeWebp, WEBP_FLAG_ALPHA, WEBP_FLAG_EXIF, WEBP_FLAG_ANIMATION } from '../src/WebpCodec';
+import { encodeJpeg } from '../src/JpegCodec';
+import { getMediaMetadata } from '../src/MediaMetadata';
+import { RawImage } from '../src/Types';
+
+/**
+ * Image of a single opaque color
+ */
+function solid(width: number, height: number, color: number[]): RawImage {
+    const data = Buffer.alloc(width * height * 4);
+    for (let i = 0; i < data.length; i += 4) {
+        data.set([...color, 255], i);
+    }
+    return { width, height, data };
+}
+
+/**
+ * Sticker pack JSON stored in the EXIF chunk of a sticker, read back through its TIFF structure
+ */
+function readStickerExif(sticker: Buffer): any {
+    const exif = readWebpChunks(sticker).filter(chunk => chunk.type === 'EXIF');
+    expect(exif).toHaveLength(1);
+    
+    const tiff = exif[0].data;
+    expect(tiff.toString('latin1', 0, 2)).toBe('II');
+    const ifd = tiff.readUInt32LE(4);
+    expect(tiff.readUInt16LE(ifd)).toBe(1);
+    expect(tiff.readUInt16LE(ifd + 2)).toBe(0x5741);
+    
+    const length = tiff.readUInt32LE(ifd + 6);
+    const offset = tiff.readUInt32LE(ifd + 10);
+    return JSON.parse(tiff.toString('utf8', offset, offset + length));
+}
+
+describe('StickerBuilder', () => {
+    it('scales an image to a 512x512 WebP tagged with the pack metadata', () => {
+        const sticker = new StickerBuilder()
+            .setPackId('pack-1')
+            .setPackName('Pisici')
+            .setPublisher('Ana')
+            .setEmojis('😺', '❤️')
+            .build(encodeJpeg(solid(64, 32, [200, 30, 30])));
+        
+        expect(getMediaMetadata(sticker, 'image/webp')).toEqual({ width: 512, height: 512 });
+        expect(readWebpChunks(sticker).map(chunk => chunk.type)).toEqual(['VP8X', 'VP8L', 'EXIF']);
+        expect(readWebpChunks(sticker)[0].data[0]).toBe(WEBP_FLAG_ALPHA | WEBP_FLAG_EXIF);
+        expect(isAnimatedSticker(sticker)).toBe(false);
+        expect(readStickerExif(sticker)).toEqual({
+            'sticker-pack-id': 'pack-1',
+            'sticker-pack-name': 'Pisici',
+            'sticker-pack-publisher': 'Ana',
+            'emojis': ['😺', '❤️']
+        });
+    });
+    
+    it('replaces the metadata of a WebP sticker, keeping its image data', () => {
+        const original = new StickerBuilder({ packId: 'old', packName: 'Old' }).build(encodeJpeg(solid(16, 16, [0, 0, 255])));
+        const retagged = new StickerBuilder({ packId: 'new', publisher: 'Ion' }).build(original);
+        
+        expect(readStickerExif(retagged)).toEqual({
+            'sticker-pack-id': 'new',
+            'sticker-pack-name': '',
+            'sticker-pack-publisher': 'Ion',
+            'emojis': []
+        });
+        const image = (webp: Buffer) => readWebpChunks(webp).find(chunk => chunk.type === 'VP8L')!.data;
+        expect(image(retagged).equals(image(original))).toBe(true);
+        expect(getMediaMetadata(retagged, 'image/webp')).toEqual({ width: 512, height: 512 });
+    });
+    
+    it('tags a simple lossless WebP, adding the extended header', () => {
+        const sticker = new StickerBuilder({ packId: 'p' }).build(encodeWebp(solid(512, 512, [0, 255, 0])));
+        
+        expect(readWebpChunks(sticker).map(chunk => chunk.type)).toEqual(['VP8X', 'VP8L', 'EXIF']);
+        expect(readStickerExif(sticker)['sticker-pack-id']).toBe('p');
+    });
+    
+    it('rejects a WebP sticker that is not 512x512', () => {
+        expect(() => new StickerBuilder().build(encodeWebp(solid(100, 100, [0, 0, 0])))).toThrow(/must be 512x512, got 100x100/);
+    });
+    
+    it('builds an animated sticker with one frame per image', async () => {
+        const sticker = await new StickerBuilder({ packId: 'anim' }).buildAnimatedAsync([
+            { image: solid(32, 32, [255, 0, 0]), duration: 100 },
+            { image: solid(32, 32, [0, 0, 255]), duration: 250 }
+        ]);
+        
+        const chunks = readWebpChunks(sticker);
+        expect(chunks.map(chunk => chunk.type)).toEqual(['VP8X', 'ANIM', 'ANMF', 'ANMF', 'EXIF']);
+        expect(chunks[0].data[0] & WEBP_FLAG_ANIMATION).toBe(WEBP_FLAG_ANIMATION);
+        expect(chunks.filter(chunk => chunk.type === 'ANMF').map(chunk => chunk.data.readUIntLE(12, 3))).toEqual([100, 250]);
+        expect(getMediaMetadata(sticker, 'image/webp')).toEqual({ width: 512, height: 512 });
+        expect(isAnimatedSticker(sticker)).toBe(true);
+        expect(readStickerExif(sticker)['sticker-pack-id']).toBe('anim');
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { generateWaveform } from '../src/VoiceNote';
+
+// TOC byte of a single 20 ms SILK frame (configuration 1, code 0)
+const SILK_20MS = 0x08;
+
+/**
+ * Build an OGG stream with one packet per page; the parser does not check CRCs
+ * @param packets Packets, starting with the two header packets
+ */
+function createOgg(packets: Buffer[]): Buffer {
+    return Buffer.concat(packets.map((packet, sequence) => {
+        const segments = [];
+        for (let left = packet.length; ; left -= 255) {
+            segments.push(Math.min(left, 255));
+            if (left < 255) break;
+        }
+        
+        const header = Buffer.alloc(27);
+        header.write('OggS', 0, 'latin1');
+        header.writeUInt32LE(1234, 14);
+        header.writeUInt32LE(sequence, 18);
+        header[26] = segments.length;
+        return Buffer.concat([header, Buffer.from(segments), packet]);
+    }));
+}
+
+/**
+ * Build a voice note whose audio packets have the given sizes
+ * @param sizes Size of each 20 ms packet in bytes
+ */
+function createVoiceNote(sizes: number[]): Buffer {
+    return createOgg([
+        Buffer.from('OpusHead'),
+        Buffer.from('OpusTags'),
+        ...sizes.map(size => Buffer.concat([Buffer.from([SILK_20MS]), Buffer.alloc(size - 1, 0xaa)]))
+    ]);
+}
+
+describe('generateWaveform', () => {
+    it('follows the bitrate of variable bitrate audio', () => {
+        const sizes = [...Array(32).fill(3), ...Array(32).fill(120)];
+        const waveform = generateWaveform(createVoiceNote(sizes));
+        
+        expect(waveform.length).toBe(64);
+        expect(waveform[0]).toBe(3);
+        expect(waveform[63]).toBe(100);
+    });
+    
+    it('draws a flat waveform for constant bitrate audio', () => {
+        const waveform = generateWaveform(createVoiceNote(Array(64).fill(80)));
+        
+        expect(new Set(waveform).size).toBe(1);
+        expect(waveform[0]).toBeLessThan(100);
+        expect(waveform[0]).toBeGreaterThan(0);
+    });
+    
+    it('handles recordings too long to spread into Math.max', () => {
+        // Over an hour of 20 ms packets, louder in the second half
+        const sizes = Array.from({ length: 200000 }, (_, i) => i < 100000 ? 3 : 6);
+        const waveform = generateWaveform(createVoiceNote(sizes));
+        
+        expect(waveform[0]).toBe(50);
+        expect(waveform[63]).toBe(100);
+    });
+    
+    it('returns silence when there is no audio', () => {
+        expect(generateWaveform(createVoiceNote([])).every(sample => sample === 0)).toBe(true);
+    });
+});
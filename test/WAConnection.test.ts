@@ -0,0 +1,416 @@
+import { AddressInfo } from 'net';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import WebSocket, { WebSocketServer } from 'ws';
+import { WAConnection } from '../src/WAConnection';
+import { encodeBinaryNode, decodeBinaryNode, getBinaryNodeChild, getBinaryNodeChildBuffer } from '../src/WAProtocol';
+import { encodeProto, decodeProto, getProtoBytes, getProtoNumber, DecodedProto } from '../src/Protobuf';
+import {
+    generateCurveKeyPair,
+    sharedCurveKey,
+    hkdf,
+    sha256,
+    hmacSha256,
+    aesEncryptGCM,
+    aesDecryptGCM,
+    calculateSignature,
+    verifySignature
+} from '../src/Crypto';
+import { DEFAULT_CLIENT_OPTIONS, NOISE_MODE, NOISE_WA_HEADER, S_WHATSAPP_NET, WA_ADV_ACCOUNT_SIG_PREFIX, WA_ADV_DEVICE_SIG_PREFIX } from '../src/Constants';
+import { AuthError } from '../src/Errors';
+import { AuthenticationCredentials, BinaryNode, KeyPair } from '../src/Types';
+
+/**
+ * Server side of one connection: runs the responder half of the Noise XX handshake,
+ * then exchanges binary nodes like the WhatsApp server does
+ */
+class ServerSession {
+    clientPayload!: DecodedProto;
+    private hash: Buffer = Buffer.from(NOISE_MODE);
+    private salt: Buffer = this.hash;
+    private key: Buffer = this.hash;
+    private counter = 0;
+    private encKey?: Buffer;
+    private decKey?: Buffer;
+    private readCounter = 0;
+    private writeCounter = 0;
+    private staticKeyPair = generateCurveKeyPair();
+    private ephemeralKeyPair = generateCurveKeyPair();
+    private inBuffer: Buffer = Buffer.alloc(0);
+    private sawIntro = false;
+    private frames: Buffer[] = [];
+    private frameWaiter?: (frame: Buffer) => void;
+    private nodes: BinaryNode[] = [];
+    private nodeWaiter?: (node: BinaryNode) => void;
+    
+    constructor(private socket: WebSocket) {
+        this.mixHash(NOISE_WA_HEADER);
+        socket.on('message', (data: Buffer) => this.receive(data));
+    }
+    
+    async handshake(): Promise<void> {
+        // -> e
+        const clientHello = decodeProto(getProtoBytes(decodeProto(await this.nextFrame()), 2)!);
+        const clientEphemeral = getProtoBytes(clientHello, 1)!;
+        this.mixHash(clientEphemeral);
+        
+        // <- e, ee, s, es
+        this.mixHash(this.ephemeralKeyPair.public);
+        this.mixKey(sharedCurveKey(this.ephemeralKeyPair.private, clientEphemeral));
+        const staticEncrypted = this.encrypt(this.staticKeyPair.public);
+        this.mixKey(sharedCurveKey(this.staticKeyPair.private, clientEphemeral));
+        const certificate = this.encrypt(Buffer.from('certificate'));
+        this.sendFrame(encodeProto({
+            3: encodeProto({ 1: this.ephemeralKeyPair.public, 2: staticEncrypted, 3: certificate })
+        }));
+        
+        // -> s, se
+        const clientFinish = decodeProto(getProtoBytes(decodeProto(await this.nextFrame()), 4)!);
+        const clientStatic = this.decrypt(getProtoBytes(clientFinish, 1)!);
+        this.mixKey(sharedCurveKey(this.ephemeralKeyPair.private, clientStatic));
+        this.clientPayload = decodeProto(this.decrypt(getProtoBytes(clientFinish, 2)!));
+        
+        const keys = hkdf(Buffer.alloc(0), 64, { salt: this.salt });
+        this.decKey = keys.subarray(0, 32);
+        this.encKey = keys.subarray(32);
+        
+        for (const frame of this.frames.splice(0)) {
+            this.handleNode(frame);
+        }
+    }
+    
+    send(node: BinaryNode): void {
+        this.sendFrame(aesEncryptGCM(encodeBinaryNode(node), this.encKey!, generateIV(this.writeCounter++), Buffer.alloc(0)));
+    }
+    
+    nextNode(): Promise<BinaryNode> {
+        const node = this.nodes.shift();
+        return node ? Promise.resolve(node) : new Promise(resolve => this.nodeWaiter = resolve);
+    }
+    
+    /**
+     * Wait for the next node with a tag, skipping anything else
+     */
+    async expectNode(tag: string): Promise<BinaryNode> {
+        for (;;) {
+            const node = await this.nextNode();
+            if (node.tag === tag) {
+                return node;
+            }
+        }
+    }
+    
+    close(): void {
+        this.socket.close();
+    }
+    
+    private receive(data: Buffer): void {
+        this.inBuffer = Buffer.concat([this.inBuffer, data]);
+        if (!this.sawIntro && this.inBuffer.length >= NOISE_WA_HEADER.length) {
+            expect(this.inBuffer.subarray(0, NOISE_WA_HEADER.length).equals(NOISE_WA_HEADER)).toBe(true);
+            this.inBuffer = this.inBuffer.subarray(NOISE_WA_HEADER.length);
+            this.sawIntro = true;
+        }
+        
+        while (this.sawIntro && this.inBuffer.length >= 3) {
+            const length = this.inBuffer.readUIntBE(0, 3);
+            if (this.inBuffer.length < 3 + length) {
+                break;
+            }
+            
+            const frame = this.inBuffer.subarray(3, 3 + length);
+            this.inBuffer = this.inBuffer.subarray(3 + length);
+            
+            if (this.decKey) {
+                this.handleNode(frame);
+            } else if (this.frameWaiter) {
+                this.frameWaiter(frame);
+                this.frameWaiter = undefined;
+            } else {
+                this.frames.push(frame);
+            }
+        }
+    }
+    
+    private handleNode(frame: Buffer): void {
+        const node = decodeBinaryNode(aesDecryptGCM(frame, this.decKey!, generateIV(this.readCounter++), Buffer.alloc(0)));
+        if (this.nodeWaiter) {
+            this.nodeWaiter(node);
+            this.nodeWaiter = undefined;
+        } else {
+            this.nodes.push(node);
+        }
+    }
+    
+    private nextFrame(): Promise<Buffer> {
+        const frame = this.frames.shift();
+        return frame ? Promise.resolve(frame) : new Promise(resolve => this.frameWaiter = resolve);
+    }
+    
+    private sendFrame(data: Buffer): void {
+        const header = Buffer.alloc(3);
+        header.writeUIntBE(data.length, 0, 3);
+        this.socket.send(Buffer.concat([header, data]));
+    }
+    
+    private mixHash(data: Buffer): void {
+        this.hash = sha256(Buffer.concat([this.hash, data]));
+    }
+    
+    private mixKey(data: Buffer): void {
+        const key = hkdf(data, 64, { salt: this.salt });
+        this.salt = key.subarray(0, 32);
+        this.key = key.subarray(32);
+        this.counter = 0;
+    }
+    
+    private encrypt(plaintext: Buffer): Buffer {
+        const ciphertext = aesEncryptGCM(plaintext, this.key, generateIV(this.counter++), this.hash);
+        this.mixHash(ciphertext);
+        return ciphertext;
+    }
+    
+    private decrypt(ciphertext: Buffer): Buffer {
+        const plaintext = aesDecryptGCM(ciphertext, this.key, generateIV(this.counter++), this.hash);
+        this.mixHash(ciphertext);
+        return plaintext;
+    }
+}
+
+function generateIV(counter: number): Buffer {
+    const iv = Buffer.alloc(12);
+    iv.writeUInt32BE(counter, 8);
+    return iv;
+}
+
+/**
+ * Local stand-in for the WhatsApp WebSocket endpoint, handing out each connection once its handshake is done
+ */
+class HandshakeServer {
+    private server: WebSocketServer;
+    private sessions: Promise<ServerSession>[] = [];
+    private sessionWaiters: ((session: Promise<ServerSession>) => void)[] = [];
+    
+    constructor() {
+        this.server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+        this.server.on('connection', socket => {
+            const session = new ServerSession(socket);
+            const handshake = session.handshake().then(() => session);
+            const waiter = this.sessionWaiters.shift();
+            if (waiter) {
+                waiter(handshake);
+            } else {
+                this.sessions.push(handshake);
+            }
+        });
+    }
+    
+    async url(): Promise<string> {
+        await new Promise(resolve => this.server.address() ? resolve(undefined) : this.server.once('listening', resolve));
+        return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+    
+    nextSession(): Promise<ServerSession> {
+        const session = this.sessions.shift();
+        return session || new Promise<Promise<ServerSession>>(resolve => this.sessionWaiters.push(resolve)).then(next => next);
+    }
+    
+    close(): Promise<void> {
+        for (const client of this.server.clients) {
+            client.terminate();
+        }
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
+
+/**
+ * Pairing result the phone sends through the server: the device identity signed by the account,
+ * authenticated with the pairing secret from the QR code
+ */
+function createPairSuccess(credentials: AuthenticationCredentials, accountKeyPair: KeyPair, jid: string): BinaryNode {
+    const identityKey = Buffer.from(credentials.signedIdentityKey!.public, 'base64');
+    const deviceDetails = encodeProto({ 1: 1234, 2: Math.floor(Date.now() / 1000), 3: 1 });
+    const accountSignature = calculateSignature(
+        accountKeyPair.private,
+        Buffer.concat([WA_ADV_ACCOUNT_SIG_PREFIX, deviceDetails, identityKey])
+    );
+    const details = encodeProto({ 1: deviceDetails, 2: accountKeyPair.public, 3: accountSignature });
+    const hmac = hmacSha256(Buffer.from(credentials.advSecretKey!, 'base64'), details);
+    
+    return {
+        tag: 'iq',
+        attrs: { id: 'pair-success-1', type: 'set', from: S_WHATSAPP_NET, xmlns: 'md' },
+        content: [{
+            tag: 'pair-success',
+            attrs: {},
+            content: [
+                { tag: 'device-identity', attrs: {}, content: encodeProto({ 1: details, 2: hmac }) },
+                { tag: 'device', attrs: { jid } }
+            ]
+        }]
+    };
+}
+
+describe('WAConnection over a local handshake stand-in', () => {
+    let server: HandshakeServer;
+    let connection: WAConnection;
+    
+    beforeEach(async () => {
+        server = new HandshakeServer();
+        connection = new WAConnection({ ...DEFAULT_CLIENT_OPTIONS, waWebSocketUrl: await server.url(), logLevel: 'error' });
+    });
+    
+    afterEach(async () => {
+        await connection.disconnect();
+        await server.close();
+    });
+    
+    it('registers a new device with a ClientPayload and builds the QR code from the pairing refs', async () => {
+        const connecting = connection.connect();
+        const session = await server.nextSession();
+        await connecting;
+        
+        const credentials = connection.getCredentials()!;
+        const pairingData = decodeProto(getProtoBytes(session.clientPayload, 19)!);
+        expect(getProtoNumber(session.clientPayload, 3)).toBe(0);
+        expect(getProtoBytes(pairingData, 3)!.equals(Buffer.from(credentials.signedIdentityKey!.public, 'base64'))).toBe(true);
+        expect(getProtoBytes(pairingData, 5)!.equals(Buffer.from(credentials.signedPreKey!.public, 'base64'))).toBe(true);
+        expect(decodeProto(getProtoBytes(session.clientPayload, 5)!)[1]).toEqual([14]);
+        
+        session.send({
+            tag: 'iq',
+            attrs: { id: 'pair-device-1', type: 'set', from: S_WHATSAPP_NET, xmlns: 'md' },
+            content: [{
+                tag: 'pair-device',
+                attrs: {},
+                content: [
+                    { tag: 'ref', attrs: {}, content: Buffer.from('ref-1') },
+                    { tag: 'ref', attrs: {}, content: Buffer.from('ref-2') }
+                ]
+            }]
+        });
+        
+        expect(await connection.requestQRCode()).toBe([
+            'ref-1',
+            credentials.noiseKey!.public,
+            credentials.signedIdentityKey!.public,
+            credentials.advSecretKey
+        ].join(','));
+        expect((await session.expectNode('iq')).attrs).toMatchObject({ id: 'pair-device-1', type: 'result' });
+    });
+    
+    it('countersigns the pairing result and logs in once the server restarts the stream', async () => {
+        const connecting = connection.connect();
+        const registration = await server.nextSession();
+        await connecting;
+        
+        registration.send({
+            tag: 'iq',
+            attrs: { id: 'pair-device-1', type: 'set', from: S_WHATSAPP_NET, xmlns: 'md' },
+            content: [{ tag: 'pair-device', attrs: {}, content: [{ tag: 'ref', attrs: {}, content: Buffer.from('ref-1') }] }]
+        });
+        await connection.requestQRCode();
+        const authenticated = connection.waitForAuthentication();
+        
+        const accountKeyPair = generateCurveKeyPair();
+        registration.send(createPairSuccess(connection.getCredentials()!, accountKeyPair, '40712345678:3@s.whatsapp.net'));
+        
+        let reply = await registration.expectNode('iq');
+        while (reply.attrs.id !== 'pair-success-1') {
+            reply = await registration.expectNode('iq');
+        }
+        const deviceIdentity = getBinaryNodeChild(getBinaryNodeChild(reply, 'pair-device-sign'), 'device-identity')!;
+        const signed = decodeProto(deviceIdentity.content as Buffer);
+        const identityKey = Buffer.from(connection.getCredentials()!.signedIdentityKey!.public, 'base64');
+        expect(deviceIdentity.attrs['key-index']).toBe('1');
+        expect(getProtoBytes(signed, 2)).toBeUndefined();
+        expect(verifySignature(
+            identityKey,
+            Buffer.concat([WA_ADV_DEVICE_SIG_PREFIX, getProtoBytes(signed, 1)!, identityKey, accountKeyPair.public]),
+            getProtoBytes(signed, 4)!
+        )).toBe(true);
+        
+        // The server restarts the stream, and the device logs in as the linked account
+        registration.send({ tag: 'stream:error', attrs: { code: '515' } });
+        const login = await server.nextSession();
+        expect(getProtoNumber(login.clientPayload, 1)).toBe(40712345678);
+        expect(getProtoNumber(login.clientPayload, 18)).toBe(3);
+        expect(getProtoBytes(login.clientPayload, 19)).toBeUndefined();
+        
+        login.send({ tag: 'success', attrs: { lid: '1234567890:3@lid' } });
+        await authenticated;
+        expect(connection.isConnected()).toBe(true);
+        expect(connection.getCredentials()!.me).toMatchObject({ id: '40712345678:3@s.whatsapp.net', lid: '1234567890:3@lid' });
+        expect(connection.getCredentials()!.account).toBeDefined();
+    });
+    
+    it('resolves a query with the node that answers it', async () => {
+        const credentials: AuthenticationCredentials = { me: { id: '40712345678:3@s.whatsapp.net' } };
+        const connecting = connection.connectWithCredentials(credentials);
+        const session = await server.nextSession();
+        session.send({ tag: 'success', attrs: {} });
+        await connecting;
+        
+        const answer = connection.query({
+            tag: 'iq',
+            attrs: { to: S_WHATSAPP_NET, type: 'get', xmlns: 'w:p' },
+            content: [{ tag: 'ping', attrs: {} }]
+        });
+        
+        let ping = await session.expectNode('iq');
+        while (ping.attrs.xmlns !== 'w:p') {
+            ping = await session.expectNode('iq');
+        }
+        session.send({ tag: 'iq', attrs: { id: ping.attrs.id, type: 'result', from: S_WHATSAPP_NET }, content: [{ tag: 'pong', attrs: {}, content: Buffer.from('ok') }] });
+        
+        expect(getBinaryNodeChildBuffer(await answer, 'pong')!.toString()).toBe('ok');
+    });
+    
+    it('hands on only the envelope types it can decrypt', async () => {
+        const credentials: AuthenticationCredentials = { me: { id: '40712345678:3@s.whatsapp.net' } };
+        const connecting = connection.connectWithCredentials(credentials);
+        const session = await server.nextSession();
+        session.send({ tag: 'success', attrs: {} });
+        await connecting;
+        
+        const messages: any[] = [];
+        const nodes: BinaryNode[] = [];
+        connection.on('encrypted_message', message => messages.push(message));
+        connection.on('node', node => nodes.push(node));
+        
+        session.send({
+            tag: 'message',
+            attrs: { id: 'msg-1', from: '40722222222@s.whatsapp.net', t: '1700000000' },
+            content: [{ tag: 'enc', attrs: { v: '2', type: 'frskmsg' }, content: Buffer.from('unknown') }]
+        });
+        session.send({
+            tag: 'message',
+            attrs: { id: 'msg-2', from: '120363000000000000@g.us', participant: '40722222222@s.whatsapp.net' },
+            content: [
+                { tag: 'enc', attrs: { v: '2', type: 'unknown' }, content: Buffer.from('unknown') },
+                { tag: 'enc', attrs: { v: '2', type: 'pkmsg' }, content: Buffer.from('distribution') },
+                { tag: 'enc', attrs: { v: '2', type: 'skmsg' }, content: Buffer.from('group') }
+            ]
+        });
+        
+        await session.expectNode('ack');
+        await session.expectNode('ack');
+        expect(nodes).toEqual([]);
+        expect(messages).toEqual([{
+            id: 'msg-2',
+            from: '120363000000000000@g.us',
+            participant: '40722222222@s.whatsapp.net',
+            timestamp: undefined,
+            enc: { type: 'skmsg', ciphertext: Buffer.from('group').toString('base64') },
+            distribution: { type: 'pkmsg', ciphertext: Buffer.from('distribution').toString('base64') }
+        }]);
+    });
+    
+    it('fails to log in when the server rejects the device', async () => {
+        const credentials: AuthenticationCredentials = { me: { id: '40712345678:3@s.whatsapp.net' } };
+        const connecting = connection.connectWithCredentials(credentials);
+        const session = await server.nextSession();
+        session.send({ tag: 'failure', attrs: { reason: '401' } });
+        
+        await expect(connecting).rejects.toBeInstanceOf(AuthError);
+    });
+});
@@ -0,0 +1,103 @@
+import zlib from 'zlib';
+import { describe, it, expect } from 'vitest';
+import { encodeBinaryNode, decodeBinaryNode } from '../src/WAProtocol';
+import { BINARY_TAGS, SINGLE_BYTE_TOKENS, DOUBLE_BYTE_TOKENS } from '../src/Constants';
+import { BinaryNode } from '../src/Types';
+
+function roundTrip(node: BinaryNode): BinaryNode {
+    return decodeBinaryNode(encodeBinaryNode(node));
+}
+
+describe('binary node dictionaries', () => {
+    it('ships the full v3 dictionaries in order', () => {
+        expect(SINGLE_BYTE_TOKENS).toHaveLength(236);
+        expect(SINGLE_BYTE_TOKENS[9]).toBe('notification');
+        expect(SINGLE_BYTE_TOKENS[19]).toBe('message');
+        expect(DOUBLE_BYTE_TOKENS.map(tokens => tokens.length)).toEqual([256, 256, 256, 256]);
+        expect(DOUBLE_BYTE_TOKENS[0][0]).toBe('read-self');
+    });
+    
+    it('decodes a server frame tagged with a high single-byte token', () => {
+        expect(decodeBinaryNode(Buffer.from([0, BINARY_TAGS.LIST_8, 1, 200]))).toEqual({
+            tag: SINGLE_BYTE_TOKENS[200],
+            attrs: {}
+        });
+    });
+    
+    it('writes single-byte and double-byte tokens as their indexes', () => {
+        const encoded = encodeBinaryNode({ tag: 'message', attrs: { type: DOUBLE_BYTE_TOKENS[1][5] } });
+        expect([...encoded]).toEqual([
+            0, BINARY_TAGS.LIST_8, 3,
+            SINGLE_BYTE_TOKENS.indexOf('message'),
+            SINGLE_BYTE_TOKENS.indexOf('type'),
+            BINARY_TAGS.DICTIONARY_1, 5
+        ]);
+        expect(decodeBinaryNode(encoded)).toEqual({ tag: 'message', attrs: { type: DOUBLE_BYTE_TOKENS[1][5] } });
+    });
+});
+
+describe('binary node round trips', () => {
+    it('keeps attributes, raw strings and nested children', () => {
+        const node: BinaryNode = {
+            tag: 'iq',
+            attrs: { id: 'custom-tag', xmlns: 'w:g2', type: 'get', subject: 'Grupul nostru ✓', empty: '' },
+            content: [
+                { tag: 'query', attrs: { request: 'interactive' } },
+                { tag: 'list', attrs: {}, content: [{ tag: 'item', attrs: { value: 'x' } }] }
+            ]
+        };
+        expect(roundTrip(node)).toEqual(node);
+    });
+    
+    it('returns text content as the bytes it was given', () => {
+        expect(roundTrip({ tag: 'body', attrs: {}, content: Buffer.from('hello') })).toEqual({
+            tag: 'body',
+            attrs: {},
+            content: Buffer.from('hello')
+        });
+    });
+    
+    it('keeps byte content of every length class', () => {
+        for (const length of [0, 255, 256, (1 << 20) + 1]) {
+            const content = Buffer.alloc(length, 7);
+            const decoded = roundTrip({ tag: 'enc', attrs: { v: '2' }, content }).content as Buffer;
+            expect(decoded.length).toBe(length);
+            expect(decoded.equals(content)).toBe(true);
+        }
+    });
+    
+    it('encodes user and group JIDs as JID_PAIR', () => {
+        const encoded = encodeBinaryNode({ tag: 'to', attrs: { jid: '123-456@g.us' } });
+        expect(encoded.includes(BINARY_TAGS.JID_PAIR)).toBe(true);
+        expect(roundTrip({ tag: 'to', attrs: { jid: '40712345678@s.whatsapp.net', group: '123-456@g.us' } }).attrs)
+            .toEqual({ jid: '40712345678@s.whatsapp.net', group: '123-456@g.us' });
+    });
+    
+    it('encodes device JIDs as AD_JID for phone numbers and LIDs', () => {
+        const encoded = encodeBinaryNode({ tag: 'to', attrs: { jid: '40712345678:3@s.whatsapp.net' } });
+        const start = encoded.indexOf(BINARY_TAGS.AD_JID);
+        expect([...encoded.subarray(start, start + 3)]).toEqual([BINARY_TAGS.AD_JID, 0, 3]);
+        expect(roundTrip({ tag: 'to', attrs: { a: '40712345678:3@s.whatsapp.net', b: '9876543210:12@lid' } }).attrs)
+            .toEqual({ a: '40712345678:3@s.whatsapp.net', b: '9876543210:12@lid' });
+    });
+    
+    it('packs digits into nibbles and uppercase hex into hex bytes', () => {
+        const even = encodeBinaryNode({ tag: 'iq', attrs: { t: '1700000000' } });
+        expect([...even.subarray(-7)]).toEqual([BINARY_TAGS.NIBBLE_8, 5, 0x17, 0x00, 0x00, 0x00, 0x00]);
+        
+        const odd = encodeBinaryNode({ tag: 'iq', attrs: { v: '1.2-3' } });
+        expect([...odd.subarray(-5)]).toEqual([BINARY_TAGS.NIBBLE_8, 0x83, 0x1b, 0x2a, 0x3f]);
+        
+        const hex = encodeBinaryNode({ tag: 'iq', attrs: { id: '3EB0A1' } });
+        expect([...hex.subarray(-5)]).toEqual([BINARY_TAGS.HEX_8, 3, 0x3e, 0xb0, 0xa1]);
+        
+        const attrs = { t: '1700000000', v: '1.2-3', id: '3EB0A1F', lower: '3eb0a1' };
+        expect(roundTrip({ tag: 'iq', attrs }).attrs).toEqual(attrs);
+    });
+    
+    it('inflates compressed frames', () => {
+        const encoded = encodeBinaryNode({ tag: 'iq', attrs: { id: 'abc' } });
+        const compressed = Buffer.concat([Buffer.from([2]), zlib.deflateSync(encoded.subarray(1))]);
+        expect(decodeBinaryNode(compressed)).toEqual({ tag: 'iq', attrs: { id: 'abc' } });
+    });
+});